@@ -0,0 +1,123 @@
+import {
+  ANALYSIS_SCHEMA_VERSION,
+  estimatePackedAnalysisBytes,
+  packAnalysis,
+  unpackAnalysis,
+  type PackedAnalysis
+} from "./analysis-codec";
+import type { AudioAnalysisResult } from "./types";
+
+const DATABASE_NAME = "audio-starfighter";
+const DATABASE_VERSION = 1;
+const STORE_NAME = "analyses";
+
+type CachedAnalysisRecord = {
+  hash: string;
+  fileName: string;
+  sizeBytes: number;
+  createdAt: number;
+  analysis: PackedAnalysis;
+};
+
+export type CachedAnalysisSummary = {
+  hash: string;
+  fileName: string;
+  sizeBytes: number;
+  createdAt: number;
+  durationSeconds: number;
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/** SHA-256 of the raw file bytes, hex encoded. */
+export async function hashAudioBytes(bytes: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function isAnalysisCacheAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+export async function loadCachedAnalysis(hash: string): Promise<AudioAnalysisResult | null> {
+  const record = await runRequest<CachedAnalysisRecord | undefined>("readonly", (store) => store.get(hash));
+  if (!record) {
+    return null;
+  }
+  if (record.analysis.schemaVersion !== ANALYSIS_SCHEMA_VERSION) {
+    await deleteCachedAnalysis(hash);
+    return null;
+  }
+  return unpackAnalysis(record.analysis);
+}
+
+export async function saveCachedAnalysis(hash: string, analysis: AudioAnalysisResult): Promise<void> {
+  const packed = packAnalysis(analysis);
+  const record: CachedAnalysisRecord = {
+    hash,
+    fileName: analysis.fileName,
+    sizeBytes: estimatePackedAnalysisBytes(packed),
+    createdAt: Date.now(),
+    analysis: packed
+  };
+  await runRequest("readwrite", (store) => store.put(record));
+}
+
+export async function listCachedAnalyses(): Promise<CachedAnalysisSummary[]> {
+  const records = await runRequest<CachedAnalysisRecord[]>("readonly", (store) => store.getAll());
+  return records
+    .map((record) => ({
+      hash: record.hash,
+      fileName: record.fileName,
+      sizeBytes: record.sizeBytes,
+      createdAt: record.createdAt,
+      durationSeconds: record.analysis.durationSeconds
+    }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function deleteCachedAnalysis(hash: string): Promise<void> {
+  await runRequest("readwrite", (store) => store.delete(hash));
+}
+
+export async function clearAnalysisCache(): Promise<void> {
+  await runRequest("readwrite", (store) => store.clear());
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!isAnalysisCacheAvailable()) {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(STORE_NAME)) {
+          database.createObjectStore(STORE_NAME, { keyPath: "hash" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error("Failed to open analysis cache"));
+    }).catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode);
+    const request = createRequest(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error ?? new Error("Analysis cache request failed"));
+    transaction.onabort = () => reject(transaction.error ?? new Error("Analysis cache request aborted"));
+  });
+}
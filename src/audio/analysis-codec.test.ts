@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { ANALYSIS_SCHEMA_VERSION, packAnalysis, unpackAnalysis } from "./analysis-codec";
+import type { AudioAnalysisResult } from "./types";
+
+function buildAnalysis(): AudioAnalysisResult {
+  return {
+    fileName: "track.mp3",
+    durationSeconds: 2,
+    sampleRate: 44100,
+    waveformLeft: new Float32Array([0.1, 0.4, 0.2]),
+    waveformRight: new Float32Array([0.3, 0.5, 0.1]),
+    frames: [
+      { timeSeconds: 0, rms: 0.25, flux: 0.5, centroid: 0.125, rolloff: 0.5, flatness: 0.25, onset: 0, intensity: 0.75 },
+      { timeSeconds: 0.5, rms: 0.5, flux: 0.25, centroid: 0.25, rolloff: 0.75, flatness: 0.125, onset: 1, intensity: 0.5 }
+    ],
+    spectrum: {
+      frameHopSeconds: 0.5,
+      frameCount: 2,
+      binCount: 2,
+      bins: new Float32Array([0.1, 0.2, 0.3, 0.4]),
+      beatEnvelope: new Float32Array([1, 0])
+    },
+    beat: {
+      bpm: 120,
+      beatTimesSeconds: [0, 0.5, 1, 1.5],
+      beatIntervalSeconds: 0.5,
+      confidence: 0.8,
+      tempoMap: [{ timeSeconds: 0, bpm: 120 }],
+      meter: "4/4",
+      beatsPerBar: 4,
+      meterConfidence: 0.6,
+      downbeatIndices: [0],
+      barTimesSeconds: [0]
+    },
+    mood: {
+      label: "driving",
+      confidence: 0.7,
+      timeline: [{ timeSeconds: 0, label: "driving", confidence: 0.7 }]
+    },
+    sections: [{ startSeconds: 0, endSeconds: 2, label: "verse", energy: 0.5 }],
+    cues: [{ timeSeconds: 0.5, strength: 0.9, source: "beat" }]
+  };
+}
+
+describe("analysis codec", () => {
+  it("round-trips an analysis through the packed form", () => {
+    const analysis = buildAnalysis();
+    const packed = packAnalysis(analysis);
+
+    expect(packed.schemaVersion).toBe(ANALYSIS_SCHEMA_VERSION);
+    expect(packed.frameData).toBeInstanceOf(Float32Array);
+    expect(unpackAnalysis(structuredClone(packed))).toEqual(analysis);
+  });
+
+  it("rejects packed analyses from another schema version", () => {
+    const packed = { ...packAnalysis(buildAnalysis()), schemaVersion: ANALYSIS_SCHEMA_VERSION + 1 };
+    expect(() => unpackAnalysis(packed)).toThrow(/schema version/);
+  });
+});
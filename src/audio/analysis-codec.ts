@@ -0,0 +1,81 @@
+import type { AudioAnalysisResult, FeatureFrame } from "./types";
+
+/**
+ * Bump whenever AudioAnalysisResult or the packed layout changes; stored
+ * analyses with another version are treated as missing.
+ */
+export const ANALYSIS_SCHEMA_VERSION = 3;
+
+export const FRAME_STRIDE = 8;
+
+/**
+ * Compact, structured-clone friendly form of an analysis. Feature frames are
+ * flattened into one Float32Array instead of thousands of small objects.
+ */
+export type PackedAnalysis = Omit<AudioAnalysisResult, "frames"> & {
+  schemaVersion: number;
+  frameData: Float32Array;
+};
+
+export function packAnalysis(analysis: AudioAnalysisResult): PackedAnalysis {
+  const { frames, ...rest } = analysis;
+  const frameData = new Float32Array(frames.length * FRAME_STRIDE);
+  frames.forEach((frame, index) => {
+    const offset = index * FRAME_STRIDE;
+    frameData[offset] = frame.timeSeconds;
+    frameData[offset + 1] = frame.rms;
+    frameData[offset + 2] = frame.flux;
+    frameData[offset + 3] = frame.centroid;
+    frameData[offset + 4] = frame.rolloff;
+    frameData[offset + 5] = frame.flatness;
+    frameData[offset + 6] = frame.onset;
+    frameData[offset + 7] = frame.intensity;
+  });
+
+  return {
+    ...rest,
+    schemaVersion: ANALYSIS_SCHEMA_VERSION,
+    frameData
+  };
+}
+
+export function unpackAnalysis(packed: PackedAnalysis): AudioAnalysisResult {
+  if (packed.schemaVersion !== ANALYSIS_SCHEMA_VERSION) {
+    throw new Error(
+      `Unsupported analysis schema version ${packed.schemaVersion} (expected ${ANALYSIS_SCHEMA_VERSION})`
+    );
+  }
+
+  const { schemaVersion: _schemaVersion, frameData, ...rest } = packed;
+  const frames: FeatureFrame[] = [];
+  for (let offset = 0; offset + FRAME_STRIDE <= frameData.length; offset += FRAME_STRIDE) {
+    frames.push({
+      timeSeconds: frameData[offset],
+      rms: frameData[offset + 1],
+      flux: frameData[offset + 2],
+      centroid: frameData[offset + 3],
+      rolloff: frameData[offset + 4],
+      flatness: frameData[offset + 5],
+      onset: frameData[offset + 6],
+      intensity: frameData[offset + 7]
+    });
+  }
+
+  return {
+    ...rest,
+    frames
+  };
+}
+
+/** Approximate stored size: typed-array payloads plus the JSON-sized remainder. */
+export function estimatePackedAnalysisBytes(packed: PackedAnalysis): number {
+  const { frameData, waveformLeft, waveformRight, spectrum, ...rest } = packed;
+  return (
+    frameData.byteLength +
+    waveformLeft.byteLength +
+    waveformRight.byteLength +
+    spectrum.bins.byteLength +
+    spectrum.beatEnvelope.byteLength +
+    JSON.stringify(rest).length
+  );
+}
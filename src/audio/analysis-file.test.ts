@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import { ANALYSIS_FILE_FORMAT, parseAnalysisFile, serializeAnalysisFile } from "./analysis-file";
+import type { AudioAnalysisResult } from "./types";
+
+function buildAnalysis(): AudioAnalysisResult {
+  return {
+    fileName: "track.mp3",
+    durationSeconds: 2,
+    sampleRate: 44100,
+    waveformLeft: new Float32Array([0.1, 0.4, 0.2]),
+    waveformRight: new Float32Array([0.3, 0.5, 0.1]),
+    frames: [
+      { timeSeconds: 0, rms: 0.25, flux: 0.5, centroid: 0.125, rolloff: 0.5, flatness: 0.25, onset: 0, intensity: 0.75 },
+      { timeSeconds: 0.5, rms: 0.5, flux: 0.25, centroid: 0.25, rolloff: 0.75, flatness: 0.125, onset: 1, intensity: 0.5 }
+    ],
+    spectrum: {
+      frameHopSeconds: 0.5,
+      frameCount: 2,
+      binCount: 2,
+      bins: new Float32Array([0.1, 0.2, 0.3, 0.4]),
+      beatEnvelope: new Float32Array([1, 0])
+    },
+    beat: {
+      bpm: 120,
+      beatTimesSeconds: [0, 0.5, 1, 1.5],
+      beatIntervalSeconds: 0.5,
+      confidence: 0.8,
+      tempoMap: [{ timeSeconds: 0, bpm: 120 }],
+      meter: "4/4",
+      beatsPerBar: 4,
+      meterConfidence: 0.6,
+      downbeatIndices: [0],
+      barTimesSeconds: [0]
+    },
+    mood: {
+      label: "driving",
+      confidence: 0.7,
+      timeline: [{ timeSeconds: 0, label: "driving", confidence: 0.7 }]
+    },
+    sections: [{ startSeconds: 0, endSeconds: 2, label: "verse", energy: 0.5 }],
+    cues: [
+      { timeSeconds: 0.5, strength: 0.9, source: "beat" },
+      { timeSeconds: 1.25, strength: 0.6, source: "peak" }
+    ]
+  };
+}
+
+describe("analysis file", () => {
+  it("round-trips analysis, seed and combat config", () => {
+    const analysis = buildAnalysis();
+    const combatConfig = { shipWeapons: { purpleMissile: true }, enemyRoster: { spawnScale: 1.5 } };
+    const text = serializeAnalysisFile({ analysis, seed: 42, combatConfig });
+
+    expect(JSON.parse(text).format).toBe(ANALYSIS_FILE_FORMAT);
+    expect(parseAnalysisFile(text)).toEqual({ analysis, seed: 42, combatConfig });
+  });
+
+  it("accepts hand-edited cue sheets", () => {
+    const file = JSON.parse(serializeAnalysisFile({ analysis: buildAnalysis(), seed: 7, combatConfig: {} }));
+    file.cues = [
+      { timeSeconds: 1.5, strength: 0.4, source: "peak" },
+      { timeSeconds: 0.75 },
+      { timeSeconds: "soon" },
+      { timeSeconds: 9, strength: 1, source: "beat" }
+    ];
+
+    expect(parseAnalysisFile(JSON.stringify(file)).analysis.cues).toEqual([
+      { timeSeconds: 0.75, strength: 1, source: "beat" },
+      { timeSeconds: 1.5, strength: 0.4, source: "peak" }
+    ]);
+  });
+
+  it("carries a hand-authored wave script at the top level", () => {
+    const waves = { waves: [{ bar: 1, archetype: "redCube", formation: "vee", count: 5 }] };
+    const file = JSON.parse(serializeAnalysisFile({ analysis: buildAnalysis(), seed: 7, combatConfig: {}, waves }));
+
+    expect(file.waves).toEqual(waves);
+    expect(parseAnalysisFile(JSON.stringify(file)).waves).toEqual(waves);
+
+    delete file.waves;
+    expect(parseAnalysisFile(JSON.stringify(file))).not.toHaveProperty("waves");
+  });
+
+  it("upgrades version 1 files that predate rolloff and flatness", () => {
+    const file = JSON.parse(serializeAnalysisFile({ analysis: buildAnalysis(), seed: 7, combatConfig: {} }));
+    const v1Frames = new Float32Array([0, 0.25, 0.5, 0.125, 0, 0.75, 0.5, 0.5, 0.25, 0.25, 1, 0.5]);
+    file.version = 1;
+    file.analysis.frameData = btoa(String.fromCharCode(...new Uint8Array(v1Frames.buffer)));
+
+    expect(parseAnalysisFile(JSON.stringify(file)).analysis.frames).toEqual([
+      { timeSeconds: 0, rms: 0.25, flux: 0.5, centroid: 0.125, rolloff: 0, flatness: 0, onset: 0, intensity: 0.75 },
+      { timeSeconds: 0.5, rms: 0.5, flux: 0.25, centroid: 0.25, rolloff: 0, flatness: 0, onset: 1, intensity: 0.5 }
+    ]);
+  });
+
+  it("rejects unknown formats and versions", () => {
+    const file = JSON.parse(serializeAnalysisFile({ analysis: buildAnalysis(), seed: 7, combatConfig: {} }));
+
+    expect(() => parseAnalysisFile("{")).toThrow(/not valid JSON/);
+    expect(() => parseAnalysisFile(JSON.stringify({ ...file, format: "other" }))).toThrow(/format/);
+    expect(() => parseAnalysisFile(JSON.stringify({ ...file, version: 99 }))).toThrow(/version 99/);
+  });
+
+  it("rejects payloads whose frames or spectrum do not add up", () => {
+    const file = JSON.parse(serializeAnalysisFile({ analysis: buildAnalysis(), seed: 7, combatConfig: {} }));
+    const encode = (values: number[]) => btoa(String.fromCharCode(...new Uint8Array(new Float32Array(values).buffer)));
+
+    expect(() =>
+      parseAnalysisFile(JSON.stringify({ ...file, analysis: { ...file.analysis, durationSeconds: -1 } }))
+    ).toThrow(/durationSeconds/);
+    expect(() =>
+      parseAnalysisFile(JSON.stringify({ ...file, analysis: { ...file.analysis, frameData: encode([0, 1, 2]) } }))
+    ).toThrow(/whole frames/);
+    expect(() =>
+      parseAnalysisFile(
+        JSON.stringify({
+          ...file,
+          analysis: { ...file.analysis, frameData: encode([1, 0, 0, 0, 0, 0, 0, 0, 0.5, 0, 0, 0, 0, 0, 0, 0]) }
+        })
+      )
+    ).toThrow(/frame 2 is out of order/);
+    expect(() =>
+      parseAnalysisFile(
+        JSON.stringify({ ...file, analysis: { ...file.analysis, frameData: encode([0, NaN, 0, 0, 0, 0, 0, 0]) } })
+      )
+    ).toThrow(/non-finite/);
+    expect(() =>
+      parseAnalysisFile(
+        JSON.stringify({ ...file, analysis: { ...file.analysis, spectrum: { ...file.analysis.spectrum, binCount: 3 } } })
+      )
+    ).toThrow(/spectrum size/);
+    expect(() => parseAnalysisFile(JSON.stringify({ ...file, analysis: { ...file.analysis, beat: null } }))).toThrow(
+      /beat analysis/
+    );
+  });
+
+  it("rejects combat configs with blocks of the wrong type", () => {
+    const file = JSON.parse(serializeAnalysisFile({ analysis: buildAnalysis(), seed: 7, combatConfig: {} }));
+    const parseWith = (combatConfig: unknown) => () => parseAnalysisFile(JSON.stringify({ ...file, combatConfig }));
+
+    expect(parseWith("loud")).toThrow(/combatConfig must be an object/);
+    expect(parseWith({ shipWeapons: ["blue"] })).toThrow(/shipWeapons/);
+    expect(parseWith({ shipWeapons: { blue: "yes" } })).toThrow(/shipWeapons/);
+    expect(parseWith({ enemyRoster: { enabledArchetypes: "redCube" } })).toThrow(/enabledArchetypes/);
+    expect(parseWith({ enemyRoster: { spawnScale: "2" } })).toThrow(/scales/);
+    expect(parseWith({ scoring: { perfectWindowMs: -5 } })).toThrow(/scoring/);
+    expect(parseWith({ scoring: 25 })).toThrow(/scoring/);
+    expect(parseAnalysisFile(JSON.stringify({ ...file, combatConfig: undefined })).combatConfig).toEqual({});
+  });
+});
@@ -0,0 +1,338 @@
+import type { CombatConfigPatch } from "../game/combatConfig";
+import {
+  ANALYSIS_SCHEMA_VERSION,
+  FRAME_STRIDE,
+  packAnalysis,
+  unpackAnalysis,
+  type PackedAnalysis
+} from "./analysis-codec";
+import { ONSET_BANDS } from "./onset-bands";
+import type { AudioAnalysisResult, CuePoint, CueSource } from "./types";
+
+const CUE_SOURCES: CueSource[] = ["beat", "peak", "onset"];
+/** Version 1 packed frames without rolloff/flatness. */
+const V1_FRAME_STRIDE = 6;
+
+export const ANALYSIS_FILE_FORMAT = "audio-starfighter.analysis";
+export const ANALYSIS_FILE_VERSION = 2;
+export const ANALYSIS_FILE_EXTENSION = ".starfighter.json";
+
+export type AnalysisFileContents = {
+  analysis: AudioAnalysisResult;
+  seed: number;
+  combatConfig: CombatConfigPatch;
+  /** The file's authored `waves` block, passed through for the game to validate. */
+  waves?: unknown;
+};
+
+type EncodedSpectrum = Omit<PackedAnalysis["spectrum"], "bins" | "beatEnvelope"> & {
+  bins: string;
+  beatEnvelope: string;
+};
+
+/**
+ * On-disk analysis: the packed analysis with typed arrays as base64 strings.
+ * Cues and the optional wave script live at the top level so they can be
+ * hand-edited without touching the encoded payload.
+ */
+type EncodedAnalysis = Omit<
+  PackedAnalysis,
+  "cues" | "frameData" | "waveformLeft" | "waveformRight" | "spectrum"
+> & {
+  frameData: string;
+  waveformLeft: string;
+  waveformRight: string;
+  spectrum: EncodedSpectrum;
+};
+
+type AnalysisFile = {
+  format: typeof ANALYSIS_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  seed: number;
+  combatConfig: CombatConfigPatch;
+  cues: CuePoint[];
+  waves?: unknown;
+  analysis: EncodedAnalysis;
+};
+
+export function serializeAnalysisFile(contents: AnalysisFileContents): string {
+  const { cues, frameData, waveformLeft, waveformRight, spectrum, ...rest } = packAnalysis(
+    contents.analysis
+  );
+  const file: AnalysisFile = {
+    format: ANALYSIS_FILE_FORMAT,
+    version: ANALYSIS_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    seed: contents.seed,
+    combatConfig: contents.combatConfig,
+    cues,
+    ...(contents.waves !== undefined ? { waves: contents.waves } : {}),
+    analysis: {
+      ...rest,
+      frameData: encodeFloat32(frameData),
+      waveformLeft: encodeFloat32(waveformLeft),
+      waveformRight: encodeFloat32(waveformRight),
+      spectrum: {
+        ...spectrum,
+        bins: encodeFloat32(spectrum.bins),
+        beatEnvelope: encodeFloat32(spectrum.beatEnvelope)
+      }
+    }
+  };
+  return JSON.stringify(file);
+}
+
+export function parseAnalysisFile(text: string): AnalysisFileContents {
+  let file: Partial<AnalysisFile>;
+  try {
+    file = JSON.parse(text) as Partial<AnalysisFile>;
+  } catch {
+    throw new Error("Invalid analysis file: not valid JSON");
+  }
+
+  if (!isRecord(file) || file.format !== ANALYSIS_FILE_FORMAT) {
+    throw new Error("Invalid analysis file: unrecognized format");
+  }
+  if (file.version !== 1 && file.version !== ANALYSIS_FILE_VERSION) {
+    throw new Error(
+      `Unsupported analysis file version ${String(file.version)} (expected ${ANALYSIS_FILE_VERSION})`
+    );
+  }
+  if (typeof file.seed !== "number" || !Number.isFinite(file.seed)) {
+    throw new Error("Invalid analysis file: missing seed");
+  }
+  if (!isRecord(file.analysis) || !isRecord(file.analysis.spectrum)) {
+    throw new Error("Invalid analysis file: missing analysis");
+  }
+
+  const { frameData, waveformLeft, waveformRight, spectrum, ...rest } = file.analysis;
+  validateAnalysisFields(rest);
+  const decodedFrameData = decodeFloat32(frameData, "frameData");
+  const packed: PackedAnalysis = {
+    ...rest,
+    // The file version gates compatibility; analysis fields added since
+    // version 1 of the file format are optional.
+    schemaVersion: ANALYSIS_SCHEMA_VERSION,
+    cues: parseCues(file.cues, rest.durationSeconds),
+    frameData:
+      file.version === 1
+        ? upgradeV1FrameData(checkFrameData(decodedFrameData, V1_FRAME_STRIDE, rest.durationSeconds))
+        : checkFrameData(decodedFrameData, FRAME_STRIDE, rest.durationSeconds),
+    waveformLeft: decodeFloat32(waveformLeft, "waveformLeft"),
+    waveformRight: decodeFloat32(waveformRight, "waveformRight"),
+    spectrum: {
+      ...spectrum,
+      bins: decodeFloat32(spectrum.bins, "spectrum.bins"),
+      beatEnvelope: decodeFloat32(spectrum.beatEnvelope, "spectrum.beatEnvelope")
+    }
+  };
+
+  validateSpectrum(packed.spectrum);
+
+  return {
+    analysis: unpackAnalysis(packed),
+    seed: Math.trunc(file.seed),
+    combatConfig: parseCombatConfig(file.combatConfig),
+    ...(file.waves !== undefined ? { waves: file.waves } : {})
+  };
+}
+
+function validateAnalysisFields(analysis: Record<string, unknown>): void {
+  if (typeof analysis.fileName !== "string" || analysis.fileName.length === 0) {
+    throw new Error("Invalid analysis file: missing fileName");
+  }
+  if (!isPositiveNumber(analysis.durationSeconds)) {
+    throw new Error("Invalid analysis file: durationSeconds must be a positive number");
+  }
+  if (!isPositiveNumber(analysis.sampleRate)) {
+    throw new Error("Invalid analysis file: sampleRate must be a positive number");
+  }
+  if (
+    !isRecord(analysis.beat) ||
+    !Array.isArray(analysis.beat.beatTimesSeconds) ||
+    !analysis.beat.beatTimesSeconds.every(isFiniteNumber)
+  ) {
+    throw new Error("Invalid analysis file: missing beat analysis");
+  }
+  if (!isRecord(analysis.mood)) {
+    throw new Error("Invalid analysis file: missing mood analysis");
+  }
+  if (!Array.isArray(analysis.sections)) {
+    throw new Error("Invalid analysis file: missing sections");
+  }
+}
+
+/** Frames must be whole, finite and in time order within the track. */
+function checkFrameData(frameData: Float32Array, stride: number, durationSeconds: number): Float32Array {
+  if (frameData.length === 0 || frameData.length % stride !== 0) {
+    throw new Error("Invalid analysis file: frameData does not hold whole frames");
+  }
+  let previousTime = 0;
+  for (let offset = 0; offset < frameData.length; offset += stride) {
+    for (let field = 0; field < stride; field += 1) {
+      if (!Number.isFinite(frameData[offset + field])) {
+        throw new Error(`Invalid analysis file: frame ${offset / stride + 1} has a non-finite value`);
+      }
+    }
+    const timeSeconds = frameData[offset];
+    if (timeSeconds < previousTime || timeSeconds > durationSeconds) {
+      throw new Error(`Invalid analysis file: frame ${offset / stride + 1} is out of order`);
+    }
+    previousTime = timeSeconds;
+  }
+  return frameData;
+}
+
+function validateSpectrum(spectrum: PackedAnalysis["spectrum"]): void {
+  const { frameHopSeconds, frameCount, binCount, bins, beatEnvelope } = spectrum;
+  if (!isPositiveNumber(frameHopSeconds) || !isCount(frameCount) || !isCount(binCount)) {
+    throw new Error("Invalid analysis file: spectrum is missing its dimensions");
+  }
+  if (bins.length !== frameCount * binCount || beatEnvelope.length !== frameCount) {
+    throw new Error("Invalid analysis file: spectrum size does not match its dimensions");
+  }
+  if (!bins.every(Number.isFinite) || !beatEnvelope.every(Number.isFinite)) {
+    throw new Error("Invalid analysis file: spectrum has a non-finite value");
+  }
+}
+
+/**
+ * Checks the shape of a saved combat config. Values are left to the game to
+ * clamp and map (legacy weapon keys, unknown archetypes), but a block of the
+ * wrong type fails the import instead of being dropped later.
+ */
+function parseCombatConfig(value: unknown): CombatConfigPatch {
+  if (value === undefined) {
+    return {};
+  }
+  if (!isRecord(value)) {
+    throw new Error("Invalid analysis file: combatConfig must be an object");
+  }
+  const { shipWeapons, enemyRoster, scoring } = value;
+  if (
+    shipWeapons !== undefined &&
+    (!isRecord(shipWeapons) || !Object.values(shipWeapons).every((enabled) => typeof enabled === "boolean"))
+  ) {
+    throw new Error("Invalid analysis file: combatConfig.shipWeapons must map weapon ids to true or false");
+  }
+  if (enemyRoster !== undefined) {
+    if (!isRecord(enemyRoster)) {
+      throw new Error("Invalid analysis file: combatConfig.enemyRoster must be an object");
+    }
+    const { enabledArchetypes, spawnScale, fireScale, enemyProjectileStyle } = enemyRoster;
+    if (
+      enabledArchetypes !== undefined &&
+      (!Array.isArray(enabledArchetypes) || !enabledArchetypes.every((id) => typeof id === "string"))
+    ) {
+      throw new Error("Invalid analysis file: combatConfig.enemyRoster.enabledArchetypes must list ids");
+    }
+    if (
+      (spawnScale !== undefined && !isFiniteNumber(spawnScale)) ||
+      (fireScale !== undefined && !isFiniteNumber(fireScale))
+    ) {
+      throw new Error("Invalid analysis file: combatConfig.enemyRoster scales must be numbers");
+    }
+    if (enemyProjectileStyle !== undefined && typeof enemyProjectileStyle !== "string") {
+      throw new Error("Invalid analysis file: combatConfig.enemyRoster.enemyProjectileStyle must be a string");
+    }
+  }
+  if (
+    scoring !== undefined &&
+    (!isRecord(scoring) || !Object.values(scoring).every(isPositiveNumber))
+  ) {
+    throw new Error("Invalid analysis file: combatConfig.scoring windows must be positive numbers");
+  }
+  return value as CombatConfigPatch;
+}
+
+/**
+ * Cues may be edited by hand, so drop malformed entries and ones past the
+ * end of the track, then re-sort.
+ */
+function parseCues(value: unknown, durationSeconds: number): CuePoint[] {
+  if (!Array.isArray(value)) {
+    throw new Error("Invalid analysis file: missing cues");
+  }
+  const cues: CuePoint[] = [];
+  for (const entry of value) {
+    if (!isRecord(entry)) {
+      continue;
+    }
+    const { timeSeconds, strength, source, band } = entry;
+    if (!isFiniteNumber(timeSeconds) || timeSeconds < 0 || timeSeconds > durationSeconds) {
+      continue;
+    }
+    const cue: CuePoint = {
+      timeSeconds,
+      strength: isFiniteNumber(strength) ? strength : 1,
+      source: CUE_SOURCES.find((candidate) => candidate === source) ?? "beat"
+    };
+    const cueBand = ONSET_BANDS.find((candidate) => candidate === band);
+    if (cueBand) {
+      cue.band = cueBand;
+    }
+    cues.push(cue);
+  }
+  return cues.sort((a, b) => a.timeSeconds - b.timeSeconds);
+}
+
+/** Re-lays version 1 frames at the current stride with zero rolloff/flatness. */
+function upgradeV1FrameData(frameData: Float32Array): Float32Array {
+  const frameCount = Math.floor(frameData.length / V1_FRAME_STRIDE);
+  const upgraded = new Float32Array(frameCount * FRAME_STRIDE);
+  for (let index = 0; index < frameCount; index += 1) {
+    const source = index * V1_FRAME_STRIDE;
+    const target = index * FRAME_STRIDE;
+    upgraded.set(frameData.subarray(source, source + 4), target);
+    upgraded[target + 6] = frameData[source + 4];
+    upgraded[target + 7] = frameData[source + 5];
+  }
+  return upgraded;
+}
+
+function encodeFloat32(values: Float32Array): string {
+  const bytes = new Uint8Array(values.buffer, values.byteOffset, values.byteLength);
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + chunkSize));
+  }
+  return btoa(binary);
+}
+
+function decodeFloat32(value: unknown, field: string): Float32Array {
+  if (typeof value !== "string") {
+    throw new Error(`Invalid analysis file: missing ${field}`);
+  }
+  let binary: string;
+  try {
+    binary = atob(value);
+  } catch {
+    throw new Error(`Invalid analysis file: ${field} is not base64`);
+  }
+  if (binary.length % Float32Array.BYTES_PER_ELEMENT !== 0) {
+    throw new Error(`Invalid analysis file: ${field} has a truncated payload`);
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Float32Array(bytes.buffer);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return isFiniteNumber(value) && value > 0;
+}
+
+function isCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
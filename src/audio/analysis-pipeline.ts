@@ -0,0 +1,94 @@
+import { detectBeats } from "./beat-detector";
+import { generateCues } from "./cue-generator";
+import { extractFeatureFrames } from "./feature-extractor";
+import { classifyMood } from "./mood-classifier";
+import { extractBandOnsets } from "./onset-bands";
+import { extractSpectrumTimeline, getSpectrumBinFrequencies } from "./spectrum-extractor";
+import { segmentStructure } from "./structure-segmenter";
+import type { AudioAnalysisResult, AudioTrackData } from "./types";
+
+export type AnalyzeProgressStage = "decode" | "features" | "beats" | "mood" | "cues" | "finalize";
+
+export type AnalyzeProgressCallback = (
+  progress: number,
+  message: string,
+  stage: AnalyzeProgressStage
+) => void;
+
+export type TrackFeatureAnalysis = Pick<
+  AudioAnalysisResult,
+  "frames" | "spectrum" | "beat" | "mood" | "sections" | "cues"
+>;
+
+/**
+ * Everything after decoding. Depends only on the mono samples, so it runs
+ * unchanged on the main thread or inside the analysis worker.
+ */
+export function analyzeTrackSamples(
+  track: AudioTrackData,
+  emitProgress: AnalyzeProgressCallback = () => {}
+): TrackFeatureAnalysis {
+  emitProgress(0.35, "Extracting features...", "features");
+  const frames = extractFeatureFrames(track);
+  const spectrum = extractSpectrumTimeline(track);
+  emitProgress(0.58, "Detecting beats...", "beats");
+  const beat = detectBeats(frames, { tracking: "dynamic" });
+  populateBeatEnvelope(spectrum.beatEnvelope, spectrum.frameHopSeconds, beat.beatTimesSeconds);
+  emitProgress(0.74, "Classifying mood...", "mood");
+  const mood = classifyMood(frames, beat);
+  emitProgress(0.8, "Segmenting song structure...", "mood");
+  const sections = segmentStructure(frames, spectrum);
+  emitProgress(0.88, "Generating cue timeline...", "cues");
+  const bandOnsets = extractBandOnsets(spectrum, getSpectrumBinFrequencies(track.sampleRate));
+  const cues = generateCues(frames, beat, bandOnsets);
+
+  return {
+    frames,
+    spectrum,
+    beat,
+    mood,
+    sections,
+    cues
+  };
+}
+
+function populateBeatEnvelope(
+  envelope: Float32Array,
+  frameHopSeconds: number,
+  beatTimesSeconds: number[]
+): void {
+  envelope.fill(0);
+  if (envelope.length === 0 || beatTimesSeconds.length === 0) {
+    return;
+  }
+
+  const sortedBeats = beatTimesSeconds
+    .filter((value) => Number.isFinite(value) && value >= 0)
+    .slice()
+    .sort((a, b) => a - b);
+  if (sortedBeats.length === 0) {
+    return;
+  }
+
+  const sigmaSeconds = 0.065;
+  const sigmaDenominator = 2 * sigmaSeconds * sigmaSeconds;
+  let beatIndex = 0;
+
+  for (let frameIndex = 0; frameIndex < envelope.length; frameIndex += 1) {
+    const timeSeconds = frameIndex * frameHopSeconds;
+    while (
+      beatIndex < sortedBeats.length - 1 &&
+      (sortedBeats[beatIndex + 1] ?? Number.POSITIVE_INFINITY) < timeSeconds
+    ) {
+      beatIndex += 1;
+    }
+
+    const prevBeat = sortedBeats[beatIndex] ?? Number.POSITIVE_INFINITY;
+    const nextBeat = sortedBeats[Math.min(sortedBeats.length - 1, beatIndex + 1)] ?? prevBeat;
+    const deltaPrev = timeSeconds - prevBeat;
+    const deltaNext = timeSeconds - nextBeat;
+    const prevStrength = Math.exp(-(deltaPrev * deltaPrev) / sigmaDenominator);
+    const nextStrength = Math.exp(-(deltaNext * deltaNext) / sigmaDenominator);
+    envelope[frameIndex] = Math.max(0, Math.min(1, Math.max(prevStrength, nextStrength)));
+  }
+}
@@ -0,0 +1,64 @@
+import { analyzeTrackSamples, type AnalyzeProgressStage, type TrackFeatureAnalysis } from "./analysis-pipeline";
+
+export type AnalysisWorkerRequest = {
+  type: "analyze";
+  requestId: number;
+  channelData: Float32Array;
+  sampleRate: number;
+  durationSeconds: number;
+};
+
+export type AnalysisWorkerMessage =
+  | {
+      type: "progress";
+      requestId: number;
+      progress: number;
+      message: string;
+      stage: AnalyzeProgressStage;
+    }
+  | {
+      type: "result";
+      requestId: number;
+      analysis: TrackFeatureAnalysis;
+    }
+  | {
+      type: "error";
+      requestId: number;
+      message: string;
+    };
+
+const post = (message: AnalysisWorkerMessage, transfer: Transferable[] = []): void => {
+  self.postMessage(message, { transfer });
+};
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = event.data;
+  if (request.type !== "analyze") {
+    return;
+  }
+
+  try {
+    const analysis = analyzeTrackSamples(
+      {
+        channelData: request.channelData,
+        waveformLeft: new Float32Array(),
+        waveformRight: new Float32Array(),
+        sampleRate: request.sampleRate,
+        durationSeconds: request.durationSeconds
+      },
+      (progress, message, stage) => {
+        post({ type: "progress", requestId: request.requestId, progress, message, stage });
+      }
+    );
+    post({ type: "result", requestId: request.requestId, analysis }, [
+      analysis.spectrum.bins.buffer,
+      analysis.spectrum.beatEnvelope.buffer
+    ]);
+  } catch (error) {
+    post({
+      type: "error",
+      requestId: request.requestId,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
@@ -1,94 +1,156 @@
-import { detectBeats } from "./beat-detector";
-import { generateCues } from "./cue-generator";
-import { decodeAudioFile } from "./decoder";
-import { extractFeatureFrames } from "./feature-extractor";
-import { classifyMood } from "./mood-classifier";
-import { extractSpectrumTimeline } from "./spectrum-extractor";
-import type { AudioAnalysisResult } from "./types";
+import {
+  analyzeTrackSamples,
+  type AnalyzeProgressCallback,
+  type TrackFeatureAnalysis
+} from "./analysis-pipeline";
+import type { AnalysisWorkerMessage, AnalysisWorkerRequest } from "./analysis-worker";
+import {
+  hashAudioBytes,
+  isAnalysisCacheAvailable,
+  loadCachedAnalysis,
+  saveCachedAnalysis
+} from "./analysis-cache";
+import { decodeAudioBytes } from "./decoder";
+import type { AudioAnalysisResult, AudioTrackData } from "./types";
 
 type AnalyzeAudioTrackOptions = {
-  onProgress?: (progress: number, message: string, stage: AnalyzeProgressStage) => void;
+  onProgress?: AnalyzeProgressCallback;
+  signal?: AbortSignal;
+  useCache?: boolean;
 };
 
-type AnalyzeProgressStage = "decode" | "features" | "beats" | "mood" | "cues" | "finalize";
+let nextWorkerRequestId = 1;
 
+/**
+ * Decodes on the main thread (AudioContext is not available in workers),
+ * then hands the mono samples to a dedicated worker for feature extraction.
+ * Results are cached in IndexedDB by content hash, so a repeat load of the
+ * same bytes skips decoding and analysis entirely. Aborting the signal
+ * terminates the worker and rejects with an AbortError.
+ */
 export async function analyzeAudioTrack(
   file: File,
   options: AnalyzeAudioTrackOptions = {}
 ): Promise<AudioAnalysisResult> {
-  const emitProgress = (
-    progress: number,
-    message: string,
-    stage: AnalyzeProgressStage
-  ): void => {
+  const emitProgress: AnalyzeProgressCallback = (progress, message, stage) => {
     options.onProgress?.(Math.max(0, Math.min(1, progress)), message, stage);
   };
 
+  throwIfAborted(options.signal);
+  const bytes = await file.arrayBuffer();
+  const useCache = options.useCache !== false && isAnalysisCacheAvailable();
+  let cacheKey: string | null = null;
+  if (useCache) {
+    emitProgress(0.02, "Checking analysis cache...", "decode");
+    try {
+      cacheKey = await hashAudioBytes(bytes);
+      const cached = await loadCachedAnalysis(cacheKey);
+      throwIfAborted(options.signal);
+      if (cached) {
+        emitProgress(1, "Loaded cached analysis", "finalize");
+        return { ...cached, fileName: file.name };
+      }
+    } catch (error) {
+      if (isAnalysisAbortError(error)) {
+        throw error;
+      }
+      // The cache is an optimization; fall through to a fresh analysis.
+    }
+  }
+
   emitProgress(0.05, "Decoding audio...", "decode");
-  const track = await decodeAudioFile(file);
-  emitProgress(0.35, "Extracting features...", "features");
-  const frames = extractFeatureFrames(track);
-  const spectrum = extractSpectrumTimeline(track);
-  emitProgress(0.58, "Detecting beats...", "beats");
-  const beat = detectBeats(frames);
-  populateBeatEnvelope(spectrum.beatEnvelope, spectrum.frameHopSeconds, beat.beatTimesSeconds);
-  emitProgress(0.74, "Classifying mood...", "mood");
-  const mood = classifyMood(frames, beat);
-  emitProgress(0.88, "Generating cue timeline...", "cues");
-  const cues = generateCues(frames, beat);
+  const track = await decodeAudioBytes(bytes);
+  throwIfAborted(options.signal);
+
+  const { waveformLeft, waveformRight, sampleRate, durationSeconds } = track;
+  const analysis =
+    typeof Worker === "undefined"
+      ? analyzeTrackSamples(track, emitProgress)
+      : await analyzeInWorker(track, emitProgress, options.signal);
   emitProgress(1, "Analysis complete", "finalize");
 
-  return {
+  const result: AudioAnalysisResult = {
     fileName: file.name,
-    durationSeconds: track.durationSeconds,
-    sampleRate: track.sampleRate,
-    waveformLeft: track.waveformLeft,
-    waveformRight: track.waveformRight,
-    frames,
-    spectrum,
-    beat,
-    mood,
-    cues
+    durationSeconds,
+    sampleRate,
+    waveformLeft,
+    waveformRight,
+    ...analysis
   };
+  if (cacheKey) {
+    void saveCachedAnalysis(cacheKey, result).catch(() => {
+      // Quota or private-mode failures only cost a re-analysis next time.
+    });
+  }
+  return result;
 }
 
-function populateBeatEnvelope(
-  envelope: Float32Array,
-  frameHopSeconds: number,
-  beatTimesSeconds: number[]
-): void {
-  envelope.fill(0);
-  if (envelope.length === 0 || beatTimesSeconds.length === 0) {
-    return;
-  }
+export function isAnalysisAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
 
-  const sortedBeats = beatTimesSeconds
-    .filter((value) => Number.isFinite(value) && value >= 0)
-    .slice()
-    .sort((a, b) => a - b);
-  if (sortedBeats.length === 0) {
-    return;
-  }
+function analyzeInWorker(
+  track: AudioTrackData,
+  emitProgress: AnalyzeProgressCallback,
+  signal: AbortSignal | undefined
+): Promise<TrackFeatureAnalysis> {
+  return new Promise((resolve, reject) => {
+    const requestId = nextWorkerRequestId++;
+    const worker = new Worker(new URL("./analysis-worker.ts", import.meta.url), {
+      type: "module",
+      name: "audio-analysis"
+    });
 
-  const sigmaSeconds = 0.065;
-  const sigmaDenominator = 2 * sigmaSeconds * sigmaSeconds;
-  let beatIndex = 0;
+    const finish = (): void => {
+      worker.terminate();
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = (): void => {
+      finish();
+      reject(createAbortError());
+    };
 
-  for (let frameIndex = 0; frameIndex < envelope.length; frameIndex += 1) {
-    const timeSeconds = frameIndex * frameHopSeconds;
-    while (
-      beatIndex < sortedBeats.length - 1 &&
-      (sortedBeats[beatIndex + 1] ?? Number.POSITIVE_INFINITY) < timeSeconds
-    ) {
-      beatIndex += 1;
-    }
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerMessage>) => {
+      const message = event.data;
+      if (message.requestId !== requestId) {
+        return;
+      }
+      if (message.type === "progress") {
+        emitProgress(message.progress, message.message, message.stage);
+        return;
+      }
+      finish();
+      if (message.type === "result") {
+        resolve(message.analysis);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish();
+      reject(new Error(event.message || "Audio analysis worker failed"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    // The mono mix is only needed by the worker, so move it instead of copying.
+    const request: AnalysisWorkerRequest = {
+      type: "analyze",
+      requestId,
+      channelData: track.channelData,
+      sampleRate: track.sampleRate,
+      durationSeconds: track.durationSeconds
+    };
+    worker.postMessage(request, [track.channelData.buffer]);
+  });
+}
 
-    const prevBeat = sortedBeats[beatIndex] ?? Number.POSITIVE_INFINITY;
-    const nextBeat = sortedBeats[Math.min(sortedBeats.length - 1, beatIndex + 1)] ?? prevBeat;
-    const deltaPrev = timeSeconds - prevBeat;
-    const deltaNext = timeSeconds - nextBeat;
-    const prevStrength = Math.exp(-(deltaPrev * deltaPrev) / sigmaDenominator);
-    const nextStrength = Math.exp(-(deltaNext * deltaNext) / sigmaDenominator);
-    envelope[frameIndex] = Math.max(0, Math.min(1, Math.max(prevStrength, nextStrength)));
+function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw createAbortError();
   }
 }
+
+function createAbortError(): DOMException {
+  return new DOMException("Audio analysis was cancelled", "AbortError");
+}
@@ -2,6 +2,29 @@ import { describe, expect, it } from "vitest";
 import { detectBeats } from "./beat-detector";
 import type { FeatureFrame } from "./types";
 
+function buildAccentedFrames(accents: number[], beatCount: number): FeatureFrame[] {
+  const hopSeconds = 0.01;
+  const framesPerBeat = 50;
+  const frames: FeatureFrame[] = [];
+
+  for (let i = 0; i < beatCount * framesPerBeat; i += 1) {
+    const isPulse = i % framesPerBeat === 0;
+    const accent = isPulse ? accents[(i / framesPerBeat) % accents.length] : 0;
+    frames.push({
+      timeSeconds: i * hopSeconds,
+      rms: isPulse ? 0.2 + accent * 0.6 : 0.2,
+      flux: isPulse ? accent : 0.1,
+      centroid: 0.4,
+      rolloff: 0.5,
+      flatness: 0.2,
+      onset: accent,
+      intensity: isPulse ? 0.2 + accent * 0.8 : 0.2
+    });
+  }
+
+  return frames;
+}
+
 describe("detectBeats", () => {
   it("estimates BPM close to 120 on synthetic pulses", () => {
     const hopSeconds = 0.01;
@@ -14,6 +37,8 @@ describe("detectBeats", () => {
         rms: isPulse ? 0.8 : 0.2,
         flux: isPulse ? 1 : 0.1,
         centroid: 0.4,
+        rolloff: 0.5,
+        flatness: 0.2,
         onset: isPulse ? 1 : 0,
         intensity: isPulse ? 1 : 0.2
       });
@@ -24,4 +49,86 @@ describe("detectBeats", () => {
     expect(beat.bpm).toBeLessThan(124);
     expect(beat.beatTimesSeconds.length).toBeGreaterThan(30);
   });
+
+  it("detects 4/4 bars and places downbeats on the accented pulse", () => {
+    // Accent pattern starts on the second pulse, so the first downbeat is beat 1.
+    const beat = detectBeats(buildAccentedFrames([0.45, 1, 0.45, 0.7], 48));
+    expect(beat.meter).toBe("4/4");
+    expect(beat.beatsPerBar).toBe(4);
+    expect(beat.downbeatIndices[0]).toBe(1);
+    expect(beat.meterConfidence).toBeGreaterThan(0.8);
+    for (let i = 1; i < beat.barTimesSeconds.length; i += 1) {
+      expect(beat.barTimesSeconds[i] - beat.barTimesSeconds[i - 1]).toBeCloseTo(2, 5);
+    }
+    for (const index of beat.downbeatIndices) {
+      expect(beat.barTimesSeconds).toContain(beat.beatTimesSeconds[index]);
+    }
+  });
+
+  it("detects 3/4 from a strong-weak-weak accent pattern", () => {
+    const beat = detectBeats(buildAccentedFrames([1, 0.4, 0.4], 48));
+    expect(beat.meter).toBe("3/4");
+    expect(beat.beatsPerBar).toBe(3);
+    expect(beat.downbeatIndices[0]).toBe(0);
+    expect(beat.barTimesSeconds.length).toBe(16);
+  });
+
+  it("prefers 6/8 when every other triple carries a secondary accent", () => {
+    const beat = detectBeats(buildAccentedFrames([1, 0.35, 0.35, 0.7, 0.35, 0.35], 48));
+    expect(beat.meter).toBe("6/8");
+    expect(beat.beatsPerBar).toBe(6);
+    expect(beat.downbeatIndices.slice(0, 3)).toEqual([0, 6, 12]);
+  });
+
+  it("falls back to 4/4 with zero meter confidence when pulses are unaccented", () => {
+    const beat = detectBeats(buildAccentedFrames([1], 40));
+    expect(beat.meter).toBe("4/4");
+    expect(beat.meterConfidence).toBe(0);
+    expect(beat.barTimesSeconds.length).toBe(10);
+  });
+
+  it("keeps the fixed-tempo fast path with a single tempo map entry", () => {
+    const beat = detectBeats(buildAccentedFrames([1], 40));
+    expect(beat.tempoMap).toHaveLength(1);
+    expect(beat.tempoMap[0].bpm).toBeCloseTo(beat.bpm, 5);
+  });
+
+  it("follows an accelerating tempo with locally phased beats in dynamic mode", () => {
+    const hopSeconds = 0.01;
+    const durationSeconds = 60;
+    const pulseFrames = new Set<number>();
+    // Beat interval ramps linearly from 0.5s (120 BPM) to 0.4s (150 BPM).
+    for (let t = 0; t < durationSeconds; ) {
+      pulseFrames.add(Math.round(t / hopSeconds));
+      t += 0.5 - (0.1 * t) / durationSeconds;
+    }
+    const frames: FeatureFrame[] = [];
+    for (let i = 0; i < durationSeconds / hopSeconds; i += 1) {
+      const isPulse = pulseFrames.has(i);
+      frames.push({
+        timeSeconds: i * hopSeconds,
+        rms: isPulse ? 0.8 : 0.2,
+        flux: isPulse ? 1 : 0.1,
+        centroid: 0.4,
+        rolloff: 0.5,
+        flatness: 0.2,
+        onset: isPulse ? 1 : 0,
+        intensity: isPulse ? 1 : 0.2
+      });
+    }
+
+    const beat = detectBeats(frames, { tracking: "dynamic" });
+    expect(beat.tempoMap.length).toBeGreaterThan(10);
+    expect(beat.tempoMap[0].bpm).toBeGreaterThan(115);
+    expect(beat.tempoMap[0].bpm).toBeLessThan(128);
+    expect(beat.tempoMap[beat.tempoMap.length - 1].bpm).toBeGreaterThan(142);
+    expect(beat.tempoMap[beat.tempoMap.length - 1].bpm).toBeLessThan(156);
+
+    expect(beat.beatTimesSeconds.length).toBeGreaterThan(pulseFrames.size * 0.95);
+    for (const time of beat.beatTimesSeconds) {
+      const frame = Math.round(time / hopSeconds);
+      const nearPulse = pulseFrames.has(frame) || pulseFrames.has(frame - 1) || pulseFrames.has(frame + 1);
+      expect(nearPulse).toBe(true);
+    }
+  });
 });
@@ -1,20 +1,67 @@
-import type { BeatAnalysis, FeatureFrame } from "./types";
+import type { BeatAnalysis, BeatMeter, FeatureFrame, TempoMapPoint } from "./types";
 
-export function detectBeats(frames: FeatureFrame[]): BeatAnalysis {
+export type BeatTrackingMode = "fixed" | "dynamic";
+
+export type DetectBeatsOptions = {
+  // "fixed" fits one global tempo and phase (fast path); "dynamic" follows
+  // tempo changes with windowed autocorrelation and a dynamic-programming
+  // beat tracker.
+  tracking?: BeatTrackingMode;
+};
+
+type MeterCandidate = {
+  meter: BeatMeter;
+  // Relative accent expected on each beat of the bar, downbeat first.
+  template: number[];
+};
+
+type MeterEstimate = {
+  meter: BeatMeter;
+  beatsPerBar: number;
+  downbeatOffset: number;
+  confidence: number;
+};
+
+const METER_CANDIDATES: MeterCandidate[] = [
+  { meter: "3/4", template: [1, 0, 0] },
+  { meter: "4/4", template: [1, 0, 0.35, 0] },
+  { meter: "6/8", template: [1, 0, 0, 0.55, 0, 0] }
+];
+const METER_MIN_BARS = 2;
+const METER_MIN_CORRELATION = 0.25;
+const METER_TIE_EPSILON = 0.03;
+const ACCENT_WINDOW_FRAMES = 2;
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+const TEMPO_WINDOW_SECONDS = 8;
+const TEMPO_WINDOW_HOP_SECONDS = 2;
+// Width (in octaves) of the prior that keeps local tempo near the global
+// estimate, so windows do not flip to half/double time.
+const TEMPO_PRIOR_OCTAVE_SIGMA = 0.35;
+const DP_TIGHTNESS = 100;
+
+export function detectBeats(
+  frames: FeatureFrame[],
+  options: DetectBeatsOptions = {}
+): BeatAnalysis {
   if (frames.length < 16) {
     return {
       bpm: 120,
       beatTimesSeconds: [],
       beatIntervalSeconds: 0.5,
-      confidence: 0
+      confidence: 0,
+      tempoMap: [],
+      meter: "4/4",
+      beatsPerBar: 4,
+      meterConfidence: 0,
+      downbeatIndices: [],
+      barTimesSeconds: []
     };
   }
 
   const hopSeconds = frames[1].timeSeconds - frames[0].timeSeconds;
-  const minBpm = 70;
-  const maxBpm = 180;
-  const minLag = Math.max(1, Math.floor(60 / (maxBpm * hopSeconds)));
-  const maxLag = Math.max(minLag + 1, Math.ceil(60 / (minBpm * hopSeconds)));
+  const minLag = Math.max(1, Math.floor(60 / (MAX_BPM * hopSeconds)));
+  const maxLag = Math.max(minLag + 1, Math.ceil(60 / (MIN_BPM * hopSeconds)));
 
   const onset = frames.map((frame) => frame.onset);
   const centered = center(onset);
@@ -35,6 +82,13 @@ export function detectBeats(frames: FeatureFrame[]): BeatAnalysis {
     }
   }
 
+  const confidence =
+    totalScore > 0 ? clamp(bestScore / (totalScore / (maxLag - minLag + 1)), 0, 1) : 0;
+  const windowFrames = Math.round(TEMPO_WINDOW_SECONDS / hopSeconds);
+  if (options.tracking === "dynamic" && onset.length >= windowFrames) {
+    return trackDynamicBeats(frames, onset, hopSeconds, bestLag, minLag, maxLag, confidence);
+  }
+
   const beatIntervalSeconds = bestLag * hopSeconds;
   const bpm = 60 / beatIntervalSeconds;
 
@@ -52,19 +106,300 @@ export function detectBeats(frames: FeatureFrame[]): BeatAnalysis {
   }
 
   const beatTimesSeconds: number[] = [];
+  const beatFrameIndices: number[] = [];
   for (let i = bestPhase; i < frames.length; i += bestLag) {
     beatTimesSeconds.push(frames[i].timeSeconds);
+    beatFrameIndices.push(i);
   }
 
   return {
     bpm,
     beatTimesSeconds,
     beatIntervalSeconds,
-    confidence:
-      totalScore > 0 ? clamp(bestScore / (totalScore / (maxLag - minLag + 1)), 0, 1) : 0
+    confidence,
+    tempoMap: [{ timeSeconds: beatTimesSeconds[0] ?? 0, bpm }],
+    ...buildBarGrid(frames, beatFrameIndices)
+  };
+}
+
+/**
+ * Windowed autocorrelation produces a local beat period per frame, then a
+ * dynamic-programming pass picks the beat sequence that best balances onset
+ * strength against deviation from that local period.
+ */
+function trackDynamicBeats(
+  frames: FeatureFrame[],
+  onset: number[],
+  hopSeconds: number,
+  globalLag: number,
+  minLag: number,
+  maxLag: number,
+  confidence: number
+): BeatAnalysis {
+  const windowFrames = Math.round(TEMPO_WINDOW_SECONDS / hopSeconds);
+  const windowHopFrames = Math.max(1, Math.round(TEMPO_WINDOW_HOP_SECONDS / hopSeconds));
+  const centers: number[] = [];
+  const periods: number[] = [];
+  for (let start = 0; start + windowFrames <= onset.length; start += windowHopFrames) {
+    centers.push(start + windowFrames / 2);
+    periods.push(estimateWindowPeriod(onset, start, windowFrames, globalLag, minLag, maxLag));
+  }
+  const lastStart = onset.length - windowFrames;
+  if (centers.length === 0 || centers[centers.length - 1] < lastStart + windowFrames / 2) {
+    centers.push(lastStart + windowFrames / 2);
+    periods.push(estimateWindowPeriod(onset, lastStart, windowFrames, globalLag, minLag, maxLag));
+  }
+  const smoothedPeriods = medianFilter3(periods);
+
+  const tempoMap: TempoMapPoint[] = centers.map((centerFrame, index) => ({
+    timeSeconds: frames[Math.min(frames.length - 1, Math.round(centerFrame))].timeSeconds,
+    bpm: 60 / (smoothedPeriods[index] * hopSeconds)
+  }));
+
+  const beatFrameIndices = runBeatDynamicProgram(
+    normalizeByStd(onset),
+    buildFramePeriods(onset.length, centers, smoothedPeriods)
+  );
+  const beatTimesSeconds = beatFrameIndices.map((index) => frames[index].timeSeconds);
+  const intervals: number[] = [];
+  for (let i = 1; i < beatTimesSeconds.length; i += 1) {
+    intervals.push(beatTimesSeconds[i] - beatTimesSeconds[i - 1]);
+  }
+  const beatIntervalSeconds =
+    intervals.length > 0 ? median(intervals) : globalLag * hopSeconds;
+
+  return {
+    bpm: 60 / beatIntervalSeconds,
+    beatTimesSeconds,
+    beatIntervalSeconds,
+    confidence,
+    tempoMap,
+    ...buildBarGrid(frames, beatFrameIndices)
+  };
+}
+
+function estimateWindowPeriod(
+  onset: number[],
+  start: number,
+  length: number,
+  globalLag: number,
+  minLag: number,
+  maxLag: number
+): number {
+  const window = center(onset.slice(start, start + length));
+  const scores: number[] = [];
+  let bestIndex = 0;
+  for (let lag = minLag; lag <= maxLag; lag += 1) {
+    let sum = 0;
+    for (let i = lag; i < window.length; i += 1) {
+      sum += window[i] * window[i - lag];
+    }
+    const octaves = Math.log2(lag / globalLag) / TEMPO_PRIOR_OCTAVE_SIGMA;
+    const score = (sum / Math.max(1, window.length - lag)) * Math.exp(-0.5 * octaves * octaves);
+    scores.push(score);
+    if (score > scores[bestIndex]) {
+      bestIndex = scores.length - 1;
+    }
+  }
+  if (scores[bestIndex] <= 0) {
+    return globalLag;
+  }
+
+  // Parabolic interpolation for a sub-frame period.
+  const prev = scores[bestIndex - 1];
+  const next = scores[bestIndex + 1];
+  let offset = 0;
+  if (prev !== undefined && next !== undefined) {
+    const denominator = prev - 2 * scores[bestIndex] + next;
+    if (Math.abs(denominator) > 1e-12) {
+      offset = clamp((0.5 * (prev - next)) / denominator, -0.5, 0.5);
+    }
+  }
+  return minLag + bestIndex + offset;
+}
+
+function buildFramePeriods(frameCount: number, centers: number[], periods: number[]): Float64Array {
+  const framePeriods = new Float64Array(frameCount);
+  let segment = 0;
+  for (let i = 0; i < frameCount; i += 1) {
+    while (segment < centers.length - 2 && i > centers[segment + 1]) {
+      segment += 1;
+    }
+    if (centers.length === 1 || i <= centers[0]) {
+      framePeriods[i] = periods[0];
+    } else if (i >= centers[centers.length - 1]) {
+      framePeriods[i] = periods[periods.length - 1];
+    } else {
+      const span = centers[segment + 1] - centers[segment];
+      const t = span > 0 ? (i - centers[segment]) / span : 0;
+      framePeriods[i] = periods[segment] + (periods[segment + 1] - periods[segment]) * t;
+    }
+  }
+  return framePeriods;
+}
+
+function runBeatDynamicProgram(onset: number[], framePeriods: Float64Array): number[] {
+  const frameCount = onset.length;
+  const score = new Float64Array(frameCount);
+  const backlink = new Int32Array(frameCount).fill(-1);
+
+  for (let i = 0; i < frameCount; i += 1) {
+    const period = framePeriods[i];
+    const from = Math.max(0, i - Math.round(period * 2));
+    const to = i - Math.max(1, Math.round(period / 2));
+    let bestPrevious = Number.NEGATIVE_INFINITY;
+    for (let j = from; j <= to; j += 1) {
+      const deviation = Math.log((i - j) / period);
+      const candidate = score[j] - DP_TIGHTNESS * deviation * deviation;
+      if (candidate > bestPrevious) {
+        bestPrevious = candidate;
+        backlink[i] = j;
+      }
+    }
+    score[i] = onset[i] + (backlink[i] >= 0 ? bestPrevious : 0);
+  }
+
+  const tailStart = Math.max(0, frameCount - Math.ceil(framePeriods[frameCount - 1]));
+  let last = tailStart;
+  for (let i = tailStart + 1; i < frameCount; i += 1) {
+    if (score[i] > score[last]) {
+      last = i;
+    }
+  }
+
+  const beats: number[] = [];
+  for (let i = last; i >= 0; i = backlink[i]) {
+    beats.push(i);
+  }
+  return beats.reverse();
+}
+
+function buildBarGrid(
+  frames: FeatureFrame[],
+  beatFrameIndices: number[]
+): Pick<BeatAnalysis, "meter" | "beatsPerBar" | "meterConfidence" | "downbeatIndices" | "barTimesSeconds"> {
+  const meter = estimateMeter(measureBeatAccents(frames, beatFrameIndices));
+  const downbeatIndices: number[] = [];
+  const barTimesSeconds: number[] = [];
+  for (let i = meter.downbeatOffset; i < beatFrameIndices.length; i += meter.beatsPerBar) {
+    downbeatIndices.push(i);
+    barTimesSeconds.push(frames[beatFrameIndices[i]].timeSeconds);
+  }
+  return {
+    meter: meter.meter,
+    beatsPerBar: meter.beatsPerBar,
+    meterConfidence: meter.confidence,
+    downbeatIndices,
+    barTimesSeconds
   };
 }
 
+function measureBeatAccents(frames: FeatureFrame[], beatFrameIndices: number[]): number[] {
+  return beatFrameIndices.map((frameIndex) => {
+    const from = Math.max(0, frameIndex - ACCENT_WINDOW_FRAMES);
+    const to = Math.min(frames.length - 1, frameIndex + ACCENT_WINDOW_FRAMES);
+    let accent = 0;
+    for (let i = from; i <= to; i += 1) {
+      accent = Math.max(accent, frames[i].onset * 0.7 + frames[i].rms * 0.3);
+    }
+    return accent;
+  });
+}
+
+/**
+ * Folds beat accents into a per-position profile for each candidate bar
+ * length and correlates it against that meter's accent template at every
+ * rotation. The best rotation gives the downbeat; ties go to the longer bar
+ * because a 6/8 profile also folds cleanly onto 3/4.
+ */
+function estimateMeter(accents: number[]): MeterEstimate {
+  let best: MeterEstimate = {
+    meter: "4/4",
+    beatsPerBar: 4,
+    downbeatOffset: 0,
+    confidence: 0
+  };
+
+  for (const candidate of METER_CANDIDATES) {
+    const beatsPerBar = candidate.template.length;
+    if (accents.length < beatsPerBar * METER_MIN_BARS) {
+      continue;
+    }
+
+    const profile = new Array<number>(beatsPerBar).fill(0);
+    const counts = new Array<number>(beatsPerBar).fill(0);
+    for (let i = 0; i < accents.length; i += 1) {
+      profile[i % beatsPerBar] += accents[i];
+      counts[i % beatsPerBar] += 1;
+    }
+    for (let k = 0; k < beatsPerBar; k += 1) {
+      profile[k] /= Math.max(1, counts[k]);
+    }
+
+    for (let offset = 0; offset < beatsPerBar; offset += 1) {
+      const rotated = profile.map(
+        (_, k) => candidate.template[(k - offset + beatsPerBar) % beatsPerBar]
+      );
+      const correlation = pearson(profile, rotated);
+      const clearlyBetter = correlation > best.confidence + METER_TIE_EPSILON;
+      const tiedButLonger =
+        Math.abs(correlation - best.confidence) <= METER_TIE_EPSILON &&
+        beatsPerBar > best.beatsPerBar;
+      if (correlation >= METER_MIN_CORRELATION && (clearlyBetter || tiedButLonger)) {
+        best = {
+          meter: candidate.meter,
+          beatsPerBar,
+          downbeatOffset: offset,
+          confidence: clamp(correlation, 0, 1)
+        };
+      }
+    }
+  }
+
+  return best;
+}
+
+function pearson(a: number[], b: number[]): number {
+  const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    covariance += da * db;
+    varianceA += da * da;
+    varianceB += db * db;
+  }
+  if (varianceA <= 1e-9 || varianceB <= 1e-9) {
+    return 0;
+  }
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
+
+function normalizeByStd(values: number[]): number[] {
+  const centered = center(values);
+  const variance = centered.reduce((sum, value) => sum + value * value, 0) / values.length;
+  const std = Math.sqrt(variance);
+  return std > 1e-9 ? values.map((value) => value / std) : values.slice();
+}
+
+function medianFilter3(values: number[]): number[] {
+  return values.map((value, index) => {
+    if (index === 0 || index === values.length - 1) {
+      return value;
+    }
+    return median([values[index - 1], value, values[index + 1]]);
+  });
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) * 0.5 : sorted[mid];
+}
+
 function center(values: number[]): number[] {
   const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
   return values.map((value) => value - mean);
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSnapGrid,
+  createCueEditHistory,
+  insertCue,
+  moveCue,
+  snapTimeToGrid
+} from "./cue-editing";
+import type { CuePoint } from "./types";
+
+const CUES: CuePoint[] = [
+  { timeSeconds: 1, strength: 0.5, source: "beat" },
+  { timeSeconds: 2, strength: 0.8, source: "peak" }
+];
+
+describe("cue editing", () => {
+  it("snaps to subdivided beats across the whole track", () => {
+    const grid = buildSnapGrid([1, 2, 3], 2, 4);
+    expect(grid).toEqual([0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4]);
+    expect(snapTimeToGrid(1.7, grid)).toBe(1.5);
+    expect(snapTimeToGrid(1.8, grid)).toBe(2);
+    expect(snapTimeToGrid(1.8, [])).toBe(1.8);
+  });
+
+  it("keeps cues sorted when inserting and moving", () => {
+    const inserted = insertCue(CUES, { timeSeconds: 1.5, strength: 1, source: "beat" });
+    expect(inserted.index).toBe(1);
+
+    const moved = moveCue(inserted.cues, 0, 3);
+    expect(moved.index).toBe(2);
+    expect(moved.cues.map((cue) => cue.timeSeconds)).toEqual([1.5, 2, 3]);
+  });
+
+  it("records a whole drag as one undo step", () => {
+    const history = createCueEditHistory(CUES);
+    history.preview(moveCue(CUES, 0, 1.25).cues);
+    history.preview(moveCue(CUES, 0, 1.5).cues);
+    history.commitPreview();
+
+    expect(history.getCues()[0].timeSeconds).toBe(1.5);
+    expect(history.isEdited()).toBe(true);
+    expect(history.undo()).toBe(true);
+    expect(history.getCues()).toBe(CUES);
+    expect(history.canUndo()).toBe(false);
+    expect(history.redo()).toBe(true);
+    expect(history.getCues()[0].timeSeconds).toBe(1.5);
+
+    history.markApplied();
+    expect(history.isEdited()).toBe(false);
+  });
+});
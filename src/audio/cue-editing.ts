@@ -0,0 +1,216 @@
+import type { CuePoint } from "./types";
+
+/** Grid subdivisions per beat; 0 disables snapping. */
+export type CueSnapDivision = 0 | 1 | 2 | 4;
+
+const MAX_HISTORY_ENTRIES = 200;
+
+export type CueEditHistory = {
+  getCues: () => CuePoint[];
+  isEdited: () => boolean;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  undo: () => boolean;
+  redo: () => boolean;
+  commit: (cues: CuePoint[]) => void;
+  preview: (cues: CuePoint[]) => void;
+  commitPreview: () => void;
+  markApplied: () => void;
+  reset: (cues: CuePoint[]) => void;
+};
+
+/**
+ * Undo/redo over immutable cue lists; `isEdited` compares against the last
+ * applied list. Drags call `preview` on every move and `commitPreview` once
+ * on release so a whole drag is a single undo step.
+ */
+export function createCueEditHistory(initialCues: CuePoint[]): CueEditHistory {
+  let baseline = initialCues;
+  let current = initialCues;
+  let previewBase: CuePoint[] | null = null;
+  const undoStack: CuePoint[][] = [];
+  const redoStack: CuePoint[][] = [];
+
+  const push = (previous: CuePoint[]): void => {
+    undoStack.push(previous);
+    if (undoStack.length > MAX_HISTORY_ENTRIES) {
+      undoStack.shift();
+    }
+    redoStack.length = 0;
+  };
+
+  return {
+    getCues() {
+      return current;
+    },
+    isEdited() {
+      return !areCuesEqual(current, baseline);
+    },
+    canUndo() {
+      return undoStack.length > 0;
+    },
+    canRedo() {
+      return redoStack.length > 0;
+    },
+    undo() {
+      const previous = undoStack.pop();
+      if (!previous) {
+        return false;
+      }
+      previewBase = null;
+      redoStack.push(current);
+      current = previous;
+      return true;
+    },
+    redo() {
+      const next = redoStack.pop();
+      if (!next) {
+        return false;
+      }
+      previewBase = null;
+      undoStack.push(current);
+      current = next;
+      return true;
+    },
+    commit(cues) {
+      previewBase = null;
+      if (areCuesEqual(cues, current)) {
+        return;
+      }
+      push(current);
+      current = cues;
+    },
+    preview(cues) {
+      previewBase ??= current;
+      current = cues;
+    },
+    commitPreview() {
+      if (!previewBase) {
+        return;
+      }
+      const base = previewBase;
+      previewBase = null;
+      if (!areCuesEqual(base, current)) {
+        push(base);
+      }
+    },
+    markApplied() {
+      baseline = current;
+    },
+    reset(cues) {
+      baseline = cues;
+      current = cues;
+      previewBase = null;
+      undoStack.length = 0;
+      redoStack.length = 0;
+    }
+  };
+}
+
+/** Beat times subdivided `division` times, extended to cover the whole track. */
+export function buildSnapGrid(
+  beatTimesSeconds: number[],
+  division: CueSnapDivision,
+  durationSeconds: number
+): number[] {
+  if (division === 0 || beatTimesSeconds.length < 2) {
+    return [];
+  }
+
+  const grid: number[] = [];
+  const headStep = (beatTimesSeconds[1] - beatTimesSeconds[0]) / division;
+  for (let t = beatTimesSeconds[0] - headStep; t >= 0 && headStep > 0; t -= headStep) {
+    grid.unshift(t);
+  }
+  for (let i = 0; i < beatTimesSeconds.length - 1; i += 1) {
+    const start = beatTimesSeconds[i];
+    const step = (beatTimesSeconds[i + 1] - start) / division;
+    for (let d = 0; d < division; d += 1) {
+      grid.push(start + step * d);
+    }
+  }
+
+  const lastBeat = beatTimesSeconds[beatTimesSeconds.length - 1];
+  const tailStep = (lastBeat - beatTimesSeconds[beatTimesSeconds.length - 2]) / division;
+  for (let t = lastBeat; t <= durationSeconds && tailStep > 0; t += tailStep) {
+    grid.push(t);
+  }
+  return grid;
+}
+
+export function snapTimeToGrid(timeSeconds: number, grid: number[]): number {
+  if (grid.length === 0) {
+    return timeSeconds;
+  }
+  let low = 0;
+  let high = grid.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (grid[mid] < timeSeconds) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  const after = grid[low];
+  const before = low > 0 ? grid[low - 1] : after;
+  return timeSeconds - before <= after - timeSeconds ? before : after;
+}
+
+/** Index of the cue nearest `timeSeconds` within the tolerance, or -1. */
+export function findCueIndexNear(
+  cues: CuePoint[],
+  timeSeconds: number,
+  toleranceSeconds: number
+): number {
+  let bestIndex = -1;
+  let bestDistance = toleranceSeconds;
+  cues.forEach((cue, index) => {
+    const distance = Math.abs(cue.timeSeconds - timeSeconds);
+    if (distance <= bestDistance) {
+      bestDistance = distance;
+      bestIndex = index;
+    }
+  });
+  return bestIndex;
+}
+
+/** Returns the sorted list and where `cue` ended up in it. */
+export function insertCue(cues: CuePoint[], cue: CuePoint): { cues: CuePoint[]; index: number } {
+  const next = [...cues, cue].sort((a, b) => a.timeSeconds - b.timeSeconds);
+  return { cues: next, index: next.indexOf(cue) };
+}
+
+export function moveCue(
+  cues: CuePoint[],
+  index: number,
+  timeSeconds: number
+): { cues: CuePoint[]; index: number } {
+  const moved = { ...cues[index], timeSeconds: Math.max(0, timeSeconds) };
+  return insertCue(removeCue(cues, index), moved);
+}
+
+export function removeCue(cues: CuePoint[], index: number): CuePoint[] {
+  return cues.filter((_, cueIndex) => cueIndex !== index);
+}
+
+export function setCueStrength(cues: CuePoint[], index: number, strength: number): CuePoint[] {
+  return cues.map((cue, cueIndex) =>
+    cueIndex === index ? { ...cue, strength: Math.max(0, Math.min(1, strength)) } : cue
+  );
+}
+
+function areCuesEqual(a: CuePoint[], b: CuePoint[]): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a.length !== b.length) {
+    return false;
+  }
+  return a.every(
+    (cue, index) =>
+      cue.timeSeconds === b[index].timeSeconds &&
+      cue.strength === b[index].strength &&
+      cue.source === b[index].source
+  );
+}
@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { generateCues } from "./cue-generator";
+import type { BandOnsetTimeline } from "./onset-bands";
 import type { BeatAnalysis, FeatureFrame } from "./types";
 
 describe("generateCues", () => {
@@ -13,6 +14,8 @@ describe("generateCues", () => {
         rms: peak ? 0.9 : 0.3,
         flux: peak ? 0.85 : 0.2,
         centroid: 0.4,
+        rolloff: 0.5,
+        flatness: 0.2,
         onset: peak ? 0.8 : 0.1,
         intensity: peak ? 0.92 : 0.3
       });
@@ -22,7 +25,13 @@ describe("generateCues", () => {
       bpm: 120,
       beatIntervalSeconds: 0.5,
       confidence: 0.9,
-      beatTimesSeconds: [2, 4, 6, 8]
+      tempoMap: [{ timeSeconds: 2, bpm: 120 }],
+      beatTimesSeconds: [2, 4, 6, 8],
+      meter: "4/4",
+      beatsPerBar: 4,
+      meterConfidence: 0,
+      downbeatIndices: [0],
+      barTimesSeconds: [2]
     };
 
     const cues = generateCues(frames, beat);
@@ -30,4 +39,53 @@ describe("generateCues", () => {
     expect(cues.some((cue) => cue.source === "peak")).toBe(true);
     expect(cues[0].timeSeconds).toBeGreaterThanOrEqual(0);
   });
+
+  it("tags cues with their onset band and adds strong band onsets", () => {
+    const frames: FeatureFrame[] = [];
+    for (let i = 0; i < 100; i += 1) {
+      frames.push({
+        timeSeconds: i * 0.05,
+        rms: 0.6,
+        flux: 0.6,
+        centroid: 0.4,
+        rolloff: 0.5,
+        flatness: 0.2,
+        onset: 0.7,
+        intensity: 0.5
+      });
+    }
+
+    const beat: BeatAnalysis = {
+      bpm: 120,
+      beatIntervalSeconds: 0.5,
+      confidence: 0.9,
+      tempoMap: [{ timeSeconds: 1, bpm: 120 }],
+      beatTimesSeconds: [1, 2],
+      meter: "4/4",
+      beatsPerBar: 4,
+      meterConfidence: 0,
+      downbeatIndices: [0],
+      barTimesSeconds: [1]
+    };
+
+    const onsetFrames = 100;
+    const bandOnsets: BandOnsetTimeline = {
+      frameHopSeconds: 0.05,
+      onsets: {
+        low: new Float32Array(onsetFrames),
+        mid: new Float32Array(onsetFrames),
+        high: new Float32Array(onsetFrames)
+      }
+    };
+    bandOnsets.onsets.low[20] = 1;
+    bandOnsets.onsets.high[40] = 0.9;
+    bandOnsets.onsets.mid[30] = 0.8;
+
+    const cues = generateCues(frames, beat, bandOnsets);
+    expect(cues).toEqual([
+      { timeSeconds: 1, strength: expect.any(Number), source: "beat", band: "low" },
+      { timeSeconds: 1.5, strength: expect.closeTo(0.8, 5), source: "onset", band: "mid" },
+      { timeSeconds: 2, strength: expect.any(Number), source: "beat", band: "high" }
+    ]);
+  });
 });
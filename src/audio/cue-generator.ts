@@ -1,8 +1,16 @@
+import {
+  getDominantOnsetBand,
+  pickBandOnsetPeaks,
+  type BandOnsetTimeline
+} from "./onset-bands";
 import type { BeatAnalysis, CuePoint, FeatureFrame } from "./types";
 
+const ONSET_CUE_MIN_STRENGTH = 0.6;
+
 export function generateCues(
   frames: FeatureFrame[],
-  beat: BeatAnalysis
+  beat: BeatAnalysis,
+  bandOnsets?: BandOnsetTimeline
 ): CuePoint[] {
   if (frames.length === 0) {
     return [];
@@ -41,6 +49,23 @@ export function generateCues(
     }
   }
 
+  if (bandOnsets) {
+    for (const cue of cues) {
+      const band = getDominantOnsetBand(bandOnsets, cue.timeSeconds);
+      if (band) {
+        cue.band = band;
+      }
+    }
+    for (const peak of pickBandOnsetPeaks(bandOnsets, ONSET_CUE_MIN_STRENGTH)) {
+      cues.push({
+        timeSeconds: peak.timeSeconds,
+        strength: peak.strength,
+        source: "onset",
+        band: peak.band
+      });
+    }
+  }
+
   cues.sort((a, b) => a.timeSeconds - b.timeSeconds);
 
   const merged: CuePoint[] = [];
@@ -51,7 +76,9 @@ export function generateCues(
       continue;
     }
 
-    if (cue.strength > last.strength) {
+    // Band onsets only fill gaps; a nearby beat or peak cue always wins.
+    const sameKind = (cue.source === "onset") === (last.source === "onset");
+    if (sameKind ? cue.strength > last.strength : last.source === "onset") {
       merged[merged.length - 1] = cue;
     }
   }
@@ -3,7 +3,11 @@ import type { AudioTrackData } from "./types";
 const WAVEFORM_PREVIEW_SAMPLES = 2048;
 
 export async function decodeAudioFile(file: File): Promise<AudioTrackData> {
-  const bytes = await file.arrayBuffer();
+  return decodeAudioBytes(await file.arrayBuffer());
+}
+
+/** Decodes encoded audio bytes; the buffer is detached afterwards. */
+export async function decodeAudioBytes(bytes: ArrayBuffer): Promise<AudioTrackData> {
   const context = new AudioContext();
 
   try {
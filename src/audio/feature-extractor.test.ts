@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { extractFeatureFrames } from "./feature-extractor";
+import type { AudioTrackData, FeatureFrame } from "./types";
+
+const SAMPLE_RATE = 44100;
+
+function buildTrack(sample: (index: number) => number, durationSeconds = 1): AudioTrackData {
+  const channelData = new Float32Array(Math.floor(durationSeconds * SAMPLE_RATE));
+  for (let i = 0; i < channelData.length; i += 1) {
+    channelData[i] = sample(i);
+  }
+  return {
+    channelData,
+    waveformLeft: channelData,
+    waveformRight: channelData,
+    sampleRate: SAMPLE_RATE,
+    durationSeconds
+  };
+}
+
+function average(frames: FeatureFrame[], key: "rolloff" | "flatness"): number {
+  return frames.reduce((sum, frame) => sum + frame[key], 0) / frames.length;
+}
+
+describe("extractFeatureFrames", () => {
+  it("measures rolloff and flatness from the spectrum", () => {
+    const tone = extractFeatureFrames(
+      buildTrack((i) => Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE) * 0.5)
+    );
+    let state = 1;
+    const noise = extractFeatureFrames(
+      buildTrack(() => {
+        state = (state * 16807) % 2147483647;
+        return (state / 2147483647) * 2 - 1;
+      })
+    );
+
+    expect(average(tone, "rolloff")).toBeLessThan(0.05);
+    expect(average(noise, "rolloff")).toBeGreaterThan(0.7);
+    expect(average(tone, "flatness")).toBeLessThan(0.05);
+    expect(average(noise, "flatness")).toBeGreaterThan(0.4);
+  });
+
+  it("tracks the spectral centroid as brightness rises", () => {
+    const durationSeconds = 2;
+    let phase = 0;
+    const frames = extractFeatureFrames(
+      buildTrack((i) => {
+        const frequencyHz = 200 + (i / (durationSeconds * SAMPLE_RATE)) * 6000;
+        phase += (2 * Math.PI * frequencyHz) / SAMPLE_RATE;
+        return Math.sin(phase) * 0.5;
+      }, durationSeconds)
+    );
+    const quarter = Math.floor(frames.length / 4);
+    const early = frames.slice(0, quarter).reduce((sum, frame) => sum + frame.centroid, 0);
+    const late = frames.slice(-quarter).reduce((sum, frame) => sum + frame.centroid, 0);
+
+    expect(late / quarter).toBeGreaterThan(0.7);
+    expect(early / quarter).toBeLessThan(0.3);
+  });
+});
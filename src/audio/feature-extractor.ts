@@ -1,5 +1,10 @@
+import { createFft, nextPowerOfTwo } from "./fft";
 import type { AudioTrackData, FeatureFrame } from "./types";
 
+/** Fraction of spectral energy that lies below the rolloff frequency. */
+const ROLLOFF_ENERGY_RATIO = 0.85;
+const SILENT_POWER = 1e-12;
+
 type ExtractionOptions = {
   windowSize?: number;
   hopSize?: number;
@@ -15,6 +20,8 @@ export function extractFeatureFrames(
   const frames: FeatureFrame[] = [];
   const source = track.channelData;
   const scratch = new Float32Array(windowSize);
+  const fft = createFft(nextPowerOfTwo(windowSize));
+  const power = new Float64Array(fft.size / 2 + 1);
   const prevAbs = new Float32Array(windowSize);
 
   let previousFlux = 0;
@@ -22,7 +29,6 @@ export function extractFeatureFrames(
 
   for (let start = 0; start + windowSize <= source.length; start += hopSize) {
     let rmsAcc = 0;
-    let highAcc = 0;
     let fluxAcc = 0;
 
     for (let i = 0; i < windowSize; i += 1) {
@@ -31,11 +37,6 @@ export function extractFeatureFrames(
       scratch[i] = windowed;
       rmsAcc += windowed * windowed;
 
-      if (i > 0) {
-        const diff = windowed - scratch[i - 1];
-        highAcc += diff * diff;
-      }
-
       const absSample = Math.abs(windowed);
       const delta = absSample - prevAbs[i];
       if (delta > 0) {
@@ -45,7 +46,7 @@ export function extractFeatureFrames(
     }
 
     const rms = Math.sqrt(rmsAcc / windowSize);
-    const centroid = highAcc / (rmsAcc + 1e-9);
+    const { centroid, rolloff, flatness } = measureSpectralShape(fft.powerSpectrum(scratch, power));
     const flux = fluxAcc / windowSize;
     const onset = Math.max(0, flux - previousFlux * 0.35);
     previousFlux = flux;
@@ -55,6 +56,8 @@ export function extractFeatureFrames(
       rms,
       flux,
       centroid,
+      rolloff,
+      flatness,
       onset,
       intensity: 0
     });
@@ -79,6 +82,51 @@ export function extractFeatureFrames(
   return frames;
 }
 
+/**
+ * Centroid and rolloff as fractions of Nyquist, and flatness as the ratio of
+ * geometric to arithmetic mean power (1 = noise-like, 0 = tonal). DC is skipped.
+ */
+function measureSpectralShape(
+  power: Float64Array
+): Pick<FeatureFrame, "centroid" | "rolloff" | "flatness"> {
+  const lastBin = power.length - 1;
+  let totalPower = 0;
+  let totalMagnitude = 0;
+  let weightedMagnitude = 0;
+  let logPowerSum = 0;
+  for (let k = 1; k <= lastBin; k += 1) {
+    const value = power[k];
+    const magnitude = Math.sqrt(value);
+    totalPower += value;
+    totalMagnitude += magnitude;
+    weightedMagnitude += k * magnitude;
+    logPowerSum += Math.log(value + SILENT_POWER);
+  }
+
+  if (totalPower < SILENT_POWER) {
+    return { centroid: 0, rolloff: 0, flatness: 0 };
+  }
+
+  const rolloffTarget = totalPower * ROLLOFF_ENERGY_RATIO;
+  let cumulative = 0;
+  let rolloffBin = lastBin;
+  for (let k = 1; k <= lastBin; k += 1) {
+    cumulative += power[k];
+    if (cumulative >= rolloffTarget) {
+      rolloffBin = k;
+      break;
+    }
+  }
+
+  const geometricMean = Math.exp(logPowerSum / lastBin);
+  const arithmeticMean = totalPower / lastBin;
+  return {
+    centroid: weightedMagnitude / totalMagnitude / lastBin,
+    rolloff: rolloffBin / lastBin,
+    flatness: Math.min(1, geometricMean / arithmeticMean)
+  };
+}
+
 function hann(index: number, size: number): number {
   return 0.5 - 0.5 * Math.cos((2 * Math.PI * index) / (size - 1));
 }
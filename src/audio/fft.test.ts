@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { createFft, isPowerOfTwo, nextPowerOfTwo } from "./fft";
+
+function directPowerSpectrum(frame: number[]): number[] {
+  const size = frame.length;
+  const power: number[] = [];
+  for (let k = 0; k <= size / 2; k += 1) {
+    let re = 0;
+    let im = 0;
+    for (let n = 0; n < size; n += 1) {
+      const angle = (-2 * Math.PI * k * n) / size;
+      re += frame[n] * Math.cos(angle);
+      im += frame[n] * Math.sin(angle);
+    }
+    power.push(re * re + im * im);
+  }
+  return power;
+}
+
+describe("fft", () => {
+  it("matches a direct DFT", () => {
+    const size = 64;
+    const frame = Array.from({ length: size }, (_, n) => Math.sin(n * 0.37) + Math.cos(n * 1.9) * 0.5 + (n % 7) * 0.05);
+    const fft = createFft(size);
+    const power = fft.powerSpectrum(frame, new Float64Array(size / 2 + 1));
+    const expected = directPowerSpectrum(frame);
+
+    expected.forEach((value, k) => {
+      expect(power[k]).toBeCloseTo(value, 6);
+    });
+  });
+
+  it("puts a pure tone in its bin", () => {
+    const size = 256;
+    const frame = Array.from({ length: size }, (_, n) => Math.sin((2 * Math.PI * 12 * n) / size));
+    const power = createFft(size).powerSpectrum(frame, new Float64Array(size / 2 + 1));
+    const peakBin = power.indexOf(Math.max(...power));
+
+    expect(peakBin).toBe(12);
+    expect(power[12]).toBeCloseTo((size / 2) ** 2, 3);
+  });
+
+  it("requires power-of-two sizes", () => {
+    expect(isPowerOfTwo(1024)).toBe(true);
+    expect(isPowerOfTwo(1000)).toBe(false);
+    expect(nextPowerOfTwo(1000)).toBe(1024);
+    expect(() => createFft(1000)).toThrow(/power of two/);
+  });
+});
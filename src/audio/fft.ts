@@ -0,0 +1,109 @@
+/**
+ * Iterative radix-2 FFT with precomputed bit-reversal and twiddle tables, so
+ * one instance can transform every frame of a track without reallocating.
+ */
+export type Fft = {
+  size: number;
+  /** In-place forward transform of a complex signal split into `re`/`im`. */
+  transform: (re: Float64Array, im: Float64Array) => void;
+  /**
+   * Power |X[k]|² of a real frame for k in 0..size/2. `frame` is zero-padded
+   * or truncated to `size`; `out` must hold size/2 + 1 values.
+   */
+  powerSpectrum: (frame: ArrayLike<number>, out: Float64Array) => Float64Array;
+};
+
+export function isPowerOfTwo(value: number): boolean {
+  return Number.isInteger(value) && value > 0 && (value & (value - 1)) === 0;
+}
+
+export function nextPowerOfTwo(value: number): number {
+  let result = 1;
+  while (result < value) {
+    result <<= 1;
+  }
+  return result;
+}
+
+export function createFft(size: number): Fft {
+  if (!isPowerOfTwo(size) || size < 2) {
+    throw new Error(`FFT size must be a power of two, got ${size}`);
+  }
+
+  const bitCount = Math.log2(size);
+  const reversed = new Uint32Array(size);
+  for (let i = 0; i < size; i += 1) {
+    let value = i;
+    let result = 0;
+    for (let bit = 0; bit < bitCount; bit += 1) {
+      result = (result << 1) | (value & 1);
+      value >>= 1;
+    }
+    reversed[i] = result;
+  }
+
+  const half = size / 2;
+  const cosTable = new Float64Array(half);
+  const sinTable = new Float64Array(half);
+  for (let i = 0; i < half; i += 1) {
+    const angle = (-2 * Math.PI * i) / size;
+    cosTable[i] = Math.cos(angle);
+    sinTable[i] = Math.sin(angle);
+  }
+
+  const scratchRe = new Float64Array(size);
+  const scratchIm = new Float64Array(size);
+
+  const transform = (re: Float64Array, im: Float64Array): void => {
+    for (let i = 0; i < size; i += 1) {
+      const j = reversed[i];
+      if (j > i) {
+        const tempRe = re[i];
+        re[i] = re[j];
+        re[j] = tempRe;
+        const tempIm = im[i];
+        im[i] = im[j];
+        im[j] = tempIm;
+      }
+    }
+
+    for (let length = 2; length <= size; length <<= 1) {
+      const halfLength = length >> 1;
+      const tableStep = size / length;
+      for (let start = 0; start < size; start += length) {
+        for (let k = 0; k < halfLength; k += 1) {
+          const wRe = cosTable[k * tableStep];
+          const wIm = sinTable[k * tableStep];
+          const even = start + k;
+          const odd = even + halfLength;
+          const oddRe = re[odd] * wRe - im[odd] * wIm;
+          const oddIm = re[odd] * wIm + im[odd] * wRe;
+          re[odd] = re[even] - oddRe;
+          im[odd] = im[even] - oddIm;
+          re[even] += oddRe;
+          im[even] += oddIm;
+        }
+      }
+    }
+  };
+
+  const powerSpectrum = (frame: ArrayLike<number>, out: Float64Array): Float64Array => {
+    const length = Math.min(size, frame.length);
+    for (let i = 0; i < length; i += 1) {
+      scratchRe[i] = frame[i];
+    }
+    scratchRe.fill(0, length);
+    scratchIm.fill(0);
+    transform(scratchRe, scratchIm);
+    for (let k = 0; k <= half; k += 1) {
+      out[k] = scratchRe[k] * scratchRe[k] + scratchIm[k] * scratchIm[k];
+    }
+    return out;
+  };
+
+  return {
+    size,
+    transform,
+    powerSpectrum
+  };
+}
@@ -0,0 +1,57 @@
+import { createLiveAnalyzer, LIVE_ANALYSIS_PROCESSOR, type LiveAnalysisEvent } from "./live-analyzer";
+
+// AudioWorkletGlobalScope is not part of the DOM lib.
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new () => AudioWorkletProcessor
+): void;
+
+export type LiveWorkletRequest = { type: "reset" };
+
+export type LiveWorkletMessage = { type: "events"; events: LiveAnalysisEvent[] };
+
+class LiveAnalysisProcessor extends AudioWorkletProcessor {
+  private readonly analyzer = createLiveAnalyzer(sampleRate);
+  private mono = new Float32Array(128);
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<LiveWorkletRequest>) => {
+      if (event.data.type === "reset") {
+        this.analyzer.reset();
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) {
+      return true;
+    }
+
+    const blockSize = channels[0].length;
+    if (this.mono.length !== blockSize) {
+      this.mono = new Float32Array(blockSize);
+    }
+    this.mono.fill(0);
+    for (const channel of channels) {
+      for (let i = 0; i < blockSize; i += 1) {
+        this.mono[i] += channel[i] / channels.length;
+      }
+    }
+
+    const events = this.analyzer.process(this.mono, currentTime);
+    if (events.length > 0) {
+      const message: LiveWorkletMessage = { type: "events", events };
+      this.port.postMessage(message);
+    }
+    return true;
+  }
+}
+
+registerProcessor(LIVE_ANALYSIS_PROCESSOR, LiveAnalysisProcessor);
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { createLiveAnalyzer, type LiveAnalysisEvent } from "./live-analyzer";
+
+const SAMPLE_RATE = 44100;
+const BLOCK_SIZE = 128;
+
+function streamKicks(bpm: number, durationSeconds: number, offsetSeconds: number): LiveAnalysisEvent[] {
+  const analyzer = createLiveAnalyzer(SAMPLE_RATE);
+  const intervalSeconds = 60 / bpm;
+  const events: LiveAnalysisEvent[] = [];
+  const block = new Float32Array(BLOCK_SIZE);
+  const totalSamples = Math.floor(durationSeconds * SAMPLE_RATE);
+  for (let start = 0; start < totalSamples; start += BLOCK_SIZE) {
+    for (let i = 0; i < BLOCK_SIZE; i += 1) {
+      const t = (start + i) / SAMPLE_RATE;
+      const sinceKick = (t - offsetSeconds + intervalSeconds * 100) % intervalSeconds;
+      block[i] = Math.exp(-sinceKick * 30) * Math.sin(2 * Math.PI * 70 * sinceKick) * 0.8;
+    }
+    events.push(...analyzer.process(block, start / SAMPLE_RATE));
+  }
+  return events;
+}
+
+describe("createLiveAnalyzer", () => {
+  it("reports low-band onsets on each kick", () => {
+    const events = streamKicks(120, 4, 0.1);
+    const onsets = events.filter(
+      (event): event is Extract<LiveAnalysisEvent, { type: "onset" }> => event.type === "onset"
+    );
+    const lowOnsets = onsets.filter((onset) => onset.band === "low");
+
+    expect(lowOnsets.length).toBeGreaterThanOrEqual(6);
+    for (const onset of lowOnsets.slice(1)) {
+      const fromKick = (onset.timeSeconds - 0.1) % 0.5;
+      expect(Math.min(fromKick, 0.5 - fromKick)).toBeLessThan(0.04);
+    }
+  });
+
+  it("locks tempo and phase from the causal onset history", () => {
+    const events = streamKicks(128, 8, 0.2);
+    const tempos = events.filter(
+      (event): event is Extract<LiveAnalysisEvent, { type: "tempo" }> => event.type === "tempo"
+    );
+    const latest = tempos[tempos.length - 1];
+    const intervalSeconds = 60 / 128;
+    const fromBeat =
+      (((latest.beatSeconds - 0.2) % intervalSeconds) + intervalSeconds) % intervalSeconds;
+
+    expect(tempos.length).toBeGreaterThan(0);
+    expect(latest.bpm).toBeGreaterThan(125);
+    expect(latest.bpm).toBeLessThan(131);
+    expect(Math.min(fromBeat, intervalSeconds - fromBeat)).toBeLessThan(0.04);
+    expect(latest.confidence).toBeGreaterThan(0.3);
+  });
+});
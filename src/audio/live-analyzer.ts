@@ -0,0 +1,316 @@
+import { createFft } from "./fft";
+import { ONSET_BAND_RANGES_HZ, ONSET_BANDS } from "./onset-bands";
+import type { OnsetBand } from "./types";
+
+/** Name the AudioWorklet processor registers under. */
+export const LIVE_ANALYSIS_PROCESSOR = "audio-starfighter-live-analysis";
+
+const WINDOW_SIZE = 1024;
+const HOP_SIZE = 512;
+const HISTORY_SECONDS = 6;
+const TEMPO_MIN_HISTORY_SECONDS = 3;
+const TEMPO_UPDATE_SECONDS = 0.5;
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+const PREFERRED_BPM = 120;
+const TEMPO_PRIOR_OCTAVES = 0.9;
+const PHASE_BEAT_COUNT = 8;
+const PHASE_BEAT_DECAY = 0.82;
+const ADAPTIVE_WINDOW_SECONDS = 0.35;
+const ONSET_MIN_SPACING_SECONDS = 0.09;
+const ONSET_MIN_STRENGTH = 0.35;
+// Running peaks decay slowly so a loud drop does not mute the next quiet part.
+const PEAK_DECAY_PER_SECOND = 0.88;
+const PEAK_FLOOR = 1e-4;
+const BAND_ENERGY_GAIN = 1e4;
+
+/**
+ * Events from the streaming analyzer, in the time base of the samples fed to
+ * it (AudioContext time when running in the worklet).
+ */
+export type LiveAnalysisEvent =
+  | { type: "level"; timeSeconds: number; intensity: number }
+  | { type: "onset"; timeSeconds: number; band: OnsetBand; strength: number }
+  | {
+      type: "tempo";
+      bpm: number;
+      intervalSeconds: number;
+      /** Most recent beat on the tracked grid; later beats follow every interval. */
+      beatSeconds: number;
+      confidence: number;
+    };
+
+export type LiveAnalyzer = {
+  /** Feeds a block of mono samples whose first sample plays at `startSeconds`. */
+  process: (samples: Float32Array, startSeconds: number) => LiveAnalysisEvent[];
+  reset: () => void;
+};
+
+type BandState = {
+  bins: [number, number];
+  previousEnergy: number;
+  peakFlux: number;
+  recent: Float32Array;
+  recentSum: number;
+  previousValue: number;
+  previousPreviousValue: number;
+  lastOnsetSeconds: number;
+};
+
+/**
+ * Incremental counterpart of the offline feature extractor and beat detector.
+ * Everything is causal: onsets are reported one hop late and the beat tracker
+ * only sees the last few seconds of onset strength.
+ */
+export function createLiveAnalyzer(sampleRate: number): LiveAnalyzer {
+  const hopSeconds = HOP_SIZE / sampleRate;
+  const fft = createFft(WINDOW_SIZE);
+  const window = new Float32Array(WINDOW_SIZE);
+  for (let i = 0; i < WINDOW_SIZE; i += 1) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (WINDOW_SIZE - 1));
+  }
+  const frame = new Float32Array(WINDOW_SIZE);
+  const power = new Float64Array(WINDOW_SIZE / 2 + 1);
+  const ring = new Float32Array(WINDOW_SIZE);
+  const adaptiveFrames = Math.max(1, Math.round(ADAPTIVE_WINDOW_SECONDS / hopSeconds));
+  const historyLength = Math.ceil(HISTORY_SECONDS / hopSeconds);
+  const history = new Float32Array(historyLength);
+  const tempoUpdateFrames = Math.max(1, Math.round(TEMPO_UPDATE_SECONDS / hopSeconds));
+  const tempoMinFrames = Math.ceil(TEMPO_MIN_HISTORY_SECONDS / hopSeconds);
+  const peakDecay = Math.pow(PEAK_DECAY_PER_SECOND, hopSeconds);
+  const bands = ONSET_BANDS.map((band) => ({
+    band,
+    state: createBandState(ONSET_BAND_RANGES_HZ[band], sampleRate, adaptiveFrames)
+  }));
+
+  let ringIndex = 0;
+  let totalSamples = 0;
+  let samplesSinceFrame = 0;
+  let frameCount = 0;
+  let historyIndex = 0;
+  let peakRms = PEAK_FLOOR;
+
+  const reset = (): void => {
+    ring.fill(0);
+    history.fill(0);
+    ringIndex = 0;
+    totalSamples = 0;
+    samplesSinceFrame = 0;
+    frameCount = 0;
+    historyIndex = 0;
+    peakRms = PEAK_FLOOR;
+    for (const { state } of bands) {
+      state.previousEnergy = 0;
+      state.peakFlux = PEAK_FLOOR;
+      state.recent.fill(0);
+      state.recentSum = 0;
+      state.previousValue = 0;
+      state.previousPreviousValue = 0;
+      state.lastOnsetSeconds = Number.NEGATIVE_INFINITY;
+    }
+  };
+
+  const analyzeFrame = (timeSeconds: number, events: LiveAnalysisEvent[]): void => {
+    let rmsAcc = 0;
+    for (let i = 0; i < WINDOW_SIZE; i += 1) {
+      const sample = ring[(ringIndex + i) % WINDOW_SIZE];
+      frame[i] = sample * window[i];
+      rmsAcc += sample * sample;
+    }
+    fft.powerSpectrum(frame, power);
+
+    const rms = Math.sqrt(rmsAcc / WINDOW_SIZE);
+    peakRms = Math.max(PEAK_FLOOR, peakRms * peakDecay, rms);
+    events.push({ type: "level", timeSeconds, intensity: Math.min(1, rms / peakRms) });
+
+    const slot = frameCount % adaptiveFrames;
+    let envelope = 0;
+    for (const { band, state } of bands) {
+      let energy = 0;
+      for (let k = state.bins[0]; k <= state.bins[1]; k += 1) {
+        energy += power[k];
+      }
+      const compressed = Math.log1p((energy / (WINDOW_SIZE * WINDOW_SIZE)) * BAND_ENERGY_GAIN);
+      const flux = Math.max(0, compressed - state.previousEnergy);
+      state.previousEnergy = compressed;
+      state.peakFlux = Math.max(PEAK_FLOOR, state.peakFlux * peakDecay, flux);
+
+      const normalized = flux / state.peakFlux;
+      state.recentSum += normalized - state.recent[slot];
+      state.recent[slot] = normalized;
+      const value = Math.max(0, normalized - state.recentSum / adaptiveFrames);
+      envelope += value;
+
+      // The previous frame was a peak once this one is lower.
+      const candidate = state.previousValue;
+      const candidateSeconds = timeSeconds - hopSeconds;
+      if (
+        candidate >= ONSET_MIN_STRENGTH &&
+        candidate >= state.previousPreviousValue &&
+        candidate > value &&
+        candidateSeconds - state.lastOnsetSeconds >= ONSET_MIN_SPACING_SECONDS
+      ) {
+        events.push({ type: "onset", timeSeconds: candidateSeconds, band, strength: candidate });
+        state.lastOnsetSeconds = candidateSeconds;
+      }
+      state.previousPreviousValue = state.previousValue;
+      state.previousValue = value;
+    }
+
+    history[historyIndex] = envelope;
+    historyIndex = (historyIndex + 1) % historyLength;
+    frameCount += 1;
+
+    if (frameCount >= tempoMinFrames && frameCount % tempoUpdateFrames === 0) {
+      const tempo = estimateTempo(
+        unrollHistory(history, historyIndex, Math.min(frameCount, historyLength)),
+        hopSeconds,
+        timeSeconds
+      );
+      if (tempo) {
+        events.push(tempo);
+      }
+    }
+  };
+
+  const process = (samples: Float32Array, startSeconds: number): LiveAnalysisEvent[] => {
+    const events: LiveAnalysisEvent[] = [];
+    for (let i = 0; i < samples.length; i += 1) {
+      ring[ringIndex] = samples[i];
+      ringIndex = (ringIndex + 1) % WINDOW_SIZE;
+      totalSamples += 1;
+      samplesSinceFrame += 1;
+      if (samplesSinceFrame >= HOP_SIZE && totalSamples >= WINDOW_SIZE) {
+        samplesSinceFrame = 0;
+        // Frames are stamped at the window center.
+        const frameEndSeconds = startSeconds + (i + 1) / sampleRate;
+        analyzeFrame(frameEndSeconds - WINDOW_SIZE / 2 / sampleRate, events);
+      }
+    }
+    return events;
+  };
+
+  reset();
+  return {
+    process,
+    reset
+  };
+}
+
+function createBandState(
+  rangeHz: [number, number],
+  sampleRate: number,
+  adaptiveFrames: number
+): BandState {
+  const binHz = sampleRate / WINDOW_SIZE;
+  const lastBin = WINDOW_SIZE / 2;
+  const firstBin = Math.min(lastBin, Math.max(1, Math.ceil(rangeHz[0] / binHz)));
+  const endBin = Math.min(lastBin, Math.max(firstBin, Math.floor(rangeHz[1] / binHz)));
+  return {
+    bins: [firstBin, endBin],
+    previousEnergy: 0,
+    peakFlux: PEAK_FLOOR,
+    recent: new Float32Array(adaptiveFrames),
+    recentSum: 0,
+    previousValue: 0,
+    previousPreviousValue: 0,
+    lastOnsetSeconds: Number.NEGATIVE_INFINITY
+  };
+}
+
+function unrollHistory(history: Float32Array, nextIndex: number, length: number): Float32Array {
+  const unrolled = new Float32Array(length);
+  const start = nextIndex - length + history.length;
+  for (let i = 0; i < length; i += 1) {
+    unrolled[i] = history[(start + i) % history.length];
+  }
+  return unrolled;
+}
+
+/**
+ * Tempo from the autocorrelation of the onset envelope (with a prior around
+ * PREFERRED_BPM), then phase from a decaying comb over the most recent beats.
+ */
+function estimateTempo(
+  envelope: Float32Array,
+  hopSeconds: number,
+  latestFrameSeconds: number
+): Extract<LiveAnalysisEvent, { type: "tempo" }> | null {
+  const length = envelope.length;
+  let mean = 0;
+  for (let i = 0; i < length; i += 1) {
+    mean += envelope[i];
+  }
+  mean /= Math.max(1, length);
+  const centered = envelope.map((value) => value - mean);
+
+  let energy = 0;
+  for (let i = 0; i < length; i += 1) {
+    energy += centered[i] * centered[i];
+  }
+  if (energy <= 1e-9) {
+    return null;
+  }
+  energy /= length;
+
+  const minLag = Math.max(1, Math.floor(60 / MAX_BPM / hopSeconds));
+  const maxLag = Math.min(length - 2, Math.ceil(60 / MIN_BPM / hopSeconds));
+  const correlation = new Float32Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag += 1) {
+    let sum = 0;
+    for (let i = lag; i < length; i += 1) {
+      sum += centered[i] * centered[i - lag];
+    }
+    correlation[lag] = sum / (length - lag);
+  }
+
+  let bestLag = -1;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag += 1) {
+    const bpm = 60 / (lag * hopSeconds);
+    const octaves = Math.log2(bpm / PREFERRED_BPM) / TEMPO_PRIOR_OCTAVES;
+    const score = correlation[lag] * Math.exp(-0.5 * octaves * octaves);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  if (bestLag < 0) {
+    return null;
+  }
+
+  const left = correlation[bestLag - 1];
+  const center = correlation[bestLag];
+  const right = correlation[bestLag + 1];
+  const curvature = left - 2 * center + right;
+  const offset = curvature < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (left - right)) / curvature)) : 0;
+  const lagFrames = bestLag + offset;
+
+  let bestPhase = 0;
+  let bestPhaseScore = Number.NEGATIVE_INFINITY;
+  for (let phase = 0; phase < Math.ceil(lagFrames); phase += 1) {
+    let score = 0;
+    let weight = 1;
+    for (let beat = 0; beat < PHASE_BEAT_COUNT; beat += 1) {
+      const index = Math.round(length - 1 - phase - beat * lagFrames);
+      if (index < 0) {
+        break;
+      }
+      score += envelope[index] * weight;
+      weight *= PHASE_BEAT_DECAY;
+    }
+    if (score > bestPhaseScore) {
+      bestPhaseScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  const intervalSeconds = lagFrames * hopSeconds;
+  return {
+    type: "tempo",
+    bpm: 60 / intervalSeconds,
+    intervalSeconds,
+    beatSeconds: latestFrameSeconds - bestPhase * hopSeconds,
+    confidence: Math.max(0, Math.min(1, center / energy))
+  };
+}
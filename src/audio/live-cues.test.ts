@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { createLiveCueScheduler } from "./live-cues";
+
+describe("createLiveCueScheduler", () => {
+  it("commits predicted beats inside the horizon exactly once", () => {
+    const scheduler = createLiveCueScheduler({ horizonSeconds: 1.2, minLeadSeconds: 0.25 });
+    scheduler.handleEvent({ type: "onset", timeSeconds: 9.5, band: "low", strength: 0.9 });
+    scheduler.handleEvent({ type: "onset", timeSeconds: 9.75, band: "high", strength: 0.7 });
+    scheduler.handleEvent({
+      type: "tempo",
+      bpm: 120,
+      intervalSeconds: 0.5,
+      beatSeconds: 9.5,
+      confidence: 0.7
+    });
+
+    const first = scheduler.drain(10);
+    expect(first.source).toBe("beat");
+    expect(first.timesSeconds).toEqual([10.5, 11]);
+    expect(first.bands).toEqual(["low", "low"]);
+
+    expect(scheduler.drain(10.1).timesSeconds).toEqual([]);
+    expect(scheduler.drain(10.35).timesSeconds).toEqual([11.5]);
+  });
+
+  it("falls back to delayed onsets without a tempo lock", () => {
+    const scheduler = createLiveCueScheduler({ onsetDelaySeconds: 0.4, minLeadSeconds: 0.25 });
+    scheduler.handleEvent({ type: "onset", timeSeconds: 2, band: "mid", strength: 0.8 });
+    scheduler.handleEvent({ type: "onset", timeSeconds: 2, band: "high", strength: 0.9 });
+    scheduler.handleEvent({ type: "onset", timeSeconds: 2.3, band: "high", strength: 0.4 });
+    scheduler.handleEvent({
+      type: "tempo",
+      bpm: 96,
+      intervalSeconds: 0.625,
+      beatSeconds: 1.5,
+      confidence: 0.1
+    });
+
+    expect(scheduler.drain(2.05)).toEqual({
+      source: "onset",
+      timesSeconds: [2.4],
+      bands: ["mid"]
+    });
+    scheduler.handleEvent({ type: "onset", timeSeconds: 2.1, band: "low", strength: 0.9 });
+    expect(scheduler.drain(2.4).timesSeconds).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+import type { LiveAnalysisEvent } from "./live-analyzer";
+import type { OnsetBand } from "./types";
+
+const DEFAULT_HORIZON_SECONDS = 1.2;
+const DEFAULT_MIN_LEAD_SECONDS = 0.25;
+const DEFAULT_ONSET_DELAY_SECONDS = 0.4;
+const DEFAULT_MIN_TEMPO_CONFIDENCE = 0.25;
+const ONSET_CUE_MIN_STRENGTH = 0.6;
+const ONSET_CUE_MIN_SPACING_SECONDS = 0.12;
+const BEAT_BAND_MATCH_SECONDS = 0.06;
+const BEAT_BAND_LOOKBACK_BEATS = 8;
+const ONSET_MEMORY_SECONDS = 5;
+
+type LiveCueSchedulerOptions = {
+  /** Predicted beats are committed once they are this close. */
+  horizonSeconds?: number;
+  /** Cues closer than this cannot be planned and are left to catch-up kills. */
+  minLeadSeconds?: number;
+  /** Without a tempo lock, onsets become cues this long after they are heard. */
+  onsetDelaySeconds?: number;
+  minTempoConfidence?: number;
+};
+
+export type LiveCueBatch = {
+  /** Predicted beats while tempo-locked, delayed onsets otherwise. */
+  source: "beat" | "onset";
+  timesSeconds: number[];
+  bands: Array<OnsetBand | null>;
+};
+
+export type LiveCueScheduler = {
+  handleEvent: (event: LiveAnalysisEvent) => void;
+  /** Cues newly committed at `nowSeconds`, in the analyzer's time base. */
+  drain: (nowSeconds: number) => LiveCueBatch;
+  reset: () => void;
+};
+
+type TempoLock = {
+  intervalSeconds: number;
+  beatSeconds: number;
+};
+
+type HeardOnset = {
+  timeSeconds: number;
+  band: OnsetBand;
+  strength: number;
+};
+
+/**
+ * Turns streaming analysis into cues the sim can plan for: beats predicted
+ * from the tempo lock once they enter the horizon, or delayed onsets until
+ * a tempo is found. Committed cues are never revised.
+ */
+export function createLiveCueScheduler(options: LiveCueSchedulerOptions = {}): LiveCueScheduler {
+  const horizonSeconds = options.horizonSeconds ?? DEFAULT_HORIZON_SECONDS;
+  const minLeadSeconds = options.minLeadSeconds ?? DEFAULT_MIN_LEAD_SECONDS;
+  const onsetDelaySeconds = options.onsetDelaySeconds ?? DEFAULT_ONSET_DELAY_SECONDS;
+  const minTempoConfidence = options.minTempoConfidence ?? DEFAULT_MIN_TEMPO_CONFIDENCE;
+
+  let tempo: TempoLock | null = null;
+  let onsets: HeardOnset[] = [];
+  let pendingOnsetCues: HeardOnset[] = [];
+  let lastCommittedSeconds = Number.NEGATIVE_INFINITY;
+
+  const handleEvent = (event: LiveAnalysisEvent): void => {
+    if (event.type === "tempo") {
+      tempo =
+        event.confidence >= minTempoConfidence
+          ? { intervalSeconds: event.intervalSeconds, beatSeconds: event.beatSeconds }
+          : null;
+      return;
+    }
+    if (event.type === "onset") {
+      const onset = { timeSeconds: event.timeSeconds, band: event.band, strength: event.strength };
+      onsets.push(onset);
+      if (event.strength >= ONSET_CUE_MIN_STRENGTH) {
+        pendingOnsetCues.push(onset);
+      }
+    }
+  };
+
+  const findBeatBand = (beatSeconds: number, nowSeconds: number, intervalSeconds: number) => {
+    // Bands repeat with the groove, so look at the same position in earlier beats.
+    for (let beat = 1; beat <= BEAT_BAND_LOOKBACK_BEATS; beat += 1) {
+      const pastBeatSeconds = beatSeconds - beat * intervalSeconds;
+      if (pastBeatSeconds > nowSeconds) {
+        continue;
+      }
+      let best: HeardOnset | null = null;
+      for (const onset of onsets) {
+        if (
+          Math.abs(onset.timeSeconds - pastBeatSeconds) <= BEAT_BAND_MATCH_SECONDS &&
+          (!best || onset.strength > best.strength)
+        ) {
+          best = onset;
+        }
+      }
+      if (best) {
+        return best.band;
+      }
+    }
+    return null;
+  };
+
+  const drain = (nowSeconds: number): LiveCueBatch => {
+    const batch: LiveCueBatch = { source: tempo ? "beat" : "onset", timesSeconds: [], bands: [] };
+    onsets = onsets.filter((onset) => onset.timeSeconds >= nowSeconds - ONSET_MEMORY_SECONDS);
+
+    if (tempo) {
+      pendingOnsetCues = [];
+      const { intervalSeconds, beatSeconds } = tempo;
+      const earliest = Math.max(
+        nowSeconds + minLeadSeconds,
+        lastCommittedSeconds + intervalSeconds * 0.5
+      );
+      let beat = Math.ceil((earliest - beatSeconds) / intervalSeconds);
+      for (
+        let timeSeconds = beatSeconds + beat * intervalSeconds;
+        timeSeconds <= nowSeconds + horizonSeconds;
+        beat += 1, timeSeconds = beatSeconds + beat * intervalSeconds
+      ) {
+        batch.timesSeconds.push(timeSeconds);
+        batch.bands.push(findBeatBand(timeSeconds, nowSeconds, intervalSeconds));
+        lastCommittedSeconds = timeSeconds;
+      }
+      return batch;
+    }
+
+    for (const onset of pendingOnsetCues) {
+      const timeSeconds = onset.timeSeconds + onsetDelaySeconds;
+      if (
+        timeSeconds < nowSeconds + minLeadSeconds ||
+        timeSeconds - lastCommittedSeconds < ONSET_CUE_MIN_SPACING_SECONDS
+      ) {
+        continue;
+      }
+      batch.timesSeconds.push(timeSeconds);
+      batch.bands.push(onset.band);
+      lastCommittedSeconds = timeSeconds;
+    }
+    pendingOnsetCues = [];
+    return batch;
+  };
+
+  const reset = (): void => {
+    tempo = null;
+    onsets = [];
+    pendingOnsetCues = [];
+    lastCommittedSeconds = Number.NEGATIVE_INFINITY;
+  };
+
+  return {
+    handleEvent,
+    drain,
+    reset
+  };
+}
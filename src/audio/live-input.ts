@@ -0,0 +1,86 @@
+import { LIVE_ANALYSIS_PROCESSOR, type LiveAnalysisEvent } from "./live-analyzer";
+import type { LiveWorkletMessage, LiveWorkletRequest } from "./live-analysis-worklet";
+import liveAnalysisWorkletUrl from "./live-analysis-worklet.ts?worker&url";
+
+type LiveInputHandlers = {
+  onEvents: (events: LiveAnalysisEvent[]) => void;
+};
+
+export type LiveInputSession = {
+  /** AudioContext time, the clock analysis events are stamped with. */
+  getTimeSeconds: () => number;
+  /** Clears the analyzer's tempo and onset history, e.g. between songs of a set. */
+  resetAnalysis: () => void;
+  /** Tears down the audio graph; the caller still owns the stream's tracks. */
+  stop: () => void;
+};
+
+/** Raw input for analysis: browser voice processing smears transients. */
+export function requestLiveInputStream(): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({
+    audio: {
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false
+    }
+  });
+}
+
+/**
+ * Streams a MediaStream through the live analysis worklet. The input is not
+ * played back, so a microphone next to the speakers cannot feed back.
+ */
+export async function startLiveInput(
+  stream: MediaStream,
+  handlers: LiveInputHandlers
+): Promise<LiveInputSession> {
+  const audioContext = new AudioContext({ latencyHint: "interactive" });
+  let node: AudioWorkletNode;
+  try {
+    await audioContext.audioWorklet.addModule(liveAnalysisWorkletUrl);
+    node = new AudioWorkletNode(audioContext, LIVE_ANALYSIS_PROCESSOR, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [1]
+    });
+  } catch (error) {
+    void audioContext.close();
+    throw error;
+  }
+
+  const source = audioContext.createMediaStreamSource(stream);
+  // Worklets only render while connected to the destination; keep it silent.
+  const mute = audioContext.createGain();
+  mute.gain.value = 0;
+  source.connect(node);
+  node.connect(mute);
+  mute.connect(audioContext.destination);
+  node.port.onmessage = (event: MessageEvent<LiveWorkletMessage>) => {
+    if (event.data.type === "events") {
+      handlers.onEvents(event.data.events);
+    }
+  };
+  if (audioContext.state === "suspended") {
+    await audioContext.resume();
+  }
+
+  let stopped = false;
+  return {
+    getTimeSeconds: () => audioContext.currentTime,
+    resetAnalysis() {
+      const request: LiveWorkletRequest = { type: "reset" };
+      node.port.postMessage(request);
+    },
+    stop() {
+      if (stopped) {
+        return;
+      }
+      stopped = true;
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      mute.disconnect();
+      void audioContext.close();
+    }
+  };
+}
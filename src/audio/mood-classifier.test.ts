@@ -10,6 +10,8 @@ function buildFrames(
   for (let i = 0; i < count; i += 1) {
     frames.push({
       timeSeconds: i * 0.01,
+      rolloff: 0.5,
+      flatness: 0.2,
       ...values
     });
   }
@@ -20,7 +22,13 @@ const beatTemplate: BeatAnalysis = {
   bpm: 120,
   beatTimesSeconds: [],
   beatIntervalSeconds: 0.5,
-  confidence: 1
+  confidence: 1,
+  tempoMap: [],
+  meter: "4/4",
+  beatsPerBar: 4,
+  meterConfidence: 0,
+  downbeatIndices: [],
+  barTimesSeconds: []
 };
 
 describe("classifyMood", () => {
@@ -51,4 +59,32 @@ describe("classifyMood", () => {
     );
     expect(mood.label).toBe("aggressive");
   });
+
+  it("tracks mood changes across the track in a windowed timeline", () => {
+    const calm = buildFrames(2000, {
+      rms: 0.2,
+      flux: 0.1,
+      centroid: 0.2,
+      onset: 0.1,
+      intensity: 0.2
+    });
+    const aggressive = buildFrames(2000, {
+      rms: 0.95,
+      flux: 0.9,
+      centroid: 0.9,
+      onset: 0.9,
+      intensity: 0.95
+    }).map((frame) => ({ ...frame, timeSeconds: frame.timeSeconds + 20 }));
+
+    const mood = classifyMood([...calm, ...aggressive], { ...beatTemplate, bpm: 140 });
+    const first = mood.timeline[0];
+    const last = mood.timeline[mood.timeline.length - 1];
+
+    expect(first.label).toBe("calm");
+    expect(last.label).toBe("aggressive");
+    expect(last.timeSeconds).toBeGreaterThan(30);
+    for (let i = 1; i < mood.timeline.length; i += 1) {
+      expect(mood.timeline[i].timeSeconds).toBeGreaterThan(mood.timeline[i - 1].timeSeconds);
+    }
+  });
 });
@@ -1,27 +1,91 @@
-import type { BeatAnalysis, FeatureFrame, MoodAnalysis, MoodLabel } from "./types";
+import type { BeatAnalysis, FeatureFrame, MoodAnalysis, MoodLabel, MoodTimelinePoint } from "./types";
+
+type ClassifyMoodOptions = {
+  windowSeconds?: number;
+  hopSeconds?: number;
+};
+
+const DEFAULT_WINDOW_SECONDS = 8;
+const DEFAULT_HOP_SECONDS = 2;
 
 export function classifyMood(
   frames: FeatureFrame[],
-  beat: BeatAnalysis
+  beat: BeatAnalysis,
+  options: ClassifyMoodOptions = {}
 ): MoodAnalysis {
   if (frames.length === 0) {
     return {
       label: "driving",
-      confidence: 0
+      confidence: 0,
+      timeline: []
     };
   }
 
+  const overall = labelEnergy(scoreEnergy(frames, beat.bpm));
+  return {
+    ...overall,
+    timeline: buildMoodTimeline(frames, beat, options)
+  };
+}
+
+/**
+ * Classifies overlapping windows so a track can move from a calm intro to an
+ * aggressive peak. Window scores are median-smoothed before labeling to keep
+ * single noisy windows from flipping the mood.
+ */
+function buildMoodTimeline(
+  frames: FeatureFrame[],
+  beat: BeatAnalysis,
+  options: ClassifyMoodOptions
+): MoodTimelinePoint[] {
+  const windowSeconds = Math.max(1, options.windowSeconds ?? DEFAULT_WINDOW_SECONDS);
+  const hopSeconds = Math.max(0.25, options.hopSeconds ?? DEFAULT_HOP_SECONDS);
+  const durationSeconds = frames[frames.length - 1].timeSeconds;
+
+  const centers: number[] = [];
+  const scores: number[] = [];
+  let frameStart = 0;
+  for (let center = 0; center <= durationSeconds + 1e-6; center += hopSeconds) {
+    const windowStart = center - windowSeconds * 0.5;
+    const windowEnd = center + windowSeconds * 0.5;
+    while (frameStart < frames.length && frames[frameStart].timeSeconds < windowStart) {
+      frameStart += 1;
+    }
+    let frameEnd = frameStart;
+    while (frameEnd < frames.length && frames[frameEnd].timeSeconds < windowEnd) {
+      frameEnd += 1;
+    }
+    if (frameEnd === frameStart) {
+      continue;
+    }
+    centers.push(center);
+    scores.push(scoreEnergy(frames.slice(frameStart, frameEnd), bpmAtTime(beat, center)));
+  }
+
+  return centers.map((timeSeconds, index) => {
+    const smoothed = median3(scores[index - 1], scores[index], scores[index + 1]);
+    return {
+      timeSeconds,
+      ...labelEnergy(smoothed)
+    };
+  });
+}
+
+function scoreEnergy(frames: FeatureFrame[], bpm: number): number {
   const averageIntensity = mean(frames.map((frame) => frame.intensity));
   const averageCentroid = mean(frames.map((frame) => frame.centroid));
   const averageOnset = mean(frames.map((frame) => frame.onset));
-  const bpmScore = clamp((beat.bpm - 70) / 110, 0, 1);
+  const bpmScore = clamp((bpm - 70) / 110, 0, 1);
 
-  const energyScore =
+  return (
     averageIntensity * 0.5 +
     averageOnset * 0.2 +
     averageCentroid * 0.2 +
-    bpmScore * 0.1;
+    bpmScore * 0.1
+  );
+}
 
+function labelEnergy(energyScore: number): { label: MoodLabel; confidence: number } {
   let label: MoodLabel;
   if (energyScore < 0.4) {
     label = "calm";
@@ -40,6 +104,24 @@ export function classifyMood(
   };
 }
 
+function bpmAtTime(beat: BeatAnalysis, timeSeconds: number): number {
+  let bpm = beat.bpm;
+  for (const point of beat.tempoMap) {
+    if (point.timeSeconds > timeSeconds) {
+      break;
+    }
+    bpm = point.bpm;
+  }
+  return bpm;
+}
+
+function median3(a: number | undefined, b: number, c: number | undefined): number {
+  if (a === undefined || c === undefined) {
+    return b;
+  }
+  return Math.max(Math.min(a, b), Math.min(Math.max(a, b), c));
+}
+
 function mean(values: number[]): number {
   if (values.length === 0) {
     return 0;
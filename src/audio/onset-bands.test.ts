@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractBandEnergyTimeline,
+  extractBandOnsets,
+  getDominantOnsetBand,
+  pickBandOnsetPeaks
+} from "./onset-bands";
+import type { SpectrumTimeline } from "./types";
+
+const FRAME_HOP_SECONDS = 0.02;
+const BIN_FREQUENCIES_HZ = [80, 1000, 5000, 6500];
+
+function buildSpectrum(lowHits: number[], highHits: number[]): SpectrumTimeline {
+  const frameCount = 120;
+  const binCount = BIN_FREQUENCIES_HZ.length;
+  const bins = new Float32Array(frameCount * binCount);
+  for (let frame = 0; frame < frameCount; frame += 1) {
+    const lowAge = Math.min(...lowHits.map((hit) => (frame >= hit ? frame - hit : Infinity)));
+    const highAge = Math.min(...highHits.map((hit) => (frame >= hit ? frame - hit : Infinity)));
+    bins[frame * binCount] = Number.isFinite(lowAge) ? Math.exp(-lowAge * 0.4) : 0;
+    bins[frame * binCount + 1] = 0.2;
+    const high = Number.isFinite(highAge) ? Math.exp(-highAge * 0.8) : 0;
+    bins[frame * binCount + 2] = high;
+    bins[frame * binCount + 3] = high;
+  }
+  return {
+    frameHopSeconds: FRAME_HOP_SECONDS,
+    frameCount,
+    binCount,
+    bins,
+    beatEnvelope: new Float32Array(frameCount)
+  };
+}
+
+describe("band onsets", () => {
+  it("separates kick-like and hat-like onsets by band", () => {
+    const lowHits = [10, 40, 70, 100];
+    const highHits = [25, 55, 85];
+    const timeline = extractBandOnsets(buildSpectrum(lowHits, highHits), BIN_FREQUENCIES_HZ);
+    const peaks = pickBandOnsetPeaks(timeline);
+
+    const lowPeakFrames = peaks
+      .filter((peak) => peak.band === "low")
+      .map((peak) => Math.round(peak.timeSeconds / FRAME_HOP_SECONDS));
+    const highPeakFrames = peaks
+      .filter((peak) => peak.band === "high")
+      .map((peak) => Math.round(peak.timeSeconds / FRAME_HOP_SECONDS));
+    expect(lowPeakFrames).toEqual(lowHits);
+    expect(highPeakFrames).toEqual(highHits);
+    expect(peaks.some((peak) => peak.band === "mid")).toBe(false);
+
+    expect(getDominantOnsetBand(timeline, 40 * FRAME_HOP_SECONDS)).toBe("low");
+    expect(getDominantOnsetBand(timeline, 55 * FRAME_HOP_SECONDS)).toBe("high");
+    expect(getDominantOnsetBand(timeline, 33 * FRAME_HOP_SECONDS)).toBeNull();
+  });
+
+  it("samples mean band energy on a coarser grid", () => {
+    const samples = extractBandEnergyTimeline(buildSpectrum([10], [25]), BIN_FREQUENCIES_HZ, 0.1);
+
+    expect(samples).toHaveLength(24);
+    expect(samples[1].timeSeconds).toBeCloseTo(0.1);
+    expect(samples[2]).toMatchObject({ low: 1, high: 0 });
+    expect(samples[2].mid).toBeCloseTo(0.2);
+    expect(samples[5].high).toBe(1);
+    expect(samples[0]).toMatchObject({ low: 0, high: 0 });
+  });
+});
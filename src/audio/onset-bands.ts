@@ -0,0 +1,199 @@
+import type { OnsetBand, SpectrumTimeline } from "./types";
+
+export const ONSET_BANDS: OnsetBand[] = ["low", "mid", "high"];
+
+export const ONSET_BAND_RANGES_HZ: Record<OnsetBand, [number, number]> = {
+  low: [0, 160],
+  mid: [160, 2500],
+  high: [3500, Number.POSITIVE_INFINITY]
+};
+const ADAPTIVE_WINDOW_SECONDS = 0.35;
+const PEAK_MIN_SPACING_SECONDS = 0.09;
+const PEAK_MIN_STRENGTH = 0.35;
+const DOMINANT_BAND_WINDOW_SECONDS = 0.04;
+const DOMINANT_BAND_MIN_ONSET = 0.25;
+
+export type BandOnsetTimeline = {
+  frameHopSeconds: number;
+  onsets: Record<OnsetBand, Float32Array>;
+};
+
+export type BandOnsetPeak = {
+  timeSeconds: number;
+  band: OnsetBand;
+  strength: number;
+};
+
+export type BandEnergySample = {
+  timeSeconds: number;
+  low: number;
+  mid: number;
+  high: number;
+};
+
+/**
+ * Per-band onset strength from the spectrum timeline: rectified energy rise
+ * minus its local mean, normalized to 0..1 per band.
+ */
+export function extractBandOnsets(
+  spectrum: SpectrumTimeline,
+  binFrequenciesHz: number[]
+): BandOnsetTimeline {
+  const onsets = {} as Record<OnsetBand, Float32Array>;
+  for (const band of ONSET_BANDS) {
+    onsets[band] = computeBandOnset(spectrum, getBandBinIndices(spectrum, binFrequenciesHz, band));
+  }
+
+  return {
+    frameHopSeconds: spectrum.frameHopSeconds,
+    onsets
+  };
+}
+
+/**
+ * Mean energy per band (0..1) sampled every `intervalSeconds`, so the sim
+ * can shape enemy fire by what the kick, snare and hats are doing.
+ */
+export function extractBandEnergyTimeline(
+  spectrum: SpectrumTimeline,
+  binFrequenciesHz: number[],
+  intervalSeconds = 1 / 30
+): BandEnergySample[] {
+  const binIndices = {} as Record<OnsetBand, number[]>;
+  for (const band of ONSET_BANDS) {
+    binIndices[band] = getBandBinIndices(spectrum, binFrequenciesHz, band);
+  }
+  const hop = Math.max(1e-6, spectrum.frameHopSeconds);
+  const stride = Math.max(1, Math.round(intervalSeconds / hop));
+
+  const samples: BandEnergySample[] = [];
+  for (let frameIndex = 0; frameIndex < spectrum.frameCount; frameIndex += stride) {
+    samples.push({
+      timeSeconds: frameIndex * hop,
+      low: getBandEnergy(spectrum, binIndices.low, frameIndex),
+      mid: getBandEnergy(spectrum, binIndices.mid, frameIndex),
+      high: getBandEnergy(spectrum, binIndices.high, frameIndex)
+    });
+  }
+  return samples;
+}
+
+/** Local maxima of each band's onset function, sorted by time. */
+export function pickBandOnsetPeaks(
+  timeline: BandOnsetTimeline,
+  minStrength = PEAK_MIN_STRENGTH
+): BandOnsetPeak[] {
+  const peaks: BandOnsetPeak[] = [];
+  for (const band of ONSET_BANDS) {
+    const values = timeline.onsets[band];
+    let lastPeakTime = Number.NEGATIVE_INFINITY;
+    for (let i = 1; i < values.length - 1; i += 1) {
+      const value = values[i];
+      if (value < minStrength || value < values[i - 1] || value < values[i + 1]) {
+        continue;
+      }
+      const timeSeconds = i * timeline.frameHopSeconds;
+      if (timeSeconds - lastPeakTime < PEAK_MIN_SPACING_SECONDS) {
+        continue;
+      }
+      peaks.push({ timeSeconds, band, strength: value });
+      lastPeakTime = timeSeconds;
+    }
+  }
+  return peaks.sort((a, b) => a.timeSeconds - b.timeSeconds);
+}
+
+/** Band with the strongest onset right around `timeSeconds`, if any stands out. */
+export function getDominantOnsetBand(
+  timeline: BandOnsetTimeline,
+  timeSeconds: number
+): OnsetBand | null {
+  const hop = Math.max(1e-6, timeline.frameHopSeconds);
+  const startIndex = Math.max(0, Math.floor((timeSeconds - DOMINANT_BAND_WINDOW_SECONDS) / hop));
+  const endIndex = Math.ceil((timeSeconds + DOMINANT_BAND_WINDOW_SECONDS) / hop);
+
+  let bestBand: OnsetBand | null = null;
+  let bestValue = DOMINANT_BAND_MIN_ONSET;
+  for (const band of ONSET_BANDS) {
+    const values = timeline.onsets[band];
+    for (let i = startIndex; i <= endIndex && i < values.length; i += 1) {
+      if (values[i] >= bestValue) {
+        bestValue = values[i];
+        bestBand = band;
+      }
+    }
+  }
+  return bestBand;
+}
+
+function getBandBinIndices(
+  spectrum: SpectrumTimeline,
+  binFrequenciesHz: number[],
+  band: OnsetBand
+): number[] {
+  const [minHz, maxHz] = ONSET_BAND_RANGES_HZ[band];
+  return binFrequenciesHz
+    .map((frequencyHz, index) => (frequencyHz >= minHz && frequencyHz < maxHz ? index : -1))
+    .filter((index) => index >= 0 && index < spectrum.binCount);
+}
+
+function getBandEnergy(spectrum: SpectrumTimeline, binIndices: number[], frameIndex: number): number {
+  if (binIndices.length === 0) {
+    return 0;
+  }
+  let sum = 0;
+  for (const binIndex of binIndices) {
+    sum += spectrum.bins[frameIndex * spectrum.binCount + binIndex] ?? 0;
+  }
+  return sum / binIndices.length;
+}
+
+function computeBandOnset(spectrum: SpectrumTimeline, binIndices: number[]): Float32Array {
+  const frameCount = spectrum.frameCount;
+  const onset = new Float32Array(frameCount);
+  if (binIndices.length === 0 || frameCount < 2) {
+    return onset;
+  }
+
+  const energy = new Float32Array(frameCount);
+  for (let frameIndex = 0; frameIndex < frameCount; frameIndex += 1) {
+    energy[frameIndex] = getBandEnergy(spectrum, binIndices, frameIndex);
+  }
+
+  const flux = new Float32Array(frameCount);
+  for (let frameIndex = 1; frameIndex < frameCount; frameIndex += 1) {
+    flux[frameIndex] = Math.max(0, energy[frameIndex] - energy[frameIndex - 1]);
+  }
+
+  const radius = Math.max(
+    1,
+    Math.round(ADAPTIVE_WINDOW_SECONDS / Math.max(1e-6, spectrum.frameHopSeconds) / 2)
+  );
+  let windowSum = 0;
+  let windowStart = 0;
+  let windowEnd = -1;
+  let maxValue = 0;
+  for (let frameIndex = 0; frameIndex < frameCount; frameIndex += 1) {
+    const targetStart = Math.max(0, frameIndex - radius);
+    const targetEnd = Math.min(frameCount - 1, frameIndex + radius);
+    while (windowEnd < targetEnd) {
+      windowEnd += 1;
+      windowSum += flux[windowEnd];
+    }
+    while (windowStart < targetStart) {
+      windowSum -= flux[windowStart];
+      windowStart += 1;
+    }
+    const localMean = windowSum / (windowEnd - windowStart + 1);
+    const value = Math.max(0, flux[frameIndex] - localMean);
+    onset[frameIndex] = value;
+    maxValue = Math.max(maxValue, value);
+  }
+
+  if (maxValue > 1e-6) {
+    for (let frameIndex = 0; frameIndex < frameCount; frameIndex += 1) {
+      onset[frameIndex] /= maxValue;
+    }
+  }
+  return onset;
+}
@@ -0,0 +1,35 @@
+import { bench, describe } from "vitest";
+import { extractSpectrumTimeline } from "./spectrum-extractor";
+import type { AudioTrackData } from "./types";
+
+const SAMPLE_RATE = 44100;
+
+function buildNoiseTrack(durationSeconds: number): AudioTrackData {
+  const channelData = new Float32Array(Math.floor(durationSeconds * SAMPLE_RATE));
+  let state = 1;
+  for (let i = 0; i < channelData.length; i += 1) {
+    state = (state * 16807) % 2147483647;
+    channelData[i] = (state / 2147483647) * 2 - 1;
+  }
+  return {
+    channelData,
+    waveformLeft: channelData,
+    waveformRight: channelData,
+    sampleRate: SAMPLE_RATE,
+    durationSeconds
+  };
+}
+
+const track = buildNoiseTrack(10);
+
+// Run with `pnpm bench`; the FFT cost is flat in binCount, Goertzel is linear.
+for (const binCount of [28, 128, 256]) {
+  describe(`spectrum timeline, ${binCount} bins`, () => {
+    bench("fft", () => {
+      extractSpectrumTimeline(track, { binCount, method: "fft" });
+    });
+    bench("goertzel", () => {
+      extractSpectrumTimeline(track, { binCount, method: "goertzel" });
+    });
+  });
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { extractSpectrumTimeline, getSpectrumBinFrequencies } from "./spectrum-extractor";
+import type { AudioTrackData } from "./types";
+
+function buildToneTrack(durationSeconds: number, sampleRate = 44100): AudioTrackData {
+  const length = Math.floor(durationSeconds * sampleRate);
+  const channelData = new Float32Array(length);
+  let noise = 1;
+  for (let i = 0; i < length; i += 1) {
+    const t = i / sampleRate;
+    const kick = Math.exp(-((t % 0.5) * 18)) * Math.sin(2 * Math.PI * 60 * t);
+    noise = (noise * 16807) % 2147483647;
+    const hat = (t % 0.25 < 0.03 ? 1 : 0) * ((noise / 2147483647) * 2 - 1) * 0.3;
+    channelData[i] = kick * 0.6 + Math.sin(2 * Math.PI * 440 * t) * 0.2 + hat;
+  }
+  return {
+    channelData,
+    waveformLeft: channelData,
+    waveformRight: channelData,
+    sampleRate,
+    durationSeconds
+  };
+}
+
+describe("extractSpectrumTimeline", () => {
+  it("tracks the fractional-frequency Goertzel reference bin for bin", () => {
+    const track = buildToneTrack(2);
+    for (const binCount of [28, 256]) {
+      const fft = extractSpectrumTimeline(track, { binCount, method: "fft" });
+      const goertzel = extractSpectrumTimeline(track, { binCount, method: "goertzel" });
+
+      expect(fft.frameCount).toBe(goertzel.frameCount);
+      expect(fft.binCount).toBe(binCount);
+      let maxDifference = 0;
+      for (let i = 0; i < fft.bins.length; i += 1) {
+        maxDifference = Math.max(maxDifference, Math.abs(fft.bins[i] - goertzel.bins[i]));
+      }
+      expect(maxDifference).toBeLessThan(0.02);
+    }
+  });
+
+  it("keeps low bands narrower than one FFT bin apart", () => {
+    // A log sweep through the low bands: each band should peak as the sweep
+    // passes its own center, not together with its neighbours.
+    const sampleRate = 44100;
+    const durationSeconds = 4;
+    const sweepFrom = 45;
+    const sweepTo = 300;
+    const channelData = new Float32Array(durationSeconds * sampleRate);
+    let phase = 0;
+    for (let i = 0; i < channelData.length; i += 1) {
+      phase += (2 * Math.PI * sweepFrom * Math.pow(sweepTo / sweepFrom, i / channelData.length)) / sampleRate;
+      channelData[i] = Math.sin(phase) * 0.5;
+    }
+    const timeline = extractSpectrumTimeline({
+      channelData,
+      waveformLeft: channelData,
+      waveformRight: channelData,
+      sampleRate,
+      durationSeconds
+    });
+    const frequencies = getSpectrumBinFrequencies(sampleRate);
+
+    for (let binIndex = 1; binIndex <= 6; binIndex += 1) {
+      let peakFrame = 0;
+      for (let frame = 0; frame < timeline.frameCount; frame += 1) {
+        const value = timeline.bins[frame * timeline.binCount + binIndex];
+        if (value > timeline.bins[peakFrame * timeline.binCount + binIndex]) {
+          peakFrame = frame;
+        }
+      }
+      const passSeconds =
+        (durationSeconds * Math.log(frequencies[binIndex] / sweepFrom)) / Math.log(sweepTo / sweepFrom);
+      expect(Math.abs(peakFrame * timeline.frameHopSeconds - passSeconds)).toBeLessThan(0.1);
+    }
+  });
+
+  it("falls back to Goertzel for non power-of-two windows", () => {
+    const track = buildToneTrack(0.5);
+    const timeline = extractSpectrumTimeline(track, { windowSize: 1000 });
+
+    expect(timeline.bins.some((value) => value > 0)).toBe(true);
+    expect(timeline.bins.every((value) => value >= 0 && value <= 1)).toBe(true);
+  });
+});
@@ -1,6 +1,14 @@
+import { createFft, isPowerOfTwo } from "./fft";
 import type { AudioTrackData, SpectrumTimeline } from "./types";
 
+/**
+ * `fft` reads every bin from one transform per frame; `goertzel` runs one
+ * filter per bin and is kept as the reference for non power-of-two windows.
+ */
+export type SpectrumMethod = "fft" | "goertzel";
+
 type SpectrumExtractOptions = {
+  method?: SpectrumMethod;
   windowSize?: number;
   hopSize?: number;
   binCount?: number;
@@ -13,6 +21,7 @@ const DEFAULT_HOP_SIZE = 768;
 const DEFAULT_BIN_COUNT = 28;
 const DEFAULT_MIN_FREQUENCY_HZ = 50;
 const DEFAULT_MAX_FREQUENCY_HZ = 7600;
+const FFT_OVERSAMPLING = 8;
 
 export function extractSpectrumTimeline(
   track: AudioTrackData,
@@ -20,12 +29,8 @@ export function extractSpectrumTimeline(
 ): SpectrumTimeline {
   const windowSize = Math.max(128, options.windowSize ?? DEFAULT_WINDOW_SIZE);
   const hopSize = Math.max(64, options.hopSize ?? DEFAULT_HOP_SIZE);
-  const binCount = Math.max(8, options.binCount ?? DEFAULT_BIN_COUNT);
-  const minFrequencyHz = Math.max(20, options.minFrequencyHz ?? DEFAULT_MIN_FREQUENCY_HZ);
-  const maxFrequencyHz = Math.max(
-    minFrequencyHz + 40,
-    Math.min(track.sampleRate * 0.47, options.maxFrequencyHz ?? DEFAULT_MAX_FREQUENCY_HZ)
-  );
+  const frequencies = getSpectrumBinFrequencies(track.sampleRate, options);
+  const binCount = frequencies.length;
 
   const source = track.channelData;
   const frameCount =
@@ -34,34 +39,29 @@ export function extractSpectrumTimeline(
   const bins = new Float32Array(frameCount * binCount);
   const beatEnvelope = new Float32Array(frameCount);
   const window = buildHannWindow(windowSize);
-  const frequencies = buildLogFrequencies(binCount, minFrequencyHz, maxFrequencyHz);
-  const coefficients = frequencies.map((frequencyHz) =>
-    computeGoertzelCoefficient(windowSize, frequencyHz, track.sampleRate)
-  );
+  const bands = buildSpectrumBands(frequencies, windowSize, track.sampleRate);
+  const measureFrame =
+    options.method !== "goertzel" && isPowerOfTwo(windowSize)
+      ? createFftFrameMeter(windowSize, bands)
+      : createGoertzelFrameMeter(windowSize, bands);
+  const framePowers = new Float64Array(binCount);
+  const windowed = new Float32Array(windowSize);
   const maxByBin = new Float32Array(binCount);
   const maxTimeSeconds = Math.max(0, track.durationSeconds);
   const frameHopSeconds = hopSize / track.sampleRate;
+  const powerScale = Math.max(1e-6, windowSize * windowSize);
 
   for (let frameIndex = 0; frameIndex < frameCount; frameIndex += 1) {
     const start = frameIndex * hopSize;
     const timeSeconds = Math.min(maxTimeSeconds, frameIndex * frameHopSeconds);
 
-    for (let binIndex = 0; binIndex < binCount; binIndex += 1) {
-      const coefficient = coefficients[binIndex] ?? 0;
-      let q0 = 0;
-      let q1 = 0;
-      let q2 = 0;
-
-      for (let i = 0; i < windowSize; i += 1) {
-        const sample = source[start + i] ?? 0;
-        const windowed = sample * (window[i] ?? 0);
-        q0 = windowed + coefficient * q1 - q2;
-        q2 = q1;
-        q1 = q0;
-      }
+    for (let i = 0; i < windowSize; i += 1) {
+      windowed[i] = (source[start + i] ?? 0) * (window[i] ?? 0);
+    }
+    measureFrame(windowed, framePowers);
 
-      const power = q1 * q1 + q2 * q2 - coefficient * q1 * q2;
-      const normalizedPower = Math.max(0, power / Math.max(1e-6, windowSize * windowSize));
+    for (let binIndex = 0; binIndex < binCount; binIndex += 1) {
+      const normalizedPower = Math.max(0, (framePowers[binIndex] ?? 0) / powerScale);
       const offset = frameIndex * binCount + binIndex;
       bins[offset] = normalizedPower;
       if (normalizedPower > (maxByBin[binIndex] ?? 0)) {
@@ -87,6 +87,20 @@ export function extractSpectrumTimeline(
   };
 }
 
+/** Center frequency of each spectrum bin for the given sample rate and options. */
+export function getSpectrumBinFrequencies(
+  sampleRate: number,
+  options: SpectrumExtractOptions = {}
+): number[] {
+  const binCount = Math.max(8, options.binCount ?? DEFAULT_BIN_COUNT);
+  const minFrequencyHz = Math.max(20, options.minFrequencyHz ?? DEFAULT_MIN_FREQUENCY_HZ);
+  const maxFrequencyHz = Math.max(
+    minFrequencyHz + 40,
+    Math.min(sampleRate * 0.47, options.maxFrequencyHz ?? DEFAULT_MAX_FREQUENCY_HZ)
+  );
+  return buildLogFrequencies(binCount, minFrequencyHz, maxFrequencyHz);
+}
+
 function buildHannWindow(size: number): Float32Array {
   const window = new Float32Array(size);
   const denom = Math.max(1, size - 1);
@@ -108,15 +122,109 @@ function buildLogFrequencies(binCount: number, minHz: number, maxHz: number): nu
   return frequencies;
 }
 
-function computeGoertzelCoefficient(
-  windowSize: number,
-  frequencyHz: number,
-  sampleRate: number
-): number {
-  const rawBin = (windowSize * frequencyHz) / sampleRate;
-  const roundedBin = Math.max(1, Math.round(rawBin));
-  const omega = (2 * Math.PI * roundedBin) / windowSize;
-  return 2 * Math.cos(omega);
+/**
+ * A spectrum band in DFT bin units. Each band sums the whole bins between
+ * its log-spaced edges, halfway (in log frequency) to its neighbours. Low
+ * bands narrower than one bin hold none and are read at their fractional
+ * `centerBin` instead, so neighbouring bands no longer collapse onto the
+ * same bin.
+ */
+type SpectrumBand = {
+  wholeBins: number[];
+  centerBin: number;
+};
+
+function buildSpectrumBands(frequencies: number[], windowSize: number, sampleRate: number): SpectrumBand[] {
+  const maxBin = Math.floor(windowSize / 2);
+  const toBin = (frequencyHz: number) => (windowSize * frequencyHz) / sampleRate;
+  const halfStep =
+    frequencies.length > 1 ? Math.log(frequencies[1] / frequencies[0]) / 2 : Math.log(2) / 2;
+
+  return frequencies.map((frequencyHz) => {
+    const low = toBin(frequencyHz * Math.exp(-halfStep));
+    const high = toBin(frequencyHz * Math.exp(halfStep));
+    const wholeBins: number[] = [];
+    for (let bin = Math.max(1, Math.ceil(low)); bin < high && bin <= maxBin; bin += 1) {
+      wholeBins.push(bin);
+    }
+    return {
+      wholeBins,
+      centerBin: Math.min(maxBin, Math.max(1, toBin(frequencyHz)))
+    };
+  });
+}
+
+type FrameMeter = (windowed: Float32Array, out: Float64Array) => void;
+
+/**
+ * The frame is zero-padded to `FFT_OVERSAMPLING` times its length: every
+ * whole bin is still read exactly, and narrow bands interpolate between
+ * fractional bins close enough to their center to track the reference.
+ */
+function createFftFrameMeter(windowSize: number, bands: SpectrumBand[]): FrameMeter {
+  const fft = createFft(windowSize * FFT_OVERSAMPLING);
+  const maxBin = (windowSize * FFT_OVERSAMPLING) / 2;
+  const spectrum = new Float64Array(maxBin + 1);
+  const wholeBinPowers = new Float64Array(windowSize / 2 + 1);
+  return (windowed, out) => {
+    fft.powerSpectrum(windowed, spectrum);
+    for (let bin = 0; bin < wholeBinPowers.length; bin += 1) {
+      wholeBinPowers[bin] = spectrum[bin * FFT_OVERSAMPLING];
+    }
+    for (let bandIndex = 0; bandIndex < bands.length; bandIndex += 1) {
+      const { wholeBins, centerBin } = bands[bandIndex];
+      if (wholeBins.length > 0) {
+        out[bandIndex] = sumBins(wholeBinPowers, wholeBins);
+        continue;
+      }
+      const position = centerBin * FFT_OVERSAMPLING;
+      const lowerBin = Math.min(maxBin - 1, Math.floor(position));
+      const t = position - lowerBin;
+      out[bandIndex] = spectrum[lowerBin] * (1 - t) + spectrum[lowerBin + 1] * t;
+    }
+  };
+}
+
+/** Reference meter: narrow bands run one filter at their exact center frequency. */
+function createGoertzelFrameMeter(windowSize: number, bands: SpectrumBand[]): FrameMeter {
+  const binPowers = new Float64Array(Math.floor(windowSize / 2) + 1);
+  const wholeBins = Array.from(new Set(bands.flatMap((band) => band.wholeBins)));
+  return (windowed, out) => {
+    for (const bin of wholeBins) {
+      binPowers[bin] = measureGoertzelPower(windowed, bin / windowSize);
+    }
+    for (let bandIndex = 0; bandIndex < bands.length; bandIndex += 1) {
+      const band = bands[bandIndex];
+      out[bandIndex] =
+        band.wholeBins.length > 0
+          ? sumBins(binPowers, band.wholeBins)
+          : measureGoertzelPower(windowed, band.centerBin / windowSize);
+    }
+  };
+}
+
+/** Power at `cyclesPerSample`, which need not fall on a DFT bin. */
+function measureGoertzelPower(windowed: Float32Array, cyclesPerSample: number): number {
+  const coefficient = 2 * Math.cos(2 * Math.PI * cyclesPerSample);
+  let q0 = 0;
+  let q1 = 0;
+  let q2 = 0;
+
+  for (let i = 0; i < windowed.length; i += 1) {
+    q0 = windowed[i] + coefficient * q1 - q2;
+    q2 = q1;
+    q1 = q0;
+  }
+
+  return q1 * q1 + q2 * q2 - coefficient * q1 * q2;
+}
+
+function sumBins(powers: Float64Array, bins: number[]): number {
+  let power = 0;
+  for (const bin of bins) {
+    power += powers[bin] ?? 0;
+  }
+  return power;
 }
 
 function normalizeAndShapeBinsInPlace(
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { segmentStructure } from "./structure-segmenter";
+import type { FeatureFrame, SpectrumTimeline } from "./types";
+
+type SyntheticSection = {
+  endSeconds: number;
+  intensityFrom: number;
+  intensityTo: number;
+  spectrumPeakBin: number;
+};
+
+const HOP_SECONDS = 0.05;
+const BIN_COUNT = 16;
+
+function buildTrack(sections: SyntheticSection[]): { frames: FeatureFrame[]; spectrum: SpectrumTimeline } {
+  const durationSeconds = sections[sections.length - 1].endSeconds;
+  const frameCount = Math.floor(durationSeconds / HOP_SECONDS);
+  const frames: FeatureFrame[] = [];
+  const bins = new Float32Array(frameCount * BIN_COUNT);
+  let sectionIndex = 0;
+  let sectionStart = 0;
+
+  for (let i = 0; i < frameCount; i += 1) {
+    const timeSeconds = i * HOP_SECONDS;
+    while (timeSeconds >= sections[sectionIndex].endSeconds) {
+      sectionStart = sections[sectionIndex].endSeconds;
+      sectionIndex += 1;
+    }
+    const section = sections[sectionIndex];
+    const progress = (timeSeconds - sectionStart) / (section.endSeconds - sectionStart);
+    const intensity = section.intensityFrom + (section.intensityTo - section.intensityFrom) * progress;
+    const wobble = Math.sin(i * 0.7) * 0.03;
+    frames.push({
+      timeSeconds,
+      rms: intensity + wobble,
+      flux: intensity * 0.5,
+      centroid: 0.3 + section.spectrumPeakBin / (BIN_COUNT * 2),
+      rolloff: 0.5,
+      flatness: 0.2,
+      onset: intensity * 0.6 + wobble,
+      intensity
+    });
+    for (let bin = 0; bin < BIN_COUNT; bin += 1) {
+      const distance = bin - section.spectrumPeakBin;
+      bins[i * BIN_COUNT + bin] = intensity * Math.exp(-(distance * distance) / 6);
+    }
+  }
+
+  return {
+    frames,
+    spectrum: {
+      frameHopSeconds: HOP_SECONDS,
+      frameCount,
+      binCount: BIN_COUNT,
+      bins,
+      beatEnvelope: new Float32Array(frameCount)
+    }
+  };
+}
+
+function sectionAt(sections: ReturnType<typeof segmentStructure>, timeSeconds: number) {
+  return sections.find((section) => timeSeconds >= section.startSeconds && timeSeconds < section.endSeconds);
+}
+
+describe("segmentStructure", () => {
+  it("finds section boundaries and labels intro, build, drop and outro", () => {
+    const { frames, spectrum } = buildTrack([
+      { endSeconds: 20, intensityFrom: 0.2, intensityTo: 0.2, spectrumPeakBin: 3 },
+      { endSeconds: 44, intensityFrom: 0.5, intensityTo: 0.5, spectrumPeakBin: 7 },
+      { endSeconds: 56, intensityFrom: 0.5, intensityTo: 0.85, spectrumPeakBin: 10 },
+      { endSeconds: 88, intensityFrom: 0.95, intensityTo: 0.95, spectrumPeakBin: 13 },
+      { endSeconds: 104, intensityFrom: 0.2, intensityTo: 0.2, spectrumPeakBin: 3 }
+    ]);
+
+    const sections = segmentStructure(frames, spectrum);
+    const boundaries = sections.slice(1).map((section) => section.startSeconds);
+    for (const expected of [20, 44, 56, 88]) {
+      expect(boundaries.some((boundary) => Math.abs(boundary - expected) <= 2)).toBe(true);
+    }
+
+    expect(sections[0].label).toBe("intro");
+    expect(sectionAt(sections, 50)?.label).toBe("build");
+    expect(sectionAt(sections, 70)?.label).toBe("drop");
+    expect(sectionAt(sections, 70)?.energy).toBeCloseTo(1, 5);
+    expect(sections[sections.length - 1].label).toBe("outro");
+    expect(sections[sections.length - 1].endSeconds).toBeCloseTo(frames[frames.length - 1].timeSeconds, 5);
+  });
+
+  it("returns a single section for a uniform track", () => {
+    const { frames, spectrum } = buildTrack([
+      { endSeconds: 60, intensityFrom: 0.5, intensityTo: 0.5, spectrumPeakBin: 6 }
+    ]);
+
+    const sections = segmentStructure(frames, spectrum);
+    expect(sections).toHaveLength(1);
+    expect(sections[0].startSeconds).toBe(0);
+  });
+});
@@ -0,0 +1,278 @@
+import type { FeatureFrame, SectionLabel, SongSection, SpectrumTimeline } from "./types";
+
+type SegmentStructureOptions = {
+  blockSeconds?: number;
+  kernelBlocks?: number;
+  minSectionSeconds?: number;
+};
+
+const DEFAULT_BLOCK_SECONDS = 1;
+const DEFAULT_KERNEL_BLOCKS = 8;
+const DEFAULT_MIN_SECTION_SECONDS = 8;
+const NOVELTY_THRESHOLD_STD = 0.5;
+const NOVELTY_MIN = 0.15;
+// Feature values live roughly in 0..1; flooring the standard deviation keeps
+// near-constant dimensions from being inflated into noise.
+const FEATURE_STD_FLOOR = 0.05;
+const DROP_ENERGY_MIN = 0.72;
+const BREAKDOWN_ENERGY_MAX = 0.38;
+const EDGE_ENERGY_MAX = 0.5;
+const BUILD_MIN_RISE = 0.08;
+
+/**
+ * Splits a track into labeled sections. Blocks of frame features and
+ * spectrum bins form a self-similarity matrix (kept only near its diagonal);
+ * a checkerboard kernel slid along the diagonal scores novelty, and novelty
+ * peaks become boundaries.
+ * Labels come from each section's relative energy and its neighbours.
+ */
+export function segmentStructure(
+  frames: FeatureFrame[],
+  spectrum: SpectrumTimeline,
+  options: SegmentStructureOptions = {}
+): SongSection[] {
+  if (frames.length < 2) {
+    return [];
+  }
+
+  const blockSeconds = Math.max(0.25, options.blockSeconds ?? DEFAULT_BLOCK_SECONDS);
+  const kernelBlocks = Math.max(2, Math.floor(options.kernelBlocks ?? DEFAULT_KERNEL_BLOCKS));
+  const minSectionSeconds = Math.max(blockSeconds, options.minSectionSeconds ?? DEFAULT_MIN_SECTION_SECONDS);
+  const durationSeconds = frames[frames.length - 1].timeSeconds;
+  const blocks = buildBlocks(frames, spectrum, blockSeconds);
+
+  const boundaries = [0];
+  if (blocks.vectors.length >= kernelBlocks * 2) {
+    // The kernel spans u, v in [-K, K), so it reads at most 2K - 1 off the diagonal.
+    const similarity = buildSelfSimilarity(blocks.vectors, kernelBlocks * 2 - 1);
+    const novelty = computeNovelty(similarity, kernelBlocks);
+    const minSectionBlocks = Math.max(1, Math.round(minSectionSeconds / blockSeconds));
+    boundaries.push(...pickBoundaries(novelty, minSectionBlocks));
+  }
+  boundaries.push(blocks.vectors.length);
+
+  const rawEnergies: number[] = [];
+  for (let i = 0; i < boundaries.length - 1; i += 1) {
+    rawEnergies.push(mean(blocks.energy.slice(boundaries[i], boundaries[i + 1])));
+  }
+  const energies = normalizeRange(rawEnergies);
+  const labels = labelSections(energies, blocks.energy, boundaries);
+
+  return labels.map((label, index) => ({
+    startSeconds: boundaries[index] * blockSeconds,
+    endSeconds:
+      index === labels.length - 1
+        ? durationSeconds
+        : Math.min(durationSeconds, boundaries[index + 1] * blockSeconds),
+    label,
+    energy: energies[index]
+  }));
+}
+
+function buildBlocks(
+  frames: FeatureFrame[],
+  spectrum: SpectrumTimeline,
+  blockSeconds: number
+): { vectors: number[][]; energy: number[] } {
+  const durationSeconds = frames[frames.length - 1].timeSeconds;
+  const blockCount = Math.max(1, Math.ceil(durationSeconds / blockSeconds));
+  const featureSize = 4 + spectrum.binCount;
+  const vectors: number[][] = [];
+  const energy: number[] = [];
+  for (let b = 0; b < blockCount; b += 1) {
+    vectors.push(new Array<number>(featureSize).fill(0));
+    energy.push(0);
+  }
+
+  const frameCounts = new Array<number>(blockCount).fill(0);
+  for (const frame of frames) {
+    const block = Math.min(blockCount - 1, Math.floor(frame.timeSeconds / blockSeconds));
+    const vector = vectors[block];
+    vector[0] += frame.rms;
+    vector[1] += frame.onset;
+    vector[2] += frame.centroid;
+    vector[3] += frame.intensity;
+    energy[block] += frame.intensity;
+    frameCounts[block] += 1;
+  }
+
+  const spectrumCounts = new Array<number>(blockCount).fill(0);
+  for (let f = 0; f < spectrum.frameCount; f += 1) {
+    const block = Math.min(blockCount - 1, Math.floor((f * spectrum.frameHopSeconds) / blockSeconds));
+    const vector = vectors[block];
+    const offset = f * spectrum.binCount;
+    for (let bin = 0; bin < spectrum.binCount; bin += 1) {
+      vector[4 + bin] += spectrum.bins[offset + bin] ?? 0;
+    }
+    spectrumCounts[block] += 1;
+  }
+
+  for (let b = 0; b < blockCount; b += 1) {
+    const vector = vectors[b];
+    const frameCount = Math.max(1, frameCounts[b]);
+    for (let i = 0; i < 4; i += 1) {
+      vector[i] /= frameCount;
+    }
+    const spectrumCount = Math.max(1, spectrumCounts[b]);
+    for (let i = 4; i < featureSize; i += 1) {
+      vector[i] /= spectrumCount;
+    }
+    energy[b] /= frameCount;
+  }
+
+  // Standardize each dimension so loud spectrum bins do not dominate.
+  for (let i = 0; i < featureSize; i += 1) {
+    let sum = 0;
+    for (const vector of vectors) {
+      sum += vector[i];
+    }
+    const average = sum / blockCount;
+    let variance = 0;
+    for (const vector of vectors) {
+      variance += (vector[i] - average) ** 2;
+    }
+    const std = Math.max(FEATURE_STD_FLOOR, Math.sqrt(variance / blockCount));
+    for (const vector of vectors) {
+      vector[i] = (vector[i] - average) / std;
+    }
+  }
+
+  return { vectors, energy };
+}
+
+// Only cells within `reach` of the diagonal are kept: the novelty kernel never
+// looks further out, so long tracks stay O(N * reach) instead of O(N^2).
+type BandedSimilarity = {
+  count: number;
+  reach: number;
+  values: Float32Array;
+};
+
+function buildSelfSimilarity(vectors: number[][], reach: number): BandedSimilarity {
+  const count = vectors.length;
+  const featureSize = vectors[0]?.length ?? 1;
+  const width = reach * 2 + 1;
+  const values = new Float32Array(count * width);
+  for (let i = 0; i < count; i += 1) {
+    for (let j = i; j < Math.min(count, i + reach + 1); j += 1) {
+      let distanceSquared = 0;
+      for (let k = 0; k < featureSize; k += 1) {
+        const delta = vectors[i][k] - vectors[j][k];
+        distanceSquared += delta * delta;
+      }
+      const value = Math.exp(-distanceSquared / featureSize);
+      values[i * width + (j - i + reach)] = value;
+      values[j * width + (i - j + reach)] = value;
+    }
+  }
+  return { count, reach, values };
+}
+
+function readSimilarity(similarity: BandedSimilarity, i: number, j: number): number {
+  return similarity.values[i * (similarity.reach * 2 + 1) + (j - i + similarity.reach)];
+}
+
+function computeNovelty(similarity: BandedSimilarity, kernelBlocks: number): number[] {
+  const count = similarity.count;
+  const sigma = kernelBlocks * 0.5;
+  const novelty = new Array<number>(count).fill(0);
+  let kernelWeight = 0;
+  for (let u = -kernelBlocks; u < kernelBlocks; u += 1) {
+    for (let v = -kernelBlocks; v < kernelBlocks; v += 1) {
+      const du = u + 0.5;
+      const dv = v + 0.5;
+      kernelWeight += Math.exp(-(du * du + dv * dv) / (2 * sigma * sigma));
+    }
+  }
+  for (let center = kernelBlocks; center <= count - kernelBlocks; center += 1) {
+    let score = 0;
+    for (let u = -kernelBlocks; u < kernelBlocks; u += 1) {
+      for (let v = -kernelBlocks; v < kernelBlocks; v += 1) {
+        const sameSide = (u < 0) === (v < 0) ? 1 : -1;
+        const du = u + 0.5;
+        const dv = v + 0.5;
+        const taper = Math.exp(-(du * du + dv * dv) / (2 * sigma * sigma));
+        score += sameSide * taper * readSimilarity(similarity, center + u, center + v);
+      }
+    }
+    // Scaled so a full switch between two dissimilar sections scores ~1.
+    novelty[center] = Math.max(0, (score * 2) / kernelWeight);
+  }
+  return novelty;
+}
+
+function pickBoundaries(novelty: number[], minSectionBlocks: number): number[] {
+  const average = mean(novelty);
+  const std = Math.sqrt(mean(novelty.map((value) => (value - average) ** 2)));
+  const threshold = Math.max(NOVELTY_MIN, average + std * NOVELTY_THRESHOLD_STD);
+
+  const peaks: number[] = [];
+  for (let i = 1; i < novelty.length - 1; i += 1) {
+    if (novelty[i] > threshold && novelty[i] >= novelty[i - 1] && novelty[i] > novelty[i + 1]) {
+      peaks.push(i);
+    }
+  }
+
+  // Strongest peaks first, then enforce the minimum section length.
+  peaks.sort((a, b) => novelty[b] - novelty[a]);
+  const accepted: number[] = [];
+  for (const peak of peaks) {
+    if (peak < minSectionBlocks || novelty.length - peak < minSectionBlocks) {
+      continue;
+    }
+    if (accepted.every((other) => Math.abs(other - peak) >= minSectionBlocks)) {
+      accepted.push(peak);
+    }
+  }
+  return accepted.sort((a, b) => a - b);
+}
+
+function labelSections(energies: number[], blockEnergy: number[], boundaries: number[]): SectionLabel[] {
+  const labels: SectionLabel[] = energies.map((energy) => (energy >= DROP_ENERGY_MIN ? "drop" : "verse"));
+  const lastIndex = energies.length - 1;
+  let seenDrop = false;
+
+  for (let i = 0; i <= lastIndex; i += 1) {
+    if (labels[i] === "drop") {
+      seenDrop = true;
+      continue;
+    }
+    const nextIsDrop = labels[i + 1] === "drop";
+    const blocks = blockEnergy.slice(boundaries[i], boundaries[i + 1]);
+    const half = Math.max(1, Math.floor(blocks.length / 2));
+    const rise = mean(blocks.slice(half)) - mean(blocks.slice(0, half));
+    if (nextIsDrop && rise >= BUILD_MIN_RISE) {
+      labels[i] = "build";
+    } else if (seenDrop && energies[i] <= BREAKDOWN_ENERGY_MAX) {
+      labels[i] = "breakdown";
+    }
+  }
+
+  if (energies.length > 1) {
+    if (labels[0] !== "drop" && energies[0] <= EDGE_ENERGY_MAX) {
+      labels[0] = "intro";
+    }
+    if (labels[lastIndex] !== "drop" && energies[lastIndex] <= EDGE_ENERGY_MAX) {
+      labels[lastIndex] = "outro";
+    }
+  }
+
+  return labels;
+}
+
+function normalizeRange(values: number[]): number[] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min;
+  if (range <= 1e-6) {
+    return values.map(() => 0.5);
+  }
+  return values.map((value) => (value - min) / range);
+}
+
+function mean(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
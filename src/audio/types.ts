@@ -10,29 +10,60 @@ export type FeatureFrame = {
   timeSeconds: number;
   rms: number;
   flux: number;
+  /** Spectral centroid, normalized 0..1 across the track. */
   centroid: number;
+  /** Frequency below which 85% of the frame's energy lies, as a fraction of Nyquist. */
+  rolloff: number;
+  /** Spectral flatness: 1 for noise-like frames, near 0 for tonal ones. */
+  flatness: number;
   onset: number;
   intensity: number;
 };
 
+export type BeatMeter = "3/4" | "4/4" | "6/8";
+
+export type TempoMapPoint = {
+  timeSeconds: number;
+  bpm: number;
+};
+
 export type BeatAnalysis = {
   bpm: number;
   beatTimesSeconds: number[];
   beatIntervalSeconds: number;
   confidence: number;
+  tempoMap: TempoMapPoint[];
+  meter: BeatMeter;
+  beatsPerBar: number;
+  meterConfidence: number;
+  downbeatIndices: number[];
+  barTimesSeconds: number[];
 };
 
 export type MoodLabel = "calm" | "driving" | "aggressive";
 
+export type MoodTimelinePoint = {
+  timeSeconds: number;
+  label: MoodLabel;
+  confidence: number;
+};
+
 export type MoodAnalysis = {
   label: MoodLabel;
   confidence: number;
+  timeline: MoodTimelinePoint[];
 };
 
+/** Spectral band of an onset: low ≈ kick, mid ≈ snare, high ≈ hats. */
+export type OnsetBand = "low" | "mid" | "high";
+
+export type CueSource = "beat" | "peak" | "onset";
+
 export type CuePoint = {
   timeSeconds: number;
   strength: number;
-  source: "beat" | "peak";
+  source: CueSource;
+  band?: OnsetBand;
 };
 
 export type SpectrumTimeline = {
@@ -43,6 +74,15 @@ export type SpectrumTimeline = {
   beatEnvelope: Float32Array;
 };
 
+export type SectionLabel = "intro" | "verse" | "build" | "drop" | "breakdown" | "outro";
+
+export type SongSection = {
+  startSeconds: number;
+  endSeconds: number;
+  label: SectionLabel;
+  energy: number;
+};
+
 export type AudioAnalysisResult = {
   fileName: string;
   durationSeconds: number;
@@ -53,5 +93,8 @@ export type AudioAnalysisResult = {
   spectrum: SpectrumTimeline;
   beat: BeatAnalysis;
   mood: MoodAnalysis;
+  sections: SongSection[];
   cues: CuePoint[];
+  /** Set once cues are hand-edited; runs then follow `cues` instead of beats. */
+  cuesEdited?: boolean;
 };
@@ -1,12 +1,15 @@
-export type EnemyArchetypeId = "redCube" | "greenTriangle";
-
-export type ShipWeaponsConfig = {
-  blueLaser: boolean;
-  yellowLaser: boolean;
-  greenLaser: boolean;
-  purpleMissile: boolean;
-  orangeFlak: boolean;
-};
+import type { CueWeaponId } from "./types";
+
+export type EnemyArchetypeId =
+  | "redCube"
+  | "greenTriangle"
+  | "blueHexagon"
+  | "splitter"
+  | "splitterShard"
+  | "boss";
+
+/** Enabled flag per cue weapon id; weapons missing from the record are off. */
+export type ShipWeaponsConfig = Record<CueWeaponId, boolean>;
 
 export type EnemyProjectileStyle = "balls" | "lasers";
 
@@ -17,14 +20,27 @@ export type EnemyRosterConfig = {
   enemyProjectileStyle: EnemyProjectileStyle;
 };
 
+/**
+ * Cue timing windows in ms of absolute error. A resolved cue inside
+ * `perfectWindowMs` is Perfect, then Great and Good; past `goodWindowMs`
+ * it still explodes but is judged a Miss.
+ */
+export type ScoringConfig = {
+  perfectWindowMs: number;
+  greatWindowMs: number;
+  goodWindowMs: number;
+};
+
 export type CombatConfig = {
   shipWeapons: ShipWeaponsConfig;
   enemyRoster: EnemyRosterConfig;
+  scoring: ScoringConfig;
 };
 
 export type CombatConfigPatch = {
   shipWeapons?: Partial<ShipWeaponsConfig>;
   enemyRoster?: Partial<EnemyRosterConfig>;
+  scoring?: Partial<ScoringConfig>;
 };
 
 export type EnemyArchetypeDefinition = {
@@ -34,6 +50,8 @@ export type EnemyArchetypeDefinition = {
   fireCooldownScale: number;
   radiusScale: number;
   canShoot: boolean;
+  /** Ordinary hits it takes to destroy; a cue kill ignores what is left. */
+  hitPoints: number;
 };
 
 export const ENEMY_ARCHETYPE_DEFINITIONS: Record<EnemyArchetypeId, EnemyArchetypeDefinition> = {
@@ -43,7 +61,8 @@ export const ENEMY_ARCHETYPE_DEFINITIONS: Record<EnemyArchetypeId, EnemyArchetyp
     speedScale: 1,
     fireCooldownScale: 1,
     radiusScale: 1,
-    canShoot: true
+    canShoot: true,
+    hitPoints: 1
   },
   greenTriangle: {
     id: "greenTriangle",
@@ -51,37 +70,94 @@ export const ENEMY_ARCHETYPE_DEFINITIONS: Record<EnemyArchetypeId, EnemyArchetyp
     speedScale: 1.06,
     fireCooldownScale: 1,
     radiusScale: 0.96,
-    canShoot: false
+    canShoot: false,
+    hitPoints: 1
+  },
+  blueHexagon: {
+    id: "blueHexagon",
+    spawnWeight: 0.32,
+    speedScale: 0.78,
+    fireCooldownScale: 1.3,
+    radiusScale: 1.24,
+    canShoot: true,
+    hitPoints: 4
+  },
+  splitter: {
+    id: "splitter",
+    spawnWeight: 0.36,
+    speedScale: 0.9,
+    fireCooldownScale: 1.15,
+    radiusScale: 1.12,
+    canShoot: true,
+    hitPoints: 2
+  },
+  // Never picked for ambient waves; shards only come from splitters breaking apart.
+  splitterShard: {
+    id: "splitterShard",
+    spawnWeight: 0,
+    speedScale: 1.3,
+    fireCooldownScale: 1,
+    radiusScale: 0.62,
+    canShoot: false,
+    hitPoints: 1
+  },
+  // Never picked for ambient waves; bosses are triggered by sustained peaks
+  // and fire their own patterns instead of the shared bullet budget.
+  boss: {
+    id: "boss",
+    spawnWeight: 0,
+    speedScale: 1,
+    fireCooldownScale: 1,
+    radiusScale: 2.3,
+    canShoot: false,
+    // Boss health is the encounter's cue count, not ordinary hits.
+    hitPoints: 1
   }
 };
 
 export const DEFAULT_COMBAT_CONFIG: CombatConfig = {
   shipWeapons: {
-    blueLaser: true,
-    yellowLaser: true,
-    greenLaser: true,
-    purpleMissile: false,
-    orangeFlak: false
+    blue: true,
+    yellow: true,
+    green: true,
+    purple: false,
+    orange: false
   },
   enemyRoster: {
     enabledArchetypes: ["redCube"],
     spawnScale: 1,
     fireScale: 1,
     enemyProjectileStyle: "balls"
+  },
+  scoring: {
+    perfectWindowMs: 25,
+    greatWindowMs: 50,
+    goodWindowMs: 100
   }
 };
 
+const MAX_JUDGEMENT_WINDOW_MS = 500;
+
+// Ship weapons used to be keyed by these names; patches and saved
+// `.starfighter.json` files may still use them.
+const LEGACY_SHIP_WEAPON_KEYS = new Map<string, CueWeaponId>([
+  ["blueLaser", "blue"],
+  ["yellowLaser", "yellow"],
+  ["greenLaser", "green"],
+  ["purpleMissile", "purple"],
+  ["orangeFlak", "orange"]
+]);
+
 export function normalizeCombatConfig(
   patch: CombatConfigPatch | undefined,
   base: CombatConfig = DEFAULT_COMBAT_CONFIG
 ): CombatConfig {
-  const shipWeapons: ShipWeaponsConfig = {
-    blueLaser: patch?.shipWeapons?.blueLaser ?? base.shipWeapons.blueLaser,
-    yellowLaser: patch?.shipWeapons?.yellowLaser ?? base.shipWeapons.yellowLaser,
-    greenLaser: patch?.shipWeapons?.greenLaser ?? base.shipWeapons.greenLaser,
-    purpleMissile: patch?.shipWeapons?.purpleMissile ?? base.shipWeapons.purpleMissile,
-    orangeFlak: patch?.shipWeapons?.orangeFlak ?? base.shipWeapons.orangeFlak
-  };
+  const shipWeapons: ShipWeaponsConfig = { ...base.shipWeapons };
+  for (const [key, enabled] of Object.entries(patch?.shipWeapons ?? {})) {
+    if (typeof enabled === "boolean") {
+      shipWeapons[LEGACY_SHIP_WEAPON_KEYS.get(key) ?? key] = enabled;
+    }
+  }
 
   const rosterEnabled =
     patch?.enemyRoster?.enabledArchetypes ?? base.enemyRoster.enabledArchetypes;
@@ -101,10 +177,28 @@ export function normalizeCombatConfig(
       spawnScale,
       fireScale,
       enemyProjectileStyle
-    }
+    },
+    scoring: normalizeScoringConfig(patch?.scoring, base.scoring)
   };
 }
 
+// Windows are nested: each one is at least as wide as the one before it.
+function normalizeScoringConfig(
+  patch: Partial<ScoringConfig> | undefined,
+  base: ScoringConfig
+): ScoringConfig {
+  const toWindowMs = (value: number | undefined, fallback: number, min: number): number =>
+    clamp(
+      typeof value === "number" && Number.isFinite(value) ? value : fallback,
+      min,
+      MAX_JUDGEMENT_WINDOW_MS
+    );
+  const perfectWindowMs = toWindowMs(patch?.perfectWindowMs, base.perfectWindowMs, 1);
+  const greatWindowMs = toWindowMs(patch?.greatWindowMs, base.greatWindowMs, perfectWindowMs);
+  const goodWindowMs = toWindowMs(patch?.goodWindowMs, base.goodWindowMs, greatWindowMs);
+  return { perfectWindowMs, greatWindowMs, goodWindowMs };
+}
+
 export function sanitizeEnabledArchetypes(input: readonly EnemyArchetypeId[]): EnemyArchetypeId[] {
   const deduped: EnemyArchetypeId[] = [];
   for (const archetypeId of input) {
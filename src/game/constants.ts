@@ -1 +1,3 @@
 export const LASER_MAX_TARGET_X = 17.2;
+export const ENEMY_PROJECTILE_LASER_SPEED_MULTIPLIER = 2.2;
+export const SHIP_MAX_SHIELD = 60;
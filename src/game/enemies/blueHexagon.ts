@@ -0,0 +1,75 @@
+import { ENEMY_ARCHETYPE_DEFINITIONS } from "../combatConfig";
+import type { EnemyPattern, SimulationState } from "../types";
+import {
+	clamp,
+	getIntensityAtTime,
+	getMoodParameters,
+} from "../utils";
+import type { SimEnemyModule } from "./types";
+
+// Slow, readable paths: the shield makes hexagons a target to wear down.
+const BLUE_HEXAGON_PATTERNS: EnemyPattern[] = ["straight", "sine", "weave"];
+
+const ENEMY_FIRE_COOLDOWN_MULTIPLIER = 1.25;
+
+function enemyFireIntensityMultiplier(intensity: number): number {
+	const ENEMY_INTENSITY_FIRE_COOLDOWN_BOOST = 0.1;
+	return clamp(1 - intensity * ENEMY_INTENSITY_FIRE_COOLDOWN_BOOST, 0.82, 1);
+}
+
+function pickAmbientPattern(
+	spawnIndex: number,
+	_rng: () => number,
+): EnemyPattern {
+	return BLUE_HEXAGON_PATTERNS[spawnIndex % BLUE_HEXAGON_PATTERNS.length];
+}
+
+function spawnAmbientWave(state: SimulationState): number {
+	const intensity = getIntensityAtTime(state, state.simTimeSeconds);
+	const mood = getMoodParameters(state);
+	const archetypeDef = ENEMY_ARCHETYPE_DEFINITIONS.blueHexagon;
+	const lane = (state.spawnIndex % 5) - 2;
+	const fireScale = state.combatConfig.enemyRoster.fireScale;
+
+	state.enemies.push({
+		id: state.nextEnemyId++,
+		archetype: "blueHexagon",
+		x: 22.6 + state.rng() * 2.4,
+		y: lane * 1.6,
+		z: 0,
+		vx:
+			(-2.3 - intensity * 1.4 - state.rng() * 0.6) *
+			mood.enemySpeedScale *
+			archetypeDef.speedScale,
+		ageSeconds: 0,
+		pattern: pickAmbientPattern(state.spawnIndex, state.rng),
+		baseY: lane * 1.6,
+		phase: state.rng() * Math.PI * 2,
+		amplitude: 0.3 + state.rng() * 0.8,
+		frequency: 0.7 + state.rng() * 0.9,
+		pathAgeOffsetSeconds: 0,
+		radius: 0.44 * archetypeDef.radiusScale,
+		fireCooldownSeconds:
+			((0.7 + (1 - intensity) * 0.8 + state.rng() * 0.5) *
+				mood.enemyFireIntervalScale *
+				ENEMY_FIRE_COOLDOWN_MULTIPLIER *
+				enemyFireIntensityMultiplier(intensity) *
+				archetypeDef.fireCooldownScale) /
+			fireScale,
+		scheduledCueTime: null,
+		cuePrimed: false,
+		damageFlash: 0,
+		hasEnteredView: false,
+		hitPoints: archetypeDef.hitPoints,
+	});
+	return 1;
+}
+
+export const blueHexagonModule: SimEnemyModule = {
+	archetypeId: "blueHexagon",
+	definition: ENEMY_ARCHETYPE_DEFINITIONS.blueHexagon,
+	patterns: BLUE_HEXAGON_PATTERNS,
+	pickAmbientPattern,
+	spawnAmbientWave,
+	firePatterns: ["ring", "spiral"],
+};
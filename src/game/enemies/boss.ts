@@ -0,0 +1,316 @@
+import { ENEMY_ARCHETYPE_DEFINITIONS } from "../combatConfig";
+import { ENEMY_PROJECTILE_LASER_SPEED_MULTIPLIER } from "../constants";
+import type {
+	BossEncounter,
+	Enemy,
+	EnemyPattern,
+	SimulationState,
+} from "../types";
+import {
+	getEnemyById,
+	getMoodParameters,
+	getRelativeIntensityAtTime,
+	getSpectrumBandsAtTime,
+	getTrackTimeSeconds,
+} from "../utils";
+import { emitEnemyPattern } from "./firePatterns";
+import type { EnemyHitbox, SimEnemyModule } from "./types";
+
+const BOSS_PATTERNS: EnemyPattern[] = ["bossHover"];
+
+const BOSS_PEAK_RELATIVE_INTENSITY = 0.78;
+const BOSS_PEAK_SUSTAIN_SECONDS = 4;
+// Dips below the peak drain the sustain timer faster than it builds up.
+const BOSS_PEAK_DECAY_RATE = 2;
+export const BOSS_FIRST_ALLOWED_SECONDS = 12;
+const BOSS_COOLDOWN_SECONDS = 35;
+const BOSS_MAX_HEALTH = 18;
+const BOSS_SPAWN_X = 24;
+const BOSS_HOLD_X = 11.8;
+const BOSS_ENTRY_SPEED = 3.4;
+const BOSS_DEPART_SPEED = 4.2;
+const BOSS_DESPAWN_X = 25;
+const BOSS_FIGHT_SECONDS = 22;
+const BOSS_DEFEAT_SCORE = 5000;
+const BOSS_PHASE_COUNT = 3;
+const BOSS_PHASE_CHANGE_DELAY_SECONDS = 0.35;
+const BOSS_BULLET_SPEED = 5.6;
+const BOSS_BULLET_LIFETIME_SECONDS = 5;
+const BOSS_POD_OFFSET_X = 0.35;
+const BOSS_POD_OFFSET_Y = 1.3;
+const BOSS_POD_RADIUS = 0.55;
+
+type BossPattern = "fan" | "wideFan" | "ring" | "denseRing" | "spiral";
+
+/** Pattern cycle and seconds between volleys for each phase. */
+const BOSS_PHASE_PATTERNS: Record<number, { cycle: BossPattern[]; intervalSeconds: number }> = {
+	1: { cycle: ["fan"], intervalSeconds: 1.5 },
+	2: { cycle: ["fan", "ring"], intervalSeconds: 1.2 },
+	3: { cycle: ["spiral", "wideFan", "spiral", "denseRing"], intervalSeconds: 0.85 },
+};
+
+function pickAmbientPattern(_spawnIndex: number, _rng: () => number): EnemyPattern {
+	return "bossHover";
+}
+
+function spawnAmbientWave(state: SimulationState): number {
+	return spawnBoss(state) ? 1 : 0;
+}
+
+/**
+ * Bosses arrive once the relative intensity holds a peak for a few seconds,
+ * park on the right edge and soak cue hits until destroyed or out of time.
+ */
+function step(state: SimulationState, deltaSeconds: number): void {
+	const encounter = state.bossEncounter;
+	if (encounter) {
+		updateEncounter(state, encounter);
+		return;
+	}
+	if (
+		!state.activeEnemyArchetypes.includes("boss") ||
+		state.intensityTimeline.length === 0
+	) {
+		state.bossPeakSeconds = 0;
+		return;
+	}
+
+	const relativeIntensity = getRelativeIntensityAtTime(state, state.simTimeSeconds);
+	state.bossPeakSeconds =
+		relativeIntensity >= BOSS_PEAK_RELATIVE_INTENSITY
+			? state.bossPeakSeconds + deltaSeconds
+			: Math.max(0, state.bossPeakSeconds - deltaSeconds * BOSS_PEAK_DECAY_RATE);
+	if (
+		state.bossPeakSeconds >= BOSS_PEAK_SUSTAIN_SECONDS &&
+		state.simTimeSeconds >=
+			Math.max(BOSS_FIRST_ALLOWED_SECONDS, state.nextBossAllowedTimeSeconds)
+	) {
+		spawnBoss(state);
+	}
+}
+
+function spawnBoss(state: SimulationState): boolean {
+	if (state.bossEncounter) {
+		return false;
+	}
+	const archetypeDef = ENEMY_ARCHETYPE_DEFINITIONS.boss;
+	const baseY = (state.rng() - 0.5) * 2;
+	const enemy: Enemy = {
+		id: state.nextEnemyId++,
+		archetype: "boss",
+		x: BOSS_SPAWN_X,
+		y: baseY,
+		z: 0,
+		vx: -BOSS_ENTRY_SPEED * archetypeDef.speedScale,
+		ageSeconds: 0,
+		pattern: "bossHover",
+		baseY,
+		phase: state.rng() * Math.PI * 2,
+		amplitude: 2.2 + state.rng() * 0.6,
+		frequency: 0.5 + state.rng() * 0.15,
+		pathAgeOffsetSeconds: 0,
+		radius: 0.44 * archetypeDef.radiusScale,
+		fireCooldownSeconds: 0,
+		scheduledCueTime: null,
+		cuePrimed: false,
+		damageFlash: 0,
+		hasEnteredView: false,
+		hitPoints: archetypeDef.hitPoints,
+	};
+	state.enemies.push(enemy);
+	state.bossEncounter = {
+		enemyId: enemy.id,
+		health: BOSS_MAX_HEALTH,
+		maxHealth: BOSS_MAX_HEALTH,
+		phase: 0,
+		patternCursor: 0,
+		nextPatternTimeSeconds: Number.POSITIVE_INFINITY,
+		departTimeSeconds: Number.POSITIVE_INFINITY,
+		departing: false,
+	};
+	return true;
+}
+
+function updateEncounter(state: SimulationState, encounter: BossEncounter): void {
+	const boss = getEnemyById(state.enemies, encounter.enemyId);
+	if (!boss) {
+		endEncounter(state);
+		return;
+	}
+
+	if (encounter.departing) {
+		boss.vx = BOSS_DEPART_SPEED;
+		if (boss.x > BOSS_DESPAWN_X) {
+			state.enemies = state.enemies.filter((enemy) => enemy !== boss);
+			endEncounter(state);
+		}
+		return;
+	}
+
+	if (encounter.phase === 0) {
+		if (boss.x <= BOSS_HOLD_X) {
+			boss.x = BOSS_HOLD_X;
+			boss.vx = 0;
+			encounter.phase = 1;
+			encounter.nextPatternTimeSeconds = state.simTimeSeconds + 0.6;
+			encounter.departTimeSeconds = state.simTimeSeconds + BOSS_FIGHT_SECONDS;
+		}
+		return;
+	}
+
+	if (state.simTimeSeconds >= encounter.departTimeSeconds) {
+		encounter.departing = true;
+		boss.vx = BOSS_DEPART_SPEED;
+		return;
+	}
+
+	if (state.simTimeSeconds >= encounter.nextPatternTimeSeconds) {
+		const { cycle, intervalSeconds } = BOSS_PHASE_PATTERNS[encounter.phase];
+		if (state.enemyBulletRatio > 0) {
+			fireBossPattern(state, boss, cycle[encounter.patternCursor % cycle.length], encounter);
+		}
+		encounter.patternCursor += 1;
+		encounter.nextPatternTimeSeconds =
+			state.simTimeSeconds +
+			(intervalSeconds * getMoodParameters(state).enemyFireIntervalScale) /
+				state.combatConfig.enemyRoster.fireScale;
+	}
+}
+
+function endEncounter(state: SimulationState): void {
+	state.bossEncounter = null;
+	state.bossPeakSeconds = 0;
+	state.nextBossAllowedTimeSeconds = state.simTimeSeconds + BOSS_COOLDOWN_SECONDS;
+}
+
+/** Shared emitter and level behind each boss pattern; levels run 1..3. */
+const BOSS_PATTERN_EMITTERS: Record<
+	BossPattern,
+	{ pattern: "fan" | "ring" | "spiral"; level: number }
+> = {
+	fan: { pattern: "fan", level: 2 },
+	wideFan: { pattern: "fan", level: 3 },
+	ring: { pattern: "ring", level: 2 },
+	denseRing: { pattern: "ring", level: 3 },
+	spiral: { pattern: "spiral", level: 2 },
+};
+
+function fireBossPattern(
+	state: SimulationState,
+	boss: Enemy,
+	pattern: BossPattern,
+	encounter: BossEncounter,
+): void {
+	const originX = boss.x - 1;
+	const emitter = BOSS_PATTERN_EMITTERS[pattern];
+	emitEnemyPattern(state, emitter.pattern, {
+		originX,
+		originY: boss.y,
+		aimAngle: Math.atan2(state.shipY - boss.y, state.shipX - originX),
+		speed:
+			BOSS_BULLET_SPEED *
+			(state.combatConfig.enemyRoster.enemyProjectileStyle === "lasers"
+				? ENEMY_PROJECTILE_LASER_SPEED_MULTIPLIER
+				: 1),
+		level: emitter.level,
+		bands: getSpectrumBandsAtTime(state, getTrackTimeSeconds(state)),
+		volleyIndex: encounter.patternCursor,
+		// Boss shots start further out than ordinary fire and must still
+		// reach the ship.
+		lifetimeSeconds: BOSS_BULLET_LIFETIME_SECONDS,
+	});
+}
+
+function getHitboxes(enemy: Enemy): EnemyHitbox[] {
+	return [
+		{ offsetX: 0, offsetY: 0, radius: enemy.radius },
+		{ offsetX: BOSS_POD_OFFSET_X, offsetY: BOSS_POD_OFFSET_Y, radius: BOSS_POD_RADIUS },
+		{ offsetX: BOSS_POD_OFFSET_X, offsetY: -BOSS_POD_OFFSET_Y, radius: BOSS_POD_RADIUS },
+	];
+}
+
+function applyCueHit(state: SimulationState, enemy: Enemy): boolean {
+	const encounter = state.bossEncounter;
+	if (!encounter || encounter.enemyId !== enemy.id) {
+		return true;
+	}
+	encounter.health -= 1;
+	enemy.damageFlash = 1;
+	if (encounter.health <= 0) {
+		state.score += BOSS_DEFEAT_SCORE;
+		for (const hitbox of getHitboxes(enemy)) {
+			state.explosions.push({
+				x: enemy.x + hitbox.offsetX,
+				y: enemy.y + hitbox.offsetY,
+				z: enemy.z,
+				ageSeconds: 0,
+				lifetimeSeconds: 0.62,
+				variant: Math.floor(state.rng() * 6),
+				power: 2.12,
+			});
+		}
+		endEncounter(state);
+		return true;
+	}
+
+	const healthFraction = encounter.health / encounter.maxHealth;
+	const phase = Math.min(
+		BOSS_PHASE_COUNT,
+		1 + Math.floor((1 - healthFraction) * BOSS_PHASE_COUNT),
+	);
+	if (phase > encounter.phase) {
+		encounter.phase = phase;
+		encounter.patternCursor = 0;
+		encounter.nextPatternTimeSeconds = Math.min(
+			encounter.nextPatternTimeSeconds,
+			state.simTimeSeconds + BOSS_PHASE_CHANGE_DELAY_SECONDS,
+		);
+	}
+	return false;
+}
+
+function acceptsCue(
+	state: SimulationState,
+	enemy: Enemy,
+	cueTimeSeconds: number,
+): boolean {
+	const encounter = state.bossEncounter;
+	if (
+		!encounter ||
+		encounter.enemyId !== enemy.id ||
+		encounter.phase === 0 ||
+		encounter.departing ||
+		cueTimeSeconds >= encounter.departTimeSeconds
+	) {
+		return false;
+	}
+	// Cues past the killing blow would find no target and count as misses.
+	let assigned = 0;
+	for (const cue of state.cueTimeline) {
+		if (cue.assignedEnemyId === enemy.id) {
+			assigned += 1;
+		}
+	}
+	return assigned < encounter.health;
+}
+
+function getHealthFraction(state: SimulationState, enemy: Enemy): number {
+	const encounter = state.bossEncounter;
+	if (!encounter || encounter.enemyId !== enemy.id) {
+		return 1;
+	}
+	return Math.max(0, encounter.health / encounter.maxHealth);
+}
+
+export const bossModule: SimEnemyModule = {
+	archetypeId: "boss",
+	definition: ENEMY_ARCHETYPE_DEFINITIONS.boss,
+	patterns: BOSS_PATTERNS,
+	pickAmbientPattern,
+	spawnAmbientWave,
+	step,
+	getHitboxes,
+	applyCueHit,
+	acceptsCue,
+	getHealthFraction,
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { createSimulation } from "../sim";
+import type { SimulationState } from "../types";
+import { predictEnemyProjectilePosition, stepEnemyProjectile } from "../utils";
+import { emitEnemyPattern, type EnemyVolley } from "./firePatterns";
+
+function buildState(): SimulationState {
+  return { enemyProjectiles: [], nextEnemyProjectileId: 1 } as unknown as SimulationState;
+}
+
+function buildVolley(overrides: Partial<EnemyVolley> = {}): EnemyVolley {
+  return {
+    originX: 10,
+    originY: 0,
+    aimAngle: Math.PI,
+    speed: 7,
+    level: 2,
+    bands: { low: 0.5, mid: 0.5, high: 0.5 },
+    volleyIndex: 0,
+    ...overrides
+  };
+}
+
+describe("enemy fire patterns", () => {
+  it("packs rings denser on bass while keeping a gap toward the ship", () => {
+    const quiet = buildState();
+    const loud = buildState();
+    const quietCount = emitEnemyPattern(quiet, "ring", buildVolley({ bands: { low: 0, mid: 0, high: 0 } }));
+    const loudCount = emitEnemyPattern(loud, "ring", buildVolley({ bands: { low: 1, mid: 0, high: 0 } }));
+
+    expect(loudCount).toBeGreaterThan(quietCount);
+    expect(loud.enemyProjectiles).toHaveLength(loudCount);
+    for (const projectile of loud.enemyProjectiles) {
+      const heading = Math.atan2(projectile.vy, projectile.vx);
+      const offset = Math.atan2(Math.sin(heading - Math.PI), Math.cos(heading - Math.PI));
+      expect(Math.abs(offset)).toBeGreaterThanOrEqual(0.3);
+    }
+  });
+
+  it("thins a pattern evenly to the shots the volley may spend", () => {
+    const state = buildState();
+    const count = emitEnemyPattern(state, "ring", buildVolley({ bands: { low: 1, mid: 0, high: 0 }, maxShots: 4 }));
+
+    expect(count).toBe(4);
+    expect(state.enemyProjectiles).toHaveLength(4);
+    const headings = state.enemyProjectiles.map((projectile) => Math.atan2(projectile.vy, projectile.vx));
+    expect(Math.max(...headings) - Math.min(...headings)).toBeGreaterThan(Math.PI);
+  });
+
+  it("widens fans with the high band and turns spirals between volleys", () => {
+    const spreadOf = (high: number) => {
+      const state = buildState();
+      emitEnemyPattern(state, "fan", buildVolley({ bands: { low: 0, mid: 0, high } }));
+      const headings = state.enemyProjectiles.map((projectile) => Math.atan2(projectile.vy, -projectile.vx));
+      return Math.max(...headings) - Math.min(...headings);
+    };
+    expect(spreadOf(1)).toBeGreaterThan(spreadOf(0));
+
+    const first = buildState();
+    const second = buildState();
+    emitEnemyPattern(first, "spiral", buildVolley({ volleyIndex: 0 }));
+    emitEnemyPattern(second, "spiral", buildVolley({ volleyIndex: 1 }));
+    expect(second.enemyProjectiles[0].vy).not.toBeCloseTo(first.enemyProjectiles[0].vy);
+  });
+
+  it("predicts curving shots along the path they actually fly", () => {
+    const state = buildState();
+    emitEnemyPattern(state, "curving", buildVolley());
+    const projectile = state.enemyProjectiles[0];
+    expect(projectile.angularVelocity).not.toBe(0);
+
+    const predicted = predictEnemyProjectilePosition(projectile, 1.2);
+    const flown = { ...projectile };
+    for (let i = 0; i < 120 * 1.2; i += 1) {
+      stepEnemyProjectile(flown, 1 / 120);
+    }
+    const straightX = projectile.x + projectile.vx * 1.2;
+    const straightY = projectile.y + projectile.vy * 1.2;
+
+    expect(Math.hypot(flown.x - predicted.x, flown.y - predicted.y)).toBeLessThan(0.25);
+    expect(Math.hypot(flown.x - straightX, flown.y - straightY)).toBeGreaterThan(0.5);
+  });
+
+  it("charges the bullet budget for every shot a pattern fires", () => {
+    const ratio = 0.5;
+    const seconds = 20;
+    const sim = createSimulation();
+    sim.setRandomSeed(5);
+    sim.setEnemyBulletRatio(ratio);
+    sim.setEnemyRoster({ enabledArchetypes: ["blueHexagon"] });
+    sim.setSpectrumBandTimeline([
+      { timeSeconds: 0, low: 1, mid: 1, high: 1 },
+      { timeSeconds: 30, low: 1, mid: 1, high: 1 }
+    ]);
+    sim.startTrackRun([]);
+
+    const fired = new Set<number>();
+    for (let i = 0; i < 60 * seconds; i += 1) {
+      sim.step(1 / 60);
+      for (const projectile of sim.getSnapshot().enemyProjectiles) {
+        fired.add(projectile.id);
+      }
+    }
+
+    // The budget refills no faster than the loudest mood allows at full intensity.
+    const maxBulletsPerSecond = (2.05 + 3.15) * 1.22 * ratio;
+    expect(fired.size).toBeGreaterThan(0);
+    expect(fired.size).toBeLessThanOrEqual(Math.ceil(maxBulletsPerSecond * seconds));
+  });
+
+  it("keeps the autopilot alive against splitter and hexagon volleys", () => {
+    const sim = createSimulation();
+    sim.setRandomSeed(13);
+    sim.setEnemyRoster({ enabledArchetypes: ["blueHexagon", "splitter"] });
+    sim.setSpectrumBandTimeline([
+      { timeSeconds: 0, low: 1, mid: 1, high: 1 },
+      { timeSeconds: 20, low: 1, mid: 1, high: 1 }
+    ]);
+    sim.startTrackRun([]);
+
+    let maxProjectiles = 0;
+    for (let i = 0; i < 60 * 15; i += 1) {
+      sim.step(1 / 60);
+      maxProjectiles = Math.max(maxProjectiles, sim.getSnapshot().enemyProjectiles.length);
+    }
+
+    expect(maxProjectiles).toBeGreaterThan(8);
+    expect(sim.getSnapshot().isGameOver).toBe(false);
+  });
+});
@@ -0,0 +1,164 @@
+import type { EnemyFirePattern, SimulationState } from "../types";
+import type { SpectrumBands } from "../utils";
+
+const PATTERN_SHOT_RADIUS = 0.18;
+const PATTERN_SHOT_LIFETIME_SECONDS = 3;
+const CURVING_SHOT_LIFETIME_SECONDS = 3.4;
+// Rings keep a gap toward the ship, like boss rings, so every volley has a way out.
+const RING_GAP_RADIANS = 0.3;
+
+/** One volley from one enemy, aimed and sized by the sim. */
+export type EnemyVolley = {
+	originX: number;
+	originY: number;
+	/** Heading toward the (relaxed) ship position, in radians. */
+	aimAngle: number;
+	speed: number;
+	/** 1..3 from intensity, the same scale as the aimed burst count. */
+	level: number;
+	/** Band energies at fire time; each pattern reads the band it follows. */
+	bands: SpectrumBands;
+	/** The enemy's volley count, for patterns that evolve between volleys. */
+	volleyIndex: number;
+	/** Most bullets the volley may spend; bigger patterns are thinned evenly. */
+	maxShots?: number;
+	/** Lifetime for shots that do not set their own; defaults to 3 seconds. */
+	lifetimeSeconds?: number;
+};
+
+type PatternShot = {
+	angle: number;
+	speed: number;
+	angularVelocity?: number;
+	acceleration?: number;
+	curveDelaySeconds?: number;
+	lifetimeSeconds?: number;
+};
+
+/**
+ * Emits every pattern except `aimedBurst`, which stays in the sim with its
+ * per-shot aim jitter. Returns the number of bullets spawned.
+ */
+export function emitEnemyPattern(
+	state: SimulationState,
+	pattern: Exclude<EnemyFirePattern, "aimedBurst">,
+	volley: EnemyVolley,
+): number {
+	const shots = thinPatternShots(
+		buildPatternShots(pattern, volley),
+		volley.maxShots,
+	);
+	for (const shot of shots) {
+		state.enemyProjectiles.push({
+			id: state.nextEnemyProjectileId++,
+			x: volley.originX,
+			y: volley.originY,
+			z: 0,
+			vx: Math.cos(shot.angle) * shot.speed,
+			vy: Math.sin(shot.angle) * shot.speed,
+			ageSeconds: 0,
+			maxLifetimeSeconds:
+				shot.lifetimeSeconds ??
+				volley.lifetimeSeconds ??
+				PATTERN_SHOT_LIFETIME_SECONDS,
+			radius: PATTERN_SHOT_RADIUS,
+			angularVelocity: shot.angularVelocity,
+			acceleration: shot.acceleration,
+			curveDelaySeconds: shot.curveDelaySeconds,
+		});
+	}
+	return shots.length;
+}
+
+/** Keeps an evenly spaced subset so a thinned ring or fan keeps its shape. */
+function thinPatternShots(
+	shots: PatternShot[],
+	maxShots: number | undefined,
+): PatternShot[] {
+	if (maxShots === undefined || shots.length <= maxShots) {
+		return shots;
+	}
+	const kept: PatternShot[] = [];
+	for (let i = 0; i < maxShots; i += 1) {
+		kept.push(shots[Math.floor((i * shots.length) / maxShots)]);
+	}
+	return kept;
+}
+
+function buildPatternShots(
+	pattern: Exclude<EnemyFirePattern, "aimedBurst">,
+	volley: EnemyVolley,
+): PatternShot[] {
+	const { aimAngle, speed, level, bands, volleyIndex } = volley;
+	const shots: PatternShot[] = [];
+
+	if (pattern === "aimedStream") {
+		// Same heading, staggered speeds: the shots string out into a line.
+		const count = 2 + level + Math.round(bands.high);
+		for (let i = 0; i < count; i += 1) {
+			shots.push({ angle: aimAngle, speed: speed * (1 - i * 0.09) });
+		}
+		return shots;
+	}
+
+	if (pattern === "fan") {
+		// Hats open the fan wider.
+		const count = 1 + level * 2;
+		const spread = 0.5 + bands.high * 0.7;
+		for (let i = 0; i < count; i += 1) {
+			const t = count === 1 ? 0 : i / (count - 1) - 0.5;
+			shots.push({ angle: aimAngle + t * spread, speed: speed * 0.9 });
+		}
+		return shots;
+	}
+
+	if (pattern === "ring") {
+		// Bass packs the ring denser; each volley turns it a little.
+		const count = Math.round(8 + bands.low * 10 + level * 2);
+		const turn = volleyIndex * 0.37;
+		for (let i = 0; i < count; i += 1) {
+			const angle = turn + (i / count) * Math.PI * 2;
+			const offset = Math.atan2(
+				Math.sin(angle - aimAngle),
+				Math.cos(angle - aimAngle),
+			);
+			if (Math.abs(offset) < RING_GAP_RADIANS) {
+				continue;
+			}
+			shots.push({ angle, speed: speed * 0.62 });
+		}
+		return shots;
+	}
+
+	if (pattern === "spiral") {
+		// Arms sweep a bit further each volley; mids spin them faster.
+		const arms = 1 + level;
+		const sweep = volleyIndex * (0.45 + bands.mid * 0.5);
+		for (let arm = 0; arm < arms; arm += 1) {
+			shots.push({
+				angle: sweep + (arm / arms) * Math.PI * 2,
+				speed: speed * 0.7,
+			});
+		}
+		return shots;
+	}
+
+	// Curving: shots leave wide of the ship, then bend back across its path
+	// and speed up once their delay runs out. Mids tighten the bend.
+	const pairs = Math.max(1, level);
+	const bend = 0.35 + bands.mid * 0.4;
+	for (let i = 0; i < pairs; i += 1) {
+		const offset = 0.45 + i * 0.22;
+		for (const side of [-1, 1]) {
+			shots.push({
+				angle: aimAngle + side * offset,
+				speed: speed * 0.68,
+				angularVelocity: -side * bend,
+				acceleration: 2.2,
+				curveDelaySeconds: 0.35 + i * 0.1,
+				lifetimeSeconds: CURVING_SHOT_LIFETIME_SECONDS,
+			});
+		}
+	}
+	return shots;
+}
@@ -3,7 +3,7 @@ import type { EnemyPattern, SimulationState } from "../types";
 import {
 	clamp,
 	getIntensityAtTime,
-	moodParameters,
+	getMoodParameters,
 } from "../utils";
 import type { SimEnemyModule } from "./types";
 
@@ -46,7 +46,7 @@ function spawnAmbientWave(state: SimulationState): number {
 
 export function spawnGreenTriangleFormation(state: SimulationState): number {
 	const intensity = getIntensityAtTime(state, state.simTimeSeconds);
-	const mood = moodParameters(state.moodProfile);
+	const mood = getMoodParameters(state);
 	const archetypeDef = ENEMY_ARCHETYPE_DEFINITIONS.greenTriangle;
 	const fireScale = state.combatConfig.enemyRoster.fireScale;
 
@@ -104,6 +104,7 @@ export function spawnGreenTriangleFormation(state: SimulationState): number {
 			cuePrimed: false,
 			damageFlash: 0,
 			hasEnteredView: false,
+			hitPoints: archetypeDef.hitPoints,
 		});
 	}
 
@@ -116,4 +117,5 @@ export const greenTriangleModule: SimEnemyModule = {
 	patterns: GREEN_TRIANGLE_PATTERNS,
 	pickAmbientPattern,
 	spawnAmbientWave,
+	alignWavesToBars: true,
 };
@@ -3,7 +3,7 @@ import type { EnemyPattern, SimulationState } from "../types";
 import {
 	clamp,
 	getIntensityAtTime,
-	moodParameters,
+	getMoodParameters,
 } from "../utils";
 import type { SimEnemyModule } from "./types";
 
@@ -41,7 +41,7 @@ function spawnAmbientWave(state: SimulationState): number {
 
 function spawnAmbientRedCube(state: SimulationState): void {
 	const intensity = getIntensityAtTime(state, state.simTimeSeconds);
-	const mood = moodParameters(state.moodProfile);
+	const mood = getMoodParameters(state);
 	const archetypeDef = ENEMY_ARCHETYPE_DEFINITIONS.redCube;
 	const lane = (state.spawnIndex % 5) - 2;
 	const pattern = pickAmbientPattern(state.spawnIndex, state.rng);
@@ -79,6 +79,7 @@ function spawnAmbientRedCube(state: SimulationState): void {
 		cuePrimed: false,
 		damageFlash: 0,
 		hasEnteredView: false,
+		hitPoints: archetypeDef.hitPoints,
 	});
 }
 
@@ -88,4 +89,5 @@ export const redCubeModule: SimEnemyModule = {
 	patterns: RED_CUBE_PATTERNS,
 	pickAmbientPattern,
 	spawnAmbientWave,
+	firePatterns: ["aimedBurst", "aimedStream"],
 };
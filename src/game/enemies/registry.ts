@@ -1,12 +1,19 @@
 import type { EnemyArchetypeId } from "../combatConfig";
-import type { SimulationState } from "../types";
+import type { Enemy, SimulationState } from "../types";
+import { blueHexagonModule } from "./blueHexagon";
+import { bossModule } from "./boss";
 import { greenTriangleModule } from "./greenTriangle";
 import { redCubeModule } from "./redCube";
-import type { SimEnemyModule } from "./types";
+import { splitterModule, splitterShardModule } from "./splitter";
+import type { EnemyDestroyCause, SimEnemyModule } from "./types";
 
 const enemyModules = new Map<EnemyArchetypeId, SimEnemyModule>([
 	["redCube", redCubeModule],
 	["greenTriangle", greenTriangleModule],
+	["blueHexagon", blueHexagonModule],
+	["splitter", splitterModule],
+	["splitterShard", splitterShardModule],
+	["boss", bossModule],
 ]);
 
 export function getEnemyModule(
@@ -15,6 +22,10 @@ export function getEnemyModule(
 	return enemyModules.get(archetypeId);
 }
 
+export function getEnemyModules(): Iterable<SimEnemyModule> {
+	return enemyModules.values();
+}
+
 export function registerEnemyModule(module: SimEnemyModule): void {
 	enemyModules.set(module.archetypeId, module);
 }
@@ -34,3 +45,48 @@ export function spawnAmbientEnemyWave(
 	// Fallback: use redCube module
 	return redCubeModule.spawnAmbientWave(state);
 }
+
+/** True for enemies that soak several cue hits (bosses). */
+export function isMultiHitEnemy(enemy: Enemy): boolean {
+	return enemyModules.get(enemy.archetype)?.applyCueHit !== undefined;
+}
+
+/** Circle overlap against the enemy's hitboxes, or its radius without any. */
+export function enemyOverlapsCircle(
+	enemy: Enemy,
+	x: number,
+	y: number,
+	radius: number,
+): boolean {
+	const hitboxes = enemyModules.get(enemy.archetype)?.getHitboxes?.(enemy);
+	if (!hitboxes) {
+		return Math.hypot(enemy.x - x, enemy.y - y) <= enemy.radius + radius;
+	}
+	return hitboxes.some(
+		(hitbox) =>
+			Math.hypot(enemy.x + hitbox.offsetX - x, enemy.y + hitbox.offsetY - y) <=
+			hitbox.radius + radius,
+	);
+}
+
+/** Boss health from its module, otherwise armor left from ordinary hits. */
+export function getEnemyHealthFraction(
+	state: SimulationState,
+	enemy: Enemy,
+): number {
+	const module = enemyModules.get(enemy.archetype);
+	if (module?.getHealthFraction) {
+		return module.getHealthFraction(state, enemy);
+	}
+	const maxHitPoints = module?.definition.hitPoints ?? 1;
+	return maxHitPoints > 1 ? enemy.hitPoints / maxHitPoints : 1;
+}
+
+/** Call after removing a destroyed enemy from `state.enemies`. */
+export function notifyEnemyDestroyed(
+	state: SimulationState,
+	enemy: Enemy,
+	cause: EnemyDestroyCause,
+): void {
+	enemyModules.get(enemy.archetype)?.onDestroyed?.(state, enemy, cause);
+}
@@ -0,0 +1,125 @@
+import { ENEMY_ARCHETYPE_DEFINITIONS } from "../combatConfig";
+import type {
+	ScriptedWave,
+	SimulationState,
+	WaveFormation,
+} from "../types";
+import { clamp, getIntensityAtTime, getMoodParameters } from "../utils";
+import { getEnemyModule } from "./registry";
+
+const SCRIPTED_RIGHT_SPAWN_X = 22.4;
+// Top and bottom entries drop in over the right half of the screen and
+// drift left more slowly so the formation stays readable.
+const SCRIPTED_SIDE_SPAWN_X = 11;
+const SCRIPTED_SIDE_ENTRY_OFFSET_Y = 13;
+const SCRIPTED_SIDE_SPEED_SCALE = 0.55;
+const FORMATION_SPACING = 1.5;
+const ENEMY_FIRE_COOLDOWN_MULTIPLIER = 1.25;
+
+/**
+ * Spawns one authored wave. Multi-hit archetypes (bosses) ignore the
+ * formation and arrive through their own module. Returns the count spawned.
+ */
+export function spawnScriptedWave(
+	state: SimulationState,
+	wave: ScriptedWave,
+): number {
+	const module = getEnemyModule(wave.archetype);
+	if (module?.applyCueHit) {
+		return module.spawnAmbientWave(state);
+	}
+
+	const intensity = getIntensityAtTime(state, state.simTimeSeconds);
+	const mood = getMoodParameters(state);
+	const archetypeDef = ENEMY_ARCHETYPE_DEFINITIONS[wave.archetype];
+	const fireScale = state.combatConfig.enemyRoster.fireScale;
+	const pattern =
+		wave.pattern ??
+		module?.pickAmbientPattern(state.spawnIndex, state.rng) ??
+		"straight";
+	const sideScale = wave.entry === "right" ? 1 : SCRIPTED_SIDE_SPEED_SCALE;
+	const vx =
+		(-2.5 - intensity * 1.8) *
+		mood.enemySpeedScale *
+		archetypeDef.speedScale *
+		sideScale;
+	// Shared path parameters keep the formation moving as one shape.
+	const phase = state.rng() * Math.PI * 2;
+	const amplitude = 0.35 + state.rng() * 1.25;
+	const frequency = 1 + state.rng() * 1.4;
+	const spawnX =
+		wave.entry === "right" ? SCRIPTED_RIGHT_SPAWN_X : SCRIPTED_SIDE_SPAWN_X;
+	const entryOffsetY =
+		wave.entry === "top"
+			? SCRIPTED_SIDE_ENTRY_OFFSET_Y
+			: wave.entry === "bottom"
+				? -SCRIPTED_SIDE_ENTRY_OFFSET_Y
+				: 0;
+
+	const offsets = getFormationOffsets(wave.formation, wave.count);
+	for (const offset of offsets) {
+		const baseY = clamp(wave.y + offset.y, -10, 10);
+		state.enemies.push({
+			id: state.nextEnemyId++,
+			archetype: wave.archetype,
+			x: spawnX + offset.x,
+			y: baseY + entryOffsetY,
+			z: 0,
+			vx,
+			ageSeconds: 0,
+			pattern,
+			baseY,
+			phase,
+			amplitude,
+			frequency,
+			pathAgeOffsetSeconds: 0,
+			radius: 0.44 * archetypeDef.radiusScale,
+			fireCooldownSeconds:
+				((0.5 + (1 - intensity) * 0.8 + state.rng() * 0.5) *
+					mood.enemyFireIntervalScale *
+					ENEMY_FIRE_COOLDOWN_MULTIPLIER *
+					archetypeDef.fireCooldownScale) /
+				fireScale,
+			scheduledCueTime: null,
+			cuePrimed: false,
+			damageFlash: 0,
+			hasEnteredView: false,
+			hitPoints: archetypeDef.hitPoints,
+			entryOffsetY,
+		});
+	}
+	return offsets.length;
+}
+
+/** Positions relative to the wave anchor; +x trails behind the leader. */
+export function getFormationOffsets(
+	formation: WaveFormation,
+	count: number,
+): Array<{ x: number; y: number }> {
+	const offsets: Array<{ x: number; y: number }> = [];
+	const size = formation === "single" ? 1 : Math.max(1, count);
+	for (let i = 0; i < size; i += 1) {
+		if (formation === "line") {
+			offsets.push({ x: 0, y: (i - (size - 1) / 2) * FORMATION_SPACING });
+		} else if (formation === "column") {
+			offsets.push({ x: i * FORMATION_SPACING, y: 0 });
+		} else if (formation === "vee") {
+			const rank = Math.ceil(i / 2);
+			const side = i % 2 === 1 ? 1 : -1;
+			offsets.push({
+				x: rank * FORMATION_SPACING * 0.8,
+				y: side * rank * FORMATION_SPACING * 0.75,
+			});
+		} else if (formation === "ring") {
+			const radius = Math.max(1.2, size * 0.32);
+			const angle = (i / size) * Math.PI * 2;
+			offsets.push({
+				x: radius - Math.cos(angle) * radius,
+				y: Math.sin(angle) * radius,
+			});
+		} else {
+			offsets.push({ x: 0, y: 0 });
+		}
+	}
+	return offsets;
+}
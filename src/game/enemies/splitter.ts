@@ -0,0 +1,149 @@
+import { ENEMY_ARCHETYPE_DEFINITIONS } from "../combatConfig";
+import type { Enemy, EnemyPattern, SimulationState } from "../types";
+import {
+	clamp,
+	getIntensityAtTime,
+	getMoodParameters,
+} from "../utils";
+import type { EnemyDestroyCause, SimEnemyModule } from "./types";
+
+const SPLITTER_PATTERNS: EnemyPattern[] = ["sine", "arc", "zigzag"];
+const SPLITTER_SHARD_PATTERNS: EnemyPattern[] = ["straight"];
+
+const SPLITTER_SHARD_COUNT = 3;
+const SPLITTER_SHARD_SPREAD_Y = 1.15;
+const SPLITTER_SHARD_MIN_SPEED = 2.4;
+const ENEMY_FIRE_COOLDOWN_MULTIPLIER = 1.25;
+
+function enemyFireIntensityMultiplier(intensity: number): number {
+	const ENEMY_INTENSITY_FIRE_COOLDOWN_BOOST = 0.1;
+	return clamp(1 - intensity * ENEMY_INTENSITY_FIRE_COOLDOWN_BOOST, 0.82, 1);
+}
+
+function pickAmbientPattern(
+	spawnIndex: number,
+	_rng: () => number,
+): EnemyPattern {
+	return SPLITTER_PATTERNS[spawnIndex % SPLITTER_PATTERNS.length];
+}
+
+function spawnAmbientWave(state: SimulationState): number {
+	const intensity = getIntensityAtTime(state, state.simTimeSeconds);
+	const mood = getMoodParameters(state);
+	const archetypeDef = ENEMY_ARCHETYPE_DEFINITIONS.splitter;
+	const lane = (state.spawnIndex % 5) - 2;
+	const fireScale = state.combatConfig.enemyRoster.fireScale;
+
+	state.enemies.push({
+		id: state.nextEnemyId++,
+		archetype: "splitter",
+		x: 22.2 + state.rng() * 2.8,
+		y: lane * 1.6,
+		z: 0,
+		vx:
+			(-2.4 - intensity * 1.6 - state.rng() * 0.8) *
+			mood.enemySpeedScale *
+			archetypeDef.speedScale,
+		ageSeconds: 0,
+		pattern: pickAmbientPattern(state.spawnIndex, state.rng),
+		baseY: lane * 1.6,
+		phase: state.rng() * Math.PI * 2,
+		amplitude: 0.35 + state.rng() * 1.1,
+		frequency: 0.9 + state.rng() * 1.2,
+		pathAgeOffsetSeconds: 0,
+		radius: 0.44 * archetypeDef.radiusScale,
+		fireCooldownSeconds:
+			((0.6 + (1 - intensity) * 0.8 + state.rng() * 0.5) *
+				mood.enemyFireIntervalScale *
+				ENEMY_FIRE_COOLDOWN_MULTIPLIER *
+				enemyFireIntensityMultiplier(intensity) *
+				archetypeDef.fireCooldownScale) /
+			fireScale,
+		scheduledCueTime: null,
+		cuePrimed: false,
+		damageFlash: 0,
+		hasEnteredView: false,
+		hitPoints: archetypeDef.hitPoints,
+	});
+	return 1;
+}
+
+/**
+ * Shards fan out from where the splitter died. Each starts on the parent's
+ * position and eases to its own lane through the entry offset.
+ */
+function spawnShards(
+	state: SimulationState,
+	x: number,
+	y: number,
+	vx: number,
+	hasEnteredView: boolean,
+): number {
+	const archetypeDef = ENEMY_ARCHETYPE_DEFINITIONS.splitterShard;
+	const shardVx =
+		Math.min(vx, -SPLITTER_SHARD_MIN_SPEED) * archetypeDef.speedScale;
+
+	for (let i = 0; i < SPLITTER_SHARD_COUNT; i += 1) {
+		const spread =
+			(i - (SPLITTER_SHARD_COUNT - 1) / 2) * SPLITTER_SHARD_SPREAD_Y;
+		const baseY = clamp(y + spread, -10, 10);
+		state.enemies.push({
+			id: state.nextEnemyId++,
+			archetype: "splitterShard",
+			x: x + state.rng() * 0.3,
+			y,
+			z: 0,
+			vx: shardVx * (0.92 + state.rng() * 0.16),
+			ageSeconds: 0,
+			pattern: "straight",
+			baseY,
+			phase: 0,
+			amplitude: 0,
+			frequency: 0,
+			pathAgeOffsetSeconds: 0,
+			radius: 0.44 * archetypeDef.radiusScale,
+			fireCooldownSeconds: 0,
+			scheduledCueTime: null,
+			cuePrimed: false,
+			damageFlash: 0,
+			hasEnteredView,
+			hitPoints: archetypeDef.hitPoints,
+			entryOffsetY: y - baseY,
+		});
+	}
+	return SPLITTER_SHARD_COUNT;
+}
+
+function onDestroyed(
+	state: SimulationState,
+	enemy: Enemy,
+	cause: EnemyDestroyCause,
+): void {
+	// A ram happens on top of the ship; shards there would hit it at once.
+	if (cause === "ram") {
+		return;
+	}
+	spawnShards(state, enemy.x, enemy.y, enemy.vx, enemy.hasEnteredView);
+}
+
+export const splitterModule: SimEnemyModule = {
+	archetypeId: "splitter",
+	definition: ENEMY_ARCHETYPE_DEFINITIONS.splitter,
+	patterns: SPLITTER_PATTERNS,
+	pickAmbientPattern,
+	spawnAmbientWave,
+	firePatterns: ["fan", "curving"],
+	onDestroyed,
+};
+
+export const splitterShardModule: SimEnemyModule = {
+	archetypeId: "splitterShard",
+	definition: ENEMY_ARCHETYPE_DEFINITIONS.splitterShard,
+	patterns: SPLITTER_SHARD_PATTERNS,
+	pickAmbientPattern: () => "straight",
+	// Only reached through wave scripts; shards normally come from splitters.
+	spawnAmbientWave: (state) => {
+		const lane = (state.spawnIndex % 5) - 2;
+		return spawnShards(state, 22.4, lane * 1.6, -2.6, false);
+	},
+};
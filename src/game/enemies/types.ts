@@ -1,5 +1,20 @@
 import type { EnemyArchetypeDefinition, EnemyArchetypeId } from "../combatConfig";
-import type { Enemy, EnemyPattern, SimulationState } from "../types";
+import type {
+	Enemy,
+	EnemyFirePattern,
+	EnemyPattern,
+	SimulationState,
+} from "../types";
+
+/** A circular hit area offset from the enemy's position. */
+export type EnemyHitbox = {
+	offsetX: number;
+	offsetY: number;
+	radius: number;
+};
+
+/** What removed an enemy: ship fire, ramming the ship, or its cue. */
+export type EnemyDestroyCause = "fire" | "ram" | "cue";
 
 /**
  * Simulation-side module for an enemy archetype.
@@ -20,4 +35,42 @@ export type SimEnemyModule = {
 
 	/** Spawn an ambient wave of this archetype (single enemy or formation). Returns count spawned. */
 	spawnAmbientWave: (state: SimulationState) => number;
+
+	/** Emitters this archetype cycles through, one per volley; aimed bursts when omitted. */
+	firePatterns?: EnemyFirePattern[];
+
+	/** Hold ambient waves until the next bar start when a bar timeline is set. */
+	alignWavesToBars?: boolean;
+
+	/** Runs every step before cue planning, e.g. to trigger encounters. */
+	step?: (state: SimulationState, deltaSeconds: number) => void;
+
+	/**
+	 * Runs once after the enemy is removed by fire, a ram or a cue (not when
+	 * it leaves the screen), e.g. to break it into smaller enemies.
+	 */
+	onDestroyed?: (
+		state: SimulationState,
+		enemy: Enemy,
+		cause: EnemyDestroyCause,
+	) => void;
+
+	/** Several hit areas instead of the single `radius` circle. */
+	getHitboxes?: (enemy: Enemy) => EnemyHitbox[];
+
+	/**
+	 * Multi-hit enemies take cues instead of dying to the first one and are
+	 * never destroyed by ordinary fire or rams. Returns true on the killing hit.
+	 */
+	applyCueHit?: (state: SimulationState, enemy: Enemy) => boolean;
+
+	/** Whether a multi-hit enemy can take one more cue due at `cueTimeSeconds`. */
+	acceptsCue?: (
+		state: SimulationState,
+		enemy: Enemy,
+		cueTimeSeconds: number,
+	) => boolean;
+
+	/** Remaining health as a fraction, for multi-hit enemies. */
+	getHealthFraction?: (state: SimulationState, enemy: Enemy) => number;
 };
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { normalizeCombatConfig } from "./combatConfig";
+import { judgeCueTiming } from "./judgement";
+
+describe("cue judgements", () => {
+  it("grades timing error against nested windows", () => {
+    const { scoring } = normalizeCombatConfig({
+      scoring: { perfectWindowMs: 20, greatWindowMs: 40, goodWindowMs: 80 }
+    });
+
+    expect(judgeCueTiming(scoring, 0)).toBe("perfect");
+    expect(judgeCueTiming(scoring, 20)).toBe("perfect");
+    expect(judgeCueTiming(scoring, 35)).toBe("great");
+    expect(judgeCueTiming(scoring, 80)).toBe("good");
+    expect(judgeCueTiming(scoring, 81)).toBe("miss");
+  });
+
+  it("widens later windows that are narrower than earlier ones", () => {
+    const { scoring } = normalizeCombatConfig({
+      scoring: { perfectWindowMs: 60, greatWindowMs: 30, goodWindowMs: Number.NaN }
+    });
+
+    expect(scoring.perfectWindowMs).toBe(60);
+    expect(scoring.greatWindowMs).toBe(60);
+    expect(scoring.goodWindowMs).toBe(100);
+  });
+});
@@ -0,0 +1,69 @@
+import type { ScoringConfig } from "./combatConfig";
+import type { CueJudgement, SimulationState } from "./types";
+
+/** Share of a cue's base score each judgement earns. */
+export const JUDGEMENT_SCORE_MULTIPLIERS: Record<CueJudgement, number> = {
+	perfect: 1,
+	great: 0.7,
+	good: 0.4,
+	miss: 0,
+};
+
+const JUDGEMENT_POPUP_LIFETIME_SECONDS = 0.7;
+const JUDGEMENT_POPUP_OFFSET_Y = 0.9;
+const JUDGEMENT_POPUP_RISE_SPEED = 1.6;
+const MAX_JUDGEMENT_POPUPS = 24;
+
+export function judgeCueTiming(
+	scoring: ScoringConfig,
+	cueErrorMs: number,
+): CueJudgement {
+	if (cueErrorMs <= scoring.perfectWindowMs) {
+		return "perfect";
+	}
+	if (cueErrorMs <= scoring.greatWindowMs) {
+		return "great";
+	}
+	if (cueErrorMs <= scoring.goodWindowMs) {
+		return "good";
+	}
+	return "miss";
+}
+
+export function createJudgementCounts(): Record<CueJudgement, number> {
+	return { perfect: 0, great: 0, good: 0, miss: 0 };
+}
+
+/** Counts the judgement and floats its label up from where the cue landed. */
+export function recordJudgement(
+	state: SimulationState,
+	judgement: CueJudgement,
+	x: number,
+	y: number,
+): void {
+	state.judgementCounts[judgement] += 1;
+	if (state.judgementPopups.length >= MAX_JUDGEMENT_POPUPS) {
+		state.judgementPopups.shift();
+	}
+	state.judgementPopups.push({
+		id: state.nextJudgementPopupId++,
+		judgement,
+		x,
+		y: y + JUDGEMENT_POPUP_OFFSET_Y,
+		ageSeconds: 0,
+		lifetimeSeconds: JUDGEMENT_POPUP_LIFETIME_SECONDS,
+	});
+}
+
+export function updateJudgementPopups(
+	state: SimulationState,
+	deltaSeconds: number,
+): void {
+	for (const popup of state.judgementPopups) {
+		popup.ageSeconds += deltaSeconds;
+		popup.y += JUDGEMENT_POPUP_RISE_SPEED * deltaSeconds;
+	}
+	state.judgementPopups = state.judgementPopups.filter(
+		(popup) => popup.ageSeconds < popup.lifetimeSeconds,
+	);
+}
@@ -1,5 +1,17 @@
 import type { SimulationModule } from "./types";
 
+/** Ids of the default stages, for removing or replacing them. */
+export const DEFAULT_MODULE_IDS = {
+	shipMotion: "ship-motion",
+	enemySpawns: "enemy-spawn",
+	cuePlanning: "cue-planning",
+	weaponFire: "weapon-fire",
+	enemyUpdates: "enemy-updates",
+	projectileUpdates: "projectile-updates",
+	collisionResolution: "collision-resolution",
+	cleanup: "cleanup",
+} as const;
+
 export type DefaultModuleHandlers = {
 	shipMotion: SimulationModule["step"];
 	enemySpawns: SimulationModule["step"];
@@ -11,47 +23,66 @@ export type DefaultModuleHandlers = {
 	cleanup: SimulationModule["step"];
 };
 
+/**
+ * The built-in pipeline. What each stage owns:
+ *
+ * - 10 ship-motion: `shipX/Y`, ship velocity and the control/target fields.
+ * - 20 enemy-spawn: appends to `enemies`, spawn timers, bar/boss triggers.
+ * - 30 cue-planning: `cueTimeline` assignments, `scheduledCueTime` on
+ *   enemies, `plannedCueShots` and `plannedPurpleMissileShots`.
+ * - 40 weapon-fire: appends to `projectiles` and `missiles`.
+ * - 50 enemy-updates: enemy positions and fire, appends `enemyProjectiles`.
+ * - 60 projectile-updates: moves and ages every projectile, beam, explosion
+ *   and `powerUps` pickup.
+ * - 70 collision-resolution: removes hit entities, ship damage, pickup
+ *   collection into `activePowerUps` and `weaponGrants`, resolves due cues
+ *   into `score`, `combo` and the cue hit/miss counters.
+ * - 80 cleanup: shield regen, culling of off-screen entities and expiry of
+ *   power-up effects.
+ *
+ * A module at 75 sees this step's collisions and cue results before cleanup.
+ */
 export function createDefaultModules(
 	handlers: DefaultModuleHandlers,
 ): SimulationModule[] {
 	return [
 		{
-			id: "ship-motion",
+			id: DEFAULT_MODULE_IDS.shipMotion,
 			order: 10,
 			step: handlers.shipMotion,
 		},
 		{
-			id: "enemy-spawn",
+			id: DEFAULT_MODULE_IDS.enemySpawns,
 			order: 20,
 			step: handlers.enemySpawns,
 		},
 		{
-			id: "cue-planning",
+			id: DEFAULT_MODULE_IDS.cuePlanning,
 			order: 30,
 			step: handlers.cuePlanning,
 		},
 		{
-			id: "weapon-fire",
+			id: DEFAULT_MODULE_IDS.weaponFire,
 			order: 40,
 			step: handlers.weaponFire,
 		},
 		{
-			id: "enemy-updates",
+			id: DEFAULT_MODULE_IDS.enemyUpdates,
 			order: 50,
 			step: handlers.enemyUpdates,
 		},
 		{
-			id: "projectile-updates",
+			id: DEFAULT_MODULE_IDS.projectileUpdates,
 			order: 60,
 			step: handlers.projectileUpdates,
 		},
 		{
-			id: "collision-resolution",
+			id: DEFAULT_MODULE_IDS.collisionResolution,
 			order: 70,
 			step: handlers.collisionResolution,
 		},
 		{
-			id: "cleanup",
+			id: DEFAULT_MODULE_IDS.cleanup,
 			order: 80,
 			step: handlers.cleanup,
 		},
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { createSimulation } from "../sim";
+import type { SimulationState } from "../types";
+import { applySimulationModuleEdits, createModuleRunner } from "./runner";
+import type { SimulationModule } from "./types";
+
+/** A fully initialised state, captured from a real simulation's `init`. */
+function createSimulationState(): SimulationState {
+  let captured: SimulationState | null = null;
+  createSimulation({
+    modules: [
+      {
+        id: "capture-state",
+        order: 0,
+        init(state) {
+          captured = state;
+        },
+        step() {}
+      }
+    ]
+  });
+  if (!captured) {
+    throw new Error("simulation did not initialise its modules");
+  }
+  return captured;
+}
+
+function createRecordingModule(id: string, order: number, calls: string[]): SimulationModule {
+  return {
+    id,
+    order,
+    step() {
+      calls.push(id);
+    }
+  };
+}
+
+describe("simulation module pipeline", () => {
+  it("removes, replaces and inserts modules by id before ordering", () => {
+    const calls: string[] = [];
+    const base = [
+      createRecordingModule("a", 10, calls),
+      createRecordingModule("b", 20, calls),
+      createRecordingModule("c", 30, calls)
+    ];
+    const replacement = createRecordingModule("b", 5, calls);
+    const modules = applySimulationModuleEdits(base, {
+      remove: ["c"],
+      add: [replacement, createRecordingModule("d", 15, calls)]
+    });
+
+    const runner = createModuleRunner(modules);
+    runner.step(createSimulationState(), 1 / 60);
+
+    expect(calls).toEqual(["b", "a", "d"]);
+    expect(runner.modules[0]).toBe(replacement);
+    expect(base.map((module) => module.id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("runs modules that share an order in insertion order", () => {
+    const calls: string[] = [];
+    const modules = applySimulationModuleEdits([createRecordingModule("default", 70, calls)], {
+      add: [createRecordingModule("custom", 70, calls)]
+    });
+
+    createModuleRunner(modules).step(createSimulationState(), 1 / 60);
+
+    expect(calls).toEqual(["default", "custom"]);
+  });
+});
@@ -1,5 +1,5 @@
 import type { SimulationState } from "../types";
-import type { SimulationModule } from "./types";
+import type { SimulationModule, SimulationModuleEdits } from "./types";
 
 export type ModuleRunner = {
 	modules: SimulationModule[];
@@ -29,3 +29,21 @@ export function createModuleRunner(modules: SimulationModule[]): ModuleRunner {
 		},
 	};
 }
+
+/** Removes, replaces and inserts modules; the runner sorts them by order. */
+export function applySimulationModuleEdits(
+	modules: SimulationModule[],
+	edits: SimulationModuleEdits,
+): SimulationModule[] {
+	const removed = new Set(edits.remove ?? []);
+	const edited = modules.filter((module) => !removed.has(module.id));
+	for (const module of edits.add ?? []) {
+		const index = edited.findIndex((existing) => existing.id === module.id);
+		if (index >= 0) {
+			edited[index] = module;
+		} else {
+			edited.push(module);
+		}
+	}
+	return edited;
+}
@@ -1,5 +1,25 @@
 import type { SimulationState } from "../types";
 
+/**
+ * One stage of the simulation step. Modules run in ascending `order` on
+ * every step (ties keep insertion order, defaults first); `reset` runs after
+ * the sim has reset its own run state on `startTrackRun`.
+ *
+ * State contract: every module receives the full mutable `SimulationState`,
+ * but each default stage owns a slice of it and later stages read what
+ * earlier ones wrote in the same step (see `createDefaultModules`).
+ * Custom modules should only write the fields of the stage they sit next
+ * to, or scoring/feedback fields (`score`, `combo`, `explosions`,
+ * `laserBeams`) that nothing downstream depends on. Remove enemies and
+ * projectiles by reassigning or splicing the arrays, never by holding on to
+ * indices across stages, and draw randomness from `state.rng` so seeded
+ * runs stay deterministic. Data a module needs for itself lives in its own
+ * closure and is cleared in `reset`.
+ *
+ * Modules are functions, so they cannot be posted to the precompute worker:
+ * precomputed runs whose params carry `moduleEdits` are stepped on the main
+ * thread instead (`buildPrecomputedRunAsync`).
+ */
 export type SimulationModule = {
 	id: string;
 	order: number;
@@ -7,3 +27,11 @@ export type SimulationModule = {
 	reset?: (state: SimulationState) => void;
 	step: (state: SimulationState, deltaSeconds: number) => void;
 };
+
+/** Changes to a module pipeline, applied by id. */
+export type SimulationModuleEdits = {
+	/** Ids of modules to drop. */
+	remove?: string[];
+	/** New modules; one whose id is already in the pipeline replaces it. */
+	add?: SimulationModule[];
+};
@@ -0,0 +1,239 @@
+import { SHIP_MAX_SHIELD } from "./constants";
+import type {
+	Enemy,
+	PowerUp,
+	PowerUpKind,
+	ScheduledCue,
+	SimulationState,
+} from "./types";
+import {
+	clamp,
+	createMulberry32,
+	getRelativeIntensityAtTime,
+	isPowerUpActive,
+	isWeaponGranted,
+} from "./utils";
+import { isWeaponEnabled } from "./weapons/registry";
+
+export type PowerUpDefinition = {
+	/** 0 for instant effects. */
+	durationSeconds: number;
+	dropWeight: number;
+	/** How hard the autopilot steers for it, before distance falloff. */
+	attraction: number;
+};
+
+export const POWER_UP_DEFINITIONS: Record<PowerUpKind, PowerUpDefinition> = {
+	purpleMissiles: { durationSeconds: 10, dropWeight: 1, attraction: 0.8 },
+	spreadShot: { durationSeconds: 8, dropWeight: 1.2, attraction: 0.65 },
+	shieldRecharge: { durationSeconds: 0, dropWeight: 0.9, attraction: 1 },
+	scoreMultiplier: { durationSeconds: 12, dropWeight: 0.8, attraction: 0.9 },
+};
+
+const POWER_UP_KINDS = Object.keys(POWER_UP_DEFINITIONS) as PowerUpKind[];
+
+export const SCORE_MULTIPLIER = 2;
+
+const ORDINARY_DROP_CHANCE = 0.03;
+const CUE_DROP_CHANCE = 0.08;
+const STRONG_CUE_DROP_CHANCE = 0.3;
+const STRONG_CUE_STRENGTH = 0.7;
+const MAX_POWER_UPS_ON_SCREEN = 3;
+const POWER_UP_RADIUS = 0.42;
+const POWER_UP_PICKUP_RADIUS = 0.7;
+const POWER_UP_DRIFT_SPEED = 1.8;
+const POWER_UP_LIFETIME_SECONDS = 9;
+const POWER_UP_RNG_SALT = 0x9e3779b9;
+const ATTRACTION_RANGE = 16;
+const ATTRACTION_MIN_X_AHEAD_OF_SHIP = -1.5;
+
+export function createPowerUpRng(seed: number): () => number {
+	return createMulberry32((seed ^ POWER_UP_RNG_SALT) >>> 0);
+}
+
+/**
+ * Rolls a drop where an enemy died. Cue kills drop more often than ordinary
+ * kills, and cue kills on strong cues drop most. Cues without an authored
+ * strength are judged by how loud the track is at that moment.
+ */
+export function rollPowerUpDrop(
+	state: SimulationState,
+	enemy: Enemy,
+	cue: Pick<ScheduledCue, "timeSeconds" | "strength"> | null = null,
+): void {
+	const roll = state.powerUpRng();
+	if (state.powerUps.length >= MAX_POWER_UPS_ON_SCREEN) {
+		return;
+	}
+	const chance =
+		cue === null
+			? ORDINARY_DROP_CHANCE
+			: (cue.strength ?? getRelativeIntensityAtTime(state, cue.timeSeconds)) >=
+					STRONG_CUE_STRENGTH
+				? STRONG_CUE_DROP_CHANCE
+				: CUE_DROP_CHANCE;
+	if (roll >= chance) {
+		return;
+	}
+	const kind = pickPowerUpKind(state);
+	if (!kind) {
+		return;
+	}
+	state.powerUps.push({
+		id: state.nextPowerUpId++,
+		kind,
+		x: enemy.x,
+		y: enemy.y,
+		z: 0,
+		vx: -POWER_UP_DRIFT_SPEED,
+		ageSeconds: 0,
+		maxLifetimeSeconds: POWER_UP_LIFETIME_SECONDS,
+		radius: POWER_UP_RADIUS,
+	});
+}
+
+/** Skips kinds that would do nothing for the current loadout. */
+function pickPowerUpKind(state: SimulationState): PowerUpKind | null {
+	const weights = POWER_UP_KINDS.map((kind) => {
+		if (kind === "purpleMissiles" && state.combatConfig.shipWeapons.purple) {
+			return 0;
+		}
+		if (kind === "spreadShot" && !isWeaponEnabled(state, "blue")) {
+			return 0;
+		}
+		return POWER_UP_DEFINITIONS[kind].dropWeight;
+	});
+	const total = weights.reduce((sum, weight) => sum + weight, 0);
+	if (total <= 0) {
+		return null;
+	}
+	let roll = state.powerUpRng() * total;
+	for (let i = 0; i < POWER_UP_KINDS.length; i += 1) {
+		roll -= weights[i];
+		if (roll < 0 && weights[i] > 0) {
+			return POWER_UP_KINDS[i];
+		}
+	}
+	return null;
+}
+
+export function updatePowerUps(
+	state: SimulationState,
+	deltaSeconds: number,
+): void {
+	for (const powerUp of state.powerUps) {
+		powerUp.ageSeconds += deltaSeconds;
+		powerUp.x += powerUp.vx * deltaSeconds;
+	}
+}
+
+export function resolvePowerUpPickups(state: SimulationState): void {
+	if (state.powerUps.length === 0 || state.isGameOver) {
+		return;
+	}
+	const kept: PowerUp[] = [];
+	for (const powerUp of state.powerUps) {
+		const dx = powerUp.x - state.shipX;
+		const dy = powerUp.y - state.shipY;
+		const radius = powerUp.radius + POWER_UP_PICKUP_RADIUS;
+		if (dx * dx + dy * dy <= radius * radius) {
+			applyPowerUp(state, powerUp.kind);
+			continue;
+		}
+		kept.push(powerUp);
+	}
+	state.powerUps = kept;
+}
+
+function applyPowerUp(state: SimulationState, kind: PowerUpKind): void {
+	if (kind === "shieldRecharge") {
+		state.shipShield = SHIP_MAX_SHIELD;
+		state.shipShieldRegenDelaySeconds = 0;
+		state.shipShieldAlpha = 1;
+		return;
+	}
+	// Collecting a running power-up again extends it from now.
+	const expiresAt =
+		state.simTimeSeconds + POWER_UP_DEFINITIONS[kind].durationSeconds;
+	state.activePowerUps[kind] = expiresAt;
+	if (kind === "purpleMissiles") {
+		state.weaponGrants.purple = expiresAt;
+	}
+}
+
+/** Drops expired pickups and effects. */
+export function cleanupPowerUps(state: SimulationState): void {
+	state.powerUps = state.powerUps.filter(
+		(powerUp) =>
+			powerUp.ageSeconds < powerUp.maxLifetimeSeconds && powerUp.x > -21,
+	);
+	for (const kind of POWER_UP_KINDS) {
+		if (!isPowerUpActive(state, kind)) {
+			delete state.activePowerUps[kind];
+		}
+	}
+	for (const weaponId of Object.keys(state.weaponGrants)) {
+		if (!isWeaponGranted(state, weaponId)) {
+			delete state.weaponGrants[weaponId];
+		}
+	}
+}
+
+export function getScoreMultiplier(state: SimulationState): number {
+	return isPowerUpActive(state, "scoreMultiplier") ? SCORE_MULTIPLIER : 1;
+}
+
+/**
+ * The pickup the autopilot wants most, with a 0..1 pull: value of the kind
+ * right now, falling off with distance. Pickups already behind the ship are
+ * ignored since they drift away from it.
+ */
+export function findPowerUpAttraction(
+	state: SimulationState,
+): { powerUp: PowerUp; weight: number } | null {
+	let best: { powerUp: PowerUp; weight: number } | null = null;
+	for (const powerUp of state.powerUps) {
+		if (powerUp.x < state.shipX + ATTRACTION_MIN_X_AHEAD_OF_SHIP) {
+			continue;
+		}
+		const value = getPowerUpValue(state, powerUp.kind);
+		if (value <= 0) {
+			continue;
+		}
+		const distance = Math.hypot(
+			powerUp.x - state.shipX,
+			powerUp.y - state.shipY,
+		);
+		const weight = clamp(
+			value * (1 - distance / ATTRACTION_RANGE),
+			0,
+			1,
+		);
+		if (weight > 0 && (!best || weight > best.weight)) {
+			best = { powerUp, weight };
+		}
+	}
+	return best;
+}
+
+function getPowerUpValue(state: SimulationState, kind: PowerUpKind): number {
+	const attraction = POWER_UP_DEFINITIONS[kind].attraction;
+	if (kind === "shieldRecharge") {
+		// Worth little with a full shield, a lot when it is down.
+		return attraction * clamp(1 - state.shipShield / SHIP_MAX_SHIELD, 0.15, 1);
+	}
+	return attraction;
+}
+
+export function getActivePowerUpSummary(
+	state: SimulationState,
+): Array<{ kind: PowerUpKind; remainingSeconds: number }> {
+	const summary: Array<{ kind: PowerUpKind; remainingSeconds: number }> = [];
+	for (const kind of POWER_UP_KINDS) {
+		const expiresAt = state.activePowerUps[kind];
+		if (expiresAt !== undefined && expiresAt > state.simTimeSeconds) {
+			summary.push({ kind, remainingSeconds: expiresAt - state.simTimeSeconds });
+		}
+	}
+	return summary;
+}
@@ -0,0 +1,73 @@
+import type { CombatConfigPatch } from "./combatConfig";
+import type { SimulationModuleEdits } from "./modules/types";
+import { createSimulation, type Simulation } from "./sim";
+import type {
+  CueBand,
+  MoodSample,
+  ScriptedWave,
+  SpectrumBandSample,
+  StructureSection
+} from "./types";
+
+type IntensitySample = {
+  timeSeconds: number;
+  intensity: number;
+};
+
+type MoodProfile = "calm" | "driving" | "aggressive";
+
+export type BuildPrecomputedRunParams = {
+  seed: number;
+  moodProfile: MoodProfile;
+  moodTimeline?: MoodSample[];
+  intensityTimeline: IntensitySample[];
+  cueTimesSeconds: number[];
+  cueBands?: Array<CueBand | null>;
+  cueStrengths?: Array<number | null>;
+  barTimesSeconds?: number[];
+  sections?: StructureSection[];
+  scriptedWaves?: ScriptedWave[];
+  spectrumBandTimeline?: SpectrumBandSample[];
+  durationSeconds: number;
+  stepSeconds?: number;
+  enemyBulletRatio?: number;
+  combatConfig?: CombatConfigPatch;
+  /** Holds functions, so runs that carry edits cannot go to the worker. */
+  moduleEdits?: SimulationModuleEdits;
+};
+
+export type PrecomputePlan = {
+  stepSeconds: number;
+  totalDurationSeconds: number;
+  totalSteps: number;
+};
+
+export function getPrecomputePlan(params: BuildPrecomputedRunParams): PrecomputePlan {
+  const stepSeconds = params.stepSeconds ?? 1 / 180;
+  const totalDurationSeconds = Math.max(0, params.durationSeconds) + 3;
+  return {
+    stepSeconds,
+    totalDurationSeconds,
+    totalSteps: Math.max(1, Math.ceil(totalDurationSeconds / stepSeconds))
+  };
+}
+
+export function createPrecomputeSimulation(params: BuildPrecomputedRunParams): Simulation {
+  const sim = createSimulation({ moduleEdits: params.moduleEdits });
+  sim.setRandomSeed(params.seed);
+  sim.setMoodProfile(params.moodProfile);
+  sim.setMoodTimeline(params.moodTimeline ?? []);
+  if (params.combatConfig) {
+    sim.setCombatConfig(params.combatConfig);
+  }
+  if (typeof params.enemyBulletRatio === "number" && Number.isFinite(params.enemyBulletRatio)) {
+    sim.setEnemyBulletRatio(params.enemyBulletRatio);
+  }
+  sim.setIntensityTimeline(params.intensityTimeline);
+  sim.setSpectrumBandTimeline(params.spectrumBandTimeline ?? []);
+  sim.setBarTimeline(params.barTimesSeconds ?? []);
+  sim.setSectionTimeline(params.sections ?? []);
+  sim.setWaveScript(params.scriptedWaves ?? []);
+  sim.startTrackRun(params.cueTimesSeconds, params.cueBands, params.cueStrengths);
+  return sim;
+}
@@ -0,0 +1,67 @@
+import {
+  createPrecomputeSimulation,
+  getPrecomputePlan,
+  type BuildPrecomputedRunParams
+} from "./precomputePlan";
+import type { SimulationSnapshot } from "./sim";
+
+export type PrecomputeWorkerRequest = {
+  type: "precompute";
+  requestId: number;
+  params: BuildPrecomputedRunParams;
+};
+
+export type PrecomputeWorkerMessage =
+  | {
+      type: "chunk";
+      requestId: number;
+      snapshots: SimulationSnapshot[];
+      processedSteps: number;
+    }
+  | {
+      type: "done";
+      requestId: number;
+    }
+  | {
+      type: "error";
+      requestId: number;
+      message: string;
+    };
+
+// Roughly one second of sim time at the default step; small enough for
+// smooth progress, large enough to keep message overhead low.
+const SNAPSHOT_CHUNK_SIZE = 180;
+
+const post = (message: PrecomputeWorkerMessage): void => {
+  self.postMessage(message);
+};
+
+self.onmessage = (event: MessageEvent<PrecomputeWorkerRequest>) => {
+  const request = event.data;
+  if (request.type !== "precompute") {
+    return;
+  }
+
+  try {
+    const plan = getPrecomputePlan(request.params);
+    const sim = createPrecomputeSimulation(request.params);
+    let chunk: SimulationSnapshot[] = [sim.getSnapshot()];
+
+    for (let step = 1; step <= plan.totalSteps; step += 1) {
+      sim.step(plan.stepSeconds);
+      chunk.push(sim.getSnapshot());
+      if (chunk.length >= SNAPSHOT_CHUNK_SIZE || step === plan.totalSteps) {
+        post({ type: "chunk", requestId: request.requestId, snapshots: chunk, processedSteps: step });
+        chunk = [];
+      }
+    }
+
+    post({ type: "done", requestId: request.requestId });
+  } catch (error) {
+    post({
+      type: "error",
+      requestId: request.requestId,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { buildPrecomputedRunAsync, type BuildPrecomputedRunParams } from "./precomputedRun";
+import { registerWeaponModule, resetWeaponModules } from "./weapons/registry";
+
+function buildParams(overrides: Partial<BuildPrecomputedRunParams> = {}): BuildPrecomputedRunParams {
+  return {
+    seed: 7,
+    moodProfile: "driving",
+    intensityTimeline: [],
+    cueTimesSeconds: [1, 2, 3],
+    durationSeconds: 4,
+    stepSeconds: 1 / 60,
+    ...overrides
+  };
+}
+
+class UnavailableWorker {
+  constructor() {
+    throw new Error("worker started");
+  }
+}
+
+describe("precomputed run builds", () => {
+  afterEach(() => {
+    resetWeaponModules();
+    vi.unstubAllGlobals();
+  });
+
+  it("hands runs with only built-in weapons to the worker", async () => {
+    vi.stubGlobal("Worker", UnavailableWorker);
+
+    await expect(buildPrecomputedRunAsync(buildParams())).rejects.toThrow("worker started");
+  });
+
+  it("steps runs with custom weapons on this thread so the weapon takes part", async () => {
+    vi.stubGlobal("Worker", UnavailableWorker);
+    const plannedEnemyIds = new Set<number>();
+    registerWeaponModule({
+      id: "testBeam",
+      label: "Test Beam",
+      assignmentWeight: 1,
+      planCue(_state, enemy) {
+        plannedEnemyIds.add(enemy.id);
+        enemy.cuePrimed = true;
+      }
+    });
+
+    const progress: number[] = [];
+    const run = await buildPrecomputedRunAsync(
+      buildParams({
+        combatConfig: { shipWeapons: { blue: false, yellow: false, green: false, testBeam: true } }
+      }),
+      { onProgress: (value) => progress.push(value) }
+    );
+
+    expect(run.frameCount).toBeGreaterThan(7 * 60);
+    expect(plannedEnemyIds.size).toBeGreaterThan(0);
+    expect(progress[0]).toBe(0);
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+
+  it("steps runs with module edits on this thread with the edited pipeline", async () => {
+    vi.stubGlobal("Worker", UnavailableWorker);
+    let bonusSteps = 0;
+
+    const run = await buildPrecomputedRunAsync(
+      buildParams({
+        moduleEdits: {
+          add: [
+            {
+              id: "survival-bonus",
+              order: 75,
+              step(state) {
+                bonusSteps += 1;
+                state.score += 1;
+              }
+            }
+          ]
+        }
+      })
+    );
+
+    expect(bonusSteps).toBe(run.frameCount - 1);
+    expect(run.getSnapshotAtTime(run.durationSeconds).score).toBeGreaterThanOrEqual(bonusSteps);
+  });
+
+  it("stops a main-thread build when its signal aborts", async () => {
+    registerWeaponModule({ id: "testBeam", label: "Test Beam", assignmentWeight: 1, planCue() {} });
+    const controller = new AbortController();
+
+    const build = buildPrecomputedRunAsync(buildParams({ durationSeconds: 30 }), {
+      signal: controller.signal
+    });
+    controller.abort();
+
+    await expect(build).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
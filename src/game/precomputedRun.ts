@@ -1,186 +1,192 @@
-import { createSimulation, type SimulationSnapshot } from "./sim";
-import type { CombatConfigPatch } from "./combatConfig";
-
-type IntensitySample = {
-  timeSeconds: number;
-  intensity: number;
-};
-
-type MoodProfile = "calm" | "driving" | "aggressive";
+import type { SimulationSnapshot } from "./sim";
+import {
+  createPrecomputeSimulation,
+  getPrecomputePlan,
+  type BuildPrecomputedRunParams
+} from "./precomputePlan";
+import type { PrecomputeWorkerMessage, PrecomputeWorkerRequest } from "./precomputeWorker";
+import { createSnapshotStore, type SnapshotStore } from "./snapshotStore";
+import { hasCustomWeaponModules } from "./weapons/registry";
+
+export type { BuildPrecomputedRunParams } from "./precomputePlan";
 
 export type PrecomputedRun = {
   stepSeconds: number;
   durationSeconds: number;
-  snapshots: SimulationSnapshot[];
+  frameCount: number;
   buildMs: number;
   estimatedBytes: number;
+  /**
+   * Blends the two precomputed frames around timeSeconds, matching entities
+   * by id. Returns a reused view; its contents change on the next lookup.
+   */
   getSnapshotAtTime: (timeSeconds: number) => SimulationSnapshot;
 };
 
-type BuildPrecomputedRunParams = {
-  seed: number;
-  moodProfile: MoodProfile;
-  intensityTimeline: IntensitySample[];
-  cueTimesSeconds: number[];
-  durationSeconds: number;
-  stepSeconds?: number;
-  enemyBulletRatio?: number;
-  combatConfig?: CombatConfigPatch;
+type BuildPrecomputedRunAsyncOptions = {
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
 };
 
-export function buildPrecomputedRun(params: BuildPrecomputedRunParams): PrecomputedRun {
-  const buildStartMs = performance.now();
-  const stepSeconds = params.stepSeconds ?? 1 / 180;
-  const sim = createSimulation();
-  sim.setRandomSeed(params.seed);
-  sim.setMoodProfile(params.moodProfile);
-  if (params.combatConfig) {
-    sim.setCombatConfig(params.combatConfig);
-  }
-  if (typeof params.enemyBulletRatio === "number" && Number.isFinite(params.enemyBulletRatio)) {
-    sim.setEnemyBulletRatio(params.enemyBulletRatio);
-  }
-  sim.setIntensityTimeline(params.intensityTimeline);
-  sim.startTrackRun(params.cueTimesSeconds);
+// Steps between yields when a run is built on this thread; about a second
+// of sim time at the default step, like the worker's snapshot chunks.
+const MAIN_THREAD_CHUNK_STEPS = 180;
 
-  const snapshots: SimulationSnapshot[] = [];
-  const totalDurationSeconds = Math.max(0, params.durationSeconds) + 3;
-  const totalSteps = Math.max(1, Math.ceil(totalDurationSeconds / stepSeconds));
+let nextWorkerRequestId = 1;
 
-  snapshots.push(sim.getSnapshot());
-  for (let i = 0; i < totalSteps; i += 1) {
-    sim.step(stepSeconds);
-    snapshots.push(sim.getSnapshot());
+export function buildPrecomputedRun(params: BuildPrecomputedRunParams): PrecomputedRun {
+  const buildStartMs = performance.now();
+  const plan = getPrecomputePlan(params);
+  const sim = createPrecomputeSimulation(params);
+
+  const store = createSnapshotStore(plan.totalSteps + 1);
+  store.append(sim.getSnapshot());
+  for (let i = 0; i < plan.totalSteps; i += 1) {
+    sim.step(plan.stepSeconds);
+    store.append(sim.getSnapshot());
   }
 
-  return finalizePrecomputedRun(buildStartMs, stepSeconds, totalDurationSeconds, snapshots);
+  return finalizePrecomputedRun(buildStartMs, plan.stepSeconds, plan.totalDurationSeconds, store);
 }
 
-export async function buildPrecomputedRunAsync(
+/**
+ * Steps the run inside a dedicated worker that streams snapshot chunks back,
+ * so build speed does not depend on the render frame budget. The worker
+ * loads its own copy of the registries and cannot receive modules, so runs
+ * it could not reproduce (custom weapons, module edits) are stepped on this
+ * thread instead. Aborting the signal
+ * stops the build and rejects with an AbortError.
+ */
+export function buildPrecomputedRunAsync(
   params: BuildPrecomputedRunParams,
-  options: {
-    onProgress?: (progress: number) => void;
-    chunkSize?: number;
-    maxChunkMs?: number;
-  } = {}
+  options: BuildPrecomputedRunAsyncOptions = {}
 ): Promise<PrecomputedRun> {
-  const buildStartMs = performance.now();
-  const stepSeconds = params.stepSeconds ?? 1 / 180;
-  const sim = createSimulation();
-  sim.setRandomSeed(params.seed);
-  sim.setMoodProfile(params.moodProfile);
-  if (params.combatConfig) {
-    sim.setCombatConfig(params.combatConfig);
+  if (options.signal?.aborted) {
+    return Promise.reject(createAbortError());
   }
-  if (typeof params.enemyBulletRatio === "number" && Number.isFinite(params.enemyBulletRatio)) {
-    sim.setEnemyBulletRatio(params.enemyBulletRatio);
+  if (typeof Worker === "undefined" || !canPrecomputeInWorker(params)) {
+    return buildPrecomputedRunInChunks(params, options);
   }
-  sim.setIntensityTimeline(params.intensityTimeline);
-  sim.startTrackRun(params.cueTimesSeconds);
-
-  const snapshots: SimulationSnapshot[] = [];
-  const totalDurationSeconds = Math.max(0, params.durationSeconds) + 3;
-  const totalSteps = Math.max(1, Math.ceil(totalDurationSeconds / stepSeconds));
-  const chunkSize = Math.max(1, Math.floor(options.chunkSize ?? 240));
-  const maxChunkMs = clamp(options.maxChunkMs ?? 8, 2, 40);
 
-  options.onProgress?.(0);
-  snapshots.push(sim.getSnapshot());
+  return new Promise((resolve, reject) => {
+    const buildStartMs = performance.now();
+    const plan = getPrecomputePlan(params);
+    const requestId = nextWorkerRequestId++;
+    // Chunks are encoded as they arrive so the full object graph never exists.
+    const store = createSnapshotStore(plan.totalSteps + 1);
+    const worker = new Worker(new URL("./precomputeWorker.ts", import.meta.url), {
+      type: "module",
+      name: "run-precompute"
+    });
+    const signal = options.signal;
+
+    const finish = (): void => {
+      worker.terminate();
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = (): void => {
+      finish();
+      reject(createAbortError());
+    };
+
+    worker.onmessage = (event: MessageEvent<PrecomputeWorkerMessage>) => {
+      const message = event.data;
+      if (message.requestId !== requestId) {
+        return;
+      }
+      if (message.type === "chunk") {
+        for (const snapshot of message.snapshots) {
+          store.append(snapshot);
+        }
+        options.onProgress?.(Math.min(1, message.processedSteps / plan.totalSteps));
+        return;
+      }
+      finish();
+      if (message.type === "done") {
+        options.onProgress?.(1);
+        resolve(
+          finalizePrecomputedRun(buildStartMs, plan.stepSeconds, plan.totalDurationSeconds, store)
+        );
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish();
+      reject(new Error(event.message || "Precompute worker failed"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    options.onProgress?.(0);
+    const request: PrecomputeWorkerRequest = { type: "precompute", requestId, params };
+    worker.postMessage(request);
+  });
+}
 
-  let processedSteps = 0;
-  while (processedSteps < totalSteps) {
-    const chunkStartMs = performance.now();
-    let chunkSteps = 0;
+/** Whether the worker's sim would match one created on this thread. */
+function canPrecomputeInWorker(params: BuildPrecomputedRunParams): boolean {
+  return !params.moduleEdits && !hasCustomWeaponModules();
+}
 
-    while (processedSteps < totalSteps && chunkSteps < chunkSize) {
-      sim.step(stepSeconds);
-      snapshots.push(sim.getSnapshot());
-      processedSteps += 1;
-      chunkSteps += 1;
+/** Steps the run on this thread, yielding between chunks so frames keep rendering. */
+async function buildPrecomputedRunInChunks(
+  params: BuildPrecomputedRunParams,
+  options: BuildPrecomputedRunAsyncOptions
+): Promise<PrecomputedRun> {
+  const buildStartMs = performance.now();
+  const plan = getPrecomputePlan(params);
+  const sim = createPrecomputeSimulation(params);
+  const store = createSnapshotStore(plan.totalSteps + 1);
+  store.append(sim.getSnapshot());
+  options.onProgress?.(0);
 
-      if (chunkSteps >= 6 && performance.now() - chunkStartMs >= maxChunkMs) {
-        break;
+  for (let step = 1; step <= plan.totalSteps; step += 1) {
+    sim.step(plan.stepSeconds);
+    store.append(sim.getSnapshot());
+    if (step % MAIN_THREAD_CHUNK_STEPS === 0) {
+      options.onProgress?.(step / plan.totalSteps);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (options.signal?.aborted) {
+        throw createAbortError();
       }
     }
-
-    options.onProgress?.(Math.min(1, processedSteps / totalSteps));
-    if (processedSteps < totalSteps) {
-      await waitForNextFrame();
-    }
   }
 
   options.onProgress?.(1);
-  return finalizePrecomputedRun(buildStartMs, stepSeconds, totalDurationSeconds, snapshots);
+  return finalizePrecomputedRun(buildStartMs, plan.stepSeconds, plan.totalDurationSeconds, store);
+}
+
+export function isPrecomputeAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
 }
 
 function finalizePrecomputedRun(
   buildStartMs: number,
   stepSeconds: number,
   totalDurationSeconds: number,
-  snapshots: SimulationSnapshot[]
+  store: SnapshotStore
 ): PrecomputedRun {
-  const fallbackSnapshot = snapshots[snapshots.length - 1];
-  const lookup = buildMillisecondIndexLookup(totalDurationSeconds, stepSeconds, snapshots.length);
+  store.trim();
 
   return {
     stepSeconds,
     durationSeconds: totalDurationSeconds,
-    snapshots,
+    frameCount: store.frameCount,
     buildMs: performance.now() - buildStartMs,
-    estimatedBytes: estimateSnapshotBytes(snapshots),
+    estimatedBytes: store.byteLength(),
     getSnapshotAtTime(timeSeconds) {
       if (!Number.isFinite(timeSeconds) || timeSeconds <= 0) {
-        return snapshots[0];
+        return store.read(0);
       }
 
-      const clampedMs = Math.max(
-        0,
-        Math.min(lookup.length - 1, Math.floor(timeSeconds * 1000))
-      );
-      const index = lookup[clampedMs];
-      return snapshots[index] ?? fallbackSnapshot;
+      const position = Math.min(store.frameCount - 1, timeSeconds / stepSeconds);
+      const frame = Math.floor(position);
+      return store.readInterpolated(frame, position - frame);
     }
   };
 }
 
-function waitForNextFrame(): Promise<void> {
-  return new Promise((resolve) => {
-    requestAnimationFrame(() => resolve());
-  });
-}
-
-function clamp(value: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, value));
-}
-
-function buildMillisecondIndexLookup(
-  durationSeconds: number,
-  stepSeconds: number,
-  snapshotCount: number
-): Uint32Array {
-  const maxMs = Math.max(1, Math.ceil(durationSeconds * 1000));
-  const lookup = new Uint32Array(maxMs + 1);
-  const maxIndex = Math.max(0, snapshotCount - 1);
-
-  for (let ms = 0; ms <= maxMs; ms += 1) {
-    const timeSeconds = ms / 1000;
-    const index = Math.round(timeSeconds / stepSeconds);
-    lookup[ms] = Math.min(maxIndex, Math.max(0, index));
-  }
-
-  return lookup;
-}
-
-function estimateSnapshotBytes(snapshots: SimulationSnapshot[]): number {
-  let bytes = 0;
-  for (const snapshot of snapshots) {
-    bytes += 26 * 8;
-    bytes += snapshot.enemies.length * 5 * 8;
-    bytes += snapshot.projectiles.length * 6 * 8;
-    bytes += snapshot.missiles.length * 15 * 8;
-    bytes += snapshot.enemyProjectiles.length * 4 * 8;
-    bytes += snapshot.laserBeams.length * 5 * 8;
-    bytes += snapshot.explosions.length * 7 * 8;
-  }
-  return bytes;
+function createAbortError(): DOMException {
+  return new DOMException("Precompute was cancelled", "AbortError");
 }
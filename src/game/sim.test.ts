@@ -1,7 +1,14 @@
-import { describe, expect, it } from "vitest";
+import { afterEach, describe, expect, it } from "vitest";
+import { DEFAULT_MODULE_IDS } from "./modules/defaultModules";
+import { getEnemyModule } from "./enemies/registry";
 import { createSimulation } from "./sim";
+import { registerWeaponModule, resetWeaponModules } from "./weapons/registry";
 
 describe("simulation cue scheduling", () => {
+  afterEach(() => {
+    resetWeaponModules();
+  });
+
   it("resolves every scheduled cue as hit or miss", () => {
     const sim = createSimulation();
     sim.setCueTimeline([1, 2, 3, 4, 5]);
@@ -123,6 +130,32 @@ describe("simulation cue scheduling", () => {
     expect(afterReset.plannedCueCount).toBe(0);
   });
 
+  it("appends streamed cues without resetting cue progress", () => {
+    const sim = createSimulation();
+    sim.setRandomSeed(7);
+    sim.startTrackRun([0.5]);
+
+    for (let i = 0; i < 60 * 1.2; i += 1) {
+      sim.step(1 / 60);
+    }
+    const beforeAppend = sim.getSnapshot();
+    expect(beforeAppend.cueResolvedCount + beforeAppend.cueMissedCount).toBeGreaterThan(0);
+
+    sim.appendCueTimeline([0.9, 2.4, 1.8], ["low", null, "high"]);
+    const afterAppend = sim.getSnapshot();
+    expect(afterAppend.cueResolvedCount).toBe(beforeAppend.cueResolvedCount);
+    expect(afterAppend.cueMissedCount).toBe(beforeAppend.cueMissedCount);
+    expect(afterAppend.pendingCueCount).toBe(beforeAppend.pendingCueCount + 2);
+
+    for (let i = 0; i < 60 * 1.5; i += 1) {
+      sim.step(1 / 60);
+    }
+    const afterCues = sim.getSnapshot();
+    expect(afterCues.cueResolvedCount + afterCues.cueMissedCount).toBeGreaterThanOrEqual(
+      beforeAppend.cueResolvedCount + beforeAppend.cueMissedCount + 2
+    );
+  });
+
   it("exposes configured mood profile in snapshot", () => {
     const sim = createSimulation();
     sim.setMoodProfile("aggressive");
@@ -285,6 +318,70 @@ describe("simulation cue scheduling", () => {
     expect(finalSnapshot.cueResolvedCount).toBeGreaterThan(finalSnapshot.cueMissedCount);
   });
 
+  it("routes band-tagged cues to the weapons that claim those bands", () => {
+    const cues: number[] = [];
+    for (let t = 0.8; t <= 6; t += 0.4) {
+      cues.push(Number(t.toFixed(3)));
+    }
+
+    const countLaunches = (band: "low" | "high") => {
+      const sim = createSimulation();
+      sim.setShipWeapons({
+        blueLaser: false,
+        yellowLaser: true,
+        greenLaser: false,
+        purpleMissile: true
+      });
+      sim.startTrackRun(cues, cues.map(() => band));
+      const missileIds = new Set<number>();
+      const cueShotIds = new Set<number>();
+      for (let i = 0; i < 60 * 7; i += 1) {
+        sim.step(1 / 60);
+        const snapshot = sim.getSnapshot();
+        snapshot.missiles.forEach((missile) => missileIds.add(missile.id));
+        snapshot.projectiles
+          .filter((projectile) => projectile.isCueShot)
+          .forEach((projectile) => cueShotIds.add(projectile.id));
+      }
+      return { missiles: missileIds.size, cueShots: cueShotIds.size };
+    };
+
+    const kicks = countLaunches("low");
+    const hats = countLaunches("high");
+    expect(kicks.missiles).toBeGreaterThan(hats.missiles);
+    expect(hats.cueShots).toBeGreaterThan(kicks.cueShots);
+  });
+
+  it("assigns cues to registered custom weapons once their id is enabled", () => {
+    const plannedEnemyIds = new Set<number>();
+    registerWeaponModule({
+      id: "testBeam",
+      label: "Test Beam",
+      assignmentWeight: 1,
+      planCue(_state, enemy) {
+        plannedEnemyIds.add(enemy.id);
+        enemy.cuePrimed = true;
+      }
+    });
+
+    const disabled = createSimulation();
+    disabled.setShipWeapons({ blue: false, yellow: false, green: false });
+    disabled.startTrackRun([1, 2]);
+    for (let i = 0; i < 60 * 3; i += 1) {
+      disabled.step(1 / 60);
+    }
+    expect(plannedEnemyIds.size).toBe(0);
+
+    const sim = createSimulation();
+    sim.setShipWeapons({ blue: false, yellow: false, green: false, testBeam: true });
+    sim.startTrackRun([1, 2, 3]);
+    for (let i = 0; i < 60 * 4; i += 1) {
+      sim.step(1 / 60);
+    }
+    expect(plannedEnemyIds.size).toBe(3);
+    expect(sim.getSnapshot().cueResolvedCount).toBe(3);
+  });
+
   it("keeps yellow+green loadout from accumulating surviving enemies", () => {
     const sim = createSimulation();
     sim.setShipWeapons({ blueLaser: false, yellowLaser: true, greenLaser: true });
@@ -372,6 +469,75 @@ describe("simulation cue scheduling", () => {
     expect(sawFormationWave).toBe(true);
   });
 
+  it("wears down shielded hexagons and breaks splitters into shards without missing cues", () => {
+    const sim = createSimulation();
+    sim.setRandomSeed(8);
+    sim.setEnemyRoster({ enabledArchetypes: ["blueHexagon", "splitter"] });
+    const cues: number[] = [];
+    for (let t = 2; t < 20; t += 0.5) {
+      cues.push(t);
+    }
+    sim.startTrackRun(cues);
+
+    let lowestHexagonHealth = 1;
+    let sawShard = false;
+    for (let i = 0; i < 60 * 21; i += 1) {
+      sim.step(1 / 60);
+      for (const enemy of sim.getSnapshot().enemies) {
+        if (enemy.archetype === "blueHexagon") {
+          lowestHexagonHealth = Math.min(lowestHexagonHealth, enemy.health);
+        }
+        sawShard ||= enemy.archetype === "splitterShard";
+      }
+    }
+
+    const snapshot = sim.getSnapshot();
+    expect(lowestHexagonHealth).toBeLessThan(1);
+    expect(lowestHexagonHealth).toBeGreaterThan(0);
+    expect(sawShard).toBe(true);
+    expect(snapshot.cueResolvedCount).toBeGreaterThanOrEqual(cues.length);
+    expect(snapshot.cueMissedCount).toBe(0);
+  });
+
+  it("leaves no shards behind when a splitter rams the ship", () => {
+    let planted = false;
+    const sim = createSimulation({
+      moduleEdits: {
+        add: [
+          {
+            id: "plant-splitter",
+            order: 65,
+            step(state) {
+              if (planted || state.simTimeSeconds < 1) {
+                return;
+              }
+              planted = true;
+              getEnemyModule("splitter")!.spawnAmbientWave(state);
+              const splitter = state.enemies[state.enemies.length - 1];
+              splitter.x = state.shipX;
+              splitter.y = state.shipY;
+              splitter.baseY = state.shipY;
+              splitter.amplitude = 0;
+            }
+          }
+        ]
+      }
+    });
+    sim.setEnemyRoster({ enabledArchetypes: ["boss"] });
+    sim.setShipWeapons({ blue: false, yellow: false, green: false });
+    sim.startTrackRun([]);
+    const fresh = sim.getSnapshot();
+
+    for (let i = 0; i < 60 * 1.1; i += 1) {
+      sim.step(1 / 60);
+    }
+
+    const snapshot = sim.getSnapshot();
+    expect(planted).toBe(true);
+    expect(snapshot.shipShield).toBeLessThan(fresh.shipShield);
+    expect(snapshot.enemies).toHaveLength(0);
+  });
+
   it("keeps green triangles from firing enemy projectiles", () => {
     const sim = createSimulation();
     sim.setRandomSeed(99);
@@ -482,4 +648,465 @@ describe("simulation cue scheduling", () => {
 
     expect(cueProjectileSeen).toBe(true);
   });
+
+  it("steers the ship from manual input within its speed limits", () => {
+    const sim = createSimulation();
+    sim.setControlMode("manual");
+    sim.startTrackRun([]);
+    const start = sim.getSnapshot();
+    expect(start.controlMode).toBe("manual");
+
+    sim.setControlInput({ moveX: 1, moveY: 1 });
+    for (let i = 0; i < 60; i += 1) {
+      sim.step(1 / 60);
+    }
+
+    const moved = sim.getSnapshot();
+    expect(moved.ship.x).toBeGreaterThan(start.ship.x + 2);
+    expect(moved.ship.y).toBeGreaterThan(start.ship.y + 2);
+    expect(moved.ship.x - start.ship.x).toBeLessThanOrEqual(6.4 + 1e-6);
+    expect(moved.ship.y - start.ship.y).toBeLessThanOrEqual(8.3 + 1e-6);
+
+    sim.setControlInput({ moveX: 0, moveY: 0 });
+    for (let i = 0; i < 60; i += 1) {
+      sim.step(1 / 60);
+    }
+    const settledX = sim.getSnapshot().ship.x;
+    for (let i = 0; i < 30; i += 1) {
+      sim.step(1 / 60);
+    }
+    expect(sim.getSnapshot().ship.x).toBeCloseTo(settledX, 5);
+  });
+
+  it("clamps manual input and returns to autopilot when switched back", () => {
+    const sim = createSimulation();
+    sim.setControlMode("assist");
+    sim.setControlInput({ moveX: 5, moveY: Number.NaN });
+    for (let i = 0; i < 60 * 6; i += 1) {
+      sim.step(1 / 60);
+    }
+    const piloted = sim.getSnapshot();
+    expect(piloted.controlMode).toBe("assist");
+    expect(piloted.ship.x).toBeLessThanOrEqual(19.8);
+
+    sim.setControlMode("auto");
+    expect(sim.getSnapshot().controlMode).toBe("auto");
+  });
+
+  it("drains shield before hull when a stationary ship is hit", () => {
+    const sim = createSimulation();
+    sim.setEnemyRoster({ fireScale: 2 });
+    sim.setControlMode("manual");
+    sim.startTrackRun([]);
+    const start = sim.getSnapshot();
+    expect(start.shipHull).toBe(start.shipMaxHull);
+    expect(start.shipShield).toBe(start.shipMaxShield);
+
+    let firstHit: ReturnType<typeof sim.getSnapshot> | null = null;
+    for (let i = 0; i < 60 * 60 && !firstHit; i += 1) {
+      sim.step(1 / 60);
+      const snapshot = sim.getSnapshot();
+      if (snapshot.shipShield < snapshot.shipMaxShield) {
+        firstHit = snapshot;
+      }
+    }
+
+    expect(firstHit).not.toBeNull();
+    expect(firstHit!.shipHull).toBe(firstHit!.shipMaxHull);
+    expect(firstHit!.shipInvulnerableSeconds).toBeGreaterThan(0);
+  });
+
+  it("ends the run when the hull is depleted and freezes the ship", () => {
+    const sim = createSimulation();
+    sim.setEnemyRoster({ fireScale: 2, spawnScale: 2 });
+    sim.setControlMode("manual");
+    sim.startTrackRun([]);
+
+    for (let i = 0; i < 60 * 240 && !sim.getSnapshot().isGameOver; i += 1) {
+      sim.step(1 / 60);
+    }
+
+    const ended = sim.getSnapshot();
+    expect(ended.isGameOver).toBe(true);
+    expect(ended.shipHull).toBe(0);
+    expect(ended.gameOverTimeSeconds).toBeCloseTo(ended.simTimeSeconds, 5);
+
+    sim.setControlInput({ moveX: 1, moveY: 1 });
+    for (let i = 0; i < 60; i += 1) {
+      sim.step(1 / 60);
+    }
+    const after = sim.getSnapshot();
+    expect(after.ship.x).toBe(ended.ship.x);
+    expect(after.ship.y).toBe(ended.ship.y);
+    expect(after.score).toBe(ended.score);
+
+    sim.startTrackRun([]);
+    const restarted = sim.getSnapshot();
+    expect(restarted.isGameOver).toBe(false);
+    expect(restarted.shipHull).toBe(restarted.shipMaxHull);
+  });
+
+  it("spawns a boss on a sustained peak and depletes its health with cue hits", () => {
+    const sim = createSimulation();
+    sim.setRandomSeed(11);
+    sim.setEnemyRoster({ enabledArchetypes: ["redCube", "boss"] });
+    sim.setIntensityTimeline([
+      { timeSeconds: 0, intensity: 0.1 },
+      { timeSeconds: 12, intensity: 0.1 },
+      { timeSeconds: 13, intensity: 1 },
+      { timeSeconds: 60, intensity: 1 }
+    ]);
+    const cues: number[] = [];
+    for (let t = 1; t < 45; t += 0.5) {
+      cues.push(t);
+    }
+    sim.startTrackRun(cues);
+
+    let bossSpawnedAt: number | null = null;
+    let lowestBossHealth = 1;
+    for (let i = 0; i < 60 * 45; i += 1) {
+      sim.step(1 / 60);
+      const snapshot = sim.getSnapshot();
+      const boss = snapshot.enemies.find((enemy) => enemy.archetype === "boss");
+      if (boss) {
+        bossSpawnedAt ??= snapshot.simTimeSeconds;
+        lowestBossHealth = Math.min(lowestBossHealth, boss.health);
+      }
+      expect(snapshot.enemies.filter((enemy) => enemy.archetype === "boss").length).toBeLessThanOrEqual(1);
+    }
+
+    expect(bossSpawnedAt).not.toBeNull();
+    expect(bossSpawnedAt!).toBeGreaterThanOrEqual(16);
+    expect(lowestBossHealth).toBeLessThan(1);
+  });
+
+  it("spawns only bosses when the roster holds nothing else", () => {
+    const sim = createSimulation();
+    sim.setRandomSeed(11);
+    sim.setEnemyRoster({ enabledArchetypes: ["boss"] });
+    sim.setIntensityTimeline([
+      { timeSeconds: 0, intensity: 0.1 },
+      { timeSeconds: 12, intensity: 0.1 },
+      { timeSeconds: 13, intensity: 1 },
+      { timeSeconds: 60, intensity: 1 }
+    ]);
+    sim.startTrackRun(Array.from({ length: 80 }, (_, index) => 1 + index * 0.5));
+
+    const archetypes = new Set<string>();
+    for (let i = 0; i < 60 * 30; i += 1) {
+      sim.step(1 / 60);
+      for (const enemy of sim.getSnapshot().enemies) {
+        archetypes.add(enemy.archetype);
+      }
+    }
+
+    expect([...archetypes]).toEqual(["boss"]);
+  });
+
+  it("runs custom modules inserted into the default pipeline", () => {
+    let resets = 0;
+    let bonusSteps = 0;
+    const sim = createSimulation({
+      moduleEdits: {
+        remove: [DEFAULT_MODULE_IDS.enemySpawns],
+        add: [
+          {
+            id: "survival-bonus",
+            order: 75,
+            reset() {
+              resets += 1;
+            },
+            step(state) {
+              bonusSteps += 1;
+              state.score += 1;
+            }
+          }
+        ]
+      }
+    });
+    sim.startTrackRun([]);
+
+    for (let i = 0; i < 60 * 3; i += 1) {
+      sim.step(1 / 60);
+    }
+
+    const snapshot = sim.getSnapshot();
+    expect(resets).toBe(1);
+    expect(bonusSteps).toBe(180);
+    expect(snapshot.score).toBe(180);
+    expect(snapshot.enemyCount).toBe(0);
+  });
+
+  it("drops the same power-ups for the same seed and shows them in snapshots", () => {
+    const run = () => {
+      const sim = createSimulation();
+      sim.setRandomSeed(42);
+      sim.setIntensityTimeline([
+        { timeSeconds: 0, intensity: 0.2 },
+        { timeSeconds: 6, intensity: 1 },
+        { timeSeconds: 20, intensity: 1 }
+      ]);
+      sim.startTrackRun(Array.from({ length: 60 }, (_, index) => 1 + index * 0.3));
+
+      const drops = new Map<number, string>();
+      for (let i = 0; i < 60 * 20; i += 1) {
+        sim.step(1 / 60);
+        for (const powerUp of sim.getSnapshot().powerUps) {
+          if (!drops.has(powerUp.id)) {
+            drops.set(powerUp.id, `${powerUp.kind}@${powerUp.x.toFixed(3)},${powerUp.y.toFixed(3)}`);
+          }
+        }
+      }
+      return { drops: Array.from(drops.values()), score: sim.getSnapshot().score };
+    };
+
+    const first = run();
+    const second = run();
+    expect(first.drops.length).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+  });
+
+  it("drops power-ups more often on cues authored as strong", () => {
+    const countDrops = (strength: number) => {
+      const sim = createSimulation();
+      sim.setRandomSeed(42);
+      const cueTimes = Array.from({ length: 60 }, (_, index) => 1 + index * 0.3);
+      sim.startTrackRun(
+        cueTimes,
+        cueTimes.map(() => null),
+        cueTimes.map(() => strength)
+      );
+
+      const drops = new Set<number>();
+      for (let i = 0; i < 60 * 20; i += 1) {
+        sim.step(1 / 60);
+        for (const powerUp of sim.getSnapshot().powerUps) {
+          drops.add(powerUp.id);
+        }
+      }
+      return drops.size;
+    };
+
+    expect(countDrops(1)).toBeGreaterThan(countDrops(0.2));
+  });
+
+  it("lends purple missiles and doubles cue score while collected power-ups last", () => {
+    let planted = false;
+    const sim = createSimulation({
+      moduleEdits: {
+        add: [
+          {
+            id: "plant-power-ups",
+            order: 65,
+            step(state) {
+              if (planted || state.simTimeSeconds < 1) {
+                return;
+              }
+              planted = true;
+              for (const kind of ["purpleMissiles", "scoreMultiplier"] as const) {
+                state.powerUps.push({
+                  id: state.nextPowerUpId++,
+                  kind,
+                  x: state.shipX,
+                  y: state.shipY,
+                  z: 0,
+                  vx: 0,
+                  ageSeconds: 0,
+                  maxLifetimeSeconds: 5,
+                  radius: 0.4
+                });
+              }
+            }
+          }
+        ]
+      }
+    });
+    sim.setShipWeapons({ purpleMissile: false });
+    sim.startTrackRun(Array.from({ length: 30 }, (_, index) => 1.5 + index * 0.3));
+
+    for (let i = 0; i < 60 * 1.2; i += 1) {
+      sim.step(1 / 60);
+    }
+    const boosted = sim.getSnapshot();
+    expect(boosted.powerUps).toHaveLength(0);
+    expect(boosted.purpleMissileEnabled).toBe(true);
+    expect(boosted.scoreMultiplier).toBe(2);
+    expect(boosted.activePowerUps.map((active) => active.kind).sort()).toEqual([
+      "purpleMissiles",
+      "scoreMultiplier"
+    ]);
+
+    for (let i = 0; i < 60 * 14; i += 1) {
+      sim.step(1 / 60);
+    }
+    const expired = sim.getSnapshot();
+    expect(expired.purpleMissileEnabled).toBe(false);
+    expect(expired.scoreMultiplier).toBe(1);
+    expect(expired.activePowerUps).toHaveLength(0);
+    expect(expired.cueResolvedCount).toBeGreaterThan(0);
+  });
+
+  it("judges resolved cues by timing error and scores them by judgement", () => {
+    const run = (scoring?: { perfectWindowMs: number; greatWindowMs: number; goodWindowMs: number }) => {
+      const sim = createSimulation();
+      if (scoring) {
+        sim.setCombatConfig({ scoring });
+      }
+      sim.startTrackRun(Array.from({ length: 12 }, (_, index) => 0.8 + index * 0.4 + 0.007));
+
+      let sawPopup = false;
+      for (let i = 0; i < 60 * 7; i += 1) {
+        sim.step(1 / 60);
+        sawPopup ||= sim.getSnapshot().judgementPopups.length > 0;
+      }
+      return { snapshot: sim.getSnapshot(), sawPopup };
+    };
+
+    const loose = run();
+    // Fixed 60 Hz steps resolve each cue within a step of its time.
+    expect(loose.snapshot.perfectCount).toBe(loose.snapshot.cueResolvedCount);
+    expect(loose.sawPopup).toBe(true);
+
+    const strict = run({ perfectWindowMs: 1, greatWindowMs: 2, goodWindowMs: 3 });
+    const judged =
+      strict.snapshot.perfectCount +
+      strict.snapshot.greatCount +
+      strict.snapshot.goodCount +
+      strict.snapshot.judgementMissCount;
+    expect(judged).toBe(strict.snapshot.cueResolvedCount + strict.snapshot.cueMissedCount);
+    expect(strict.snapshot.judgementMissCount).toBeGreaterThan(strict.snapshot.cueMissedCount);
+    expect(strict.snapshot.score).toBeLessThan(loose.snapshot.score);
+  });
+
+  it("spawns scripted waves on time and holds procedural spawns behind them", () => {
+    const run = () => {
+      const sim = createSimulation();
+      sim.setRandomSeed(5);
+      sim.setWaveScript([
+        {
+          timeSeconds: 1,
+          archetype: "redCube",
+          pattern: "straight",
+          formation: "line",
+          entry: "right",
+          count: 4,
+          y: 2,
+          holdSeconds: 3
+        }
+      ]);
+      sim.startTrackRun([]);
+
+      const seenIds = new Set<number>();
+      const spawnTimes: number[] = [];
+      for (let i = 0; i < 60 * 6; i += 1) {
+        sim.step(1 / 60);
+        const snapshot = sim.getSnapshot();
+        for (const enemy of snapshot.enemies) {
+          if (!seenIds.has(enemy.id)) {
+            seenIds.add(enemy.id);
+            spawnTimes.push(snapshot.simTimeSeconds);
+          }
+        }
+      }
+      return spawnTimes;
+    };
+
+    const spawnTimes = run();
+    const scripted = spawnTimes.filter((time) => time >= 1 && time < 1 + 1 / 60 + 1e-6);
+    expect(scripted).toHaveLength(4);
+    expect(spawnTimes.some((time) => time > 1.1 && time < 4)).toBe(false);
+    expect(spawnTimes.some((time) => time >= 4)).toBe(true);
+    expect(run()).toEqual(spawnTimes);
+  });
+
+  it("holds formation waves until the next bar start", () => {
+    const sim = createSimulation();
+    sim.setEnemyRoster({ enabledArchetypes: ["greenTriangle"] });
+    const bars: number[] = [];
+    for (let t = 0.5; t < 30; t += 2) {
+      bars.push(t);
+    }
+    sim.setBarTimeline(bars);
+    sim.startTrackRun([]);
+
+    let previousCount = 0;
+    let spawnEvents = 0;
+    for (let i = 0; i < 60 * 20; i += 1) {
+      sim.step(1 / 60);
+      const snapshot = sim.getSnapshot();
+      if (snapshot.enemyCount > previousCount) {
+        spawnEvents += 1;
+        const nearestBar = bars.reduce((best, bar) =>
+          Math.abs(bar - snapshot.simTimeSeconds) < Math.abs(best - snapshot.simTimeSeconds) ? bar : best
+        );
+        expect(snapshot.simTimeSeconds - nearestBar).toBeGreaterThanOrEqual(-1e-6);
+        expect(snapshot.simTimeSeconds - nearestBar).toBeLessThan(1 / 60 + 1e-6);
+      }
+      previousCount = snapshot.enemyCount;
+    }
+
+    expect(spawnEvents).toBeGreaterThan(3);
+  });
+
+  it("spawns more enemies during drops than breakdowns", () => {
+    const countSpawns = (label: "drop" | "breakdown") => {
+      const sim = createSimulation();
+      sim.setRandomSeed(21);
+      sim.setSectionTimeline([{ startSeconds: 0, endSeconds: 40, label, energy: 0.5 }]);
+      sim.startTrackRun([]);
+      expect(sim.getSnapshot().sectionLabel).toBe(label);
+
+      let previousCount = 0;
+      let spawned = 0;
+      for (let i = 0; i < 60 * 20; i += 1) {
+        sim.step(1 / 60);
+        const { enemyCount } = sim.getSnapshot();
+        spawned += Math.max(0, enemyCount - previousCount);
+        previousCount = enemyCount;
+      }
+      return spawned;
+    };
+
+    expect(countSpawns("drop")).toBeGreaterThan(countSpawns("breakdown"));
+  });
+
+  it("reports no section outside the section timeline", () => {
+    const sim = createSimulation();
+    sim.setSectionTimeline([{ startSeconds: 0, endSeconds: 1, label: "intro", energy: 0.2 }]);
+    sim.startTrackRun([]);
+    for (let i = 0; i < 90; i += 1) {
+      sim.step(1 / 60);
+    }
+    expect(sim.getSnapshot().sectionLabel).toBeNull();
+  });
+
+  it("follows the mood timeline and stays deterministic", () => {
+    const timeline = [
+      { timeSeconds: 0, label: "calm" as const, confidence: 0.9 },
+      { timeSeconds: 4, label: "calm" as const, confidence: 0.9 },
+      { timeSeconds: 8, label: "aggressive" as const, confidence: 0.8 }
+    ];
+    const run = () => {
+      const sim = createSimulation();
+      sim.setRandomSeed(5);
+      sim.setMoodTimeline(timeline);
+      sim.startTrackRun([]);
+      const labels: string[] = [];
+      for (let i = 0; i < 60 * 10; i += 1) {
+        sim.step(1 / 60);
+        if (i % 60 === 59) {
+          labels.push(sim.getSnapshot().moodProfile);
+        }
+      }
+      return { labels, snapshot: sim.getSnapshot() };
+    };
+
+    const first = run();
+    const second = run();
+    expect(first.labels[0]).toBe("calm");
+    expect(first.labels[first.labels.length - 1]).toBe("aggressive");
+    expect(second.labels).toEqual(first.labels);
+    expect(second.snapshot.score).toBe(first.snapshot.score);
+    expect(second.snapshot.enemyCount).toBe(first.snapshot.enemyCount);
+  });
 });
@@ -8,17 +8,52 @@ import {
 	normalizeCombatConfig,
 	sanitizeEnabledArchetypes,
 } from "./combatConfig";
-import { spawnAmbientEnemyWave as spawnAmbientEnemyWaveForArchetype } from "./enemies/registry";
+import { BOSS_FIRST_ALLOWED_SECONDS } from "./enemies/boss";
+import { emitEnemyPattern } from "./enemies/firePatterns";
+import { spawnScriptedWave } from "./enemies/scriptedWave";
+import {
+	enemyOverlapsCircle,
+	getEnemyHealthFraction,
+	getEnemyModule,
+	getEnemyModules,
+	isMultiHitEnemy,
+	notifyEnemyDestroyed,
+	spawnAmbientEnemyWave as spawnAmbientEnemyWaveForArchetype,
+} from "./enemies/registry";
+import {
+	createJudgementCounts,
+	JUDGEMENT_SCORE_MULTIPLIERS,
+	judgeCueTiming,
+	recordJudgement,
+	updateJudgementPopups,
+} from "./judgement";
 import { createDefaultModules } from "./modules/defaultModules";
-import { createModuleRunner } from "./modules/runner";
-import type { SimulationModule } from "./modules/types";
+import {
+	applySimulationModuleEdits,
+	createModuleRunner,
+} from "./modules/runner";
+import type { SimulationModule, SimulationModuleEdits } from "./modules/types";
+import {
+	cleanupPowerUps,
+	createPowerUpRng,
+	findPowerUpAttraction,
+	getActivePowerUpSummary,
+	getScoreMultiplier,
+	resolvePowerUpPickups,
+	rollPowerUpDrop,
+	updatePowerUps,
+} from "./powerUps";
 import type {
 	CombatPressureTuning,
+	CueBand,
 	CueWeaponId,
 	Enemy,
 	EnemyProjectile,
 	ScheduledCue,
+	SectionKind,
+	ShipControlMode,
 	SimulationState,
+	StructureSection,
 } from "./types";
 import {
 	clamp,
@@ -26,16 +61,28 @@ import {
 	findBestTarget,
 	getEnemyById,
 	getIntensityAtTime,
+	getMoodParameters,
+	getMoodProfileAtTime,
 	getRelativeIntensityAtTime,
+	getSectionAtTime,
+	getSpectrumBandsAtTime,
+	getTrackTimeSeconds,
+	isCurvedProjectile,
 	isPlayerTargetViable,
-	moodParameters,
+	lerp,
 	normalizeSeed,
 	predictEnemyPosition,
+	predictEnemyProjectilePosition,
 	predictShipPosition,
 	resolveEnemyPatternY,
 	samplePercentile,
+	stepEnemyProjectile,
 } from "./utils";
-import { LASER_MAX_TARGET_X } from "./constants";
+import {
+	ENEMY_PROJECTILE_LASER_SPEED_MULTIPLIER,
+	LASER_MAX_TARGET_X,
+	SHIP_MAX_SHIELD,
+} from "./constants";
 import { fireQueuedCueShots, PLAYER_PROJECTILE_SPEED } from "./weapons/cueShots";
 import {
 	getEnabledWeaponModules,
@@ -50,17 +97,23 @@ export type Simulation = import("./types").Simulation;
 export type SimulationSnapshot = import("./types").SimulationSnapshot;
 
 export type SimulationOptions = {
+	/** Replaces the whole pipeline, default stages included. */
 	modules?: SimulationModule[];
+	/**
+	 * Inserts, replaces or removes modules by id on top of `modules` (or the
+	 * default stages), e.g. a custom scoring module at order 75. Precomputed
+	 * runs take them through `BuildPrecomputedRunParams.moduleEdits`.
+	 */
+	moduleEdits?: SimulationModuleEdits;
 };
 
 const CUE_ASSIGN_MIN_LEAD_SECONDS = 0.2;
 const CUE_ASSIGN_MAX_LEAD_SECONDS = 0.8;
 const CUE_SUPPORT_LEAD_PADDING_SECONDS = 0.55;
+const CUE_ARMOR_PREFERENCE = 0.45;
 const MAX_CUE_SUPPORT_SPAWNS_PER_STEP = 12;
 const MAX_CATCHUP_CUES_PER_STEP = 7;
 const PLAYER_TARGET_HARD_DISTANCE_X = 12.6;
-const ENEMY_PROJECTILE_LASER_SPEED_MULTIPLIER = 2.2;
-const LASER_BEAM_LIFETIME_SECONDS = 0.26;
 const MIN_ENEMY_SURVIVAL_SECONDS = 1.25;
 const SHIP_MIN_X = -19.8;
 const SHIP_MAX_X = 19.8;
@@ -70,12 +123,24 @@ const SHIP_MAX_SPEED_X = 6.4;
 const SHIP_MAX_SPEED_Y = 8.3;
 const SHIP_ACCEL_X = 14.5;
 const SHIP_ACCEL_Y = 17.5;
+const SHIP_MANUAL_TARGET_LEAD_SECONDS = 0.35;
+const SHIP_ASSIST_DODGE_GAIN = 1.6;
+const SHIP_ASSIST_MAX_NUDGE_FRACTION = 0.55;
 const SHIP_RETARGET_MIN_SECONDS = 0.18;
 const SHIP_RETARGET_MAX_SECONDS = 0.46;
 const SHIP_THREAT_HORIZON_SECONDS = 1.15;
+const SHIP_CURVED_THREAT_SAMPLES = 8;
+const SHIP_POWER_UP_MAX_LEAD_SECONDS = 1.2;
 const SHIP_SAFE_RADIUS = 1.25;
 const SHIP_PANIC_THRESHOLD = 1.2;
 const SHIP_COLLISION_RADIUS = 0.7;
+const SHIP_HIT_RADIUS = 0.52;
+const SHIP_MAX_HULL = 100;
+const SHIP_SHIELD_REGEN_PER_SECOND = 14;
+const SHIP_SHIELD_REGEN_DELAY_SECONDS = 1.8;
+const SHIP_INVULNERABLE_SECONDS = 0.75;
+const ENEMY_PROJECTILE_SHIP_DAMAGE = 14;
+const ENEMY_RAM_SHIP_DAMAGE = 34;
 const SHIP_ESCAPE_HORIZON_SECONDS = 1.05;
 const SHIP_ESCAPE_STEP_SECONDS = 1 / 15;
 const SHIP_ESCAPE_NEAR_MISS_RADIUS = 2.4;
@@ -112,6 +177,22 @@ const ENEMY_EDGE_PRESSURE_WINDOW_Y = 3.6;
 const ENEMY_EDGE_PRESSURE_PROJECTILE_CAP = 8;
 const ENEMY_EDGE_PRESSURE_EXTRA_SPREAD = 0.11;
 const ENEMY_INTENSITY_SPAWN_BOOST = 0.08;
+const BAR_WAVE_MAX_DEFER_SECONDS = 2.4;
+const SECTION_BLEND_SECONDS = 1.5;
+const SECTION_ENERGY_PRESSURE_MIN = 0.9;
+const SECTION_ENERGY_PRESSURE_RANGE = 0.2;
+// Builds ramp from their start scales to their end scales across the section.
+const SECTION_PRESSURE: Record<
+	SectionKind,
+	{ spawnStart: number; spawnEnd: number; fireStart: number; fireEnd: number }
+> = {
+	intro: { spawnStart: 0.75, spawnEnd: 0.75, fireStart: 0.7, fireEnd: 0.7 },
+	verse: { spawnStart: 1, spawnEnd: 1, fireStart: 1, fireEnd: 1 },
+	build: { spawnStart: 1, spawnEnd: 1.3, fireStart: 0.95, fireEnd: 1.2 },
+	drop: { spawnStart: 1.35, spawnEnd: 1.35, fireStart: 1.25, fireEnd: 1.25 },
+	breakdown: { spawnStart: 0.6, spawnEnd: 0.6, fireStart: 0.55, fireEnd: 0.55 },
+	outro: { spawnStart: 0.7, spawnEnd: 0.7, fireStart: 0.65, fireEnd: 0.65 },
+};
 const ENEMY_INTENSITY_FIRE_COOLDOWN_BOOST = 0.1;
 const ENEMY_BULLET_RATE_BASE = 2.05;
 const ENEMY_BULLET_RATE_INTENSITY_GAIN = 3.15;
@@ -139,12 +220,25 @@ export function createSimulation(options: SimulationOptions = {}): Simulation {
 		recentEdgeSideY: 0,
 		recentEdgeCooldownSeconds: 0,
 		shipShieldAlpha: 0,
+		shipHull: SHIP_MAX_HULL,
+		shipShield: SHIP_MAX_SHIELD,
+		shipShieldRegenDelaySeconds: 0,
+		shipInvulnerableSeconds: 0,
+		isGameOver: false,
+		gameOverTimeSeconds: null,
+		controlMode: "auto",
+		controlInputX: 0,
+		controlInputY: 0,
 		enemies: [],
 		projectiles: [],
 		missiles: [],
 		enemyProjectiles: [],
 		laserBeams: [],
 		explosions: [],
+		powerUps: [],
+		nextPowerUpId: 1,
+		activePowerUps: {},
+		weaponGrants: {},
 		nextEnemySpawnTime: 0.4,
 		nextPlayerFireTime: 0.2,
 		spawnIndex: 0,
@@ -163,6 +257,16 @@ export function createSimulation(options: SimulationOptions = {}): Simulation {
 		nextLaserFireTime: 0,
 		cueTimeline: [],
 		cueStartOffsetSeconds: 0,
+		barTimeline: [],
+		sectionTimeline: [],
+		nextBarIndex: 0,
+		deferredBarWaveArchetype: null,
+		bossEncounter: null,
+		bossPeakSeconds: 0,
+		nextBossAllowedTimeSeconds: BOSS_FIRST_ALLOWED_SECONDS,
+		waveScript: [],
+		nextScriptedWaveIndex: 0,
+		scriptedSpawnHoldUntilSeconds: 0,
 		cueResolvedCount: 0,
 		cueMissedCount: 0,
 		cumulativeCueErrorMs: 0,
@@ -170,14 +274,20 @@ export function createSimulation(options: SimulationOptions = {}): Simulation {
 		plannedPurpleMissileShots: [],
 		score: 0,
 		combo: 0,
+		judgementCounts: createJudgementCounts(),
+		judgementPopups: [],
+		nextJudgementPopupId: 1,
 		intensityTimeline: [],
+		spectrumBandTimeline: [],
 		intensityFloor: 0,
 		intensityCeil: 1,
 		moodProfile: "driving",
+		moodTimeline: [],
 		randomSeed: 7,
 		rng: createMulberry32(7),
+		powerUpRng: createPowerUpRng(7),
 	};
-	const modules =
+	const baseModules =
 		options.modules ??
 		createDefaultModules({
 			shipMotion: updateShipMotion,
@@ -189,6 +299,9 @@ export function createSimulation(options: SimulationOptions = {}): Simulation {
 			collisionResolution: stepCollisionResolution,
 			cleanup: stepCleanup,
 		});
+	const modules = options.moduleEdits
+		? applySimulationModuleEdits(baseModules, options.moduleEdits)
+		: baseModules;
 	const moduleRunner = createModuleRunner(modules);
 	moduleRunner.init(state);
 
@@ -196,6 +309,10 @@ export function createSimulation(options: SimulationOptions = {}): Simulation {
 		step(deltaSeconds: number) {
 			state.simTimeSeconds += deltaSeconds;
 			state.simTick += 1;
+			if (state.isGameOver) {
+				stepGameOver(state, deltaSeconds);
+				return;
+			}
 			moduleRunner.step(state, deltaSeconds);
 		},
 		getSnapshot() {
@@ -213,6 +330,7 @@ export function createSimulation(options: SimulationOptions = {}): Simulation {
 					state.missiles.length +
 					state.enemyProjectiles.length,
 				enemies: state.enemies.map((enemy) => ({
+					id: enemy.id,
 					x: enemy.x,
 					y: enemy.y,
 					z: enemy.z,
@@ -221,6 +339,7 @@ export function createSimulation(options: SimulationOptions = {}): Simulation {
 						enemy.ageSeconds * (enemy.archetype === "greenTriangle" ? 5.2 : 2),
 					damageFlash: enemy.damageFlash,
 					archetype: enemy.archetype,
+					health: getEnemyHealthFraction(state, enemy),
 				})),
 				projectiles: state.projectiles.map((projectile) => ({
 					id: projectile.id,
@@ -277,7 +396,34 @@ export function createSimulation(options: SimulationOptions = {}): Simulation {
 						power: explosion.power,
 					};
 				}),
+				powerUps: state.powerUps.map((powerUp) => ({
+					id: powerUp.id,
+					x: powerUp.x,
+					y: powerUp.y,
+					z: powerUp.z,
+					kind: powerUp.kind,
+					ageSeconds: powerUp.ageSeconds,
+					maxLifetimeSeconds: powerUp.maxLifetimeSeconds,
+				})),
+				activePowerUps: getActivePowerUpSummary(state),
+				scoreMultiplier: getScoreMultiplier(state),
+				judgementPopups: state.judgementPopups.map((popup) => ({
+					id: popup.id,
+					x: popup.x,
+					y: popup.y,
+					z: 0,
+					judgement: popup.judgement,
+					ageSeconds: popup.ageSeconds,
+					alpha: 1 - popup.ageSeconds / Math.max(popup.lifetimeSeconds, 1e-6),
+				})),
 				shieldAlpha: state.shipShieldAlpha,
+				shipHull: state.shipHull,
+				shipMaxHull: SHIP_MAX_HULL,
+				shipShield: state.shipShield,
+				shipMaxShield: SHIP_MAX_SHIELD,
+				shipInvulnerableSeconds: state.shipInvulnerableSeconds,
+				isGameOver: state.isGameOver,
+				gameOverTimeSeconds: state.gameOverTimeSeconds,
 				cueResolvedCount: state.cueResolvedCount,
 				cueMissedCount: state.cueMissedCount,
 				avgCueErrorMs:
@@ -287,22 +433,64 @@ export function createSimulation(options: SimulationOptions = {}): Simulation {
 				currentIntensity: getIntensityAtTime(state, state.simTimeSeconds),
 				score: state.score,
 				combo: state.combo,
+				perfectCount: state.judgementCounts.perfect,
+				greatCount: state.judgementCounts.great,
+				goodCount: state.judgementCounts.good,
+				judgementMissCount: state.judgementCounts.miss,
 				pendingCueCount: state.cueTimeline.length,
 				plannedCueCount: countPlannedCues(state.cueTimeline),
 				queuedCueShotCount: state.plannedCueShots.length,
 				upcomingCueWindowCount: countUpcomingCueWindow(state),
 				availableCueTargetCount: countAvailableCueTargets(state),
-				moodProfile: state.moodProfile,
+				moodProfile: getMoodProfileAtTime(state),
+				sectionLabel:
+					getSectionAtTime(state, getTrackTimeSeconds(state))?.label ?? null,
+				controlMode: state.controlMode,
 				purpleMissileEnabled: isWeaponEnabled(state, "purple"),
 				enemyProjectileStyle:
 					state.combatConfig.enemyRoster.enemyProjectileStyle,
 			};
 		},
-		setCueTimeline(cueTimesSeconds) {
+		setBarTimeline(barTimesSeconds) {
+			state.barTimeline = barTimesSeconds
+				.filter((time) => Number.isFinite(time) && time >= 0)
+				.sort((a, b) => a - b);
+			state.nextBarIndex = 0;
+			state.deferredBarWaveArchetype = null;
+		},
+		setWaveScript(waves) {
+			state.waveScript = waves
+				.filter((wave) => Number.isFinite(wave.timeSeconds) && wave.timeSeconds >= 0)
+				.sort((a, b) => a.timeSeconds - b.timeSeconds);
+			const trackTime = getTrackTimeSeconds(state);
+			state.nextScriptedWaveIndex = state.waveScript.findIndex(
+				(wave) => wave.timeSeconds >= trackTime,
+			);
+			if (state.nextScriptedWaveIndex < 0) {
+				state.nextScriptedWaveIndex = state.waveScript.length;
+			}
+			state.scriptedSpawnHoldUntilSeconds = 0;
+		},
+		setSectionTimeline(sections) {
+			state.sectionTimeline = sections
+				.filter(
+					(section) =>
+						Number.isFinite(section.startSeconds) &&
+						Number.isFinite(section.endSeconds) &&
+						section.endSeconds > section.startSeconds,
+				)
+				.map((section) => ({
+					...section,
+					energy: clamp(section.energy, 0, 1),
+				}))
+				.sort((a, b) => a.startSeconds - b.startSeconds);
+		},
+		setCueTimeline(cueTimesSeconds, cueBands, cueStrengths) {
 			state.cueStartOffsetSeconds = state.simTimeSeconds;
 			state.cueResolvedCount = 0;
 			state.cueMissedCount = 0;
 			state.cumulativeCueErrorMs = 0;
+			state.judgementCounts = createJudgementCounts();
 			state.plannedCueShots = [];
 			state.plannedPurpleMissileShots = [];
 			for (const enemy of state.enemies) {
@@ -310,29 +498,33 @@ export function createSimulation(options: SimulationOptions = {}): Simulation {
 				enemy.cuePrimed = false;
 				enemy.damageFlash = 0;
 			}
-			state.cueTimeline = cueTimesSeconds
-				.filter((time) => Number.isFinite(time) && time >= 0)
-				.map((time) => ({
-					timeSeconds: state.cueStartOffsetSeconds + time,
-					planned: false,
-					assignedEnemyId: null,
-					assignedWeapon: null,
-				}));
+			state.cueTimeline = buildScheduledCues(
+				cueTimesSeconds,
+				cueBands,
+				cueStrengths,
+				state.cueStartOffsetSeconds,
+			);
 			state.cueWeaponCursor = 0;
 		},
-		startTrackRun(cueTimesSeconds) {
+		startTrackRun(cueTimesSeconds, cueBands, cueStrengths) {
 			resetRunState(state);
 			moduleRunner.reset(state);
-			state.cueTimeline = cueTimesSeconds
-				.filter((time) => Number.isFinite(time) && time >= 0)
-				.map((time) => ({
-					timeSeconds: time,
-					planned: false,
-					assignedEnemyId: null,
-					assignedWeapon: null,
-				}));
+			state.cueTimeline = buildScheduledCues(cueTimesSeconds, cueBands, cueStrengths, 0);
 			state.cueWeaponCursor = 0;
 		},
+		appendCueTimeline(cueTimesSeconds, cueBands, cueStrengths) {
+			const cues = buildScheduledCues(
+				cueTimesSeconds,
+				cueBands,
+				cueStrengths,
+				state.cueStartOffsetSeconds,
+			);
+			for (const cue of cues) {
+				if (cue.timeSeconds > state.simTimeSeconds) {
+					insertScheduledCue(state, cue);
+				}
+			}
+		},
 		setIntensityTimeline(samples) {
 			state.intensityTimeline = samples
 				.filter((sample) => Number.isFinite(sample.timeSeconds))
@@ -364,14 +556,49 @@ export function createSimulation(options: SimulationOptions = {}): Simulation {
 				state.intensityCeil = Math.max(min + 0.05, max);
 			}
 		},
+		setSpectrumBandTimeline(samples) {
+			state.spectrumBandTimeline = samples
+				.filter((sample) => Number.isFinite(sample.timeSeconds))
+				.map((sample) => ({
+					timeSeconds: Math.max(0, sample.timeSeconds),
+					low: clamp(sample.low, 0, 1),
+					mid: clamp(sample.mid, 0, 1),
+					high: clamp(sample.high, 0, 1),
+				}))
+				.sort((a, b) => a.timeSeconds - b.timeSeconds);
+		},
 		setRandomSeed(seed) {
 			const normalized = normalizeSeed(seed);
 			state.randomSeed = normalized;
 			state.rng = createMulberry32(normalized);
+			state.powerUpRng = createPowerUpRng(normalized);
 		},
 		setMoodProfile(mood) {
 			state.moodProfile = mood;
 		},
+		setMoodTimeline(samples) {
+			state.moodTimeline = samples
+				.filter((sample) => Number.isFinite(sample.timeSeconds))
+				.map((sample) => ({
+					...sample,
+					confidence: clamp(sample.confidence, 0, 1),
+				}))
+				.sort((a, b) => a.timeSeconds - b.timeSeconds);
+		},
+		setControlMode(mode) {
+			state.controlMode = normalizeControlMode(mode);
+			state.controlInputX = 0;
+			state.controlInputY = 0;
+			state.nextShipRetargetTime = state.simTimeSeconds;
+		},
+		setControlInput(input) {
+			state.controlInputX = Number.isFinite(input.moveX)
+				? clamp(input.moveX, -1, 1)
+				: 0;
+			state.controlInputY = Number.isFinite(input.moveY)
+				? clamp(input.moveY, -1, 1)
+				: 0;
+		},
 		setEnemyBulletRatio(ratio) {
 			const normalizedRatio = clamp(ratio, 0, 4);
 			state.enemyBulletRatio = normalizedRatio;
@@ -391,7 +618,10 @@ export function createSimulation(options: SimulationOptions = {}): Simulation {
 	};
 }
 
-function stepEnemySpawns(state: SimulationState): void {
+function stepEnemySpawns(state: SimulationState, deltaSeconds: number): void {
+	for (const module of getEnemyModules()) {
+		module.step?.(state, deltaSeconds);
+	}
 	spawnEnemies(state);
 }
 
@@ -427,16 +657,21 @@ function stepProjectileUpdates(
 	updateEnemyProjectiles(state, deltaSeconds);
 	updateLaserBeams(state, deltaSeconds);
 	updateExplosions(state, deltaSeconds);
+	updatePowerUps(state, deltaSeconds);
+	updateJudgementPopups(state, deltaSeconds);
 }
 
 function stepCollisionResolution(state: SimulationState): void {
 	resolvePlayerProjectileCollisions(state);
 	resolveEnemyProjectileShipCollisions(state);
+	resolveEnemyShipCollisions(state);
+	resolvePowerUpPickups(state);
 	resolveDueCueExplosions(state);
 }
 
 function stepCleanup(state: SimulationState, deltaSeconds: number): void {
 	state.shipShieldAlpha = Math.max(0, state.shipShieldAlpha - deltaSeconds * 2.8);
+	updateShipDefenses(state, deltaSeconds);
 	state.enemies = state.enemies.filter(
 		(enemy) => enemy.x > -16 || enemy.scheduledCueTime !== null,
 	);
@@ -455,6 +690,32 @@ function stepCleanup(state: SimulationState, deltaSeconds: number): void {
 	state.explosions = state.explosions.filter(
 		(explosion) => explosion.ageSeconds < explosion.lifetimeSeconds,
 	);
+	cleanupPowerUps(state);
+}
+
+/**
+ * Once the hull is gone the run is over: the ship and its weapons stop, and
+ * only already-launched bullets, beams and explosions play out. Uncollected
+ * pickups vanish.
+ */
+function stepGameOver(state: SimulationState, deltaSeconds: number): void {
+	state.shipVx = 0;
+	state.shipVy = 0;
+	for (const enemy of state.enemies) {
+		enemy.ageSeconds += deltaSeconds;
+		enemy.x += enemy.vx * deltaSeconds;
+		enemy.damageFlash = Math.max(0, enemy.damageFlash - deltaSeconds * 4);
+	}
+	updateEnemyProjectiles(state, deltaSeconds);
+	updateLaserBeams(state, deltaSeconds);
+	updateExplosions(state, deltaSeconds);
+	updateJudgementPopups(state, deltaSeconds);
+	state.projectiles = [];
+	state.missiles = [];
+	state.plannedCueShots = [];
+	state.plannedPurpleMissileShots = [];
+	state.powerUps = [];
+	stepCleanup(state, deltaSeconds);
 }
 
 function resetRunState(state: SimulationState): void {
@@ -476,12 +737,24 @@ function resetRunState(state: SimulationState): void {
 	state.recentEdgeSideY = 0;
 	state.recentEdgeCooldownSeconds = 0;
 	state.shipShieldAlpha = 0;
+	state.shipHull = SHIP_MAX_HULL;
+	state.shipShield = SHIP_MAX_SHIELD;
+	state.shipShieldRegenDelaySeconds = 0;
+	state.shipInvulnerableSeconds = 0;
+	state.isGameOver = false;
+	state.gameOverTimeSeconds = null;
+	state.controlInputX = 0;
+	state.controlInputY = 0;
 	state.enemies = [];
 	state.projectiles = [];
 	state.missiles = [];
 	state.enemyProjectiles = [];
 	state.laserBeams = [];
 	state.explosions = [];
+	state.powerUps = [];
+	state.nextPowerUpId = 1;
+	state.activePowerUps = {};
+	state.weaponGrants = {};
 	state.nextEnemySpawnTime = 0.4;
 	state.nextPlayerFireTime = 0.2;
 	state.spawnIndex = 0;
@@ -503,9 +776,27 @@ function resetRunState(state: SimulationState): void {
 	state.plannedPurpleMissileShots = [];
 	state.score = 0;
 	state.combo = 0;
+	state.judgementCounts = createJudgementCounts();
+	state.judgementPopups = [];
+	state.nextJudgementPopupId = 1;
 	state.cueStartOffsetSeconds = 0;
+	state.nextBarIndex = 0;
+	state.deferredBarWaveArchetype = null;
+	state.bossEncounter = null;
+	state.bossPeakSeconds = 0;
+	state.nextBossAllowedTimeSeconds = BOSS_FIRST_ALLOWED_SECONDS;
+	state.nextScriptedWaveIndex = 0;
+	state.scriptedSpawnHoldUntilSeconds = 0;
 	state.moodProfile = "driving";
 	state.rng = createMulberry32(state.randomSeed);
+	state.powerUpRng = createPowerUpRng(state.randomSeed);
+}
+
+function normalizeControlMode(mode: ShipControlMode): ShipControlMode {
+	if (mode === "manual" || mode === "assist") {
+		return mode;
+	}
+	return "auto";
 }
 
 function applyCombatConfigPatch(
@@ -556,12 +847,63 @@ function getCombatPressureTuning(state: SimulationState): CombatPressureTuning {
 	spawnScale *= loadoutKillScale;
 	enemyFireScale *= 0.82 + loadoutKillScale * 0.28;
 
+	const sectionPressure = getSectionPressure(state);
+	spawnScale *= sectionPressure.spawnScale;
+	enemyFireScale *= sectionPressure.enemyFireScale;
+
 	return {
 		spawnScale: clamp(spawnScale, 0.45, 2.4),
 		enemyFireScale: clamp(enemyFireScale, 0.45, 2.4),
 	};
 }
 
+function getSectionPressure(state: SimulationState): CombatPressureTuning {
+	const trackTime = getTrackTimeSeconds(state);
+	const section = getSectionAtTime(state, trackTime);
+	if (!section) {
+		return { spawnScale: 1, enemyFireScale: 1 };
+	}
+
+	const current = sampleSectionPressure(section, trackTime);
+	const previous = getSectionAtTime(state, section.startSeconds - 1e-3);
+	const blend = clamp(
+		(trackTime - section.startSeconds) / SECTION_BLEND_SECONDS,
+		0,
+		1,
+	);
+	if (!previous || blend >= 1) {
+		return current;
+	}
+
+	// Crossfade out of the previous section so boundaries do not jump.
+	const prior = sampleSectionPressure(previous, previous.endSeconds);
+	return {
+		spawnScale: lerp(prior.spawnScale, current.spawnScale, blend),
+		enemyFireScale: lerp(prior.enemyFireScale, current.enemyFireScale, blend),
+	};
+}
+
+function sampleSectionPressure(
+	section: StructureSection,
+	trackTime: number,
+): CombatPressureTuning {
+	const preset = SECTION_PRESSURE[section.label];
+	const progress = clamp(
+		(trackTime - section.startSeconds) /
+			Math.max(1e-3, section.endSeconds - section.startSeconds),
+		0,
+		1,
+	);
+	const energyScale =
+		SECTION_ENERGY_PRESSURE_MIN + section.energy * SECTION_ENERGY_PRESSURE_RANGE;
+	return {
+		spawnScale:
+			lerp(preset.spawnStart, preset.spawnEnd, progress) * energyScale,
+		enemyFireScale:
+			lerp(preset.fireStart, preset.fireEnd, progress) * energyScale,
+	};
+}
+
 function getLoadoutKillScale(state: SimulationState): number {
 	let capacity = 0;
 	if (isWeaponEnabled(state, "blue")) {
@@ -582,16 +924,19 @@ function getLoadoutKillScale(state: SimulationState): number {
 	return clamp(capacity / 5.6, 0.38, 1.05);
 }
 
+/**
+ * Null when the roster has no ordinary archetype enabled: zero-weight
+ * archetypes (bosses) have their own triggers, so nothing else spawns.
+ */
 function pickEnemyArchetype(
 	state: SimulationState,
 	filter: ((archetypeId: EnemyArchetypeId) => boolean) | null = null,
-): EnemyArchetypeId {
-	const filtered = filter
-		? state.activeEnemyArchetypes.filter(filter)
-		: state.activeEnemyArchetypes;
-	const enabled = filtered.length > 0 ? filtered : state.activeEnemyArchetypes;
+): EnemyArchetypeId | null {
+	const spawnable = getSpawnableEnemyArchetypes(state);
+	const filtered = filter ? spawnable.filter(filter) : spawnable;
+	const enabled = filtered.length > 0 ? filtered : spawnable;
 	if (enabled.length === 0) {
-		return "redCube";
+		return null;
 	}
 
 	let totalWeight = 0;
@@ -613,10 +958,22 @@ function pickEnemyArchetype(
 	return enabled[enabled.length - 1];
 }
 
+function getSpawnableEnemyArchetypes(
+	state: SimulationState,
+): EnemyArchetypeId[] {
+	return state.activeEnemyArchetypes.filter(
+		(archetypeId) => getEnemyArchetypeDefinition(archetypeId).spawnWeight > 0,
+	);
+}
+
 function pickShootCapableEnemyArchetype(
 	state: SimulationState,
-): EnemyArchetypeId {
-	const hasShootCapableArchetype = state.activeEnemyArchetypes.some(
+): EnemyArchetypeId | null {
+	const spawnable = getSpawnableEnemyArchetypes(state);
+	if (spawnable.length === 0) {
+		return null;
+	}
+	const hasShootCapableArchetype = spawnable.some(
 		(archetypeId) => getEnemyArchetypeDefinition(archetypeId).canShoot,
 	);
 	if (!hasShootCapableArchetype) {
@@ -635,11 +992,35 @@ function getEnemyArchetypeDefinition(
 }
 
 function spawnEnemies(state: SimulationState): void {
+	spawnDueScriptedWaves(state);
+	if (state.nextEnemySpawnTime < state.scriptedSpawnHoldUntilSeconds) {
+		// Authored waves own this stretch; procedural spawning resumes after.
+		state.nextEnemySpawnTime = state.scriptedSpawnHoldUntilSeconds;
+		state.deferredBarWaveArchetype = null;
+	}
+
 	while (state.simTimeSeconds >= state.nextEnemySpawnTime) {
-		const spawnedCount = spawnAmbientEnemyWave(state);
+		let archetype = state.deferredBarWaveArchetype;
+		state.deferredBarWaveArchetype = null;
+		if (archetype === null) {
+			archetype = pickEnemyArchetype(state);
+			const barTime =
+				archetype === null ? null : findBarWaveTime(state, archetype);
+			if (barTime !== null) {
+				// Formation waves wait for the next downbeat instead of
+				// spawning mid-bar.
+				state.deferredBarWaveArchetype = archetype;
+				state.nextEnemySpawnTime = barTime;
+				continue;
+			}
+		}
+		const spawnedCount =
+			archetype === null
+				? 0
+				: spawnAmbientEnemyWaveForArchetype(state, archetype);
 		state.spawnIndex += spawnedCount;
 		const intensity = getIntensityAtTime(state, state.simTimeSeconds);
-		const mood = moodParameters(state.moodProfile);
+		const mood = getMoodParameters(state);
 		const combatTuning = getCombatPressureTuning(state);
 		const cadence = (0.9 - intensity * 0.5) * mood.spawnIntervalScale;
 		const intensitySpawnMultiplier =
@@ -657,14 +1038,53 @@ function spawnEnemies(state: SimulationState): void {
 	ensureCueSupportEnemies(state);
 }
 
-function spawnAmbientEnemyWave(state: SimulationState): number {
-	const archetype = pickEnemyArchetype(state);
-	return spawnAmbientEnemyWaveForArchetype(state, archetype);
+function spawnDueScriptedWaves(state: SimulationState): void {
+	const trackTime = getTrackTimeSeconds(state);
+	while (
+		state.nextScriptedWaveIndex < state.waveScript.length &&
+		state.waveScript[state.nextScriptedWaveIndex].timeSeconds <= trackTime
+	) {
+		const wave = state.waveScript[state.nextScriptedWaveIndex];
+		state.nextScriptedWaveIndex += 1;
+		state.spawnIndex += spawnScriptedWave(state, wave);
+		state.scriptedSpawnHoldUntilSeconds = Math.max(
+			state.scriptedSpawnHoldUntilSeconds,
+			state.simTimeSeconds + wave.holdSeconds,
+		);
+	}
+}
+
+function findBarWaveTime(
+	state: SimulationState,
+	archetype: EnemyArchetypeId,
+): number | null {
+	if (
+		state.barTimeline.length === 0 ||
+		getEnemyModule(archetype)?.alignWavesToBars !== true
+	) {
+		return null;
+	}
+
+	const trackTime = getTrackTimeSeconds(state);
+	while (
+		state.nextBarIndex < state.barTimeline.length &&
+		state.barTimeline[state.nextBarIndex] <= trackTime
+	) {
+		state.nextBarIndex += 1;
+	}
+	const nextBarTime = state.barTimeline[state.nextBarIndex];
+	if (
+		nextBarTime === undefined ||
+		nextBarTime - trackTime > BAR_WAVE_MAX_DEFER_SECONDS
+	) {
+		return null;
+	}
+	return nextBarTime + state.cueStartOffsetSeconds;
 }
 
 function updateEnemies(state: SimulationState, deltaSeconds: number): void {
 	const intensity = getIntensityAtTime(state, state.simTimeSeconds);
-	const mood = moodParameters(state.moodProfile);
+	const mood = getMoodParameters(state);
 	const combatTuning = getCombatPressureTuning(state);
 	const readyToFire: Enemy[] = [];
 
@@ -711,8 +1131,8 @@ function updateEnemies(state: SimulationState, deltaSeconds: number): void {
 			desiredBurstCount,
 			Math.max(1, Math.floor(state.enemyBulletBudget)),
 		);
-		fireEnemyBurst(state, enemy, burstCount);
-		state.enemyBulletBudget = Math.max(0, state.enemyBulletBudget - burstCount);
+		const shotCount = fireEnemyBurst(state, enemy, burstCount);
+		state.enemyBulletBudget = Math.max(0, state.enemyBulletBudget - shotCount);
 		const fireCadenceIntensityMultiplier =
 			enemyFireIntensityMultiplier(intensity);
 		enemy.fireCooldownSeconds =
@@ -762,16 +1182,42 @@ function getEnemyBurstCount(intensity: number): number {
 	return 1;
 }
 
+/** Returns the number of bullets fired, which is what the volley costs. */
 function fireEnemyBurst(
 	state: SimulationState,
 	enemy: Enemy,
 	burstCount: number,
-): void {
+): number {
+	const volleyIndex = enemy.volleyIndex ?? 0;
+	enemy.volleyIndex = volleyIndex + 1;
+	const firePatterns = getEnemyModule(enemy.archetype)?.firePatterns;
+	const pattern =
+		firePatterns && firePatterns.length > 0
+			? firePatterns[volleyIndex % firePatterns.length]
+			: "aimedBurst";
+	if (pattern !== "aimedBurst") {
+		// Patterns can outgrow a burst, so they are thinned to what the
+		// bullet budget still holds.
+		const speed = rollEnemyProjectileSpeed(state);
+		const aim = getEnemyAimTarget(state);
+		return emitEnemyPattern(state, pattern, {
+			originX: enemy.x - 0.5,
+			originY: enemy.y,
+			aimAngle: Math.atan2(aim.y - enemy.y, aim.x - enemy.x),
+			speed,
+			level: burstCount,
+			bands: getSpectrumBandsAtTime(state, getTrackTimeSeconds(state)),
+			volleyIndex,
+			maxShots: Math.floor(state.enemyBulletBudget),
+		});
+	}
+
 	const spreadStep = 0.12 + state.rng() * 0.07;
 	for (let i = 0; i < burstCount; i += 1) {
 		const centeredIndex = i - (burstCount - 1) * 0.5;
 		spawnEnemyProjectile(state, enemy, centeredIndex * spreadStep);
 	}
+	return burstCount;
 }
 
 function enemyFireIntensityMultiplier(intensity: number): number {
@@ -791,9 +1237,7 @@ function updateEnemyProjectiles(
 	deltaSeconds: number,
 ): void {
 	for (const projectile of state.enemyProjectiles) {
-		projectile.ageSeconds += deltaSeconds;
-		projectile.x += projectile.vx * deltaSeconds;
-		projectile.y += projectile.vy * deltaSeconds;
+		stepEnemyProjectile(projectile, deltaSeconds);
 	}
 }
 
@@ -825,16 +1269,27 @@ function resolvePlayerProjectileCollisions(state: SimulationState): void {
 			}
 
 			const enemy = state.enemies[e];
-			const dx = enemy.x - projectile.x;
-			const dy = enemy.y - projectile.y;
-			const radius = enemy.radius + projectile.radius;
-			if (dx * dx + dy * dy <= radius * radius) {
+			if (enemyOverlapsCircle(enemy, projectile.x, projectile.y, projectile.radius)) {
+				if (isMultiHitEnemy(enemy)) {
+					// Only cue hits deplete health; other shots just land.
+					enemy.cuePrimed ||= enemy.scheduledCueTime !== null;
+					enemy.damageFlash = 1;
+					destroyedProjectiles.add(p);
+					break;
+				}
+				// Cue-reserved enemies keep their armor for the cue kill.
 				if (enemy.scheduledCueTime !== null) {
 					enemy.cuePrimed = true;
 					enemy.damageFlash = 1;
 					destroyedProjectiles.add(p);
 					break;
 				}
+				enemy.hitPoints -= 1;
+				if (enemy.hitPoints > 0) {
+					enemy.damageFlash = 1;
+					destroyedProjectiles.add(p);
+					break;
+				}
 
 				destroyedEnemies.add(e);
 				destroyedProjectiles.add(p);
@@ -845,9 +1300,16 @@ function resolvePlayerProjectileCollisions(state: SimulationState): void {
 	}
 
 	if (destroyedEnemies.size > 0) {
+		const destroyed = state.enemies.filter((_, index) =>
+			destroyedEnemies.has(index),
+		);
 		state.enemies = state.enemies.filter(
 			(_, index) => !destroyedEnemies.has(index),
 		);
+		for (const enemy of destroyed) {
+			notifyEnemyDestroyed(state, enemy, "fire");
+			rollPowerUpDrop(state, enemy);
+		}
 	}
 	if (destroyedProjectiles.size > 0) {
 		state.projectiles = state.projectiles.filter(
@@ -862,9 +1324,9 @@ function resolveEnemyProjectileShipCollisions(state: SimulationState): void {
 	for (const projectile of state.enemyProjectiles) {
 		const dx = projectile.x - state.shipX;
 		const dy = projectile.y - state.shipY;
-		const radius = projectile.radius + 0.52;
+		const radius = projectile.radius + SHIP_HIT_RADIUS;
 		if (dx * dx + dy * dy <= radius * radius) {
-			state.shipShieldAlpha = 1;
+			applyShipDamage(state, ENEMY_PROJECTILE_SHIP_DAMAGE);
 			continue;
 		}
 
@@ -874,6 +1336,112 @@ function resolveEnemyProjectileShipCollisions(state: SimulationState): void {
 	state.enemyProjectiles = kept;
 }
 
+function resolveEnemyShipCollisions(state: SimulationState): void {
+	if (state.isGameOver || state.shipInvulnerableSeconds > 0) {
+		return;
+	}
+
+	for (let e = 0; e < state.enemies.length; e += 1) {
+		const enemy = state.enemies[e];
+		if (!enemyOverlapsCircle(enemy, state.shipX, state.shipY, SHIP_HIT_RADIUS)) {
+			continue;
+		}
+
+		applyShipDamage(state, ENEMY_RAM_SHIP_DAMAGE);
+		// Cue-reserved enemies must survive until their cue explodes them.
+		if (enemy.scheduledCueTime === null && !isMultiHitEnemy(enemy)) {
+			spawnExplosion(state, enemy.x, enemy.y, enemy.z);
+			state.enemies.splice(e, 1);
+			notifyEnemyDestroyed(state, enemy, "ram");
+		} else {
+			enemy.damageFlash = 1;
+		}
+		return;
+	}
+}
+
+/**
+ * Shield absorbs damage first and the remainder hits the hull. Every hit
+ * grants a short invulnerability window and delays shield regeneration.
+ */
+function applyShipDamage(state: SimulationState, amount: number): void {
+	state.shipShieldAlpha = 1;
+	if (state.isGameOver || state.shipInvulnerableSeconds > 0) {
+		return;
+	}
+
+	const absorbed = Math.min(state.shipShield, amount);
+	state.shipShield -= absorbed;
+	state.shipHull = Math.max(0, state.shipHull - (amount - absorbed));
+	state.shipShieldRegenDelaySeconds = SHIP_SHIELD_REGEN_DELAY_SECONDS;
+	state.shipInvulnerableSeconds = SHIP_INVULNERABLE_SECONDS;
+	state.combo = 0;
+
+	if (state.shipHull <= 0) {
+		state.isGameOver = true;
+		state.gameOverTimeSeconds = state.simTimeSeconds;
+		state.shipShieldAlpha = 0;
+		for (let i = 0; i < 3; i += 1) {
+			spawnExplosion(
+				state,
+				state.shipX + (state.rng() - 0.5) * 0.8,
+				state.shipY + (state.rng() - 0.5) * 0.8,
+				0,
+			);
+		}
+	}
+}
+
+function updateShipDefenses(state: SimulationState, deltaSeconds: number): void {
+	state.shipInvulnerableSeconds = Math.max(
+		0,
+		state.shipInvulnerableSeconds - deltaSeconds,
+	);
+	if (state.isGameOver) {
+		return;
+	}
+	if (state.shipShieldRegenDelaySeconds > 0) {
+		state.shipShieldRegenDelaySeconds = Math.max(
+			0,
+			state.shipShieldRegenDelaySeconds - deltaSeconds,
+		);
+		return;
+	}
+	state.shipShield = Math.min(
+		SHIP_MAX_SHIELD,
+		state.shipShield + SHIP_SHIELD_REGEN_PER_SECOND * deltaSeconds,
+	);
+}
+
+function buildScheduledCues(
+	cueTimesSeconds: number[],
+	cueBands: Array<CueBand | null> | undefined,
+	cueStrengths: Array<number | null> | undefined,
+	offsetSeconds: number,
+): ScheduledCue[] {
+	const cues: ScheduledCue[] = [];
+	cueTimesSeconds.forEach((time, index) => {
+		if (!Number.isFinite(time) || time < 0) {
+			return;
+		}
+		cues.push({
+			timeSeconds: offsetSeconds + time,
+			band: cueBands?.[index] ?? null,
+			strength: normalizeCueStrength(cueStrengths?.[index]),
+			planned: false,
+			assignedEnemyId: null,
+			assignedWeapon: null,
+		});
+	});
+	return cues;
+}
+
+function normalizeCueStrength(strength: number | null | undefined): number | null {
+	return typeof strength === "number" && Number.isFinite(strength)
+		? clamp(strength, 0, 1)
+		: null;
+}
+
 function planCueShots(state: SimulationState): void {
 	if (state.cueTimeline.length === 0) {
 		return;
@@ -889,15 +1457,21 @@ function planCueShots(state: SimulationState): void {
 			continue;
 		}
 
-		const weapon = selectCueWeaponForAssignment(state);
+		const weapon = selectCueWeaponForAssignment(state, cue.band);
 		if (!weapon) {
 			continue;
 		}
 		const weaponId = weapon.id;
 
+		const absorber =
+			leadSeconds <= 2.2 ? findCueAbsorber(state, cue.timeSeconds) : null;
 		if (leadSeconds > CUE_ASSIGN_MAX_LEAD_SECONDS) {
-			if (leadSeconds <= 2.2) {
+			// A boss on screen takes the cue once it is in range instead.
+			if (leadSeconds <= 2.2 && !absorber) {
 				const reserved = spawnReservedCueEnemy(state, cue.timeSeconds);
+				if (!reserved) {
+					continue;
+				}
 				cue.planned = true;
 				cue.assignedEnemyId = reserved.id;
 				cue.assignedWeapon = weaponId;
@@ -906,9 +1480,21 @@ function planCueShots(state: SimulationState): void {
 			continue;
 		}
 
+		if (absorber) {
+			absorber.scheduledCueTime = cue.timeSeconds;
+			cue.planned = true;
+			cue.assignedEnemyId = absorber.id;
+			cue.assignedWeapon = weaponId;
+			weapon.planCue(state, absorber, cue.timeSeconds);
+			continue;
+		}
+
 		const candidate = findCueCandidate(state, cue.timeSeconds);
 		if (!candidate) {
 			const reserved = spawnReservedCueEnemy(state, cue.timeSeconds);
+			if (!reserved) {
+				continue;
+			}
 			cue.planned = true;
 			cue.assignedEnemyId = reserved.id;
 			cue.assignedWeapon = weaponId;
@@ -934,7 +1520,11 @@ function planCatchupCueKills(state: SimulationState): void {
 		if (created >= MAX_CATCHUP_CUES_PER_STEP) {
 			break;
 		}
-		if (enemy.scheduledCueTime !== null || !enemy.hasEnteredView) {
+		if (
+			enemy.scheduledCueTime !== null ||
+			!enemy.hasEnteredView ||
+			isMultiHitEnemy(enemy)
+		) {
 			continue;
 		}
 		if (enemyAlreadyAssignedToCue(state.cueTimeline, enemy.id)) {
@@ -963,6 +1553,8 @@ function planCatchupCueKills(state: SimulationState): void {
 		enemy.scheduledCueTime = cueTimeSeconds;
 		const cue: ScheduledCue = {
 			timeSeconds: cueTimeSeconds,
+			band: null,
+			strength: null,
 			planned: true,
 			assignedEnemyId: enemy.id,
 			assignedWeapon: weapon.id,
@@ -986,14 +1578,18 @@ function insertScheduledCue(state: SimulationState, cue: ScheduledCue): void {
 }
 
 
+/** Null when the roster only holds bosses, which cues wait for instead. */
 function spawnReservedCueEnemy(
 	state: SimulationState,
 	cueTimeSeconds: number,
-): Enemy {
+): Enemy | null {
+	const archetype = pickShootCapableEnemyArchetype(state);
+	if (archetype === null) {
+		return null;
+	}
 	const intensity = getIntensityAtTime(state, state.simTimeSeconds);
-	const mood = moodParameters(state.moodProfile);
+	const mood = getMoodParameters(state);
 	const combatTuning = getCombatPressureTuning(state);
-	const archetype = pickShootCapableEnemyArchetype(state);
 	const archetypeDef = getEnemyArchetypeDefinition(archetype);
 	const leadSeconds = Math.max(0.2, cueTimeSeconds - state.simTimeSeconds);
 	const shipAtCue = predictShipPosition(state, leadSeconds);
@@ -1037,6 +1633,7 @@ function spawnReservedCueEnemy(
 		cuePrimed: false,
 		damageFlash: 0,
 		hasEnteredView: false,
+		hitPoints: archetypeDef.hitPoints,
 	};
 	state.enemies.push(enemy);
 	state.spawnIndex += 1;
@@ -1057,7 +1654,8 @@ function ensureCueSupportEnemies(state: SimulationState): void {
 		if (
 			leadSeconds >= CUE_ASSIGN_MIN_LEAD_SECONDS &&
 			leadSeconds <=
-				CUE_ASSIGN_MAX_LEAD_SECONDS + CUE_SUPPORT_LEAD_PADDING_SECONDS
+				CUE_ASSIGN_MAX_LEAD_SECONDS + CUE_SUPPORT_LEAD_PADDING_SECONDS &&
+			!findCueAbsorber(state, cue.timeSeconds)
 		) {
 			pendingCueCount += 1;
 		}
@@ -1069,7 +1667,7 @@ function ensureCueSupportEnemies(state: SimulationState): void {
 
 	let availableEnemyCount = 0;
 	for (const enemy of state.enemies) {
-		if (enemy.scheduledCueTime !== null) {
+		if (enemy.scheduledCueTime !== null || isMultiHitEnemy(enemy)) {
 			continue;
 		}
 		if (enemy.x <= state.shipX + 1.2) {
@@ -1095,10 +1693,13 @@ function ensureCueSupportEnemies(state: SimulationState): void {
 }
 
 function spawnCueSupportEnemy(state: SimulationState): void {
+	const archetype = pickShootCapableEnemyArchetype(state);
+	if (archetype === null) {
+		return;
+	}
 	const intensity = getIntensityAtTime(state, state.simTimeSeconds);
-	const mood = moodParameters(state.moodProfile);
+	const mood = getMoodParameters(state);
 	const combatTuning = getCombatPressureTuning(state);
-	const archetype = pickShootCapableEnemyArchetype(state);
 	const archetypeDef = getEnemyArchetypeDefinition(archetype);
 	const lane = ((state.spawnIndex + 1) % 5) - 2;
 	const baseY = lane * 1.6 + (state.rng() - 0.5) * 0.35;
@@ -1139,6 +1740,7 @@ function spawnCueSupportEnemy(state: SimulationState): void {
 		cuePrimed: false,
 		damageFlash: 0,
 		hasEnteredView: false,
+		hitPoints: archetypeDef.hitPoints,
 	});
 
 	state.spawnIndex += 1;
@@ -1159,10 +1761,10 @@ function resolveDueCueExplosions(state: SimulationState): void {
 		}
 		const cueErrorMs = Math.abs(state.simTimeSeconds - cue.timeSeconds) * 1000;
 
-		const assignedWeapon = cue.assignedWeapon;
-		if (!assignedWeapon || !isWeaponEnabled(state, assignedWeapon)) {
-			state.cueMissedCount += 1;
-			state.combo = 0;
+		const weapon =
+			cue.assignedWeapon === null ? undefined : getWeaponModule(cue.assignedWeapon);
+		if (!weapon || !isWeaponEnabled(state, weapon.id)) {
+			recordCueMiss(state, null);
 			continue;
 		}
 
@@ -1172,70 +1774,113 @@ function resolveDueCueExplosions(state: SimulationState): void {
 				: state.enemies.findIndex((enemy) => enemy.id === cue.assignedEnemyId);
 
 		if (targetIndex < 0) {
-			if (assignedWeapon === "purple") {
-				state.cueResolvedCount += 1;
-				state.cumulativeCueErrorMs += cueErrorMs;
-				state.combo += 1;
-				state.score += 100 + Math.min(900, state.combo * 10);
+			if (weapon.primesCueTarget) {
+				recordCueHit(state, cueErrorMs, null);
 				continue;
 			}
-			state.cueMissedCount += 1;
-			state.combo = 0;
+			recordCueMiss(state, null);
 			continue;
 		}
 
 		const enemy = state.enemies[targetIndex];
-
-		if (assignedWeapon === "green") {
-			if (!isWeaponEnabled(state, "green")) {
-				state.cueMissedCount += 1;
-				state.combo = 0;
-			} else {
-				spawnLaserBeam(state, enemy.x, enemy.y);
-				spawnExplosion(state, enemy.x, enemy.y, enemy.z);
-				state.enemies.splice(targetIndex, 1);
-				state.cueResolvedCount += 1;
-				state.cumulativeCueErrorMs += cueErrorMs;
-				state.combo += 1;
-				state.score += 100 + Math.min(900, state.combo * 10);
-			}
-			continue;
-		}
-
-		if (assignedWeapon === "purple") {
+		if (weapon.primesCueTarget) {
 			enemy.cuePrimed = true;
 		}
 
-		const didCueHit = scheduledEnemyHasCueHit(state, enemy);
+		const didCueHit = weapon.resolveCue
+			? weapon.resolveCue(state, enemy)
+			: scheduledEnemyHasCueHit(state, enemy);
 		if (didCueHit) {
 			spawnExplosion(state, enemy.x, enemy.y, enemy.z);
-			state.enemies.splice(targetIndex, 1);
-			state.cueResolvedCount += 1;
-			state.cumulativeCueErrorMs += cueErrorMs;
-			state.combo += 1;
-			state.score += 100 + Math.min(900, state.combo * 10);
+			destroyCueTarget(state, enemy, targetIndex, cue);
+			recordCueHit(state, cueErrorMs, enemy);
 		} else {
 			enemy.scheduledCueTime = null;
 			enemy.cuePrimed = false;
-			state.cueMissedCount += 1;
-			state.combo = 0;
+			recordCueMiss(state, enemy);
 		}
 	}
 }
 
-function spawnLaserBeam(
+/**
+ * Judges a resolved cue by its timing error and scales its base score by
+ * the judgement (and any score multiplier power-up). Outside the Good window
+ * the target still explodes but the combo breaks. Without a target the
+ * popup sits by the ship.
+ */
+function recordCueHit(
 	state: SimulationState,
-	toX: number,
-	toY: number,
+	cueErrorMs: number,
+	target: Enemy | null,
 ): void {
-	state.laserBeams.push({
-		fromX: state.shipX + 0.4,
-		fromY: state.shipY,
-		toX,
-		toY,
-		ageSeconds: 0,
-		lifetimeSeconds: LASER_BEAM_LIFETIME_SECONDS,
-	});
+	state.cueResolvedCount += 1;
+	state.cumulativeCueErrorMs += cueErrorMs;
+	const judgement = judgeCueTiming(state.combatConfig.scoring, cueErrorMs);
+	if (judgement === "miss") {
+		state.combo = 0;
+	} else {
+		state.combo += 1;
+		state.score += Math.round(
+			(100 + Math.min(900, state.combo * 10)) *
+				JUDGEMENT_SCORE_MULTIPLIERS[judgement] *
+				getScoreMultiplier(state),
+		);
+	}
+	recordJudgement(
+		state,
+		judgement,
+		target?.x ?? state.shipX,
+		target?.y ?? state.shipY,
+	);
+}
+
+function recordCueMiss(state: SimulationState, target: Enemy | null): void {
+	state.cueMissedCount += 1;
+	state.combo = 0;
+	recordJudgement(
+		state,
+		"miss",
+		target?.x ?? state.shipX,
+		target?.y ?? state.shipY,
+	);
+}
+
+/**
+ * Removes the cue's target, unless it is a multi-hit enemy that survives.
+ * Armor left from ordinary fire does not matter: the cue kill lands on its beat.
+ */
+function destroyCueTarget(
+	state: SimulationState,
+	enemy: Enemy,
+	targetIndex: number,
+	cue: ScheduledCue,
+): void {
+	const applyCueHit = getEnemyModule(enemy.archetype)?.applyCueHit;
+	if (applyCueHit && !applyCueHit(state, enemy)) {
+		enemy.cuePrimed = false;
+		return;
+	}
+	state.enemies.splice(targetIndex, 1);
+	notifyEnemyDestroyed(state, enemy, "cue");
+	rollPowerUpDrop(state, enemy, cue);
+}
+
+function findCueAbsorber(
+	state: SimulationState,
+	cueTimeSeconds: number,
+): Enemy | null {
+	for (const enemy of state.enemies) {
+		if (
+			getEnemyModule(enemy.archetype)?.acceptsCue?.(
+				state,
+				enemy,
+				cueTimeSeconds,
+			)
+		) {
+			return enemy;
+		}
+	}
+	return null;
 }
 
 function scheduledEnemyHasCueHit(
@@ -1246,18 +1891,9 @@ function scheduledEnemyHasCueHit(
 		return true;
 	}
 
-	const hitRadius = enemy.radius + 0.28;
-	const hitRadiusSq = hitRadius * hitRadius;
-
-	for (const projectile of state.projectiles) {
-		const dx = projectile.x - enemy.x;
-		const dy = projectile.y - enemy.y;
-		if (dx * dx + dy * dy <= hitRadiusSq) {
-			return true;
-		}
-	}
-
-	return false;
+	return state.projectiles.some((projectile) =>
+		enemyOverlapsCircle(enemy, projectile.x, projectile.y, 0.28),
+	);
 }
 
 function findCueCandidate(
@@ -1274,6 +1910,7 @@ function findCueCandidate(
 	for (const enemy of state.enemies) {
 		if (
 			enemy.scheduledCueTime !== null ||
+			isMultiHitEnemy(enemy) ||
 			enemyAlreadyAssignedToCue(state.cueTimeline, enemy.id)
 		) {
 			continue;
@@ -1287,7 +1924,12 @@ function findCueCandidate(
 		const future = predictEnemyPosition(enemy, dt);
 		const dx = future.x - shipAtCue.x;
 		const dy = future.y - shipAtCue.baseY;
-		const score = Math.abs(dy) * 1.5 + Math.abs(dx - 6.2) * 0.65;
+		// Armored enemies are slow to clear with ordinary fire, so let the
+		// beat take them first.
+		const score =
+			Math.abs(dy) * 1.5 +
+			Math.abs(dx - 6.2) * 0.65 -
+			(enemy.hitPoints - 1) * CUE_ARMOR_PREFERENCE;
 
 		if (
 			future.x <= shipAtCue.x + 0.8 ||
@@ -1351,7 +1993,7 @@ function countUpcomingCueWindow(state: SimulationState): number {
 function countAvailableCueTargets(state: SimulationState): number {
 	let count = 0;
 	for (const enemy of state.enemies) {
-		if (enemy.scheduledCueTime !== null) {
+		if (enemy.scheduledCueTime !== null || isMultiHitEnemy(enemy)) {
 			continue;
 		}
 		if (enemy.x <= state.shipX + 1.2) {
@@ -1366,6 +2008,85 @@ function countAvailableCueTargets(state: SimulationState): number {
 }
 
 function updateShipMotion(state: SimulationState, deltaSeconds: number): void {
+	if (state.controlMode === "auto") {
+		updateAutopilotShipMotion(state, deltaSeconds);
+	} else {
+		updatePilotedShipMotion(state, deltaSeconds);
+	}
+}
+
+/**
+ * Manual and assisted flight. Stick input maps to a desired velocity that is
+ * reached through the same speed/acceleration limits the autopilot uses; in
+ * "assist" mode the projectile threat dodge is added as a bounded nudge.
+ */
+function updatePilotedShipMotion(
+	state: SimulationState,
+	deltaSeconds: number,
+): void {
+	let desiredVx = state.controlInputX * SHIP_MAX_SPEED_X;
+	let desiredVy = state.controlInputY * SHIP_MAX_SPEED_Y;
+
+	if (state.controlMode === "assist") {
+		const threat = analyzeProjectileThreat(state);
+		const panicFactor = clamp(threat.score / SHIP_PANIC_THRESHOLD, 0, 1);
+		const maxNudgeX = SHIP_MAX_SPEED_X * SHIP_ASSIST_MAX_NUDGE_FRACTION;
+		const maxNudgeY = SHIP_MAX_SPEED_Y * SHIP_ASSIST_MAX_NUDGE_FRACTION;
+		desiredVx += clamp(
+			threat.dodgeX * SHIP_ASSIST_DODGE_GAIN * panicFactor,
+			-maxNudgeX,
+			maxNudgeX,
+		);
+		desiredVy += clamp(
+			threat.dodgeY * SHIP_ASSIST_DODGE_GAIN * panicFactor,
+			-maxNudgeY,
+			maxNudgeY,
+		);
+	}
+
+	desiredVx = clamp(desiredVx, -SHIP_MAX_SPEED_X, SHIP_MAX_SPEED_X);
+	desiredVy = clamp(desiredVy, -SHIP_MAX_SPEED_Y, SHIP_MAX_SPEED_Y);
+
+	const maxDvX = SHIP_ACCEL_X * deltaSeconds;
+	const maxDvY = SHIP_ACCEL_Y * deltaSeconds;
+	state.shipVx += clamp(desiredVx - state.shipVx, -maxDvX, maxDvX);
+	state.shipVy += clamp(desiredVy - state.shipVy, -maxDvY, maxDvY);
+
+	state.shipX = clamp(
+		state.shipX + state.shipVx * deltaSeconds,
+		SHIP_MIN_X,
+		SHIP_MAX_X,
+	);
+	state.shipY = clamp(
+		state.shipY + state.shipVy * deltaSeconds,
+		SHIP_MIN_Y,
+		SHIP_MAX_Y,
+	);
+	if (state.shipX === SHIP_MIN_X || state.shipX === SHIP_MAX_X) {
+		state.shipVx = 0;
+	}
+	if (state.shipY === SHIP_MIN_Y || state.shipY === SHIP_MAX_Y) {
+		state.shipVy = 0;
+	}
+
+	// Cue planning predicts the ship from its target, so keep the target
+	// a short lead ahead of the piloted trajectory.
+	state.shipTargetX = clamp(
+		state.shipX + state.shipVx * SHIP_MANUAL_TARGET_LEAD_SECONDS,
+		SHIP_MIN_X,
+		SHIP_MAX_X,
+	);
+	state.shipTargetY = clamp(
+		state.shipY + state.shipVy * SHIP_MANUAL_TARGET_LEAD_SECONDS,
+		SHIP_MIN_Y,
+		SHIP_MAX_Y,
+	);
+}
+
+function updateAutopilotShipMotion(
+	state: SimulationState,
+	deltaSeconds: number,
+): void {
 	if (state.simTimeSeconds >= state.nextShipRetargetTime) {
 		const target = chooseShipTarget(state);
 		state.shipTargetX = target.x;
@@ -1512,19 +2233,9 @@ function analyzeProjectileThreat(state: SimulationState): {
 	let score = 0;
 
 	for (const projectile of state.enemyProjectiles) {
-		const relPx = projectile.x - state.shipX;
-		const relPy = projectile.y - state.shipY;
-		const relVx = projectile.vx - state.shipVx;
-		const relVy = projectile.vy - state.shipVy;
-		const relSpeedSq = Math.max(1e-6, relVx * relVx + relVy * relVy);
-		const tClosest = clamp(
-			-(relPx * relVx + relPy * relVy) / relSpeedSq,
-			0,
-			SHIP_THREAT_HORIZON_SECONDS,
-		);
-
-		const closestDx = relPx + relVx * tClosest;
-		const closestDy = relPy + relVy * tClosest;
+		const { closestDx, closestDy, tClosest } = isCurvedProjectile(projectile)
+			? findCurvedProjectileClosestApproach(state, projectile)
+			: findStraightProjectileClosestApproach(state, projectile);
 		const closestDist = Math.hypot(closestDx, closestDy);
 		if (closestDist > SHIP_SAFE_RADIUS * 2.2) {
 			continue;
@@ -1613,6 +2324,58 @@ function analyzeProjectileThreat(state: SimulationState): {
 	};
 }
 
+type ProjectileClosestApproach = {
+	closestDx: number;
+	closestDy: number;
+	tClosest: number;
+};
+
+function findStraightProjectileClosestApproach(
+	state: SimulationState,
+	projectile: EnemyProjectile,
+): ProjectileClosestApproach {
+	const relPx = projectile.x - state.shipX;
+	const relPy = projectile.y - state.shipY;
+	const relVx = projectile.vx - state.shipVx;
+	const relVy = projectile.vy - state.shipVy;
+	const relSpeedSq = Math.max(1e-6, relVx * relVx + relVy * relVy);
+	const tClosest = clamp(
+		-(relPx * relVx + relPy * relVy) / relSpeedSq,
+		0,
+		SHIP_THREAT_HORIZON_SECONDS,
+	);
+	return {
+		closestDx: relPx + relVx * tClosest,
+		closestDy: relPy + relVy * tClosest,
+		tClosest,
+	};
+}
+
+/** Curved shots have no closed-form closest approach, so sample their path. */
+function findCurvedProjectileClosestApproach(
+	state: SimulationState,
+	projectile: EnemyProjectile,
+): ProjectileClosestApproach {
+	let best: ProjectileClosestApproach = {
+		closestDx: projectile.x - state.shipX,
+		closestDy: projectile.y - state.shipY,
+		tClosest: 0,
+	};
+	let bestDistSq = best.closestDx ** 2 + best.closestDy ** 2;
+	for (let i = 1; i <= SHIP_CURVED_THREAT_SAMPLES; i += 1) {
+		const t = (i / SHIP_CURVED_THREAT_SAMPLES) * SHIP_THREAT_HORIZON_SECONDS;
+		const future = predictEnemyProjectilePosition(projectile, t);
+		const dx = future.x - (state.shipX + state.shipVx * t);
+		const dy = future.y - (state.shipY + state.shipVy * t);
+		const distSq = dx * dx + dy * dy;
+		if (distSq < bestDistSq) {
+			bestDistSq = distSq;
+			best = { closestDx: dx, closestDy: dy, tClosest: t };
+		}
+	}
+	return best;
+}
+
 function updateEdgeBreakoutState(
 	state: SimulationState,
 	threatScore: number,
@@ -1783,10 +2546,9 @@ function evaluateEscapeCandidate(
 		);
 
 		for (const projectile of state.enemyProjectiles) {
-			const px = projectile.x + projectile.vx * t;
-			const py = projectile.y + projectile.vy * t;
-			const dx = px - simX;
-			const dy = py - simY;
+			const future = predictEnemyProjectilePosition(projectile, t);
+			const dx = future.x - simX;
+			const dy = future.y - simY;
 			const dist = Math.hypot(dx, dy);
 			const imminence = 1 - t / horizon;
 
@@ -1917,7 +2679,35 @@ function evaluateEscapeCandidate(
 	return totalCost;
 }
 
+/**
+ * Where the autopilot wants to be: near its firing focus (or roaming), pulled
+ * toward the most valuable nearby pickup in proportion to its attraction.
+ */
 function chooseShipTarget(state: SimulationState): { x: number; y: number } {
+	const combatTarget = chooseCombatTarget(state);
+	const attraction = findPowerUpAttraction(state);
+	if (!attraction) {
+		return combatTarget;
+	}
+
+	const { powerUp, weight } = attraction;
+	// Aim where the pickup will be by the time the ship gets there.
+	const leadSeconds = clamp(
+		Math.abs(powerUp.x - state.shipX) / SHIP_MAX_SPEED_X,
+		0,
+		SHIP_POWER_UP_MAX_LEAD_SECONDS,
+	);
+	return {
+		x: clamp(
+			lerp(combatTarget.x, powerUp.x + powerUp.vx * leadSeconds, weight),
+			SHIP_MIN_X,
+			SHIP_MAX_X,
+		),
+		y: clamp(lerp(combatTarget.y, powerUp.y, weight), SHIP_MIN_Y, SHIP_MAX_Y),
+	};
+}
+
+function chooseCombatTarget(state: SimulationState): { x: number; y: number } {
 	const lockedTarget =
 		state.lockedTargetEnemyId === null
 			? null
@@ -1970,12 +2760,53 @@ function spawnEnemyProjectile(
 	enemy: Enemy,
 	spreadRadians = 0,
 ): void {
+	const speed = rollEnemyProjectileSpeed(state);
+	const aim = getEnemyAimTarget(state);
+	const dx = aim.x - enemy.x;
+	const dy = aim.y - enemy.y;
+	const magnitude = Math.hypot(dx, dy) || 1;
+
+	const baseX = dx / magnitude;
+	const baseY = dy / magnitude;
+	const spreadWithPressure =
+		spreadRadians +
+		(state.rng() - 0.5) * aim.edgePressure * ENEMY_EDGE_PRESSURE_EXTRA_SPREAD;
+	const cos = Math.cos(spreadWithPressure);
+	const sin = Math.sin(spreadWithPressure);
+	const dirX = baseX * cos - baseY * sin;
+	const dirY = baseX * sin + baseY * cos;
+
+	state.enemyProjectiles.push({
+		id: state.nextEnemyProjectileId++,
+		x: enemy.x - 0.5,
+		y: enemy.y,
+		z: 0,
+		vx: dirX * speed,
+		vy: dirY * speed,
+		ageSeconds: 0,
+		maxLifetimeSeconds: 3,
+		radius: 0.18,
+	});
+}
+
+function rollEnemyProjectileSpeed(state: SimulationState): number {
 	const baseSpeed = 6.8 + state.rng() * 2;
 	const speedMultiplier =
 		state.combatConfig.enemyRoster.enemyProjectileStyle === "lasers"
 			? ENEMY_PROJECTILE_LASER_SPEED_MULTIPLIER
 			: 1;
-	const speed = baseSpeed * speedMultiplier;
+	return baseSpeed * speedMultiplier;
+}
+
+/**
+ * Where enemies aim: the ship, with lag and jitter growing while it is
+ * pinned against an edge under heavy fire so it is not boxed in.
+ */
+function getEnemyAimTarget(state: SimulationState): {
+	x: number;
+	y: number;
+	edgePressure: number;
+} {
 	const edgeDistanceY = Math.min(
 		state.shipY - SHIP_MIN_Y,
 		SHIP_MAX_Y - state.shipY,
@@ -2014,33 +2845,11 @@ function spawnEnemyProjectile(
 	const jitter =
 		(state.rng() - 0.5) *
 		(0.55 + edgePressure * ENEMY_EDGE_AIM_RELAX_MAX_JITTER);
-	const targetX = relaxedShipX - 0.2;
-	const targetY = relaxedShipY + jitter;
-	const dx = targetX - enemy.x;
-	const dy = targetY - enemy.y;
-	const magnitude = Math.hypot(dx, dy) || 1;
-
-	const baseX = dx / magnitude;
-	const baseY = dy / magnitude;
-	const spreadWithPressure =
-		spreadRadians +
-		(state.rng() - 0.5) * edgePressure * ENEMY_EDGE_PRESSURE_EXTRA_SPREAD;
-	const cos = Math.cos(spreadWithPressure);
-	const sin = Math.sin(spreadWithPressure);
-	const dirX = baseX * cos - baseY * sin;
-	const dirY = baseX * sin + baseY * cos;
-
-	state.enemyProjectiles.push({
-		id: state.nextEnemyProjectileId++,
-		x: enemy.x - 0.5,
-		y: enemy.y,
-		z: 0,
-		vx: dirX * speed,
-		vy: dirY * speed,
-		ageSeconds: 0,
-		maxLifetimeSeconds: 3,
-		radius: 0.18,
-	});
+	return {
+		x: relaxedShipX - 0.2,
+		y: relaxedShipY + jitter,
+		edgePressure,
+	};
 }
 
 function spawnExplosion(
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { createSimulation } from "./sim";
+import { createSnapshotStore } from "./snapshotStore";
+import type { SimulationSnapshot } from "./types";
+
+function recordRun(steps: number): SimulationSnapshot[] {
+  const sim = createSimulation();
+  sim.setRandomSeed(11);
+  sim.setMoodProfile("aggressive");
+  sim.setShipWeapons({ purpleMissile: true });
+  sim.startTrackRun([1, 1.5, 2, 2.5, 3, 3.5, 4]);
+  const snapshots = [structuredClone(sim.getSnapshot())];
+  for (let i = 0; i < steps; i += 1) {
+    sim.step(1 / 60);
+    snapshots.push(structuredClone(sim.getSnapshot()));
+  }
+  return snapshots;
+}
+
+describe("snapshot store", () => {
+  it("round-trips snapshots through columnar storage", () => {
+    const snapshots = recordRun(60 * 6);
+    const store = createSnapshotStore(8);
+    for (const snapshot of snapshots) {
+      store.append(snapshot);
+    }
+    store.trim();
+
+    expect(store.frameCount).toBe(snapshots.length);
+    for (const index of [0, 90, 200, snapshots.length - 1]) {
+      const expected = snapshots[index];
+      const actual = store.read(index);
+      expect(actual.simTimeSeconds).toBe(expected.simTimeSeconds);
+      expect(actual.score).toBe(expected.score);
+      expect(actual.moodProfile).toBe(expected.moodProfile);
+      expect(actual.sectionLabel).toBe(expected.sectionLabel);
+      expect(actual.gameOverTimeSeconds).toBe(expected.gameOverTimeSeconds);
+      expect(actual.purpleMissileEnabled).toBe(expected.purpleMissileEnabled);
+      expect(actual.ship.y).toBeCloseTo(expected.ship.y, 4);
+      expect(actual.enemies.length).toBe(expected.enemies.length);
+      expect(actual.projectiles.length).toBe(expected.projectiles.length);
+      expect(actual.missiles.length).toBe(expected.missiles.length);
+      expected.enemies.forEach((enemy, i) => {
+        expect(actual.enemies[i].archetype).toBe(enemy.archetype);
+        expect(actual.enemies[i].x).toBeCloseTo(enemy.x, 4);
+      });
+      expected.projectiles.forEach((projectile, i) => {
+        expect(actual.projectiles[i].id).toBe(projectile.id);
+        expect(actual.projectiles[i].isCueShot).toBe(projectile.isCueShot);
+      });
+    }
+  });
+
+  it("reuses one view object across reads", () => {
+    const snapshots = recordRun(120);
+    const store = createSnapshotStore();
+    for (const snapshot of snapshots) {
+      store.append(snapshot);
+    }
+
+    const first = store.read(10);
+    const firstEnemies = first.enemies;
+    const second = store.read(110);
+    expect(second).toBe(first);
+    expect(second.enemies).toBe(firstEnemies);
+    expect(second.simTimeSeconds).toBe(snapshots[110].simTimeSeconds);
+    expect(store.byteLength()).toBeGreaterThan(0);
+  });
+
+  it("interpolates entities matched by id between adjacent frames", () => {
+    const snapshots = recordRun(60 * 4);
+    const store = createSnapshotStore();
+    for (const snapshot of snapshots) {
+      store.append(snapshot);
+    }
+
+    const frame = snapshots.findIndex(
+      (snapshot, index) => index > 0 && snapshot.projectiles.length > 0 && snapshot.enemies.length > 0
+    );
+    expect(frame).toBeGreaterThan(0);
+    const from = snapshots[frame];
+    const to = snapshots[frame + 1];
+    const view = store.readInterpolated(frame, 0.5);
+
+    expect(view.simTimeSeconds).toBeCloseTo((from.simTimeSeconds + to.simTimeSeconds) / 2, 6);
+    expect(view.ship.x).toBeCloseTo((from.ship.x + to.ship.x) / 2, 4);
+    const projectile = from.projectiles[0];
+    const next = to.projectiles.find((candidate) => candidate.id === projectile.id);
+    const blended = view.projectiles.find((candidate) => candidate.id === projectile.id);
+    if (next) {
+      expect(blended?.x).toBeCloseTo((projectile.x + next.x) / 2, 4);
+    } else {
+      expect(blended?.x).toBeCloseTo(projectile.x, 4);
+    }
+    const enemy = from.enemies[0];
+    const nextEnemy = to.enemies.find((candidate) => candidate.id === enemy.id);
+    const blendedEnemy = view.enemies.find((candidate) => candidate.id === enemy.id);
+    expect(blendedEnemy?.x).toBeCloseTo(nextEnemy ? (enemy.x + nextEnemy.x) / 2 : enemy.x, 4);
+    expect(store.readInterpolated(frame, 0).simTimeSeconds).toBe(from.simTimeSeconds);
+  });
+});
@@ -0,0 +1,463 @@
+import type { SimulationSnapshot } from "./types";
+
+type SnapshotListKey =
+  | "enemies"
+  | "projectiles"
+  | "missiles"
+  | "enemyProjectiles"
+  | "laserBeams"
+  | "explosions"
+  | "powerUps"
+  | "activePowerUps"
+  | "judgementPopups";
+
+type SnapshotScalarKey = Exclude<keyof SimulationSnapshot, SnapshotListKey | "ship">;
+
+type FieldKind<V> = [V] extends [number]
+  ? "number"
+  : [V] extends [boolean]
+    ? "boolean"
+    : [V] extends [string]
+      ? "string"
+      : [V] extends [number | null]
+        ? "nullableNumber"
+        : [V] extends [string | null]
+          ? "nullableString"
+          : never;
+
+// Mapped over every key so adding a snapshot field without a storage kind
+// is a type error rather than a silently dropped value.
+type FieldSchema<T> = { [K in keyof T]-?: FieldKind<T[K]> };
+
+type ListSchemas = {
+  [K in SnapshotListKey]: FieldSchema<SimulationSnapshot[K][number]>;
+};
+
+const SCALAR_SCHEMA: FieldSchema<Pick<SimulationSnapshot, SnapshotScalarKey>> = {
+  simTimeSeconds: "number",
+  simTick: "number",
+  enemyCount: "number",
+  projectileCount: "number",
+  shieldAlpha: "number",
+  shipHull: "number",
+  shipMaxHull: "number",
+  shipShield: "number",
+  shipMaxShield: "number",
+  shipInvulnerableSeconds: "number",
+  isGameOver: "boolean",
+  gameOverTimeSeconds: "nullableNumber",
+  cueResolvedCount: "number",
+  cueMissedCount: "number",
+  avgCueErrorMs: "number",
+  currentIntensity: "number",
+  score: "number",
+  combo: "number",
+  perfectCount: "number",
+  greatCount: "number",
+  goodCount: "number",
+  judgementMissCount: "number",
+  pendingCueCount: "number",
+  plannedCueCount: "number",
+  queuedCueShotCount: "number",
+  upcomingCueWindowCount: "number",
+  availableCueTargetCount: "number",
+  moodProfile: "string",
+  sectionLabel: "nullableString",
+  controlMode: "string",
+  scoreMultiplier: "number",
+  purpleMissileEnabled: "boolean",
+  enemyProjectileStyle: "string"
+};
+
+// Float32 is exact for integers only up to 2^24; these grow without bound.
+const WIDE_SCALAR_KEYS = new Set<string>(["simTimeSeconds", "simTick", "score", "gameOverTimeSeconds"]);
+
+const LIST_SCHEMAS: ListSchemas = {
+  enemies: {
+    id: "number",
+    x: "number",
+    y: "number",
+    z: "number",
+    rotationZ: "number",
+    damageFlash: "number",
+    archetype: "string",
+    health: "number"
+  },
+  projectiles: {
+    id: "number",
+    x: "number",
+    y: "number",
+    z: "number",
+    rotationZ: "number",
+    isCueShot: "boolean",
+    isFlak: "boolean"
+  },
+  missiles: {
+    id: "number",
+    x: "number",
+    y: "number",
+    z: "number",
+    rotationZ: "number",
+    ageSeconds: "number",
+    maxLifetimeSeconds: "number",
+    launchX: "number",
+    launchY: "number",
+    targetX: "number",
+    targetY: "number",
+    cueTimeSeconds: "number",
+    loopDirection: "number",
+    loopTurns: "number",
+    pathVariant: "number"
+  },
+  enemyProjectiles: {
+    id: "number",
+    x: "number",
+    y: "number",
+    z: "number",
+    rotationZ: "number"
+  },
+  laserBeams: {
+    fromX: "number",
+    fromY: "number",
+    toX: "number",
+    toY: "number",
+    alpha: "number"
+  },
+  explosions: {
+    x: "number",
+    y: "number",
+    z: "number",
+    scale: "number",
+    alpha: "number",
+    variant: "number",
+    power: "number"
+  },
+  powerUps: {
+    id: "number",
+    x: "number",
+    y: "number",
+    z: "number",
+    kind: "string",
+    ageSeconds: "number",
+    maxLifetimeSeconds: "number"
+  },
+  activePowerUps: {
+    kind: "string",
+    remainingSeconds: "number"
+  },
+  judgementPopups: {
+    id: "number",
+    x: "number",
+    y: "number",
+    z: "number",
+    judgement: "string",
+    ageSeconds: "number",
+    alpha: "number"
+  }
+};
+
+// Continuous fields blended by readInterpolated; everything else holds the
+// earlier frame's value. List entities are matched across frames by id.
+const INTERPOLATED_SCALAR_KEYS = new Set<string>(["simTimeSeconds", "shieldAlpha", "currentIntensity"]);
+const INTERPOLATED_LIST_FIELDS: Partial<Record<SnapshotListKey, string[]>> = {
+  enemies: ["x", "y", "z", "rotationZ"],
+  projectiles: ["x", "y", "z", "rotationZ"],
+  missiles: ["x", "y", "z", "rotationZ", "ageSeconds"],
+  enemyProjectiles: ["x", "y", "z", "rotationZ"],
+  powerUps: ["x", "y", "z", "ageSeconds"],
+  judgementPopups: ["y", "ageSeconds", "alpha"]
+};
+const ANGLE_FIELDS = new Set<string>(["rotationZ"]);
+
+const LIST_KEYS = Object.keys(LIST_SCHEMAS) as SnapshotListKey[];
+const MIN_FRAME_CAPACITY = 256;
+const MIN_POOL_ITEMS = 64;
+
+type StoredKind = "number" | "boolean" | "string" | "nullableNumber" | "nullableString";
+type FieldEntry = { key: string; kind: StoredKind };
+type ScalarColumn = FieldEntry & { values: Float32Array | Float64Array };
+type InterpolatedField = { key: string; fieldIndex: number; isAngle: boolean };
+type ListColumn = {
+  key: SnapshotListKey;
+  fields: FieldEntry[];
+  idFieldIndex: number;
+  interpolatedFields: InterpolatedField[];
+  // offsets[f]..offsets[f + 1] is the item range of frame f in the pool.
+  offsets: Uint32Array;
+  pool: Float32Array;
+  itemCount: number;
+  viewItems: Array<Record<string, unknown>>;
+};
+
+export type SnapshotStore = {
+  readonly frameCount: number;
+  append: (snapshot: SimulationSnapshot) => void;
+  /**
+   * Decodes a frame into a view object that is reused across calls, so the
+   * render loop does not allocate. Copy anything that must outlive the call.
+   */
+  read: (frameIndex: number) => SimulationSnapshot;
+  /** Like read, blended toward the next frame by alpha in 0..1. */
+  readInterpolated: (frameIndex: number, alpha: number) => SimulationSnapshot;
+  trim: () => void;
+  byteLength: () => number;
+};
+
+/**
+ * Columnar storage for precomputed snapshots: one typed-array column per
+ * scalar field, and per entity list a Float32Array pool with an offset table.
+ * Strings are interned into a shared table and stored as indices.
+ */
+export function createSnapshotStore(expectedFrames = 0): SnapshotStore {
+  let frameCapacity = Math.max(MIN_FRAME_CAPACITY, Math.ceil(expectedFrames));
+  let frameCount = 0;
+  const strings: string[] = [];
+  const stringIndices = new Map<string, number>();
+
+  const scalarColumns: ScalarColumn[] = toFieldEntries(SCALAR_SCHEMA).map((field) => ({
+    ...field,
+    values: WIDE_SCALAR_KEYS.has(field.key)
+      ? new Float64Array(frameCapacity)
+      : new Float32Array(frameCapacity)
+  }));
+  let shipColumn = new Float32Array(frameCapacity * 3);
+  const listColumns: ListColumn[] = LIST_KEYS.map((key) => {
+    const fields = toFieldEntries(LIST_SCHEMAS[key]);
+    const fieldIndex = (name: string): number => fields.findIndex((field) => field.key === name);
+    return {
+      key,
+      fields,
+      idFieldIndex: fieldIndex("id"),
+      interpolatedFields: (INTERPOLATED_LIST_FIELDS[key] ?? []).map((name) => ({
+        key: name,
+        fieldIndex: fieldIndex(name),
+        isAngle: ANGLE_FIELDS.has(name)
+      })),
+      offsets: new Uint32Array(frameCapacity + 1),
+      pool: new Float32Array(MIN_POOL_ITEMS * fields.length),
+      itemCount: 0,
+      viewItems: []
+    };
+  });
+
+  const view = createView();
+  const nextRowById = new Map<number, number>();
+
+  const intern = (value: string): number => {
+    let index = stringIndices.get(value);
+    if (index === undefined) {
+      index = strings.length;
+      strings.push(value);
+      stringIndices.set(value, index);
+    }
+    return index;
+  };
+
+  const encode = (kind: StoredKind, value: unknown): number => {
+    switch (kind) {
+      case "number":
+        return value as number;
+      case "boolean":
+        return value ? 1 : 0;
+      case "string":
+        return intern(value as string);
+      case "nullableNumber":
+        return value === null ? Number.NaN : (value as number);
+      case "nullableString":
+        return value === null ? -1 : intern(value as string);
+    }
+  };
+
+  const decode = (kind: StoredKind, value: number): unknown => {
+    switch (kind) {
+      case "number":
+        return value;
+      case "boolean":
+        return value !== 0;
+      case "string":
+        return strings[value];
+      case "nullableNumber":
+        return Number.isNaN(value) ? null : value;
+      case "nullableString":
+        return value < 0 ? null : strings[value];
+    }
+  };
+
+  const read = (frameIndex: number): SimulationSnapshot => {
+    if (frameCount === 0) {
+      throw new Error("Snapshot store is empty");
+    }
+    const frame = Math.max(0, Math.min(frameCount - 1, Math.floor(frameIndex)));
+    const record = view as unknown as Record<string, unknown>;
+    for (const column of scalarColumns) {
+      record[column.key] = decode(column.kind, column.values[frame]);
+    }
+    view.ship.x = shipColumn[frame * 3];
+    view.ship.y = shipColumn[frame * 3 + 1];
+    view.ship.z = shipColumn[frame * 3 + 2];
+
+    for (const list of listColumns) {
+      const start = list.offsets[frame];
+      const end = list.offsets[frame + 1];
+      const stride = list.fields.length;
+      const target = view[list.key] as unknown as Array<Record<string, unknown>>;
+      target.length = 0;
+      for (let i = start; i < end; i += 1) {
+        const slot = i - start;
+        let item = list.viewItems[slot];
+        if (!item) {
+          item = {};
+          list.viewItems.push(item);
+        }
+        let cursor = i * stride;
+        for (const field of list.fields) {
+          item[field.key] = decode(field.kind, list.pool[cursor]);
+          cursor += 1;
+        }
+        target.push(item);
+      }
+    }
+    return view;
+  };
+
+  const resizeFrames = (capacity: number): void => {
+    frameCapacity = capacity;
+    for (const column of scalarColumns) {
+      column.values = resizeTyped(column.values, capacity);
+    }
+    shipColumn = resizeTyped(shipColumn, capacity * 3);
+    for (const list of listColumns) {
+      list.offsets = resizeTyped(list.offsets, capacity + 1);
+    }
+  };
+
+  return {
+    get frameCount() {
+      return frameCount;
+    },
+    append(snapshot) {
+      if (frameCount >= frameCapacity) {
+        resizeFrames(frameCapacity * 2);
+      }
+      const frame = frameCount;
+      const record = snapshot as unknown as Record<string, unknown>;
+      for (const column of scalarColumns) {
+        column.values[frame] = encode(column.kind, record[column.key]);
+      }
+      shipColumn[frame * 3] = snapshot.ship.x;
+      shipColumn[frame * 3 + 1] = snapshot.ship.y;
+      shipColumn[frame * 3 + 2] = snapshot.ship.z;
+
+      for (const list of listColumns) {
+        const items = snapshot[list.key] as unknown as Array<Record<string, unknown>>;
+        const stride = list.fields.length;
+        const required = (list.itemCount + items.length) * stride;
+        if (required > list.pool.length) {
+          list.pool = resizeTyped(list.pool, Math.max(required, list.pool.length * 2));
+        }
+        let cursor = list.itemCount * stride;
+        for (const item of items) {
+          for (const field of list.fields) {
+            list.pool[cursor] = encode(field.kind, item[field.key]);
+            cursor += 1;
+          }
+        }
+        list.offsets[frame] = list.itemCount;
+        list.itemCount += items.length;
+        list.offsets[frame + 1] = list.itemCount;
+      }
+      frameCount += 1;
+    },
+    read,
+    readInterpolated(frameIndex, alpha) {
+      const frame = Math.max(0, Math.min(frameCount - 1, Math.floor(frameIndex)));
+      const next = frame + 1;
+      const t = Math.max(0, Math.min(1, alpha));
+      read(frame);
+      if (t <= 0 || next >= frameCount) {
+        return view;
+      }
+
+      const record = view as unknown as Record<string, unknown>;
+      for (const column of scalarColumns) {
+        if (INTERPOLATED_SCALAR_KEYS.has(column.key)) {
+          record[column.key] = lerp(column.values[frame], column.values[next], t);
+        }
+      }
+      view.ship.x = lerp(shipColumn[frame * 3], shipColumn[next * 3], t);
+      view.ship.y = lerp(shipColumn[frame * 3 + 1], shipColumn[next * 3 + 1], t);
+      view.ship.z = lerp(shipColumn[frame * 3 + 2], shipColumn[next * 3 + 2], t);
+
+      for (const list of listColumns) {
+        if (list.idFieldIndex < 0 || list.interpolatedFields.length === 0) {
+          continue;
+        }
+        const stride = list.fields.length;
+        nextRowById.clear();
+        for (let row = list.offsets[next]; row < list.offsets[next + 1]; row += 1) {
+          nextRowById.set(list.pool[row * stride + list.idFieldIndex], row);
+        }
+        // Entities that spawn or die between the frames keep their own pose.
+        for (const item of view[list.key] as unknown as Array<Record<string, number>>) {
+          const row = nextRowById.get(item.id);
+          if (row === undefined) {
+            continue;
+          }
+          for (const field of list.interpolatedFields) {
+            const to = list.pool[row * stride + field.fieldIndex];
+            item[field.key] = field.isAngle
+              ? lerpAngle(item[field.key], to, t)
+              : lerp(item[field.key], to, t);
+          }
+        }
+      }
+      return view;
+    },
+    trim() {
+      resizeFrames(Math.max(1, frameCount));
+      for (const list of listColumns) {
+        list.pool = resizeTyped(list.pool, Math.max(1, list.itemCount * list.fields.length));
+      }
+    },
+    byteLength() {
+      let bytes = shipColumn.byteLength;
+      for (const column of scalarColumns) {
+        bytes += column.values.byteLength;
+      }
+      for (const list of listColumns) {
+        bytes += list.offsets.byteLength + list.pool.byteLength;
+      }
+      return bytes;
+    }
+  };
+}
+
+function lerp(from: number, to: number, t: number): number {
+  return from + (to - from) * t;
+}
+
+function lerpAngle(from: number, to: number, t: number): number {
+  const delta = Math.atan2(Math.sin(to - from), Math.cos(to - from));
+  return from + delta * t;
+}
+
+function createView(): SimulationSnapshot {
+  const view: Record<string, unknown> = {
+    ship: { x: 0, y: 0, z: 0 }
+  };
+  for (const key of LIST_KEYS) {
+    view[key] = [];
+  }
+  return view as unknown as SimulationSnapshot;
+}
+
+function toFieldEntries(schema: Record<string, StoredKind>): FieldEntry[] {
+  return Object.entries(schema).map(([key, kind]) => ({ key, kind }));
+}
+
+function resizeTyped<T extends Float32Array | Float64Array | Uint32Array>(source: T, length: number): T {
+  const constructor = source.constructor as new (length: number) => T;
+  const next = new constructor(length);
+  next.set(source.length > length ? source.subarray(0, length) : source);
+  return next;
+}
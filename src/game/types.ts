@@ -15,11 +15,25 @@ export type EnemyPattern =
 	| "triangleRibbon"
 	| "triangleBankedZig"
 	| "triangleDiveRecover"
-	| "triangleCorkscrew";
+	| "triangleCorkscrew"
+	| "bossHover";
+
+// ── Enemy fire patterns ────────────────────────────────────────────
+
+export type EnemyFirePattern =
+	| "aimedBurst"
+	| "aimedStream"
+	| "fan"
+	| "ring"
+	| "spiral"
+	| "curving";
 
 // ── Cue weapon identifiers ─────────────────────────────────────────
 
-export type CueWeaponId = "blue" | "yellow" | "green" | "purple" | "orange";
+export type BuiltInCueWeaponId = "blue" | "yellow" | "green" | "purple" | "orange";
+
+/** Open so custom weapons can register their own ids; built-ins still autocomplete. */
+export type CueWeaponId = BuiltInCueWeaponId | (string & {});
 
 // ── Entity types ───────────────────────────────────────────────────
 
@@ -43,6 +57,12 @@ export type Enemy = {
 	cuePrimed: boolean;
 	damageFlash: number;
 	hasEnteredView: boolean;
+	/** Ordinary hits left; starts at the archetype's `hitPoints`. */
+	hitPoints: number;
+	/** Extra y at spawn that eases out, for waves entering from the top or bottom. */
+	entryOffsetY?: number;
+	/** Volleys fired so far; cycles fire patterns and turns spirals. */
+	volleyIndex?: number;
 };
 
 export type Projectile = {
@@ -89,6 +109,12 @@ export type EnemyProjectile = {
 	ageSeconds: number;
 	maxLifetimeSeconds: number;
 	radius: number;
+	/** Radians per second the heading turns; curving shots only. */
+	angularVelocity?: number;
+	/** Speed gained per second along the heading. */
+	acceleration?: number;
+	/** Age at which turning and acceleration start; flies straight until then. */
+	curveDelaySeconds?: number;
 };
 
 export type Explosion = {
@@ -110,10 +136,88 @@ export type LaserBeam = {
 	lifetimeSeconds: number;
 };
 
+// ── Cue judgements ─────────────────────────────────────────────────
+
+export type CueJudgement = "perfect" | "great" | "good" | "miss";
+
+/** A judgement label floating up from where its cue resolved. */
+export type JudgementPopup = {
+	id: number;
+	judgement: CueJudgement;
+	x: number;
+	y: number;
+	ageSeconds: number;
+	lifetimeSeconds: number;
+};
+
+// ── Power-ups ──────────────────────────────────────────────────────
+
+export type PowerUpKind =
+	| "purpleMissiles"
+	| "spreadShot"
+	| "shieldRecharge"
+	| "scoreMultiplier";
+
+/** A pickup drifting left from where its enemy died. */
+export type PowerUp = {
+	id: number;
+	kind: PowerUpKind;
+	x: number;
+	y: number;
+	z: number;
+	vx: number;
+	ageSeconds: number;
+	maxLifetimeSeconds: number;
+	radius: number;
+};
+
+// ── Boss encounters ────────────────────────────────────────────────
+
+export type BossEncounter = {
+	enemyId: number;
+	/** Remaining cue hits. */
+	health: number;
+	maxHealth: number;
+	/** 0 while flying in, then 1..3 as health drops; each phase fires harder patterns. */
+	phase: number;
+	patternCursor: number;
+	nextPatternTimeSeconds: number;
+	/** The boss leaves undefeated at this time. */
+	departTimeSeconds: number;
+	departing: boolean;
+};
+
+// ── Wave scripts ───────────────────────────────────────────────────
+
+export type WaveFormation = "single" | "line" | "column" | "vee" | "ring";
+
+export type WaveEntrySide = "right" | "top" | "bottom";
+
+/** An authored wave resolved to track time, as the sim consumes it. */
+export type ScriptedWave = {
+	timeSeconds: number;
+	archetype: EnemyArchetypeId;
+	/** Null picks the archetype's ambient pattern. */
+	pattern: EnemyPattern | null;
+	formation: WaveFormation;
+	entry: WaveEntrySide;
+	count: number;
+	/** Formation center; 0 is mid-screen. */
+	y: number;
+	/** Procedural spawning waits this long after the wave. */
+	holdSeconds: number;
+};
+
 // ── Cue scheduling ─────────────────────────────────────────────────
 
+/** Onset band a cue came from: low ≈ kick, mid ≈ snare, high ≈ hats. */
+export type CueBand = "low" | "mid" | "high";
+
 export type ScheduledCue = {
 	timeSeconds: number;
+	band: CueBand | null;
+	/** Authored 0..1 strength; null when the cue carries none. */
+	strength: number | null;
 	planned: boolean;
 	assignedEnemyId: number | null;
 	assignedWeapon: CueWeaponId | null;
@@ -139,10 +243,53 @@ export type IntensitySample = {
 	intensity: number;
 };
 
+/** Mean spectrum energy (0..1) per cue band, in track time. */
+export type SpectrumBandSample = {
+	timeSeconds: number;
+	low: number;
+	mid: number;
+	high: number;
+};
+
 // ── Mood ───────────────────────────────────────────────────────────
 
 export type MoodProfile = "calm" | "driving" | "aggressive";
 
+/** One windowed mood classification in track time. */
+export type MoodSample = {
+	timeSeconds: number;
+	label: MoodProfile;
+	confidence: number;
+};
+
+// ── Song structure ─────────────────────────────────────────────────
+
+export type SectionKind =
+	| "intro"
+	| "verse"
+	| "build"
+	| "drop"
+	| "breakdown"
+	| "outro";
+
+/** A labeled song section in track time; energy is 0..1 relative to the track. */
+export type StructureSection = {
+	startSeconds: number;
+	endSeconds: number;
+	label: SectionKind;
+	energy: number;
+};
+
+// ── Ship control ───────────────────────────────────────────────────
+
+export type ShipControlMode = "auto" | "manual" | "assist";
+
+/** Normalized stick/keyboard input, each axis in -1..1 (+y is up). */
+export type ShipControlInput = {
+	moveX: number;
+	moveY: number;
+};
+
 // ── Combat pressure ────────────────────────────────────────────────
 
 export type CombatPressureTuning = {
@@ -171,12 +318,27 @@ export type SimulationState = {
 	recentEdgeSideY: number;
 	recentEdgeCooldownSeconds: number;
 	shipShieldAlpha: number;
+	shipHull: number;
+	shipShield: number;
+	shipShieldRegenDelaySeconds: number;
+	shipInvulnerableSeconds: number;
+	isGameOver: boolean;
+	gameOverTimeSeconds: number | null;
+	controlMode: ShipControlMode;
+	controlInputX: number;
+	controlInputY: number;
 	enemies: Enemy[];
 	projectiles: Projectile[];
 	missiles: PurpleMissile[];
 	enemyProjectiles: EnemyProjectile[];
 	laserBeams: LaserBeam[];
 	explosions: Explosion[];
+	powerUps: PowerUp[];
+	nextPowerUpId: number;
+	/** Sim time each collected timed power-up runs out. */
+	activePowerUps: Partial<Record<PowerUpKind, number>>;
+	/** Weapons lent by power-ups, enabled until the given sim time. */
+	weaponGrants: Partial<Record<CueWeaponId, number>>;
 	nextEnemySpawnTime: number;
 	nextPlayerFireTime: number;
 	spawnIndex: number;
@@ -193,6 +355,18 @@ export type SimulationState = {
 	nextLaserFireTime: number;
 	cueTimeline: ScheduledCue[];
 	cueStartOffsetSeconds: number;
+	barTimeline: number[];
+	sectionTimeline: StructureSection[];
+	nextBarIndex: number;
+	deferredBarWaveArchetype: EnemyArchetypeId | null;
+	bossEncounter: BossEncounter | null;
+	/** Seconds the relative intensity has stayed at boss-peak level. */
+	bossPeakSeconds: number;
+	nextBossAllowedTimeSeconds: number;
+	waveScript: ScriptedWave[];
+	nextScriptedWaveIndex: number;
+	/** Procedural spawns are held back until this sim time. */
+	scriptedSpawnHoldUntilSeconds: number;
 	cueResolvedCount: number;
 	cueMissedCount: number;
 	cumulativeCueErrorMs: number;
@@ -200,12 +374,19 @@ export type SimulationState = {
 	plannedPurpleMissileShots: PlannedPurpleMissileShot[];
 	score: number;
 	combo: number;
+	judgementCounts: Record<CueJudgement, number>;
+	judgementPopups: JudgementPopup[];
+	nextJudgementPopupId: number;
 	intensityTimeline: IntensitySample[];
+	spectrumBandTimeline: SpectrumBandSample[];
 	intensityFloor: number;
 	intensityCeil: number;
 	moodProfile: MoodProfile;
+	moodTimeline: MoodSample[];
 	randomSeed: number;
 	rng: () => number;
+	/** Drops roll on their own stream so pickups never shift the rest of a seeded run. */
+	powerUpRng: () => number;
 };
 
 // ── Simulation snapshot (public data contract) ─────────────────────
@@ -221,12 +402,15 @@ export type SimulationSnapshot = {
 	enemyCount: number;
 	projectileCount: number;
 	enemies: Array<{
+		id: number;
 		x: number;
 		y: number;
 		z: number;
 		rotationZ: number;
 		damageFlash: number;
 		archetype: EnemyArchetypeId;
+		/** Remaining health or armor as a fraction; always 1 for one-hit enemies. */
+		health: number;
 	}>;
 	projectiles: Array<{
 		id: number;
@@ -277,19 +461,56 @@ export type SimulationSnapshot = {
 		variant: number;
 		power: number;
 	}>;
+	powerUps: Array<{
+		id: number;
+		x: number;
+		y: number;
+		z: number;
+		kind: PowerUpKind;
+		ageSeconds: number;
+		maxLifetimeSeconds: number;
+	}>;
+	activePowerUps: Array<{
+		kind: PowerUpKind;
+		remainingSeconds: number;
+	}>;
+	scoreMultiplier: number;
+	judgementPopups: Array<{
+		id: number;
+		x: number;
+		y: number;
+		z: number;
+		judgement: CueJudgement;
+		ageSeconds: number;
+		alpha: number;
+	}>;
 	shieldAlpha: number;
+	shipHull: number;
+	shipMaxHull: number;
+	shipShield: number;
+	shipMaxShield: number;
+	shipInvulnerableSeconds: number;
+	isGameOver: boolean;
+	gameOverTimeSeconds: number | null;
 	cueResolvedCount: number;
 	cueMissedCount: number;
 	avgCueErrorMs: number;
 	currentIntensity: number;
 	score: number;
 	combo: number;
+	perfectCount: number;
+	greatCount: number;
+	goodCount: number;
+	/** Unresolved cues plus cues that resolved outside the Good window. */
+	judgementMissCount: number;
 	pendingCueCount: number;
 	plannedCueCount: number;
 	queuedCueShotCount: number;
 	upcomingCueWindowCount: number;
 	availableCueTargetCount: number;
 	moodProfile: "calm" | "driving" | "aggressive";
+	sectionLabel: SectionKind | null;
+	controlMode: ShipControlMode;
 	purpleMissileEnabled: boolean;
 	enemyProjectileStyle: EnemyProjectileStyle;
 };
@@ -299,11 +520,41 @@ export type SimulationSnapshot = {
 export type Simulation = {
 	step: (deltaSeconds: number) => void;
 	getSnapshot: () => SimulationSnapshot;
-	setCueTimeline: (cueTimesSeconds: number[]) => void;
-	startTrackRun: (cueTimesSeconds: number[]) => void;
+	/**
+	 * `cueBands` and `cueStrengths` are parallel to `cueTimesSeconds`; missing
+	 * entries are untagged.
+	 */
+	setCueTimeline: (
+		cueTimesSeconds: number[],
+		cueBands?: Array<CueBand | null>,
+		cueStrengths?: Array<number | null>,
+	) => void;
+	startTrackRun: (
+		cueTimesSeconds: number[],
+		cueBands?: Array<CueBand | null>,
+		cueStrengths?: Array<number | null>,
+	) => void;
+	/**
+	 * Streams more cues into the running timeline without resetting progress.
+	 * Times are run-relative like `setCueTimeline`; cues already due are dropped.
+	 */
+	appendCueTimeline: (
+		cueTimesSeconds: number[],
+		cueBands?: Array<CueBand | null>,
+		cueStrengths?: Array<number | null>,
+	) => void;
+	setBarTimeline: (barTimesSeconds: number[]) => void;
+	setSectionTimeline: (sections: StructureSection[]) => void;
+	/** Authored waves in track time; procedural spawning fills the gaps. */
+	setWaveScript: (waves: ScriptedWave[]) => void;
 	setIntensityTimeline: (samples: IntensitySample[]) => void;
+	/** Band energies that shape enemy emitter patterns; neutral when empty. */
+	setSpectrumBandTimeline: (samples: SpectrumBandSample[]) => void;
 	setRandomSeed: (seed: number) => void;
 	setMoodProfile: (mood: MoodProfile) => void;
+	setMoodTimeline: (samples: MoodSample[]) => void;
+	setControlMode: (mode: ShipControlMode) => void;
+	setControlInput: (input: ShipControlInput) => void;
 	setEnemyBulletRatio: (ratio: number) => void;
 	setShipWeapons: (weapons: Partial<import("./combatConfig").ShipWeaponsConfig>) => void;
 	setEnemyRoster: (roster: Partial<import("./combatConfig").EnemyRosterConfig>) => void;
@@ -1,4 +1,13 @@
-import type { Enemy, MoodProfile, SimulationState } from "./types";
+import type {
+	CueWeaponId,
+	Enemy,
+	EnemyProjectile,
+	MoodProfile,
+	MoodSample,
+	PowerUpKind,
+	SimulationState,
+	StructureSection,
+} from "./types";
 import { LASER_MAX_TARGET_X } from "./constants";
 
 // ── Math utilities ─────────────────────────────────────────────────
@@ -7,6 +16,10 @@ export function clamp(value: number, min: number, max: number): number {
 	return Math.max(min, Math.min(max, value));
 }
 
+export function lerp(from: number, to: number, t: number): number {
+	return from + (to - from) * t;
+}
+
 export function samplePercentile(values: number[], percentile: number): number {
 	if (values.length === 0) {
 		return 0;
@@ -98,6 +111,74 @@ export function findBestTarget(
 
 // ── Intensity timeline ─────────────────────────────────────────────
 
+/** Seconds since the active cue/bar/section timelines started. */
+export function getTrackTimeSeconds(state: SimulationState): number {
+	return state.simTimeSeconds - state.cueStartOffsetSeconds;
+}
+
+export type SpectrumBands = {
+	low: number;
+	mid: number;
+	high: number;
+};
+
+const NEUTRAL_SPECTRUM_BANDS: SpectrumBands = { low: 0.5, mid: 0.5, high: 0.5 };
+
+/** Band energies at a track time, interpolated; neutral without a timeline. */
+export function getSpectrumBandsAtTime(
+	state: SimulationState,
+	trackTimeSeconds: number,
+): SpectrumBands {
+	const timeline = state.spectrumBandTimeline;
+	if (timeline.length === 0) {
+		return NEUTRAL_SPECTRUM_BANDS;
+	}
+	if (trackTimeSeconds <= timeline[0].timeSeconds) {
+		return timeline[0];
+	}
+	const last = timeline[timeline.length - 1];
+	if (trackTimeSeconds >= last.timeSeconds) {
+		return last;
+	}
+
+	// Binary search: emitters sample this every volley across long tracks.
+	let lo = 0;
+	let hi = timeline.length - 1;
+	while (hi - lo > 1) {
+		const mid = (lo + hi) >> 1;
+		if (timeline[mid].timeSeconds <= trackTimeSeconds) {
+			lo = mid;
+		} else {
+			hi = mid;
+		}
+	}
+	const prev = timeline[lo];
+	const next = timeline[hi];
+	const t =
+		(trackTimeSeconds - prev.timeSeconds) /
+		Math.max(next.timeSeconds - prev.timeSeconds, 1e-6);
+	return {
+		low: lerp(prev.low, next.low, t),
+		mid: lerp(prev.mid, next.mid, t),
+		high: lerp(prev.high, next.high, t),
+	};
+}
+
+export function getSectionAtTime(
+	state: SimulationState,
+	trackTimeSeconds: number,
+): StructureSection | null {
+	for (const section of state.sectionTimeline) {
+		if (
+			trackTimeSeconds >= section.startSeconds &&
+			trackTimeSeconds < section.endSeconds
+		) {
+			return section;
+		}
+	}
+	return null;
+}
+
 export function getIntensityAtTime(
 	state: SimulationState,
 	timeSeconds: number,
@@ -182,12 +263,113 @@ export function moodParameters(mood: MoodProfile): MoodParameters {
 	};
 }
 
+/**
+ * Mood parameters at the current track time. With a mood timeline the
+ * presets are interpolated between neighbouring samples, and low-confidence
+ * samples are pulled toward the neutral "driving" preset.
+ */
+export function getMoodParameters(state: SimulationState): MoodParameters {
+	const timeline = state.moodTimeline;
+	if (timeline.length === 0) {
+		return moodParameters(state.moodProfile);
+	}
+
+	const trackTime = getTrackTimeSeconds(state);
+	if (trackTime <= timeline[0].timeSeconds) {
+		return sampleMoodParameters(timeline[0]);
+	}
+	const last = timeline[timeline.length - 1];
+	if (trackTime >= last.timeSeconds) {
+		return sampleMoodParameters(last);
+	}
+
+	for (let i = 1; i < timeline.length; i += 1) {
+		const next = timeline[i];
+		if (trackTime > next.timeSeconds) {
+			continue;
+		}
+		const prev = timeline[i - 1];
+		const span = Math.max(next.timeSeconds - prev.timeSeconds, 1e-6);
+		return blendMoodParameters(
+			sampleMoodParameters(prev),
+			sampleMoodParameters(next),
+			(trackTime - prev.timeSeconds) / span,
+		);
+	}
+
+	return sampleMoodParameters(last);
+}
+
+/** The mood label whose sample is closest to the current track time. */
+export function getMoodProfileAtTime(state: SimulationState): MoodProfile {
+	const timeline = state.moodTimeline;
+	if (timeline.length === 0) {
+		return state.moodProfile;
+	}
+	const trackTime = getTrackTimeSeconds(state);
+	let nearest = timeline[0];
+	for (const sample of timeline) {
+		if (
+			Math.abs(sample.timeSeconds - trackTime) <
+			Math.abs(nearest.timeSeconds - trackTime)
+		) {
+			nearest = sample;
+		}
+	}
+	return nearest.label;
+}
+
+function sampleMoodParameters(sample: MoodSample): MoodParameters {
+	return blendMoodParameters(
+		moodParameters("driving"),
+		moodParameters(sample.label),
+		0.5 + clamp(sample.confidence, 0, 1) * 0.5,
+	);
+}
+
+function blendMoodParameters(
+	from: MoodParameters,
+	to: MoodParameters,
+	t: number,
+): MoodParameters {
+	return {
+		enemySpeedScale: lerp(from.enemySpeedScale, to.enemySpeedScale, t),
+		spawnIntervalScale: lerp(from.spawnIntervalScale, to.spawnIntervalScale, t),
+		enemyFireIntervalScale: lerp(
+			from.enemyFireIntervalScale,
+			to.enemyFireIntervalScale,
+			t,
+		),
+		enemyBulletRateScale: lerp(
+			from.enemyBulletRateScale,
+			to.enemyBulletRateScale,
+			t,
+		),
+		playerFireIntervalScale: lerp(
+			from.playerFireIntervalScale,
+			to.playerFireIntervalScale,
+			t,
+		),
+	};
+}
+
 // ── Enemy movement patterns ────────────────────────────────────────
 
+const ENEMY_ENTRY_EASE_SECONDS = 1.6;
+
 export function resolveEnemyPatternY(
 	enemy: Enemy,
 	ageSeconds: number,
 ): number {
+	const patternY = resolvePatternBaseY(enemy, ageSeconds);
+	if (!enemy.entryOffsetY) {
+		return patternY;
+	}
+	const remaining = 1 - clamp(ageSeconds / ENEMY_ENTRY_EASE_SECONDS, 0, 1);
+	return patternY + enemy.entryOffsetY * remaining * remaining * remaining;
+}
+
+function resolvePatternBaseY(enemy: Enemy, ageSeconds: number): number {
 	const effectiveAge = Math.max(0, ageSeconds - enemy.pathAgeOffsetSeconds);
 	if (enemy.pattern === "straight") {
 		return enemy.baseY;
@@ -259,6 +441,14 @@ export function resolveEnemyPatternY(
 		);
 	}
 
+	if (enemy.pattern === "bossHover") {
+		return (
+			enemy.baseY +
+			Math.sin(enemy.phase + effectiveAge * enemy.frequency) * enemy.amplitude +
+			Math.sin(effectiveAge * enemy.frequency * 2.3) * (enemy.amplitude * 0.22)
+		);
+	}
+
 	if (enemy.pattern === "triangleCorkscrew") {
 		return (
 			enemy.baseY +
@@ -287,6 +477,123 @@ export function predictEnemyPosition(
 	return { x, y: resolveEnemyPatternY(enemy, age) };
 }
 
+// ── Enemy projectile motion ────────────────────────────────────────
+
+/** Shots that turn or accelerate, which straight-line prediction misses. */
+export function isCurvedProjectile(projectile: EnemyProjectile): boolean {
+	return (
+		(projectile.angularVelocity ?? 0) !== 0 ||
+		(projectile.acceleration ?? 0) !== 0
+	);
+}
+
+/** Ages and moves an enemy projectile, steering curving shots after their delay. */
+export function stepEnemyProjectile(
+	projectile: EnemyProjectile,
+	deltaSeconds: number,
+): void {
+	projectile.ageSeconds += deltaSeconds;
+	const steerSeconds = clamp(
+		projectile.ageSeconds - (projectile.curveDelaySeconds ?? 0),
+		0,
+		deltaSeconds,
+	);
+	if (steerSeconds > 0 && isCurvedProjectile(projectile)) {
+		const heading =
+			Math.atan2(projectile.vy, projectile.vx) +
+			(projectile.angularVelocity ?? 0) * steerSeconds;
+		const speed = Math.max(
+			0,
+			Math.hypot(projectile.vx, projectile.vy) +
+				(projectile.acceleration ?? 0) * steerSeconds,
+		);
+		projectile.vx = Math.cos(heading) * speed;
+		projectile.vy = Math.sin(heading) * speed;
+	}
+	projectile.x += projectile.vx * deltaSeconds;
+	projectile.y += projectile.vy * deltaSeconds;
+}
+
+/**
+ * Closed-form position `dt` seconds ahead. Exact for shots that only turn or
+ * only accelerate; shots doing both follow the arc at their mean speed, which
+ * stays close over a dodge horizon.
+ */
+export function predictEnemyProjectilePosition(
+	projectile: EnemyProjectile,
+	dt: number,
+): { x: number; y: number } {
+	if (!isCurvedProjectile(projectile)) {
+		return {
+			x: projectile.x + projectile.vx * dt,
+			y: projectile.y + projectile.vy * dt,
+		};
+	}
+
+	const straightSeconds = clamp(
+		(projectile.curveDelaySeconds ?? 0) - projectile.ageSeconds,
+		0,
+		dt,
+	);
+	let x = projectile.x + projectile.vx * straightSeconds;
+	let y = projectile.y + projectile.vy * straightSeconds;
+	const curveSeconds = dt - straightSeconds;
+	if (curveSeconds <= 0) {
+		return { x, y };
+	}
+
+	const heading = Math.atan2(projectile.vy, projectile.vx);
+	const speed = Math.max(
+		0,
+		Math.hypot(projectile.vx, projectile.vy) +
+			(projectile.acceleration ?? 0) * curveSeconds * 0.5,
+	);
+	const turnRate = projectile.angularVelocity ?? 0;
+	if (Math.abs(turnRate) < 1e-4) {
+		x += Math.cos(heading) * speed * curveSeconds;
+		y += Math.sin(heading) * speed * curveSeconds;
+		return { x, y };
+	}
+	const radius = speed / turnRate;
+	const endHeading = heading + turnRate * curveSeconds;
+	x += radius * (Math.sin(endHeading) - Math.sin(heading));
+	y -= radius * (Math.cos(endHeading) - Math.cos(heading));
+	return { x, y };
+}
+
+// ── Power-ups ──────────────────────────────────────────────────────
+
+export function isPowerUpActive(
+	state: SimulationState,
+	kind: PowerUpKind,
+): boolean {
+	return (state.activePowerUps[kind] ?? 0) > state.simTimeSeconds;
+}
+
+// Cue planning looks up to ~2.2s ahead, so a lent weapon stays live this
+// long after it stops taking cues for the ones it already took to land.
+const WEAPON_GRANT_SETTLE_SECONDS = 2.4;
+
+/** True while a power-up lends this weapon on top of the configured loadout. */
+export function isWeaponGranted(
+	state: SimulationState,
+	weaponId: CueWeaponId,
+): boolean {
+	const grantedUntil = state.weaponGrants[weaponId];
+	return (
+		grantedUntil !== undefined &&
+		grantedUntil + WEAPON_GRANT_SETTLE_SECONDS > state.simTimeSeconds
+	);
+}
+
+/** True while a lent weapon may still be assigned new cues. */
+export function isWeaponGrantAssignable(
+	state: SimulationState,
+	weaponId: CueWeaponId,
+): boolean {
+	return (state.weaponGrants[weaponId] ?? 0) > state.simTimeSeconds;
+}
+
 // ── Ship prediction ────────────────────────────────────────────────
 
 const SHIP_MIN_X = -19.8;
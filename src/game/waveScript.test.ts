@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { parseWaveScript, resolveWaveScript } from "./waveScript";
+
+const timing = {
+  beatTimesSeconds: [0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5],
+  barTimesSeconds: [0, 2]
+};
+
+describe("wave script", () => {
+  it("places bar, beat and seconds anchors on the track clock with defaults", () => {
+    const script = parseWaveScript({
+      waves: [
+        { bar: 2, archetype: "greenTriangle", formation: "ring", count: 20, y: 14 },
+        { beat: 2.5, archetype: "redCube", pattern: "zigzag", entry: "top" },
+        { seconds: 0.25, archetype: "redCube", formation: "line", holdSeconds: 4 },
+        { bar: 4.5, archetype: "redCube" }
+      ]
+    });
+
+    expect(resolveWaveScript(script, timing)).toEqual([
+      {
+        timeSeconds: 0.25,
+        archetype: "redCube",
+        pattern: null,
+        formation: "line",
+        entry: "right",
+        count: 3,
+        y: 0,
+        holdSeconds: 4
+      },
+      {
+        timeSeconds: 0.75,
+        archetype: "redCube",
+        pattern: "zigzag",
+        formation: "single",
+        entry: "top",
+        count: 1,
+        y: 0,
+        holdSeconds: 1.5
+      },
+      {
+        timeSeconds: 2,
+        archetype: "greenTriangle",
+        pattern: null,
+        formation: "ring",
+        entry: "right",
+        count: 12,
+        y: 9,
+        holdSeconds: 1.5
+      },
+      {
+        timeSeconds: 7,
+        archetype: "redCube",
+        pattern: null,
+        formation: "single",
+        entry: "right",
+        count: 1,
+        y: 0,
+        holdSeconds: 1.5
+      }
+    ]);
+  });
+
+  it("drops grid anchors when the track has no beat grid", () => {
+    const script = parseWaveScript({
+      waves: [
+        { bar: 1, archetype: "redCube" },
+        { seconds: 1, archetype: "redCube" }
+      ]
+    });
+
+    expect(
+      resolveWaveScript(script, { beatTimesSeconds: [], barTimesSeconds: [] }).map((wave) => wave.timeSeconds)
+    ).toEqual([1]);
+  });
+
+  it("rejects waves that are ambiguous or name unknown values", () => {
+    expect(() => parseWaveScript({})).toThrow(/missing waves/);
+    expect(() => parseWaveScript({ waves: [{ bar: 1, seconds: 2, archetype: "redCube" }] })).toThrow(
+      /wave 1 needs exactly one/
+    );
+    expect(() => parseWaveScript({ waves: [{ beat: 0, archetype: "redCube" }] })).toThrow(/invalid beat/);
+    expect(() =>
+      parseWaveScript({ waves: [{ seconds: 1, archetype: "redCube", pattern: "loop" }] })
+    ).toThrow(/unknown pattern "loop"/);
+    expect(() =>
+      parseWaveScript({ waves: [{ seconds: 1, archetype: "greenTriangle", pattern: "bossHover" }] })
+    ).toThrow(/unknown pattern "bossHover" for greenTriangle/);
+    expect(() =>
+      parseWaveScript({ waves: [{ seconds: 1, archetype: "redCube", formation: "blob" }] })
+    ).toThrow(/unknown formation/);
+  });
+});
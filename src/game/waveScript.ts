@@ -0,0 +1,167 @@
+import { ENEMY_ARCHETYPE_DEFINITIONS, type EnemyArchetypeId } from "./combatConfig";
+import { getEnemyModule } from "./enemies/registry";
+import type {
+	EnemyPattern,
+	ScriptedWave,
+	WaveEntrySide,
+	WaveFormation,
+} from "./types";
+import { clamp } from "./utils";
+
+const WAVE_FORMATIONS: WaveFormation[] = ["single", "line", "column", "vee", "ring"];
+const WAVE_ENTRY_SIDES: WaveEntrySide[] = ["right", "top", "bottom"];
+const MAX_WAVE_COUNT = 12;
+const MAX_WAVE_Y = 9;
+const MAX_HOLD_SECONDS = 30;
+const DEFAULT_HOLD_SECONDS = 1.5;
+
+/**
+ * One authored wave. Exactly one of `seconds`, `bar` or `beat` places it;
+ * bars and beats count from 1 like a DAW ruler, and fractions land between
+ * grid lines (`bar: 9.5` is halfway through bar 9).
+ */
+export type WaveScriptEntry = {
+	seconds?: number;
+	bar?: number;
+	beat?: number;
+	archetype: EnemyArchetypeId;
+	pattern?: EnemyPattern;
+	formation?: WaveFormation;
+	entry?: WaveEntrySide;
+	count?: number;
+	y?: number;
+	holdSeconds?: number;
+};
+
+/** Hand-authored choreography for one song, stored in its analysis file. */
+export type WaveScript = {
+	waves: WaveScriptEntry[];
+};
+
+export type WaveScriptTiming = {
+	beatTimesSeconds: number[];
+	barTimesSeconds: number[];
+};
+
+/** Validates a wave script read from JSON. Throws on the first bad wave. */
+export function parseWaveScript(value: unknown): WaveScript {
+	if (!isRecord(value) || !Array.isArray(value.waves)) {
+		throw new Error("Invalid wave script: missing waves");
+	}
+	const waves = value.waves.map((entry, index): WaveScriptEntry => {
+		const fail = (reason: string): never => {
+			throw new Error(`Invalid wave script: wave ${index + 1} ${reason}`);
+		};
+		if (!isRecord(entry)) {
+			return fail("is not an object");
+		}
+		const anchors = (["seconds", "bar", "beat"] as const).filter(
+			(key) => entry[key] !== undefined,
+		);
+		if (anchors.length !== 1) {
+			return fail("needs exactly one of seconds, bar or beat");
+		}
+		const anchor = anchors[0];
+		const position = entry[anchor];
+		if (
+			typeof position !== "number" ||
+			!Number.isFinite(position) ||
+			position < (anchor === "seconds" ? 0 : 1)
+		) {
+			return fail(`has an invalid ${anchor}`);
+		}
+		const archetype = entry.archetype;
+		if (typeof archetype !== "string" || !(archetype in ENEMY_ARCHETYPE_DEFINITIONS)) {
+			return fail(`has unknown archetype ${JSON.stringify(archetype)}`);
+		}
+		const archetypePatterns: readonly string[] =
+			getEnemyModule(archetype as EnemyArchetypeId)?.patterns ?? [];
+		if (entry.pattern !== undefined && !archetypePatterns.includes(String(entry.pattern))) {
+			return fail(`has unknown pattern ${JSON.stringify(entry.pattern)} for ${archetype}`);
+		}
+		if (
+			entry.formation !== undefined &&
+			!WAVE_FORMATIONS.includes(entry.formation as WaveFormation)
+		) {
+			return fail(`has unknown formation ${JSON.stringify(entry.formation)}`);
+		}
+		if (entry.entry !== undefined && !WAVE_ENTRY_SIDES.includes(entry.entry as WaveEntrySide)) {
+			return fail(`has unknown entry side ${JSON.stringify(entry.entry)}`);
+		}
+		for (const key of ["count", "y", "holdSeconds"] as const) {
+			const field = entry[key];
+			if (field !== undefined && (typeof field !== "number" || !Number.isFinite(field))) {
+				return fail(`has an invalid ${key}`);
+			}
+		}
+
+		return {
+			[anchor]: position,
+			archetype: archetype as EnemyArchetypeId,
+			pattern: entry.pattern as EnemyPattern | undefined,
+			formation: entry.formation as WaveFormation | undefined,
+			entry: entry.entry as WaveEntrySide | undefined,
+			count: entry.count as number | undefined,
+			y: entry.y as number | undefined,
+			holdSeconds: entry.holdSeconds as number | undefined,
+		};
+	});
+
+	return { waves };
+}
+
+/**
+ * Places every wave on the track clock and fills in defaults. Bar and beat
+ * anchors past the end of the grid continue at its last spacing; without a
+ * grid they are dropped.
+ */
+export function resolveWaveScript(
+	script: WaveScript,
+	timing: WaveScriptTiming,
+): ScriptedWave[] {
+	const resolved: ScriptedWave[] = [];
+	for (const wave of script.waves) {
+		const timeSeconds =
+			wave.seconds ??
+			(wave.bar !== undefined
+				? timeAtGridPosition(timing.barTimesSeconds, wave.bar)
+				: timeAtGridPosition(timing.beatTimesSeconds, wave.beat ?? 1));
+		if (timeSeconds === null) {
+			continue;
+		}
+		const formation = wave.formation ?? "single";
+		resolved.push({
+			timeSeconds,
+			archetype: wave.archetype,
+			pattern: wave.pattern ?? null,
+			formation,
+			entry: wave.entry ?? "right",
+			count:
+				formation === "single"
+					? 1
+					: clamp(Math.round(wave.count ?? 3), 1, MAX_WAVE_COUNT),
+			y: clamp(wave.y ?? 0, -MAX_WAVE_Y, MAX_WAVE_Y),
+			holdSeconds: clamp(wave.holdSeconds ?? DEFAULT_HOLD_SECONDS, 0, MAX_HOLD_SECONDS),
+		});
+	}
+	// Stable sort keeps authoring order for waves on the same grid line.
+	return resolved.sort((a, b) => a.timeSeconds - b.timeSeconds);
+}
+
+function timeAtGridPosition(times: number[], position: number): number | null {
+	if (times.length === 0) {
+		return null;
+	}
+	const index = position - 1;
+	const last = times.length - 1;
+	if (last === 0) {
+		return index === 0 ? times[0] : null;
+	}
+	const base = Math.min(Math.floor(index), last - 1);
+	const spacing = times[base + 1] - times[base];
+	return times[base] + (index - base) * spacing;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -3,8 +3,9 @@ import {
 	clamp,
 	getEnemyById,
 	getIntensityAtTime,
+	getMoodParameters,
 	isPlayerTargetViable,
-	moodParameters,
+	isPowerUpActive,
 	normalizeDirection,
 	predictEnemyPosition,
 } from "../utils";
@@ -20,11 +21,12 @@ const PLAYER_TARGET_LOCK_MAX_SECONDS = 0.5;
 const PLAYER_AIM_LOCKED_JITTER = 0.06;
 const PLAYER_AIM_UNLOCKED_JITTER = 0.14;
 const BLUE_LASER_FIRE_INTERVAL_MULTIPLIER = 0.5;
+const SPREAD_SHOT_ANGLE_RADIANS = 0.17;
 
 export const blueLaserModule: WeaponModule = {
 	id: "blue",
+	label: "Blue Laser",
 	assignmentWeight: 1,
-	isEnabled: (state) => state.combatConfig.shipWeapons.blueLaser,
 	planCue(state, enemy, cueTimeSeconds) {
 		queueCueShotForEnemy(
 			state,
@@ -81,13 +83,13 @@ function fireQueuedBlueShot(
 function fireProjectiles(state: SimulationState): void {
 	while (state.simTimeSeconds >= state.nextPlayerFireTime) {
 		const intensity = getIntensityAtTime(state, state.simTimeSeconds);
-		const mood = moodParameters(state.moodProfile);
+		const mood = getMoodParameters(state);
 		const interval =
 			(0.2 - intensity * 0.07) *
 			mood.playerFireIntervalScale *
 			BLUE_LASER_FIRE_INTERVAL_MULTIPLIER;
 
-		if (!state.combatConfig.shipWeapons.blueLaser) {
+		if (!state.combatConfig.shipWeapons.blue) {
 			state.lockedTargetEnemyId = null;
 			state.nextPlayerFireTime += clamp(interval, 0.05, 0.12);
 			continue;
@@ -144,19 +146,26 @@ function fireProjectiles(state: SimulationState): void {
 		state.lastPlayerAimX = directionX;
 		state.lastPlayerAimY = directionY;
 
-		state.projectiles.push({
-			id: state.nextProjectileId++,
-			x: shipX,
-			y: shipY,
-			z: 0,
-			vx: directionX * PLAYER_PROJECTILE_SPEED,
-			vy: directionY * PLAYER_PROJECTILE_SPEED,
-			ageSeconds: 0,
-			maxLifetimeSeconds: 1.45,
-			radius: 0.16,
-			isCueShot: false,
-			isFlak: false,
-		});
+		const angles = isPowerUpActive(state, "spreadShot")
+			? [0, -SPREAD_SHOT_ANGLE_RADIANS, SPREAD_SHOT_ANGLE_RADIANS]
+			: [0];
+		for (const angle of angles) {
+			const cos = Math.cos(angle);
+			const sin = Math.sin(angle);
+			state.projectiles.push({
+				id: state.nextProjectileId++,
+				x: shipX,
+				y: shipY,
+				z: 0,
+				vx: (directionX * cos - directionY * sin) * PLAYER_PROJECTILE_SPEED,
+				vy: (directionX * sin + directionY * cos) * PLAYER_PROJECTILE_SPEED,
+				ageSeconds: 0,
+				maxLifetimeSeconds: 1.45,
+				radius: 0.16,
+				isCueShot: false,
+				isFlak: false,
+			});
+		}
 
 		state.nextPlayerFireTime += clamp(interval, 0.05, 0.12);
 	}
@@ -1,12 +1,35 @@
+import type { SimulationState } from "../types";
 import type { WeaponModule } from "./types";
 
+const LASER_BEAM_LIFETIME_SECONDS = 0.26;
+
 export const greenLaserModule: WeaponModule = {
 	id: "green",
+	label: "Green Laser",
 	assignmentWeight: 1,
-	isEnabled: (state) => state.combatConfig.shipWeapons.greenLaser,
+	cueBands: ["mid"],
 	planCue: () => {
 		// Cleanup laser resolves at cue time.
 	},
+	resolveCue(state, enemy) {
+		spawnLaserBeam(state, enemy.x, enemy.y);
+		return true;
+	},
 	getCatchupLeadSeconds: (_state, baseLeadSeconds) =>
 		Math.min(0.34, Math.max(0.14, baseLeadSeconds * 0.6)),
 };
+
+function spawnLaserBeam(
+	state: SimulationState,
+	toX: number,
+	toY: number,
+): void {
+	state.laserBeams.push({
+		fromX: state.shipX + 0.4,
+		fromY: state.shipY,
+		toX,
+		toY,
+		ageSeconds: 0,
+		lifetimeSeconds: LASER_BEAM_LIFETIME_SECONDS,
+	});
+}
@@ -13,8 +13,8 @@ const ORANGE_FLAK_PELLET_RADIUS = 0.11;
 
 export const orangeFlakModule: WeaponModule = {
 	id: "orange",
+	label: "Orange Flak",
 	assignmentWeight: 2,
-	isEnabled: (state) => state.combatConfig.shipWeapons.orangeFlak,
 	planCue(state, enemy, cueTimeSeconds) {
 		queueCueShotForEnemy(
 			state,
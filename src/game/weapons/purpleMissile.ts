@@ -1,5 +1,10 @@
 import type { Enemy, PlannedPurpleMissileShot, SimulationState } from "../types";
-import { clamp, normalizeDirection, predictEnemyPosition } from "../utils";
+import {
+	clamp,
+	isWeaponGranted,
+	normalizeDirection,
+	predictEnemyPosition,
+} from "../utils";
 import type { WeaponModule } from "./types";
 
 const PURPLE_MISSILE_BASE_SPEED = 11.4;
@@ -26,11 +31,13 @@ const PURPLE_MISSILE_SIM_BUFFER_SECONDS = 0.14;
 
 export const purpleMissileModule: WeaponModule = {
 	id: "purple",
+	label: "Purple Missile",
 	assignmentWeight: 3,
-	isEnabled: (state) => state.combatConfig.shipWeapons.purpleMissile,
+	cueBands: ["low"],
 	planCue(state, enemy, cueTimeSeconds) {
 		queuePurpleMissileForEnemy(state, enemy, cueTimeSeconds);
 	},
+	primesCueTarget: true,
 	getCatchupLeadSeconds: (_state, baseLeadSeconds) =>
 		clamp(baseLeadSeconds * 2.35, 0.58, 1.76),
 	fireQueued: fireQueuedPurpleMissiles,
@@ -53,12 +60,19 @@ export function updateMissiles(state: SimulationState, deltaSeconds: number): vo
 	state.missiles = survivors;
 }
 
+/** Configured in the loadout or lent by a power-up. */
+function hasPurpleMissiles(state: SimulationState): boolean {
+	return (
+		state.combatConfig.shipWeapons.purple || isWeaponGranted(state, "purple")
+	);
+}
+
 function queuePurpleMissileForEnemy(
 	state: SimulationState,
 	enemy: Enemy,
 	cueTimeSeconds: number,
 ): void {
-	if (!state.combatConfig.shipWeapons.purpleMissile) {
+	if (!hasPurpleMissiles(state)) {
 		return;
 	}
 
@@ -120,7 +134,7 @@ function fireImmediatePurpleMissile(
 	enemy: Enemy,
 	cueTimeSeconds: number,
 ): void {
-	if (!state.combatConfig.shipWeapons.purpleMissile) {
+	if (!hasPurpleMissiles(state)) {
 		return;
 	}
 
@@ -141,7 +155,7 @@ function fireQueuedPurpleMissiles(state: SimulationState): void {
 			break;
 		}
 
-		if (state.combatConfig.shipWeapons.purpleMissile) {
+		if (hasPurpleMissiles(state)) {
 			const enemy = state.enemies.find(
 				(candidate) => candidate.id === shot.enemyId,
 			);
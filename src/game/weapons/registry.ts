@@ -1,4 +1,5 @@
-import type { CueWeaponId, SimulationState } from "../types";
+import type { CueBand, CueWeaponId, SimulationState } from "../types";
+import { isWeaponGrantAssignable, isWeaponGranted } from "../utils";
 import { blueLaserModule } from "./blueLaser";
 import { greenLaserModule } from "./greenLaser";
 import { orangeFlakModule } from "./orangeFlak";
@@ -6,13 +7,17 @@ import { purpleMissileModule } from "./purpleMissile";
 import type { WeaponModule } from "./types";
 import { yellowLaserModule } from "./yellowLaser";
 
-const weaponModules = new Map<CueWeaponId, WeaponModule>([
-	["blue", blueLaserModule],
-	["yellow", yellowLaserModule],
-	["green", greenLaserModule],
-	["purple", purpleMissileModule],
-	["orange", orangeFlakModule],
-]);
+const BUILT_IN_WEAPON_MODULES: WeaponModule[] = [
+	blueLaserModule,
+	yellowLaserModule,
+	greenLaserModule,
+	purpleMissileModule,
+	orangeFlakModule,
+];
+
+const weaponModules = new Map<CueWeaponId, WeaponModule>(
+	BUILT_IN_WEAPON_MODULES.map((module) => [module.id, module]),
+);
 
 export function getWeaponModule(id: CueWeaponId): WeaponModule | undefined {
 	return weaponModules.get(id);
@@ -22,11 +27,67 @@ export function getWeaponModules(): WeaponModule[] {
 	return Array.from(weaponModules.values());
 }
 
+/**
+ * Adds or replaces a cue weapon. Custom weapons are off until their id is
+ * enabled in `combatConfig.shipWeapons` (or they provide `isEnabled`).
+ * The precompute worker only knows the built-ins, so while any weapon is
+ * registered here precomputed runs are stepped on the main thread.
+ */
+export function registerWeaponModule(module: WeaponModule): void {
+	weaponModules.set(module.id, module);
+}
+
+export function unregisterWeaponModule(id: CueWeaponId): void {
+	weaponModules.delete(id);
+}
+
+/** Drops custom weapons and restores replaced built-ins. */
+export function resetWeaponModules(): void {
+	weaponModules.clear();
+	for (const module of BUILT_IN_WEAPON_MODULES) {
+		weaponModules.set(module.id, module);
+	}
+}
+
+/** True once a weapon was added, replaced or removed. */
+export function hasCustomWeaponModules(): boolean {
+	return (
+		weaponModules.size !== BUILT_IN_WEAPON_MODULES.length ||
+		BUILT_IN_WEAPON_MODULES.some(
+			(module) => weaponModules.get(module.id) !== module,
+		)
+	);
+}
+
+function isModuleEnabled(state: SimulationState, module: WeaponModule): boolean {
+	return isModuleConfigured(state, module) || isWeaponGranted(state, module.id);
+}
+
+function isModuleConfigured(
+	state: SimulationState,
+	module: WeaponModule,
+): boolean {
+	return module.isEnabled
+		? module.isEnabled(state)
+		: state.combatConfig.shipWeapons[module.id] === true;
+}
+
+/** Power-up weapons stop taking cues before they run out; see `isWeaponGranted`. */
+function isModuleAssignable(
+	state: SimulationState,
+	module: WeaponModule,
+): boolean {
+	return (
+		isModuleConfigured(state, module) ||
+		isWeaponGrantAssignable(state, module.id)
+	);
+}
+
 export function getEnabledWeaponModules(
 	state: SimulationState,
 ): WeaponModule[] {
 	return getWeaponModules().filter(
-		(module) => module.isEnabled(state) && module.assignmentWeight > 0,
+		(module) => isModuleEnabled(state, module) && module.assignmentWeight > 0,
 	);
 }
 
@@ -35,26 +96,35 @@ export function isWeaponEnabled(
 	weaponId: CueWeaponId,
 ): boolean {
 	const module = weaponModules.get(weaponId);
-	return module ? module.isEnabled(state) : false;
+	return module ? isModuleEnabled(state, module) : false;
 }
 
 export function selectCueWeaponForAssignment(
 	state: SimulationState,
+	band: CueBand | null = null,
 ): WeaponModule | null {
 	const pool: WeaponModule[] = [];
+	const bandPool: WeaponModule[] = [];
 	for (const module of weaponModules.values()) {
-		if (!module.isEnabled(state)) {
+		if (!isModuleAssignable(state, module)) {
 			continue;
 		}
 		const weight = Math.max(0, Math.floor(module.assignmentWeight));
+		const claimsBand = band !== null && module.cueBands?.includes(band) === true;
 		for (let i = 0; i < weight; i += 1) {
 			pool.push(module);
+			if (claimsBand) {
+				bandPool.push(module);
+			}
 		}
 	}
-	if (pool.length === 0) {
+	// Band-tagged cues go to the weapons that claim the band; everything
+	// else falls back to weighted round-robin over the enabled loadout.
+	const candidates = bandPool.length > 0 ? bandPool : pool;
+	if (candidates.length === 0) {
 		return null;
 	}
-	const selected = pool[state.cueWeaponCursor % pool.length];
+	const selected = candidates[state.cueWeaponCursor % candidates.length];
 	state.cueWeaponCursor = (state.cueWeaponCursor + 1) % Math.max(1, pool.length);
 	return selected ?? null;
 }
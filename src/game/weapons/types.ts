@@ -1,4 +1,4 @@
-import type { CueWeaponId, Enemy, SimulationState } from "../types";
+import type { CueBand, CueWeaponId, Enemy, SimulationState } from "../types";
 
 export type CueShotFireParams = {
 	shipX: number;
@@ -17,9 +17,24 @@ export type CueShotImmediateParams = {
 
 export type WeaponModule = {
 	id: CueWeaponId;
+	/** Name shown on the weapon's settings toggle. */
+	label: string;
 	assignmentWeight: number;
-	isEnabled: (state: SimulationState) => boolean;
+	/** Cue bands this weapon claims before round-robin assignment kicks in. */
+	cueBands?: CueBand[];
+	/** Defaults to the weapon's flag in `combatConfig.shipWeapons`. */
+	isEnabled?: (state: SimulationState) => boolean;
 	planCue: (state: SimulationState, enemy: Enemy, cueTimeSeconds: number) => void;
+	/**
+	 * Decides the hit when the cue lands instead of checking for a projectile
+	 * on the target; returns whether the target is hit.
+	 */
+	resolveCue?: (state: SimulationState, enemy: Enemy) => boolean;
+	/**
+	 * The shot is committed once planned: the target counts as hit at cue
+	 * time, and a target already gone still scores the cue.
+	 */
+	primesCueTarget?: boolean;
 	getCatchupLeadSeconds?: (
 		state: SimulationState,
 		baseLeadSeconds: number,
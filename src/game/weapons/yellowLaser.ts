@@ -8,8 +8,9 @@ import type { CueShotFireParams, CueShotImmediateParams, WeaponModule } from "./
 
 export const yellowLaserModule: WeaponModule = {
 	id: "yellow",
+	label: "Yellow Laser",
 	assignmentWeight: 1,
-	isEnabled: (state) => state.combatConfig.shipWeapons.yellowLaser,
+	cueBands: ["high"],
 	planCue(state, enemy, cueTimeSeconds) {
 		queueCueShotForEnemy(
 			state,
@@ -1,18 +1,48 @@
 import "./styles.css";
-import { analyzeAudioTrack } from "./audio/analyze-track";
-import type { AudioAnalysisResult, FeatureFrame, SpectrumTimeline } from "./audio/types";
+import {
+  ANALYSIS_FILE_EXTENSION,
+  parseAnalysisFile,
+  serializeAnalysisFile
+} from "./audio/analysis-file";
+import { analyzeAudioTrack, isAnalysisAbortError } from "./audio/analyze-track";
+import type { LiveAnalysisEvent } from "./audio/live-analyzer";
+import { createLiveCueScheduler } from "./audio/live-cues";
+import { extractBandEnergyTimeline } from "./audio/onset-bands";
+import { getSpectrumBinFrequencies } from "./audio/spectrum-extractor";
+import {
+  requestLiveInputStream,
+  startLiveInput,
+  type LiveInputSession
+} from "./audio/live-input";
+import type {
+  AudioAnalysisResult,
+  CuePoint,
+  CueSource,
+  FeatureFrame,
+  OnsetBand,
+  SpectrumTimeline
+} from "./audio/types";
 import { setupScene } from "./render/scene";
 import { createSimulation, type SimulationSnapshot } from "./game/sim";
 import {
   buildPrecomputedRunAsync,
+  isPrecomputeAbortError,
+  type BuildPrecomputedRunParams,
   type PrecomputedRun
 } from "./game/precomputedRun";
-import type { CombatConfigPatch } from "./game/combatConfig";
+import { type CombatConfigPatch, normalizeCombatConfig } from "./game/combatConfig";
+import type { SimulationModuleEdits } from "./game/modules/types";
+import type { CueBand, ScriptedWave, ShipControlMode, SpectrumBandSample } from "./game/types";
+import { parseWaveScript, resolveWaveScript, type WaveScript } from "./game/waveScript";
+import { createAnalysisCachePanel } from "./ui/analysisCachePanel";
 import { createAudioPanel } from "./ui/audioPanel";
 import { createEventTimeline } from "./ui/eventTimeline";
 import { createLoadingOverlay, type LoadingPhaseTone } from "./ui/loadingOverlay";
+import { createPlaylistPanel } from "./ui/playlistPanel";
+import { createPlaylistQueue, type PlaylistEntry } from "./ui/playlistQueue";
 import { createSettingsBridge } from "./ui/settingsBridge";
 import { mountSettingsPanel } from "./ui/mountSettingsPanel";
+import { createShipInput } from "./ui/shipInput";
 
 const BEST_SCORE_STORAGE_PREFIX = "audio-starfighter.best-score";
 const ENEMY_BULLET_RATIO = 0.94;
@@ -20,11 +50,7 @@ const ANALYSIS_PROGRESS_START = 0.02;
 const ANALYSIS_PROGRESS_END = 0.2;
 const PRECOMPUTE_PROGRESS_START = 0.24;
 const PRECOMPUTE_PROGRESS_SPAN = 0.76;
-const PRECOMPUTE_CHUNK_SIZE_DEFAULT = 120;
-const PRECOMPUTE_CHUNK_SIZE_PURPLE = 48;
-const PRECOMPUTE_MAX_CHUNK_MS_DEFAULT = 10;
-const PRECOMPUTE_MAX_CHUNK_MS_PURPLE = 5;
-const PRECOMPUTE_STEP_SECONDS_DEFAULT = 1 / 180;
+const PRECOMPUTE_STEP_SECONDS_DEFAULT = 1 / 120;
 const PRECOMPUTE_STEP_SECONDS_PURPLE = 1 / 96;
 const DEMO_RUN_SEED = 7;
 const DEMO_CUE_START_SECONDS = 0.7;
@@ -32,12 +58,29 @@ const DEMO_CUE_END_SECONDS = 360;
 const DEMO_CUE_INTERVAL_SECONDS = 0.55;
 const DEMO_SPECTRUM_BIN_COUNT = 28;
 const DEMO_SPECTRUM_HOP_SECONDS = 1 / 45;
+const LIVE_RUN_REWIND_RESTART_SECONDS = 0.5;
+const BEAT_BAND_MATCH_SECONDS = 0.06;
+const DEMO_GAME_OVER_RESTART_SECONDS = 3;
+const LIVE_INPUT_INTENSITY_WINDOW_SECONDS = 8;
+const LIVE_INPUT_TIMELINE_WINDOW_SECONDS = 12;
+// Gameplay modules for every run, live or precomputed; see SimulationModule
+// for the state contract. Runs with edits precompute on the main thread.
+const SIMULATION_MODULE_EDITS: SimulationModuleEdits | undefined = undefined;
+
+type RunTimelineEvent = {
+  timeSeconds: number;
+  source: CueSource;
+  band: OnsetBand | null;
+  /** Authored cue strength; beats carry none. */
+  strength: number | null;
+};
+
 let currentCombatConfig: CombatConfigPatch = {
   shipWeapons: {
-    blueLaser: true,
-    yellowLaser: true,
-    greenLaser: true,
-    purpleMissile: false
+    blue: true,
+    yellow: true,
+    green: true,
+    purple: false
   },
   enemyRoster: {
     enabledArchetypes: ["redCube"],
@@ -58,6 +101,7 @@ sceneHost.className = "scene-host";
 app.appendChild(sceneHost);
 
 const loadingOverlay = createLoadingOverlay(app);
+const analysisCachePanel = createAnalysisCachePanel(app);
 
 const uiHost = document.createElement("div");
 uiHost.className = "ui-host";
@@ -67,16 +111,21 @@ const scene = setupScene(sceneHost);
 const sceneManager = scene.getSceneManager();
 const demoSpectrumTimeline = createDemoSpectrumTimeline();
 sceneManager.setGridSpectrumTimeline(demoSpectrumTimeline);
-const sim = createSimulation();
+const sim = createSimulation({ moduleEdits: SIMULATION_MODULE_EDITS });
 sim.setCombatConfig(currentCombatConfig);
 sim.setEnemyBulletRatio(ENEMY_BULLET_RATIO);
 const eventTimeline = createEventTimeline(uiHost);
+const shipInput = createShipInput(window);
+let currentControlMode: ShipControlMode = "auto";
 
 let uiHidden = false;
 const uiOverlaySelectors = [
   ".audio-controls-bar__main",
   ".audio-controls-settings",
+  ".audio-controls-cache",
+  ".audio-controls-analysis-file",
   ".event-timeline",
+  ".playlist-panel",
   ".waveform-panel",
   ".spectrum-panel",
   ".playback-panel"
@@ -98,8 +147,43 @@ let precomputedRun: PrecomputedRun | null = null;
 let currentBestScore = 0;
 let currentRunKey: string | null = null;
 let cachedTimelineAnalysisRef: object | null = null;
-let cachedTimelineCues: Array<{ timeSeconds: number; source: "beat" | "peak" }> | null = null;
+let cachedTimelineCues: RunTimelineEvent[] | null = null;
 let usingCueFallback = false;
+let liveRunCueTimes: number[] | null = null;
+let liveRunCueBands: Array<CueBand | null> = [];
+let liveRunCueStrengths: Array<number | null> = [];
+let activeAnalysisController: AbortController | null = null;
+let activePrecomputeController: AbortController | null = null;
+let liveInput: { session: LiveInputSession; stream: MediaStream } | null = null;
+// Live input runs start mid-stream; sim time is AudioContext time minus this.
+let liveInputRunStartSeconds = 0;
+let liveInputIntensity: Array<{ timeSeconds: number; intensity: number }> = [];
+let liveInputIntensityChanged = false;
+let liveInputTimelineEvents: RunTimelineEvent[] = [];
+const liveCueScheduler = createLiveCueScheduler();
+// Authored waves from imported analysis files, by the track they belong to.
+const trackWaveScripts = new Map<string, WaveScript>();
+const playlistQueue = createPlaylistQueue<File>();
+let playlistPlayingEntryId: number | null = null;
+let playlistSessionScore = 0;
+let playlistTracksPlayed = 0;
+let playlistGameOverAtMs: number | null = null;
+
+/**
+ * The queue's next track, analyzed and precomputed in the background while
+ * the current one plays. Only valid for the seed and combat config it was
+ * built with; anything else falls back to a fresh precompute.
+ */
+type PreparedTrack = {
+  entryId: number;
+  file: File;
+  seed: number;
+  combatConfig: CombatConfigPatch;
+  controller: AbortController;
+  analysis: Promise<AudioAnalysisResult>;
+  run: { analysis: AudioAnalysisResult; promise: Promise<PrecomputedRun> } | null;
+};
+let preparedTrack: PreparedTrack | null = null;
 
 const settingsBridge = createSettingsBridge(
   {
@@ -107,6 +191,10 @@ const settingsBridge = createSettingsBridge(
       currentCombatConfig = config;
       sim.setCombatConfig(currentCombatConfig);
     },
+    onControlModeChange(mode) {
+      currentControlMode = mode;
+      sim.setControlMode(mode);
+    },
     onPresetChange(preset) {
       sceneManager.activatePreset(preset);
     },
@@ -147,7 +235,22 @@ const settingsBridge = createSettingsBridge(
 );
 
 const audioPanel = createAudioPanel(uiHost, {
-  onAnalyze(file) {
+  onAnalyze(file, imported) {
+    // A new file supersedes any analysis still running in the worker.
+    activeAnalysisController?.abort();
+    cancelPrecompute();
+    if (playlistPlayingEntryId !== null && findPlaylistFile(playlistPlayingEntryId) !== file) {
+      finishPlaylistTrack();
+    }
+    if (!imported && preparedTrack?.file === file) {
+      return preparedTrack.analysis;
+    }
+    if (imported) {
+      // The audio is only needed for playback; the imported analysis stands in.
+      return Promise.resolve(imported);
+    }
+    const controller = new AbortController();
+    activeAnalysisController = controller;
     loadingOverlay.show(
       "Analyzing Audio",
       `Decoding ${file.name}...`,
@@ -156,6 +259,7 @@ const audioPanel = createAudioPanel(uiHost, {
       "decode"
     );
     return analyzeAudioTrack(file, {
+      signal: controller.signal,
       onProgress(progress, message, stage) {
         const phase = mapAnalyzeStageToPhase(stage);
         loadingOverlay.setProgress(
@@ -165,47 +269,64 @@ const audioPanel = createAudioPanel(uiHost, {
           phase.tone
         );
       }
-    }).catch((error) => {
-      loadingOverlay.hide();
-      throw error;
-    });
+    })
+      .catch((error) => {
+        if (!isAnalysisAbortError(error)) {
+          loadingOverlay.hide();
+        }
+        throw error;
+      })
+      .finally(() => {
+        if (activeAnalysisController === controller) {
+          activeAnalysisController = null;
+        }
+      });
   },
   async onStartRun(analysis, seed) {
     sceneManager.setGridSpectrumTimeline(analysis.spectrum);
-    loadingOverlay.show(
-      "Preparing Synced Run",
-      "Configuring simulation...",
-      PRECOMPUTE_PROGRESS_START,
-      "Precompute",
-      "precompute"
+    // Restarting or switching tracks supersedes an in-flight precompute.
+    cancelPrecompute();
+    if (currentControlMode !== "auto") {
+      if (preparedTrack?.entryId === playlistPlayingEntryId) {
+        discardPreparedTrack();
+      }
+      startLiveRun(analysis, seed);
+      loadingOverlay.hide();
+      settingsBridge.notifySongLoadedChanged();
+      return;
+    }
+    const prepared = takePreparedRun(analysis, seed);
+    const controller = prepared?.controller ?? new AbortController();
+    activePrecomputeController = controller;
+    if (!prepared) {
+      loadingOverlay.show(
+        "Preparing Synced Run",
+        "Configuring simulation...",
+        PRECOMPUTE_PROGRESS_START,
+        "Precompute",
+        "precompute"
+      );
+    }
+    const { runTimeline, intensityTimeline, params } = buildRunPrecomputeParams(
+      analysis,
+      seed,
+      currentCombatConfig
     );
-    const runTimeline = buildRunTimelineEvents(analysis);
-    const intensityTimeline = buildIntensityTimeline(analysis.frames);
     sim.setRandomSeed(seed);
     sim.setMoodProfile(analysis.mood.label);
+    sim.setMoodTimeline(analysis.mood.timeline);
     sim.setIntensityTimeline(intensityTimeline);
-    const cueTimesSeconds = runTimeline.events.map((cue) => cue.timeSeconds);
-    sim.startTrackRun(cueTimesSeconds);
+    sim.setSpectrumBandTimeline(params.spectrumBandTimeline ?? []);
+    sim.setBarTimeline(analysis.beat.barTimesSeconds);
+    sim.setSectionTimeline(analysis.sections);
+    sim.setWaveScript(buildScriptedWaves(analysis));
+    sim.setControlMode("auto");
+    sim.startTrackRun(params.cueTimesSeconds, params.cueBands, params.cueStrengths);
+    liveRunCueTimes = null;
     try {
-      const usesPurpleMissile = currentCombatConfig.shipWeapons?.purpleMissile === true;
-      precomputedRun = await buildPrecomputedRunAsync(
-        {
-          seed,
-          moodProfile: analysis.mood.label,
-          intensityTimeline,
-          cueTimesSeconds,
-          durationSeconds: analysis.durationSeconds,
-          stepSeconds: usesPurpleMissile
-            ? PRECOMPUTE_STEP_SECONDS_PURPLE
-            : PRECOMPUTE_STEP_SECONDS_DEFAULT,
-          enemyBulletRatio: ENEMY_BULLET_RATIO,
-          combatConfig: currentCombatConfig
-        },
-        {
-          chunkSize: usesPurpleMissile ? PRECOMPUTE_CHUNK_SIZE_PURPLE : PRECOMPUTE_CHUNK_SIZE_DEFAULT,
-          maxChunkMs: usesPurpleMissile
-            ? PRECOMPUTE_MAX_CHUNK_MS_PURPLE
-            : PRECOMPUTE_MAX_CHUNK_MS_DEFAULT,
+      precomputedRun = await (prepared?.run ??
+        buildPrecomputedRunAsync(params, {
+          signal: controller.signal,
           onProgress(progress) {
             const done = progress >= 1;
             loadingOverlay.setProgress(
@@ -217,8 +338,7 @@ const audioPanel = createAudioPanel(uiHost, {
               done ? "finalize" : "precompute"
             );
           }
-        }
-      );
+        }));
       latestSnapshot = precomputedRun.getSnapshotAtTime(0);
       cachedTimelineAnalysisRef = analysis;
       cachedTimelineCues = runTimeline.events;
@@ -227,24 +347,387 @@ const audioPanel = createAudioPanel(uiHost, {
       currentRunKey = buildBestScoreKey(analysis.fileName, seed);
       currentBestScore = loadBestScore(currentRunKey);
     } finally {
-      loadingOverlay.hide();
+      if (activePrecomputeController === controller) {
+        activePrecomputeController = null;
+        loadingOverlay.hide();
+      }
     }
     settingsBridge.notifySongLoadedChanged();
+    prepareNextPlaylistTrack();
+  },
+  onExportAnalysis(analysis, seed) {
+    const contents = serializeAnalysisFile({
+      analysis,
+      seed,
+      combatConfig: currentCombatConfig,
+      waves: trackWaveScripts.get(analysis.fileName)
+    });
+    downloadTextFile(buildAnalysisFileName(analysis.fileName), contents, "application/json");
+  },
+  async onImportAnalysis(file) {
+    const contents = parseAnalysisFile(await file.text());
+    const waveScript = contents.waves === undefined ? null : parseWaveScript(contents.waves);
+    if (waveScript) {
+      trackWaveScripts.set(contents.analysis.fileName, waveScript);
+    } else {
+      trackWaveScripts.delete(contents.analysis.fileName);
+    }
+    currentCombatConfig = contents.combatConfig;
+    sim.setCombatConfig(currentCombatConfig);
+    settingsBridge.setCombatConfig(currentCombatConfig);
+    return { analysis: contents.analysis, seed: contents.seed };
   },
   onToggleUi() {
     setUiHidden(!uiHidden);
     settingsBridge.setHidden(uiHidden);
     return uiHidden;
   },
+  onCacheToggle() {
+    analysisCachePanel.toggle();
+  },
   onSettingsToggle() {
     settingsBridge.setHidden(!settingsBridge.getHidden());
   },
+  async onLiveInputToggle(enabled) {
+    if (enabled) {
+      await startLiveInputRun();
+    } else {
+      stopLiveInputRun();
+    }
+  },
+  onQueueFiles(files) {
+    enqueuePlaylistFiles(files);
+  },
+  onTrackEnded() {
+    if (playlistPlayingEntryId !== null) {
+      advancePlaylist();
+    }
+  },
+});
+const playlistPanel = createPlaylistPanel(uiHost, playlistQueue, {
+  onPlay(entry) {
+    playPlaylistEntry(entry);
+  }
+});
+playlistQueue.subscribe(() => {
+  prepareNextPlaylistTrack();
 });
 audioPanel.subscribeSpectrum((bins) => {
   sceneManager.setGridSpectrum(bins);
 });
 mountSettingsPanel(settingsBridge);
 
+function cancelPrecompute(): void {
+  activePrecomputeController?.abort();
+  activePrecomputeController = null;
+}
+
+/**
+ * Piloted runs cannot be precomputed, so the sim steps live in the frame
+ * loop and stays locked to the audio clock instead.
+ */
+function startLiveRun(analysis: AudioAnalysisResult, seed: number): void {
+  const runTimeline = buildRunTimelineEvents(analysis);
+  const cueTimesSeconds = runTimeline.events.map((cue) => cue.timeSeconds);
+  const cueBands = runTimeline.events.map((cue) => cue.band);
+  const cueStrengths = runTimeline.events.map((cue) => cue.strength);
+  precomputedRun = null;
+  sim.setRandomSeed(seed);
+  sim.setMoodProfile(analysis.mood.label);
+  sim.setMoodTimeline(analysis.mood.timeline);
+  sim.setCombatConfig(currentCombatConfig);
+  sim.setIntensityTimeline(buildIntensityTimeline(analysis.frames));
+  sim.setSpectrumBandTimeline(buildSpectrumBandTimeline(analysis));
+  sim.setBarTimeline(analysis.beat.barTimesSeconds);
+  sim.setSectionTimeline(analysis.sections);
+  sim.setWaveScript(buildScriptedWaves(analysis));
+  sim.setControlMode(currentControlMode);
+  sim.startTrackRun(cueTimesSeconds, cueBands, cueStrengths);
+  liveRunCueTimes = cueTimesSeconds;
+  liveRunCueBands = cueBands;
+  liveRunCueStrengths = cueStrengths;
+  accumulatorSeconds = 0;
+  lastSimTimeSeconds = 0;
+  latestSnapshot = sim.getSnapshot();
+  cachedTimelineAnalysisRef = analysis;
+  cachedTimelineCues = runTimeline.events;
+  usingCueFallback = runTimeline.usingCueFallback;
+  appliedAnalysisRef = analysis;
+  currentRunKey = buildBestScoreKey(analysis.fileName, seed);
+  currentBestScore = loadBestScore(currentRunKey);
+}
+
+/**
+ * Streams a microphone or line-in through the live analysis worklet. Cues
+ * are only known shortly ahead, so they are appended to the sim as the beat
+ * tracker predicts them and the sim steps live against the AudioContext clock.
+ */
+async function startLiveInputRun(): Promise<void> {
+  // The current run is only torn down once the input is live, so a denied
+  // permission leaves the loaded track and the prepared playlist track alone.
+  const stream = await requestLiveInputStream();
+  let session: LiveInputSession;
+  try {
+    session = await startLiveInput(stream, { onEvents: handleLiveAnalysisEvents });
+  } catch (error) {
+    stream.getTracks().forEach((track) => track.stop());
+    throw error;
+  }
+  stopLiveInputRun();
+  activeAnalysisController?.abort();
+  cancelPrecompute();
+  discardPreparedTrack();
+  liveInput = { session, stream };
+  restartLiveInputRun();
+}
+
+function restartLiveInputRun(): void {
+  if (!liveInput) {
+    return;
+  }
+  liveInputRunStartSeconds = liveInput.session.getTimeSeconds();
+  liveInputIntensity = [];
+  liveInputIntensityChanged = false;
+  liveInputTimelineEvents = [];
+  liveCueScheduler.reset();
+  precomputedRun = null;
+  liveRunCueTimes = null;
+  sim.setRandomSeed(DEMO_RUN_SEED);
+  sim.setMoodProfile("driving");
+  sim.setMoodTimeline([]);
+  sim.setCombatConfig(currentCombatConfig);
+  sim.setIntensityTimeline([]);
+  sim.setSpectrumBandTimeline([]);
+  sim.setBarTimeline([]);
+  sim.setSectionTimeline([]);
+  sim.setWaveScript([]);
+  sim.setControlMode(currentControlMode);
+  sim.startTrackRun([]);
+  accumulatorSeconds = 0;
+  lastSimTimeSeconds = 0;
+  latestSnapshot = sim.getSnapshot();
+  currentRunKey = null;
+}
+
+function stopLiveInputRun(): void {
+  if (!liveInput) {
+    return;
+  }
+  liveInput.session.stop();
+  liveInput.stream.getTracks().forEach((track) => track.stop());
+  liveInput = null;
+  liveCueScheduler.reset();
+  liveInputTimelineEvents = [];
+  // Back to the attract-mode run; a loaded track is re-applied by the frame loop.
+  appliedAnalysisRef = null;
+  startDemoRun();
+}
+
+function handleLiveAnalysisEvents(events: LiveAnalysisEvent[]): void {
+  for (const event of events) {
+    liveCueScheduler.handleEvent(event);
+    if (event.type === "level") {
+      liveInputIntensity.push({
+        timeSeconds: event.timeSeconds - liveInputRunStartSeconds,
+        intensity: event.intensity
+      });
+      liveInputIntensityChanged = true;
+    } else if (event.type === "tempo") {
+      audioPanel.setLiveTempo(event.bpm, event.confidence);
+    }
+  }
+}
+
+/** Hands newly committed cues and recent levels to the live-stepped sim. */
+function feedLiveInputRun(session: LiveInputSession): void {
+  const batch = liveCueScheduler.drain(session.getTimeSeconds());
+  if (batch.timesSeconds.length > 0) {
+    const cueTimesSeconds = batch.timesSeconds.map(
+      (timeSeconds) => timeSeconds - liveInputRunStartSeconds
+    );
+    sim.appendCueTimeline(cueTimesSeconds, batch.bands);
+    cueTimesSeconds.forEach((timeSeconds, index) => {
+      liveInputTimelineEvents.push({
+        timeSeconds,
+        source: batch.source,
+        band: batch.bands[index] ?? null,
+        strength: null
+      });
+    });
+  }
+  const oldestTimelineSeconds = lastSimTimeSeconds - LIVE_INPUT_TIMELINE_WINDOW_SECONDS;
+  if ((liveInputTimelineEvents[0]?.timeSeconds ?? Infinity) < oldestTimelineSeconds) {
+    liveInputTimelineEvents = liveInputTimelineEvents.filter(
+      (event) => event.timeSeconds >= oldestTimelineSeconds
+    );
+  }
+
+  if (liveInputIntensityChanged) {
+    const oldestIntensitySeconds = lastSimTimeSeconds - LIVE_INPUT_INTENSITY_WINDOW_SECONDS;
+    liveInputIntensity = liveInputIntensity.filter(
+      (sample) => sample.timeSeconds >= oldestIntensitySeconds
+    );
+    sim.setIntensityTimeline(liveInputIntensity);
+    liveInputIntensityChanged = false;
+  }
+}
+
+function startDemoRun(): void {
+  sim.setRandomSeed(DEMO_RUN_SEED);
+  sim.setMoodTimeline([]);
+  sim.setIntensityTimeline([]);
+  sim.setSpectrumBandTimeline([]);
+  sim.setBarTimeline([]);
+  sim.setSectionTimeline([]);
+  sim.setWaveScript([]);
+  sim.startTrackRun(buildDemoCueTimes());
+  accumulatorSeconds = 0;
+  lastSimTimeSeconds = 0;
+  latestSnapshot = sim.getSnapshot();
+}
+
+function enqueuePlaylistFiles(files: File[]): void {
+  const added = playlistQueue.add(files);
+  if (added.length > 0 && playlistPlayingEntryId === null) {
+    playPlaylistEntry(playlistQueue.peekNext() ?? added[0]);
+  }
+}
+
+function playPlaylistEntry(entry: PlaylistEntry<File>): void {
+  finishPlaylistTrack();
+  playlistPlayingEntryId = entry.id;
+  playlistGameOverAtMs = null;
+  playlistQueue.select(entry.id);
+  playlistPanel.setTrackStatus(entry.id, "playing");
+  void audioPanel.loadFile(entry.item);
+}
+
+function advancePlaylist(): void {
+  const next = playlistQueue.peekNext();
+  if (next) {
+    playPlaylistEntry(next);
+  } else {
+    finishPlaylistTrack();
+  }
+}
+
+/** Banks the playing track's score into the session total. */
+function finishPlaylistTrack(): void {
+  if (playlistPlayingEntryId === null) {
+    return;
+  }
+  playlistPanel.setTrackScore(playlistPlayingEntryId, latestSnapshot.score);
+  playlistPanel.setTrackStatus(playlistPlayingEntryId, "played");
+  playlistSessionScore += latestSnapshot.score;
+  playlistTracksPlayed += 1;
+  playlistPlayingEntryId = null;
+  playlistGameOverAtMs = null;
+  playlistPanel.setSessionScore(playlistSessionScore, playlistTracksPlayed);
+}
+
+function findPlaylistFile(entryId: number): File | null {
+  return playlistQueue.getEntries().find((entry) => entry.id === entryId)?.item ?? null;
+}
+
+/**
+ * Starts analysis and precompute for the queue's next track once nothing
+ * else is running, so the handoff at the end of the current track is instant.
+ */
+function prepareNextPlaylistTrack(): void {
+  const next = playlistQueue.peekNext();
+  const current = playlistQueue.getCurrent();
+  // A prepared current track is still being picked up by the panel.
+  if (preparedTrack && preparedTrack.entryId !== next?.id && preparedTrack.entryId !== current?.id) {
+    discardPreparedTrack();
+  }
+  if (
+    preparedTrack ||
+    !next ||
+    liveInput ||
+    activeAnalysisController ||
+    activePrecomputeController ||
+    currentControlMode !== "auto"
+  ) {
+    return;
+  }
+
+  const controller = new AbortController();
+  const seed = audioPanel.getRunSeed();
+  const combatConfig = currentCombatConfig;
+  const prepared: PreparedTrack = {
+    entryId: next.id,
+    file: next.item,
+    seed,
+    combatConfig,
+    controller,
+    analysis: analyzeAudioTrack(next.item, { signal: controller.signal }),
+    run: null
+  };
+  preparedTrack = prepared;
+  playlistPanel.setTrackStatus(next.id, "preparing");
+  prepared.analysis
+    .then((analysis) => {
+      const promise = buildPrecomputedRunAsync(
+        buildRunPrecomputeParams(analysis, seed, combatConfig).params,
+        { signal: controller.signal }
+      );
+      prepared.run = { analysis, promise };
+      return promise;
+    })
+    .then(() => {
+      if (preparedTrack === prepared && playlistPlayingEntryId !== prepared.entryId) {
+        playlistPanel.setTrackStatus(prepared.entryId, "ready");
+      }
+    })
+    .catch((error) => {
+      if (isAnalysisAbortError(error) || isPrecomputeAbortError(error)) {
+        return;
+      }
+      if (preparedTrack === prepared) {
+        preparedTrack = null;
+      }
+      if (playlistPlayingEntryId !== prepared.entryId) {
+        playlistPanel.setTrackStatus(prepared.entryId, "failed");
+      }
+    });
+}
+
+function discardPreparedTrack(): void {
+  if (!preparedTrack) {
+    return;
+  }
+  preparedTrack.controller.abort();
+  if (playlistPlayingEntryId !== preparedTrack.entryId) {
+    playlistPanel.setTrackStatus(preparedTrack.entryId, "queued");
+  }
+  preparedTrack = null;
+}
+
+/**
+ * Hands over the playing track's background run when it was built from this
+ * exact analysis, seed and combat config; a stale one is dropped.
+ */
+function takePreparedRun(
+  analysis: AudioAnalysisResult,
+  seed: number
+): { controller: AbortController; run: Promise<PrecomputedRun> } | null {
+  const prepared = preparedTrack;
+  if (!prepared || prepared.entryId !== playlistPlayingEntryId) {
+    return null;
+  }
+  preparedTrack = null;
+  if (
+    !prepared.run ||
+    prepared.run.analysis !== analysis ||
+    prepared.seed !== seed ||
+    prepared.combatConfig !== currentCombatConfig
+  ) {
+    prepared.controller.abort();
+    return null;
+  }
+  return { controller: prepared.controller, run: prepared.run.promise };
+}
+
 sim.setRandomSeed(DEMO_RUN_SEED);
 sim.startTrackRun(buildDemoCueTimes());
 latestSnapshot = sim.getSnapshot();
@@ -289,11 +772,12 @@ window.addEventListener("drop", (event) => {
   event.preventDefault();
   dragFileDepth = 0;
   app.classList.remove("app--drag-active");
-  const file = pickAudioFileFromTransfer(event.dataTransfer);
-  if (!file) {
+  const files = pickAudioFilesFromTransfer(event.dataTransfer);
+  if (files.length === 1 && playlistQueue.getEntries().length === 0) {
+    void audioPanel.loadFile(files[0]);
     return;
   }
-  void audioPanel.loadFile(file);
+  enqueuePlaylistFiles(files);
 });
 let appliedAnalysisRef: object | null = null;
 
@@ -308,19 +792,41 @@ function animate(frameTimeMs: number): void {
   previousFrameTime = frameTimeMs;
 
   const frameSeconds = Math.min(rawFrameSeconds, maxFrameSeconds);
-  const analysis = audioPanel.getLatestAnalysis();
+  const liveSession = liveInput?.session ?? null;
+  // Live input supersedes any loaded track until it is stopped.
+  const analysis = liveSession ? null : audioPanel.getLatestAnalysis();
   const activePrecomputedRun = precomputedRun;
   const hasPrecomputedRun = activePrecomputedRun !== null;
   const audioPlaybackTimeSecondsPreStep = audioPanel.getAudioPlaybackTime();
   const isAudioPlaying = audioPanel.isAudioPlaying();
+  const isLiveRun = !hasPrecomputedRun && liveRunCueTimes !== null && analysis !== null;
   const freezeForPausedAudio =
     analysis !== null &&
-    audioPlaybackTimeSecondsPreStep > 0 &&
+    (audioPlaybackTimeSecondsPreStep > 0 || isLiveRun) &&
     !isAudioPlaying;
   const followAudioClock =
-    analysis !== null && audioPlaybackTimeSecondsPreStep > 0 && isAudioPlaying;
+    analysis !== null &&
+    (audioPlaybackTimeSecondsPreStep > 0 || isLiveRun) &&
+    isAudioPlaying;
+  if (
+    isLiveRun &&
+    liveRunCueTimes &&
+    audioPlaybackTimeSecondsPreStep < lastSimTimeSeconds - LIVE_RUN_REWIND_RESTART_SECONDS
+  ) {
+    // A live sim cannot seek backwards; restart the run when playback rewinds.
+    sim.startTrackRun(liveRunCueTimes, liveRunCueBands, liveRunCueStrengths);
+    lastSimTimeSeconds = 0;
+    accumulatorSeconds = 0;
+  }
   if (hasPrecomputedRun) {
     accumulatorSeconds = 0;
+  } else if (liveSession) {
+    feedLiveInputRun(liveSession);
+    const catchUpSeconds =
+      liveSession.getTimeSeconds() - liveInputRunStartSeconds - lastSimTimeSeconds;
+    if (catchUpSeconds > 0) {
+      accumulatorSeconds += Math.min(catchUpSeconds, maxFrameSeconds);
+    }
   } else if (freezeForPausedAudio) {
     accumulatorSeconds = 0;
   } else if (followAudioClock) {
@@ -334,6 +840,9 @@ function animate(frameTimeMs: number): void {
     accumulatorSeconds += frameSeconds;
   }
 
+  if (!hasPrecomputedRun) {
+    sim.setControlInput(shipInput.sample());
+  }
   while (!hasPrecomputedRun && accumulatorSeconds >= fixedStepSeconds) {
     sim.step(fixedStepSeconds);
     accumulatorSeconds -= fixedStepSeconds;
@@ -354,10 +863,20 @@ function animate(frameTimeMs: number): void {
     sceneManager.setGridSpectrumTimeline(analysis.spectrum);
     const runTimeline = buildRunTimelineEvents(analysis);
     sim.setMoodProfile(analysis.mood.label);
+    sim.setMoodTimeline(analysis.mood.timeline);
     sim.setCombatConfig(currentCombatConfig);
     sim.setIntensityTimeline(buildIntensityTimeline(analysis.frames));
-    sim.setCueTimeline(runTimeline.events.map((cue) => cue.timeSeconds));
+    sim.setSpectrumBandTimeline(buildSpectrumBandTimeline(analysis));
+    sim.setCueTimeline(
+      runTimeline.events.map((cue) => cue.timeSeconds),
+      runTimeline.events.map((cue) => cue.band),
+      runTimeline.events.map((cue) => cue.strength)
+    );
+    sim.setBarTimeline(analysis.beat.barTimesSeconds);
+    sim.setSectionTimeline(analysis.sections);
+    sim.setWaveScript(buildScriptedWaves(analysis));
     precomputedRun = null;
+    liveRunCueTimes = null;
     cachedTimelineAnalysisRef = analysis;
     cachedTimelineCues = runTimeline.events;
     usingCueFallback = runTimeline.usingCueFallback;
@@ -369,6 +888,34 @@ function animate(frameTimeMs: number): void {
     appliedAnalysisRef = null;
   }
 
+  if (analysis) {
+    audioPanel.setRunOutcome(snapshot);
+    if (playlistPlayingEntryId !== null) {
+      playlistPanel.setSessionScore(
+        playlistSessionScore + snapshot.score,
+        playlistTracksPlayed
+      );
+      // A lost track moves on to the next one like the demo restarts itself.
+      if (snapshot.gameOverTimeSeconds === null) {
+        playlistGameOverAtMs = null;
+      } else if (playlistGameOverAtMs === null) {
+        playlistGameOverAtMs = frameTimeMs;
+      } else if (frameTimeMs - playlistGameOverAtMs >= DEMO_GAME_OVER_RESTART_SECONDS * 1000) {
+        advancePlaylist();
+      }
+    }
+  } else if (
+    snapshot.gameOverTimeSeconds !== null &&
+    snapshot.simTimeSeconds - snapshot.gameOverTimeSeconds >= DEMO_GAME_OVER_RESTART_SECONDS
+  ) {
+    if (liveSession) {
+      restartLiveInputRun();
+    } else {
+      sim.startTrackRun(buildDemoCueTimes());
+      lastSimTimeSeconds = 0;
+    }
+  }
+
   if (currentRunKey && snapshot.score > currentBestScore) {
     currentBestScore = snapshot.score;
     saveBestScore(currentRunKey, currentBestScore);
@@ -397,7 +944,12 @@ function animate(frameTimeMs: number): void {
       audioTimeSeconds: analysis && audioPlaybackTimeSeconds > 0 ? audioPlaybackTimeSeconds : null,
       cueResolvedCount: snapshot.cueResolvedCount,
       cueMissedCount: snapshot.cueMissedCount,
-      cues: cachedTimelineCues,
+      perfectCount: snapshot.perfectCount,
+      greatCount: snapshot.greatCount,
+      goodCount: snapshot.goodCount,
+      judgementMissCount: snapshot.judgementMissCount,
+      cues: liveSession ? liveInputTimelineEvents : cachedTimelineCues,
+      bars: analysis ? analysis.beat.barTimesSeconds : null,
       usingBeatFallback: usingCueFallback
     });
   }
@@ -426,19 +978,11 @@ function isFileDragEvent(event: DragEvent): boolean {
   return Array.from(types).includes("Files");
 }
 
-function pickAudioFileFromTransfer(dataTransfer: DataTransfer | null): File | null {
-  if (!dataTransfer || dataTransfer.files.length === 0) {
-    return null;
-  }
-
-  const files = Array.from(dataTransfer.files);
-  for (const file of files) {
-    if (isSupportedAudioFile(file)) {
-      return file;
-    }
+function pickAudioFilesFromTransfer(dataTransfer: DataTransfer | null): File[] {
+  if (!dataTransfer) {
+    return [];
   }
-
-  return null;
+  return Array.from(dataTransfer.files).filter(isSupportedAudioFile);
 }
 
 function isSupportedAudioFile(file: File): boolean {
@@ -489,17 +1033,92 @@ function buildIntensityTimeline(frames: FeatureFrame[]): Array<{
   return output;
 }
 
+function buildRunPrecomputeParams(
+  analysis: AudioAnalysisResult,
+  seed: number,
+  combatConfig: CombatConfigPatch
+): {
+  runTimeline: ReturnType<typeof buildRunTimelineEvents>;
+  intensityTimeline: ReturnType<typeof buildIntensityTimeline>;
+  params: BuildPrecomputedRunParams;
+} {
+  const runTimeline = buildRunTimelineEvents(analysis);
+  const intensityTimeline = buildIntensityTimeline(analysis.frames);
+  const usesPurpleMissile = normalizeCombatConfig(combatConfig).shipWeapons.purple === true;
+  return {
+    runTimeline,
+    intensityTimeline,
+    params: {
+      seed,
+      moodProfile: analysis.mood.label,
+      moodTimeline: analysis.mood.timeline,
+      intensityTimeline,
+      cueTimesSeconds: runTimeline.events.map((cue) => cue.timeSeconds),
+      cueBands: runTimeline.events.map((cue) => cue.band),
+      cueStrengths: runTimeline.events.map((cue) => cue.strength),
+      barTimesSeconds: analysis.beat.barTimesSeconds,
+      sections: analysis.sections,
+      scriptedWaves: buildScriptedWaves(analysis),
+      spectrumBandTimeline: buildSpectrumBandTimeline(analysis),
+      durationSeconds: analysis.durationSeconds,
+      stepSeconds: usesPurpleMissile
+        ? PRECOMPUTE_STEP_SECONDS_PURPLE
+        : PRECOMPUTE_STEP_SECONDS_DEFAULT,
+      enemyBulletRatio: ENEMY_BULLET_RATIO,
+      combatConfig,
+      moduleEdits: SIMULATION_MODULE_EDITS
+    }
+  };
+}
+
+function buildScriptedWaves(analysis: AudioAnalysisResult): ScriptedWave[] {
+  const waveScript = trackWaveScripts.get(analysis.fileName);
+  return waveScript ? resolveWaveScript(waveScript, analysis.beat) : [];
+}
+
+function buildSpectrumBandTimeline(analysis: AudioAnalysisResult): SpectrumBandSample[] {
+  return extractBandEnergyTimeline(analysis.spectrum, getSpectrumBinFrequencies(analysis.sampleRate));
+}
+
+function buildAnalysisFileName(trackFileName: string): string {
+  const baseName = trackFileName.replace(/\.[^.]+$/, "") || "track";
+  return `${baseName}${ANALYSIS_FILE_EXTENSION}`;
+}
+
+function downloadTextFile(fileName: string, contents: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
 function buildBestScoreKey(fileName: string, seed: number): string {
   return `${BEST_SCORE_STORAGE_PREFIX}:${fileName}:${seed}`;
 }
 
 function buildRunTimelineEvents(analysis: AudioAnalysisResult): {
-  events: Array<{ timeSeconds: number; source: "beat" | "peak" }>;
+  events: RunTimelineEvent[];
   usingCueFallback: boolean;
 } {
+  if (analysis.cuesEdited) {
+    return {
+      events: buildCueEvents(analysis),
+      usingCueFallback: false
+    };
+  }
+
+  // Beats borrow the onset band of a coinciding cue so weapons can follow
+  // kicks, snares and hats.
   const beatEvents = analysis.beat.beatTimesSeconds
     .filter((timeSeconds) => Number.isFinite(timeSeconds) && timeSeconds >= 0)
-    .map((timeSeconds) => ({ timeSeconds, source: "beat" as const }));
+    .map((timeSeconds) => ({
+      timeSeconds,
+      source: "beat" as const,
+      band: findCueBandNear(analysis.cues, timeSeconds),
+      strength: null
+    }));
 
   if (beatEvents.length > 0) {
     return {
@@ -508,16 +1127,47 @@ function buildRunTimelineEvents(analysis: AudioAnalysisResult): {
     };
   }
 
-  const cueEvents = analysis.cues
-    .filter((cue) => Number.isFinite(cue.timeSeconds) && cue.timeSeconds >= 0)
-    .map((cue) => ({ timeSeconds: cue.timeSeconds, source: cue.source }));
-
   return {
-    events: cueEvents,
+    events: buildCueEvents(analysis),
     usingCueFallback: true
   };
 }
 
+function buildCueEvents(analysis: AudioAnalysisResult): RunTimelineEvent[] {
+  return analysis.cues
+    .filter((cue) => Number.isFinite(cue.timeSeconds) && cue.timeSeconds >= 0)
+    .map((cue) => ({
+      timeSeconds: cue.timeSeconds,
+      source: cue.source,
+      band: cue.band ?? null,
+      strength: cue.strength
+    }));
+}
+
+function findCueBandNear(cues: CuePoint[], timeSeconds: number): OnsetBand | null {
+  let low = 0;
+  let high = cues.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (cues[mid].timeSeconds < timeSeconds) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  let best: CuePoint | null = null;
+  for (const candidate of [cues[low - 1], cues[low]]) {
+    if (
+      candidate?.band &&
+      Math.abs(candidate.timeSeconds - timeSeconds) <= BEAT_BAND_MATCH_SECONDS &&
+      (!best || Math.abs(candidate.timeSeconds - timeSeconds) < Math.abs(best.timeSeconds - timeSeconds))
+    ) {
+      best = candidate;
+    }
+  }
+  return best?.band ?? null;
+}
+
 function buildDemoCueTimes(): number[] {
   const cues: number[] = [];
   let t = DEMO_CUE_START_SECONDS;
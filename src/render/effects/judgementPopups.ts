@@ -0,0 +1,103 @@
+import {
+	CanvasTexture,
+	Group,
+	Sprite,
+	SpriteMaterial,
+} from "three";
+import type { CueJudgement, SimulationSnapshot } from "../../game/types";
+
+const JUDGEMENT_LABELS: Record<CueJudgement, { text: string; color: string }> = {
+	perfect: { text: "PERFECT", color: "#67e8f9" },
+	great: { text: "GREAT", color: "#86efac" },
+	good: { text: "GOOD", color: "#fde047" },
+	miss: { text: "MISS", color: "#f87171" },
+};
+
+const LABEL_WIDTH = 256;
+const LABEL_HEIGHT = 64;
+const LABEL_WORLD_HEIGHT = 0.55;
+
+const labelTextures = /* @__PURE__ */ (() => {
+	const textures = {} as Record<CueJudgement, CanvasTexture>;
+	for (const judgement of Object.keys(JUDGEMENT_LABELS) as CueJudgement[]) {
+		const { text, color } = JUDGEMENT_LABELS[judgement];
+		const canvas = document.createElement("canvas");
+		canvas.width = LABEL_WIDTH;
+		canvas.height = LABEL_HEIGHT;
+		const ctx = canvas.getContext("2d")!;
+		ctx.font = "italic 700 44px system-ui, sans-serif";
+		ctx.textAlign = "center";
+		ctx.textBaseline = "middle";
+		ctx.lineWidth = 6;
+		ctx.strokeStyle = "rgba(2, 6, 23, 0.85)";
+		ctx.strokeText(text, LABEL_WIDTH / 2, LABEL_HEIGHT / 2);
+		ctx.fillStyle = color;
+		ctx.fillText(text, LABEL_WIDTH / 2, LABEL_HEIGHT / 2);
+		textures[judgement] = new CanvasTexture(canvas);
+	}
+	return textures;
+})();
+
+export type JudgementPopupRendererState = {
+	group: Group;
+	sprites: Sprite[];
+};
+
+export function createJudgementPopupRenderer(): JudgementPopupRendererState {
+	return {
+		group: new Group(),
+		sprites: [],
+	};
+}
+
+export function updateJudgementPopupRenderer(
+	renderer: JudgementPopupRendererState,
+	popups: SimulationSnapshot["judgementPopups"],
+): void {
+	const { sprites, group } = renderer;
+
+	while (sprites.length < popups.length) {
+		const sprite = new Sprite(
+			new SpriteMaterial({
+				map: labelTextures.perfect,
+				transparent: true,
+				depthWrite: false,
+				depthTest: false,
+			}),
+		);
+		sprite.scale.set(
+			(LABEL_WORLD_HEIGHT * LABEL_WIDTH) / LABEL_HEIGHT,
+			LABEL_WORLD_HEIGHT,
+			1,
+		);
+		sprite.renderOrder = 10;
+		sprite.visible = false;
+		sprites.push(sprite);
+		group.add(sprite);
+	}
+
+	for (let i = 0; i < sprites.length; i += 1) {
+		const sprite = sprites[i];
+		const popup = popups[i];
+		if (!popup || popup.alpha <= 0.01) {
+			sprite.visible = false;
+			continue;
+		}
+		sprite.visible = true;
+		sprite.position.set(popup.x, popup.y, popup.z + 0.6);
+		const material = sprite.material;
+		const texture = labelTextures[popup.judgement];
+		if (material.map !== texture) {
+			material.map = texture;
+			material.needsUpdate = true;
+		}
+		material.opacity = popup.alpha;
+		// A quick pop in before the label fades out.
+		const pop = 1 + Math.max(0, 0.12 - popup.ageSeconds) * 3;
+		sprite.scale.set(
+			((LABEL_WORLD_HEIGHT * LABEL_WIDTH) / LABEL_HEIGHT) * pop,
+			LABEL_WORLD_HEIGHT * pop,
+			1,
+		);
+	}
+}
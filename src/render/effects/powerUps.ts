@@ -0,0 +1,100 @@
+import {
+	AdditiveBlending,
+	Group,
+	Mesh,
+	MeshBasicMaterial,
+	OctahedronGeometry,
+	TorusGeometry,
+} from "three";
+import type { PowerUpKind, SimulationSnapshot } from "../../game/types";
+
+const POWER_UP_COLORS: Record<PowerUpKind, string> = {
+	purpleMissiles: "#a855f7",
+	spreadShot: "#38bdf8",
+	shieldRecharge: "#34d399",
+	scoreMultiplier: "#facc15",
+};
+
+// Pickups blink for their last seconds before vanishing.
+const BLINK_SECONDS = 2;
+
+const coreGeometry = new OctahedronGeometry(0.3, 0);
+const ringGeometry = new TorusGeometry(0.46, 0.045, 6, 24);
+
+type PowerUpRenderable = {
+	group: Group;
+	coreMaterial: MeshBasicMaterial;
+	ringMaterial: MeshBasicMaterial;
+};
+
+export type PowerUpRendererState = {
+	group: Group;
+	items: PowerUpRenderable[];
+};
+
+export function createPowerUpRenderer(): PowerUpRendererState {
+	return {
+		group: new Group(),
+		items: [],
+	};
+}
+
+export function updatePowerUpRenderer(
+	renderer: PowerUpRendererState,
+	powerUps: SimulationSnapshot["powerUps"],
+	simTimeSeconds: number,
+): void {
+	const { items, group } = renderer;
+
+	while (items.length < powerUps.length) {
+		const item = createPowerUpRenderable();
+		items.push(item);
+		group.add(item.group);
+	}
+
+	for (let i = 0; i < items.length; i += 1) {
+		const item = items[i];
+		const powerUp = powerUps[i];
+		if (!powerUp) {
+			item.group.visible = false;
+			continue;
+		}
+		const remaining = powerUp.maxLifetimeSeconds - powerUp.ageSeconds;
+		const blinkOff =
+			remaining < BLINK_SECONDS && Math.sin(simTimeSeconds * 24) < -0.2;
+		item.group.visible = !blinkOff;
+		item.group.position.set(powerUp.x, powerUp.y, powerUp.z);
+
+		const color = POWER_UP_COLORS[powerUp.kind];
+		item.coreMaterial.color.set(color);
+		item.ringMaterial.color.set(color);
+
+		const pulse = 1 + Math.sin(powerUp.ageSeconds * 5.2) * 0.12;
+		item.group.scale.setScalar(pulse);
+		item.group.children[0].rotation.set(
+			powerUp.ageSeconds * 1.4,
+			powerUp.ageSeconds * 2.3,
+			0,
+		);
+		item.group.children[1].rotation.set(0, powerUp.ageSeconds * 1.8, 0);
+	}
+}
+
+function createPowerUpRenderable(): PowerUpRenderable {
+	const group = new Group();
+	const coreMaterial = new MeshBasicMaterial({
+		color: "#ffffff",
+		transparent: true,
+		opacity: 0.95,
+	});
+	const ringMaterial = new MeshBasicMaterial({
+		color: "#ffffff",
+		transparent: true,
+		opacity: 0.7,
+		blending: AdditiveBlending,
+	});
+	group.add(new Mesh(coreGeometry, coreMaterial));
+	group.add(new Mesh(ringGeometry, ringMaterial));
+	group.visible = false;
+	return { group, coreMaterial, ringMaterial };
+}
@@ -0,0 +1,26 @@
+import { Color, CylinderGeometry } from "three";
+import type { RenderEnemyModule } from "./types";
+
+function createBlueHexagonGeometry() {
+	// A six-sided plate turned to face the camera.
+	const geometry = new CylinderGeometry(0.62, 0.62, 0.32, 6);
+	geometry.rotateX(Math.PI / 2);
+	return geometry;
+}
+
+export const blueHexagonGeometry = createBlueHexagonGeometry();
+
+export const blueHexagonRenderModule: RenderEnemyModule = {
+	archetypeId: "blueHexagon",
+	geometry: blueHexagonGeometry,
+	style: {
+		baseColor: new Color("#60a5fa"),
+		hitColor: new Color("#e0f2fe"),
+		baseEmissive: new Color("#1e3a8a"),
+		hitEmissive: new Color("#7dd3fc"),
+	},
+	healthBar: {
+		width: 1.2,
+		offsetY: 1,
+	},
+};
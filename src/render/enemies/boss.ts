@@ -0,0 +1,41 @@
+import {
+	BoxGeometry,
+	Color,
+	IcosahedronGeometry,
+	OctahedronGeometry,
+} from "three";
+import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import type { RenderEnemyModule } from "./types";
+
+function createBossGeometry() {
+	// Pods sit on the sim's pod hitboxes; the spine only ties them together.
+	const core = new OctahedronGeometry(1.05, 0);
+	const spine = new BoxGeometry(0.28, 2.6, 0.28).toNonIndexed();
+	spine.translate(0.2, 0, 0);
+	const upperPod = new IcosahedronGeometry(0.52, 0);
+	upperPod.translate(0.35, 1.3, 0);
+	const lowerPod = new IcosahedronGeometry(0.52, 0);
+	lowerPod.translate(0.35, -1.3, 0);
+	const merged = mergeGeometries([core, spine, upperPod, lowerPod]);
+	for (const part of [core, spine, upperPod, lowerPod]) {
+		part.dispose();
+	}
+	return merged;
+}
+
+export const bossGeometry = createBossGeometry();
+
+export const bossRenderModule: RenderEnemyModule = {
+	archetypeId: "boss",
+	geometry: bossGeometry,
+	style: {
+		baseColor: new Color("#c084fc"),
+		hitColor: new Color("#fef08a"),
+		baseEmissive: new Color("#581c87"),
+		hitEmissive: new Color("#fde047"),
+	},
+	healthBar: {
+		width: 3.2,
+		offsetY: 2.3,
+	},
+};
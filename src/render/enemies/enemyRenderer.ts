@@ -3,18 +3,33 @@ import {
 	DoubleSide,
 	Group,
 	Mesh,
+	MeshBasicMaterial,
 	MeshStandardMaterial,
+	PlaneGeometry,
 } from "three";
 import type { SimulationSnapshot } from "../../game/types";
+import { blueHexagonRenderModule } from "./blueHexagon";
+import { bossRenderModule } from "./boss";
 import { greenTriangleRenderModule } from "./greenTriangle";
 import { redCubeRenderModule } from "./redCube";
+import {
+	splitterRenderModule,
+	splitterShardRenderModule,
+} from "./splitter";
 import type { EnemyRenderStyle, RenderEnemyModule } from "./types";
 
 const ENEMY_BASE_OPACITY = 0.62;
+const HEALTH_BAR_HEIGHT = 0.16;
+const HEALTH_BAR_FULL_COLOR = new Color("#4ade80");
+const HEALTH_BAR_LOW_COLOR = new Color("#ef4444");
 
 const renderModules = new Map<string, RenderEnemyModule>([
 	["redCube", redCubeRenderModule],
 	["greenTriangle", greenTriangleRenderModule],
+	["blueHexagon", blueHexagonRenderModule],
+	["splitter", splitterRenderModule],
+	["splitterShard", splitterShardRenderModule],
+	["boss", bossRenderModule],
 ]);
 
 export function registerEnemyRenderModule(module: RenderEnemyModule): void {
@@ -27,6 +42,13 @@ export type EnemyRendererState = {
 	material: MeshStandardMaterial;
 	tintColor: Color;
 	tintEmissive: Color;
+	healthBars: HealthBar[];
+	healthBarGeometry: PlaneGeometry;
+};
+
+type HealthBar = {
+	background: Mesh;
+	fill: Mesh;
 };
 
 export function createEnemyRenderer(): EnemyRendererState {
@@ -48,6 +70,8 @@ export function createEnemyRenderer(): EnemyRendererState {
 		material,
 		tintColor: new Color(),
 		tintEmissive: new Color(),
+		healthBars: [],
+		healthBarGeometry: new PlaneGeometry(1, 1),
 	};
 }
 
@@ -103,11 +127,21 @@ export function updateEnemyRenderer(
 
 		mesh.position.set(enemy.x, enemy.y, enemy.z);
 
-		if (enemy.archetype === "greenTriangle") {
+		if (enemy.archetype === "boss") {
+			// Stays upright so the pods line up with their hitboxes.
+			mesh.rotation.x = 0;
+			mesh.rotation.y = Math.sin(enemy.rotationZ * 0.5) * 0.4;
+			mesh.rotation.z = 0;
+		} else if (enemy.archetype === "greenTriangle") {
 			const tumble = enemy.rotationZ;
 			mesh.rotation.x = 0.92 + Math.sin(tumble * 1.34) * 0.58;
 			mesh.rotation.y = 0.78 + Math.cos(tumble * 1.12) * 0.52;
 			mesh.rotation.z = tumble * 1.42;
+		} else if (enemy.archetype === "blueHexagon") {
+			// Keeps the plate facing the camera so the shield reads clearly.
+			mesh.rotation.x = Math.sin(enemy.rotationZ * 0.7) * 0.25;
+			mesh.rotation.y = Math.cos(enemy.rotationZ * 0.5) * 0.25;
+			mesh.rotation.z = enemy.rotationZ * 0.5;
 		} else {
 			mesh.rotation.x = 0.48;
 			mesh.rotation.y = 0.58;
@@ -117,6 +151,74 @@ export function updateEnemyRenderer(
 		const flashScale = 1 + enemy.damageFlash * 0.14;
 		mesh.scale.setScalar(flashScale);
 	}
+
+	updateHealthBars(renderer, enemies);
+}
+
+function updateHealthBars(
+	renderer: EnemyRendererState,
+	enemies: SimulationSnapshot["enemies"],
+): void {
+	let used = 0;
+	for (const enemy of enemies) {
+		const healthBar = renderModules.get(enemy.archetype)?.healthBar;
+		const entryAlpha = clamp01((18.4 - enemy.x) / 2.8);
+		if (!healthBar || entryAlpha <= 0.01) {
+			continue;
+		}
+		const bar = acquireHealthBar(renderer, used);
+		used += 1;
+
+		const health = clamp01(enemy.health);
+		const y = enemy.y + healthBar.offsetY;
+		bar.background.visible = true;
+		bar.background.position.set(enemy.x, y, enemy.z + 0.4);
+		bar.background.scale.set(healthBar.width, HEALTH_BAR_HEIGHT, 1);
+		(bar.background.material as MeshBasicMaterial).opacity = entryAlpha * 0.5;
+
+		const fillWidth = healthBar.width * health;
+		bar.fill.visible = fillWidth > 1e-3;
+		bar.fill.position.set(
+			enemy.x - (healthBar.width - fillWidth) * 0.5,
+			y,
+			enemy.z + 0.45,
+		);
+		bar.fill.scale.set(Math.max(1e-3, fillWidth), HEALTH_BAR_HEIGHT, 1);
+		const fillMaterial = bar.fill.material as MeshBasicMaterial;
+		fillMaterial.color.lerpColors(HEALTH_BAR_LOW_COLOR, HEALTH_BAR_FULL_COLOR, health);
+		fillMaterial.opacity = entryAlpha * 0.9;
+	}
+
+	for (let i = used; i < renderer.healthBars.length; i += 1) {
+		renderer.healthBars[i].background.visible = false;
+		renderer.healthBars[i].fill.visible = false;
+	}
+}
+
+function acquireHealthBar(
+	renderer: EnemyRendererState,
+	index: number,
+): HealthBar {
+	const existing = renderer.healthBars[index];
+	if (existing) {
+		return existing;
+	}
+	const background = new Mesh(
+		renderer.healthBarGeometry,
+		new MeshBasicMaterial({
+			color: "#0f172a",
+			transparent: true,
+			depthWrite: false,
+		}),
+	);
+	const fill = new Mesh(
+		renderer.healthBarGeometry,
+		new MeshBasicMaterial({ transparent: true, depthWrite: false }),
+	);
+	const bar = { background, fill };
+	renderer.healthBars.push(bar);
+	renderer.group.add(background, fill);
+	return bar;
 }
 
 function clamp01(value: number): number {
@@ -0,0 +1,24 @@
+import { Color, DodecahedronGeometry, OctahedronGeometry } from "three";
+import type { EnemyRenderStyle, RenderEnemyModule } from "./types";
+
+export const splitterGeometry = new DodecahedronGeometry(0.56, 0);
+export const splitterShardGeometry = new OctahedronGeometry(0.34, 0);
+
+const splitterStyle: EnemyRenderStyle = {
+	baseColor: new Color("#fb923c"),
+	hitColor: new Color("#fef08a"),
+	baseEmissive: new Color("#7c2d12"),
+	hitEmissive: new Color("#fde047"),
+};
+
+export const splitterRenderModule: RenderEnemyModule = {
+	archetypeId: "splitter",
+	geometry: splitterGeometry,
+	style: splitterStyle,
+};
+
+export const splitterShardRenderModule: RenderEnemyModule = {
+	archetypeId: "splitterShard",
+	geometry: splitterShardGeometry,
+	style: splitterStyle,
+};
@@ -11,6 +11,12 @@ export type EnemyRenderStyle = {
 	hitEmissive: Color;
 };
 
+/** Bar drawn above multi-hit enemies, sized in world units. */
+export type EnemyHealthBarStyle = {
+	width: number;
+	offsetY: number;
+};
+
 /**
  * Render-side module for an enemy archetype.
  * Provides geometry and visual styling.
@@ -19,4 +25,5 @@ export type RenderEnemyModule = {
 	archetypeId: string;
 	geometry: BufferGeometry;
 	style: EnemyRenderStyle;
+	healthBar?: EnemyHealthBarStyle;
 };
@@ -54,6 +54,14 @@ import {
 	syncPurplePulsePool,
 	type PurplePulseRenderable,
 } from "./effects/purplePulses";
+import {
+	createJudgementPopupRenderer,
+	updateJudgementPopupRenderer,
+} from "./effects/judgementPopups";
+import {
+	createPowerUpRenderer,
+	updatePowerUpRenderer,
+} from "./effects/powerUps";
 import {
 	createEnemyRenderer,
 	updateEnemyRenderer,
@@ -88,6 +96,7 @@ const BLOOM_DEFAULT_RADIUS = 0;
 const BLOOM_DEFAULT_EXPOSURE = 1;
 const BLOOM_MAX_STRENGTH = 3;
 const BLOOM_MAX_EXPOSURE = 2;
+const SHIP_INVULNERABLE_BLINK_HZ = 14;
 
 export function setupScene(container: HTMLElement): RenderScene {
 	const FIXED_RENDER_WIDTH = 1920;
@@ -250,6 +259,10 @@ export function setupScene(container: HTMLElement): RenderScene {
 	});
 	const shieldMesh = new Mesh(new SphereGeometry(0.8, 16, 12), shieldMaterial);
 	scene.add(shieldMesh);
+	const shieldFullColor = new Color("#7dd3fc");
+	const shieldDepletedColor = new Color("#f87171");
+	const shieldFullEmissive = new Color("#38bdf8");
+	const shieldDepletedEmissive = new Color("#ef4444");
 
 	const enemyRenderer = createEnemyRenderer();
 	scene.add(enemyRenderer.group);
@@ -273,6 +286,12 @@ export function setupScene(container: HTMLElement): RenderScene {
 	const laserBeamRenderer = createLaserBeamRenderer();
 	scene.add(laserBeamRenderer.group);
 
+	const powerUpRenderer = createPowerUpRenderer();
+	scene.add(powerUpRenderer.group);
+
+	const judgementPopupRenderer = createJudgementPopupRenderer();
+	scene.add(judgementPopupRenderer.group);
+
 	let previousShipY = 0;
 	let previousShipTimeSeconds = 0;
 	let hasPreviousShipY = false;
@@ -372,6 +391,21 @@ export function setupScene(container: HTMLElement): RenderScene {
 			shieldMesh.position.copy(shipMesh.position);
 			shieldMaterial.opacity = snapshot.shieldAlpha * 0.45;
 			shieldMesh.scale.setScalar(1 + snapshot.shieldAlpha * 0.5);
+			const shieldFraction =
+				snapshot.shipMaxShield > 0
+					? snapshot.shipShield / snapshot.shipMaxShield
+					: 0;
+			shieldMaterial.color
+				.copy(shieldDepletedColor)
+				.lerp(shieldFullColor, shieldFraction);
+			shieldMaterial.emissive
+				.copy(shieldDepletedEmissive)
+				.lerp(shieldFullEmissive, shieldFraction);
+			const invulnerableBlink =
+				snapshot.shipInvulnerableSeconds > 0 &&
+				Math.floor(simTimeSeconds * SHIP_INVULNERABLE_BLINK_HZ) % 2 === 0;
+			shipMesh.visible = !snapshot.isGameOver && !invulnerableBlink;
+			shieldMesh.visible = !snapshot.isGameOver;
 
 			const intensity = snapshot.currentIntensity;
 			currentBg.copy(lowEnergyBg).lerp(highEnergyBg, intensity);
@@ -492,6 +526,15 @@ export function setupScene(container: HTMLElement): RenderScene {
 			}
 
 			updateLaserBeamRenderer(laserBeamRenderer, snapshot.laserBeams);
+			updatePowerUpRenderer(
+				powerUpRenderer,
+				snapshot.powerUps,
+				simTimeSeconds,
+			);
+			updateJudgementPopupRenderer(
+				judgementPopupRenderer,
+				snapshot.judgementPopups,
+			);
 
 			syncMeshPool(
 				explosionMeshes,
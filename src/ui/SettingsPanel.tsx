@@ -1,54 +1,94 @@
 import { useControls, folder, button, Leva } from "leva";
 import { useRef, useState, useEffect, useCallback, useSyncExternalStore } from "react";
-import type { SettingsBridge, SceneListEntry, StagePresetId } from "./settingsBridge";
+import {
+	applyRunSettings,
+	type SettingsBridge,
+	type SceneListEntry,
+	type StagePresetId,
+} from "./settingsBridge";
 import type { SceneKind } from "../render/scenes/types";
-import type { EnemyArchetypeId, EnemyProjectileStyle } from "../game/combatConfig";
+import {
+	DEFAULT_COMBAT_CONFIG,
+	normalizeCombatConfig,
+	type CombatConfigPatch,
+	type EnemyArchetypeId,
+	type EnemyProjectileStyle,
+	type ScoringConfig,
+	type ShipWeaponsConfig,
+} from "../game/combatConfig";
+import type { CueWeaponId, ShipControlMode } from "../game/types";
+import { getWeaponModules } from "../game/weapons/registry";
 import { getSceneControlSchema, SCENE_KIND_LABELS } from "./sceneControlSchemas";
 
 type RunAffectingState = {
-	blueLaser: boolean;
-	yellowLaser: boolean;
-	greenLaser: boolean;
-	purpleMissile: boolean;
-	orangeFlak: boolean;
+	controlMode: ShipControlMode;
+	weapons: ShipWeaponsConfig;
 	redCubeEnabled: boolean;
 	greenTriangleEnabled: boolean;
+	blueHexagonEnabled: boolean;
+	splitterEnabled: boolean;
+	bossEnabled: boolean;
 	enemyProjectileStyle: EnemyProjectileStyle;
 	spawnScale: number;
 	fireScale: number;
+	scoring: ScoringConfig;
 };
 
 const DEFAULT_RUN_STATE: RunAffectingState = {
-	blueLaser: true,
-	yellowLaser: true,
-	greenLaser: true,
-	purpleMissile: false,
-	orangeFlak: false,
+	controlMode: "auto",
+	weapons: { ...DEFAULT_COMBAT_CONFIG.shipWeapons },
 	redCubeEnabled: true,
 	greenTriangleEnabled: false,
+	blueHexagonEnabled: false,
+	splitterEnabled: false,
+	bossEnabled: false,
 	enemyProjectileStyle: "balls",
 	spawnScale: 1,
 	fireScale: 1,
+	scoring: { ...DEFAULT_COMBAT_CONFIG.scoring },
 };
 
 function buildCombatConfig(state: RunAffectingState) {
 	const enabledArchetypes: EnemyArchetypeId[] = [];
 	if (state.redCubeEnabled) enabledArchetypes.push("redCube");
 	if (state.greenTriangleEnabled) enabledArchetypes.push("greenTriangle");
+	if (state.blueHexagonEnabled) enabledArchetypes.push("blueHexagon");
+	if (state.splitterEnabled) enabledArchetypes.push("splitter");
+	if (state.bossEnabled) enabledArchetypes.push("boss");
 	return {
-		shipWeapons: {
-			blueLaser: state.blueLaser,
-			yellowLaser: state.yellowLaser,
-			greenLaser: state.greenLaser,
-			purpleMissile: state.purpleMissile,
-			orangeFlak: state.orangeFlak,
-		},
+		shipWeapons: { ...state.weapons },
 		enemyRoster: {
 			enabledArchetypes,
 			spawnScale: state.spawnScale,
 			fireScale: state.fireScale,
 			enemyProjectileStyle: state.enemyProjectileStyle,
 		},
+		scoring: { ...state.scoring },
+	};
+}
+
+function applyCombatConfigPatch(state: RunAffectingState, config: CombatConfigPatch): RunAffectingState {
+	const roster = config.enemyRoster ?? {};
+	const archetypes = roster.enabledArchetypes;
+	return {
+		...state,
+		// Normalizing maps legacy weapon keys from older saved configs.
+		weapons: normalizeCombatConfig(
+			{ shipWeapons: config.shipWeapons },
+			{ ...DEFAULT_COMBAT_CONFIG, shipWeapons: state.weapons },
+		).shipWeapons,
+		redCubeEnabled: archetypes ? archetypes.includes("redCube") : state.redCubeEnabled,
+		greenTriangleEnabled: archetypes ? archetypes.includes("greenTriangle") : state.greenTriangleEnabled,
+		blueHexagonEnabled: archetypes ? archetypes.includes("blueHexagon") : state.blueHexagonEnabled,
+		splitterEnabled: archetypes ? archetypes.includes("splitter") : state.splitterEnabled,
+		bossEnabled: archetypes ? archetypes.includes("boss") : state.bossEnabled,
+		enemyProjectileStyle: roster.enemyProjectileStyle ?? state.enemyProjectileStyle,
+		spawnScale: roster.spawnScale ?? state.spawnScale,
+		fireScale: roster.fireScale ?? state.fireScale,
+		scoring: normalizeCombatConfig(
+			{ scoring: config.scoring },
+			{ ...DEFAULT_COMBAT_CONFIG, scoring: state.scoring },
+		).scoring,
 	};
 }
 
@@ -123,46 +163,69 @@ function SettingsPanelInner({ bridge }: { bridge: SettingsBridge }) {
 	const pendingRef = useRef<RunAffectingState>({ ...DEFAULT_RUN_STATE });
 	const appliedRef = useRef<RunAffectingState>({ ...DEFAULT_RUN_STATE });
 
-	const handleRunAffecting = useCallback(
-		<K extends keyof RunAffectingState>(key: K, value: RunAffectingState[K]) => {
-			if (pendingRef.current[key] === value) return;
-			pendingRef.current = { ...pendingRef.current, [key]: value };
+	const commitPending = useCallback(
+		(next: RunAffectingState) => {
+			pendingRef.current = next;
 			if (songLoaded) {
 				setRunDirty(true);
 			} else {
 				appliedRef.current = { ...pendingRef.current };
+				bridge.handlers.onControlModeChange(pendingRef.current.controlMode);
 				bridge.handlers.onCombatConfigChange(buildCombatConfig(pendingRef.current));
 			}
 		},
 		[bridge, songLoaded],
 	);
 
-	// ── Ship ──
-	useControls("Ship", () => ({
-		"Blue Laser": {
-			value: DEFAULT_RUN_STATE.blueLaser,
-			onChange: (v: boolean) => handleRunAffecting("blueLaser", v),
-		},
-		"Yellow Laser": {
-			value: DEFAULT_RUN_STATE.yellowLaser,
-			onChange: (v: boolean) => handleRunAffecting("yellowLaser", v),
-		},
-		"Green Laser": {
-			value: DEFAULT_RUN_STATE.greenLaser,
-			onChange: (v: boolean) => handleRunAffecting("greenLaser", v),
+	const handleRunAffecting = useCallback(
+		<K extends keyof RunAffectingState>(key: K, value: RunAffectingState[K]) => {
+			if (pendingRef.current[key] === value) return;
+			commitPending({ ...pendingRef.current, [key]: value });
 		},
-		"Purple Missile": {
-			value: DEFAULT_RUN_STATE.purpleMissile,
-			onChange: (v: boolean) => handleRunAffecting("purpleMissile", v),
+		[commitPending],
+	);
+
+	const handleWeaponToggle = useCallback(
+		(weaponId: CueWeaponId, enabled: boolean) => {
+			const weapons = pendingRef.current.weapons;
+			if ((weapons[weaponId] ?? false) === enabled) return;
+			commitPending({ ...pendingRef.current, weapons: { ...weapons, [weaponId]: enabled } });
 		},
-		"Orange Flak": {
-			value: DEFAULT_RUN_STATE.orangeFlak,
-			onChange: (v: boolean) => handleRunAffecting("orangeFlak", v),
+		[commitPending],
+	);
+
+	const handleScoringWindow = useCallback(
+		(key: keyof ScoringConfig, value: number) => {
+			const scoring = pendingRef.current.scoring;
+			if (scoring[key] === value) return;
+			commitPending({ ...pendingRef.current, scoring: { ...scoring, [key]: value } });
 		},
-	}), [handleRunAffecting]);
+		[commitPending],
+	);
+
+	// ── Ship ──
+	// One toggle per registered weapon, so custom weapons registered before
+	// the panel mounts show up alongside the built-ins.
+	const [, setShipControls] = useControls("Ship", () => {
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		const controls: Record<string, any> = {
+			Control: {
+				value: DEFAULT_RUN_STATE.controlMode,
+				options: { Auto: "auto" as const, Manual: "manual" as const, Assist: "assist" as const },
+				onChange: (v: ShipControlMode) => handleRunAffecting("controlMode", v),
+			},
+		};
+		for (const module of getWeaponModules()) {
+			controls[module.label] = {
+				value: DEFAULT_RUN_STATE.weapons[module.id] ?? false,
+				onChange: (v: boolean) => handleWeaponToggle(module.id, v),
+			};
+		}
+		return controls;
+	}, [handleRunAffecting, handleWeaponToggle]);
 
 	// ── Enemies ──
-	useControls("Enemies", () => ({
+	const [, setEnemyControls] = useControls("Enemies", () => ({
 		"Red Cube": {
 			value: DEFAULT_RUN_STATE.redCubeEnabled,
 			onChange: (v: boolean) => handleRunAffecting("redCubeEnabled", v),
@@ -171,6 +234,18 @@ function SettingsPanelInner({ bridge }: { bridge: SettingsBridge }) {
 			value: DEFAULT_RUN_STATE.greenTriangleEnabled,
 			onChange: (v: boolean) => handleRunAffecting("greenTriangleEnabled", v),
 		},
+		"Blue Hexagon": {
+			value: DEFAULT_RUN_STATE.blueHexagonEnabled,
+			onChange: (v: boolean) => handleRunAffecting("blueHexagonEnabled", v),
+		},
+		Splitter: {
+			value: DEFAULT_RUN_STATE.splitterEnabled,
+			onChange: (v: boolean) => handleRunAffecting("splitterEnabled", v),
+		},
+		Boss: {
+			value: DEFAULT_RUN_STATE.bossEnabled,
+			onChange: (v: boolean) => handleRunAffecting("bossEnabled", v),
+		},
 		"Projectile Style": {
 			value: DEFAULT_RUN_STATE.enemyProjectileStyle,
 			options: { Balls: "balls" as const, Lasers: "lasers" as const },
@@ -188,6 +263,54 @@ function SettingsPanelInner({ bridge }: { bridge: SettingsBridge }) {
 		},
 	}), [handleRunAffecting]);
 
+	// ── Scoring ──
+	// Windows are in milliseconds; the sim widens any window narrower than
+	// the one inside it.
+	const [, setScoringControls] = useControls("Scoring", () => ({
+		"Perfect (ms)": {
+			value: DEFAULT_RUN_STATE.scoring.perfectWindowMs,
+			min: 5, max: 200, step: 1,
+			onChange: (v: number) => handleScoringWindow("perfectWindowMs", v),
+		},
+		"Great (ms)": {
+			value: DEFAULT_RUN_STATE.scoring.greatWindowMs,
+			min: 5, max: 300, step: 1,
+			onChange: (v: number) => handleScoringWindow("greatWindowMs", v),
+		},
+		"Good (ms)": {
+			value: DEFAULT_RUN_STATE.scoring.goodWindowMs,
+			min: 5, max: 500, step: 1,
+			onChange: (v: number) => handleScoringWindow("goodWindowMs", v),
+		},
+	}), [handleScoringWindow]);
+
+	// Imported configs are already applied by the host, so the panel only
+	// mirrors them; pending state is updated first so onChange sees no diff.
+	useEffect(() => bridge.subscribeCombatConfig((config) => {
+		const next = applyCombatConfigPatch(pendingRef.current, config);
+		pendingRef.current = next;
+		appliedRef.current = { ...next };
+		setRunDirty(false);
+		setShipControls(Object.fromEntries(
+			getWeaponModules().map((module) => [module.label, next.weapons[module.id] ?? false]),
+		));
+		setEnemyControls({
+			"Red Cube": next.redCubeEnabled,
+			"Green Triangle": next.greenTriangleEnabled,
+			"Blue Hexagon": next.blueHexagonEnabled,
+			Splitter: next.splitterEnabled,
+			Boss: next.bossEnabled,
+			"Projectile Style": next.enemyProjectileStyle,
+			"Spawn Scale": next.spawnScale,
+			"Fire Scale": next.fireScale,
+		});
+		setScoringControls({
+			"Perfect (ms)": next.scoring.perfectWindowMs,
+			"Great (ms)": next.scoring.greatWindowMs,
+			"Good (ms)": next.scoring.goodWindowMs,
+		});
+	}), [bridge, setShipControls, setEnemyControls, setScoringControls]);
+
 	// ── Stage Preset + Add Scene ──
 	const addKindRef = useRef<SceneKind>("starfield");
 
@@ -267,9 +390,9 @@ function SettingsPanelInner({ bridge }: { bridge: SettingsBridge }) {
 			async () => {
 				setSaving(true);
 				try {
-					bridge.handlers.onCombatConfigChange(buildCombatConfig(pendingRef.current));
-					appliedRef.current = { ...pendingRef.current };
-					await bridge.requestRecompute();
+					const pending = pendingRef.current;
+					appliedRef.current = { ...pending };
+					await applyRunSettings(bridge, pending.controlMode, buildCombatConfig(pending));
 				} finally {
 					setSaving(false);
 					setRunDirty(false);
@@ -0,0 +1,150 @@
+import {
+  clearAnalysisCache,
+  deleteCachedAnalysis,
+  isAnalysisCacheAvailable,
+  listCachedAnalyses,
+  type CachedAnalysisSummary
+} from "../audio/analysis-cache";
+
+export type AnalysisCachePanel = {
+  toggle: () => void;
+  hide: () => void;
+};
+
+export function createAnalysisCachePanel(container: HTMLElement): AnalysisCachePanel {
+  const overlay = document.createElement("section");
+  overlay.className = "analysis-cache analysis-cache--hidden";
+
+  const card = document.createElement("div");
+  card.className = "analysis-cache__card";
+
+  const header = document.createElement("div");
+  header.className = "analysis-cache__header";
+  const title = document.createElement("h2");
+  title.className = "analysis-cache__title";
+  title.textContent = "Analysis Cache";
+  const closeButton = document.createElement("button");
+  closeButton.type = "button";
+  closeButton.className = "audio-controls__button analysis-cache__close";
+  closeButton.textContent = "Close";
+  header.append(title, closeButton);
+
+  const summary = document.createElement("p");
+  summary.className = "analysis-cache__summary";
+
+  const list = document.createElement("ul");
+  list.className = "analysis-cache__list";
+
+  const clearButton = document.createElement("button");
+  clearButton.type = "button";
+  clearButton.className = "audio-controls__button audio-controls__button--secondary";
+  clearButton.textContent = "Clear Cache";
+
+  card.append(header, summary, list, clearButton);
+  overlay.appendChild(card);
+  container.appendChild(overlay);
+
+  let refreshId = 0;
+
+  const isHidden = (): boolean => overlay.classList.contains("analysis-cache--hidden");
+
+  const hide = (): void => {
+    overlay.classList.add("analysis-cache--hidden");
+  };
+
+  const render = (entries: CachedAnalysisSummary[]): void => {
+    list.replaceChildren();
+    const totalBytes = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+    summary.textContent =
+      entries.length === 0
+        ? "No cached tracks."
+        : `${entries.length} track${entries.length === 1 ? "" : "s"} | ${formatBytes(totalBytes)}`;
+    clearButton.disabled = entries.length === 0;
+
+    for (const entry of entries) {
+      const item = document.createElement("li");
+      item.className = "analysis-cache__item";
+
+      const name = document.createElement("span");
+      name.className = "analysis-cache__name";
+      name.textContent = entry.fileName;
+      name.title = entry.hash;
+
+      const meta = document.createElement("span");
+      meta.className = "analysis-cache__meta";
+      meta.textContent = `${formatDuration(entry.durationSeconds)} | ${formatBytes(entry.sizeBytes)}`;
+
+      const removeButton = document.createElement("button");
+      removeButton.type = "button";
+      removeButton.className = "audio-controls__button analysis-cache__remove";
+      removeButton.textContent = "Remove";
+      removeButton.addEventListener("click", () => {
+        removeButton.disabled = true;
+        void deleteCachedAnalysis(entry.hash).finally(() => refresh());
+      });
+
+      item.append(name, meta, removeButton);
+      list.appendChild(item);
+    }
+  };
+
+  const refresh = async (): Promise<void> => {
+    const currentRefreshId = ++refreshId;
+    if (!isAnalysisCacheAvailable()) {
+      list.replaceChildren();
+      summary.textContent = "IndexedDB is not available in this browser.";
+      clearButton.disabled = true;
+      return;
+    }
+    summary.textContent = "Loading...";
+    try {
+      const entries = await listCachedAnalyses();
+      if (currentRefreshId === refreshId) {
+        render(entries);
+      }
+    } catch (error) {
+      if (currentRefreshId === refreshId) {
+        const message = error instanceof Error ? error.message : String(error);
+        list.replaceChildren();
+        summary.textContent = `Cache unavailable: ${message}`;
+        clearButton.disabled = true;
+      }
+    }
+  };
+
+  closeButton.addEventListener("click", hide);
+  overlay.addEventListener("click", (event) => {
+    if (event.target === overlay) {
+      hide();
+    }
+  });
+  clearButton.addEventListener("click", () => {
+    clearButton.disabled = true;
+    void clearAnalysisCache().finally(() => refresh());
+  });
+
+  return {
+    toggle() {
+      if (isHidden()) {
+        overlay.classList.remove("analysis-cache--hidden");
+        void refresh();
+      } else {
+        hide();
+      }
+    },
+    hide
+  };
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(total % 60).padStart(2, "0")}`;
+}
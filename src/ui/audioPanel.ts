@@ -1,12 +1,32 @@
-import type { AudioAnalysisResult } from "../audio/types";
+import type {
+  AudioAnalysisResult,
+  CuePoint,
+  OnsetBand,
+  SectionLabel,
+  SongSection
+} from "../audio/types";
+import { createCueEditor, type CueEditOverlay, type TimelineView } from "./cueEditor";
 
 const RUN_SEED_STORAGE_KEY = "audio-starfighter.run-seed";
 
 type AudioPanelHandlers = {
-  onAnalyze: (file: File) => Promise<AudioAnalysisResult>;
+  onAnalyze: (file: File, imported: AudioAnalysisResult | null) => Promise<AudioAnalysisResult>;
   onStartRun: (analysis: AudioAnalysisResult, seed: number) => void | Promise<void>;
+  onExportAnalysis: (analysis: AudioAnalysisResult, seed: number) => void;
+  onImportAnalysis: (file: File) => Promise<ImportedAnalysis>;
   onToggleUi: () => boolean;
   onSettingsToggle: () => void;
+  onCacheToggle: () => void;
+  onLiveInputToggle: (enabled: boolean) => Promise<void>;
+  /** Several files picked at once; they are queued rather than loaded. */
+  onQueueFiles: (files: File[]) => void;
+  /** Playback reached the end of the track with repeat off. */
+  onTrackEnded: () => void;
+};
+
+export type ImportedAnalysis = {
+  analysis: AudioAnalysisResult;
+  seed: number;
 };
 
 type SpectrumSubscriber = (bins: Float32Array | null) => void;
@@ -20,8 +40,31 @@ export type AudioPanel = {
   subscribeSpectrum: (subscriber: SpectrumSubscriber) => () => void;
   loadFile: (file: File) => Promise<void>;
   triggerRecompute: () => Promise<void>;
+  setRunOutcome: (outcome: RunOutcome) => void;
+  setLiveTempo: (bpm: number, confidence: number) => void;
+  getRunSeed: () => number;
 };
 
+export type RunOutcome = {
+  isGameOver: boolean;
+  gameOverTimeSeconds: number | null;
+};
+
+const SECTION_BAND_COLORS: Record<SectionLabel, string> = {
+  intro: "rgba(148, 163, 184, 0.14)",
+  verse: "rgba(96, 165, 250, 0.12)",
+  build: "rgba(250, 204, 21, 0.14)",
+  drop: "rgba(248, 113, 113, 0.18)",
+  breakdown: "rgba(52, 211, 153, 0.14)",
+  outro: "rgba(167, 139, 250, 0.14)"
+};
+// Matches the weapon each band is routed to in the sim.
+const CUE_BAND_COLORS: Record<OnsetBand, string> = {
+  low: "rgba(192, 132, 252, 0.9)",
+  mid: "rgba(74, 222, 128, 0.9)",
+  high: "rgba(250, 204, 21, 0.9)"
+};
+const CUE_DEFAULT_COLOR = "rgba(244, 114, 182, 0.9)";
 const SPECTRUM_ANALYZER_FFT_SIZE = 1024;
 const SPECTRUM_ANALYZER_MIN_DB = -100;
 const SPECTRUM_ANALYZER_MAX_DB = -12;
@@ -52,6 +95,7 @@ export function createAudioPanel(
   const fileInput = document.createElement("input");
   fileInput.type = "file";
   fileInput.accept = "audio/*";
+  fileInput.multiple = true;
   fileInput.className = "audio-controls__file-input";
 
   const chooseFileButton = document.createElement("button");
@@ -60,7 +104,14 @@ export function createAudioPanel(
   chooseFileButton.textContent = "Open File";
   chooseFileButton.title = "Select an audio file";
 
-  controlsMain.append(chooseFileButton, fileInput);
+  const liveInputButton = document.createElement("button");
+  liveInputButton.type = "button";
+  liveInputButton.className = "audio-controls__button audio-controls__button--secondary audio-controls__live";
+  liveInputButton.textContent = "Live Input";
+  liveInputButton.title = "Analyze a microphone or line-in stream in real time";
+  liveInputButton.setAttribute("aria-pressed", "false");
+
+  controlsMain.append(chooseFileButton, liveInputButton, fileInput);
 
   const summary = document.createElement("p");
   summary.className = "audio-controls__summary";
@@ -111,6 +162,33 @@ export function createAudioPanel(
   settingsButton.title = "Toggle settings panel";
   controlsRight.appendChild(settingsButton);
 
+  const cacheButton = document.createElement("button");
+  cacheButton.type = "button";
+  cacheButton.className = "audio-controls__button audio-controls__button--secondary audio-controls-cache";
+  cacheButton.textContent = "Cache";
+  cacheButton.title = "Manage cached track analyses";
+  controlsRight.appendChild(cacheButton);
+
+  const importInput = document.createElement("input");
+  importInput.type = "file";
+  importInput.accept = ".json,application/json";
+  importInput.className = "audio-controls__file-input";
+
+  const importButton = document.createElement("button");
+  importButton.type = "button";
+  importButton.className = "audio-controls__button audio-controls__button--secondary audio-controls-analysis-file";
+  importButton.textContent = "Import";
+  importButton.title = "Load an exported analysis and cue sheet";
+  controlsRight.append(importButton, importInput);
+
+  const exportButton = document.createElement("button");
+  exportButton.type = "button";
+  exportButton.className = "audio-controls__button audio-controls__button--secondary audio-controls-analysis-file";
+  exportButton.textContent = "Export";
+  exportButton.title = "Save the analysis, cues, seed and combat settings";
+  exportButton.disabled = true;
+  controlsRight.appendChild(exportButton);
+
   const toggleUiButton = document.createElement("button");
   toggleUiButton.type = "button";
   toggleUiButton.className = "audio-controls-toggle";
@@ -165,12 +243,14 @@ export function createAudioPanel(
   container.appendChild(playbackPanel);
 
   let latestAnalysis: AudioAnalysisResult | null = null;
+  // An imported analysis is used in place of decoding the next opened file.
+  let pendingImportedAnalysis: AudioAnalysisResult | null = null;
   let requestId = 0;
   let trackUrl: string | null = null;
   let playbackTimeSeconds = 0;
   let lastTimelineDrawPlaybackTime = -1;
   let placeholderText = "Load a track to view timeline.";
-  let runStarting = false;
+  let runRequestId = 0;
   let audioContext: AudioContext | null = null;
   let audioSourceNode: MediaElementAudioSourceNode | null = null;
   let audioAnalyserNode: AnalyserNode | null = null;
@@ -185,6 +265,36 @@ export function createAudioPanel(
   const spectrumSubscribers = new Set<SpectrumSubscriber>();
   let shouldDrawSpectrumUi = true;
   let repeatEnabled = false;
+  let gameOverTimeSeconds: number | null = null;
+  let liveInputActive = false;
+
+  const cueEditor = createCueEditor(waveformPanel, canvas, {
+    onRedraw() {
+      if (latestAnalysis) {
+        drawCurrentTimeline(latestAnalysis);
+      }
+    },
+    onApply(cues) {
+      if (!latestAnalysis) {
+        return;
+      }
+      latestAnalysis = { ...latestAnalysis, cues, cuesEdited: true };
+      cueEditor.markApplied();
+      void startRun("restart");
+    }
+  });
+
+  const drawCurrentTimeline = (analysis: AudioAnalysisResult): void => {
+    drawTimeline(
+      canvas,
+      analysis,
+      playbackTimeSeconds,
+      gameOverTimeSeconds,
+      cueEditor.getView(analysis.durationSeconds),
+      cueEditor.getOverlay()
+    );
+    lastTimelineDrawPlaybackTime = playbackTimeSeconds;
+  };
 
   const ensureSpectrumBufferSize = (size: number): void => {
     const targetSize = Math.max(0, Math.floor(size));
@@ -339,18 +449,24 @@ export function createAudioPanel(
     resumeAudioAnalyser();
   });
 
+  audio.addEventListener("ended", () => {
+    if (!liveInputActive) {
+      handlers.onTrackEnded();
+    }
+  });
+
   const setAnalysisSummary = (analysis: AudioAnalysisResult): void => {
     summary.textContent = [
       `BPM ${analysis.beat.bpm.toFixed(1)}`,
       `Frames ${analysis.frames.length}`,
-      `Mood ${analysis.mood.label}`,
+      `Mood ${formatMoodRange(analysis)}`,
       `Duration ${analysis.durationSeconds.toFixed(1)}s`
     ].join(" | ");
   };
 
   const resizeObserver = new ResizeObserver(() => {
     if (latestAnalysis) {
-      drawTimeline(canvas, latestAnalysis, playbackTimeSeconds);
+      drawCurrentTimeline(latestAnalysis);
     } else {
       drawPlaceholder(canvas, placeholderText);
     }
@@ -360,19 +476,74 @@ export function createAudioPanel(
   resizeObserver.observe(spectrumCanvas);
 
   fileInput.addEventListener("change", () => {
-    const file = fileInput.files?.[0];
-    if (!file) {
+    const files = Array.from(fileInput.files ?? []);
+    fileInput.value = "";
+    if (files.length > 1) {
+      handlers.onQueueFiles(files);
       return;
     }
-    void analyzeAndLoadFile(file);
+    if (files.length === 1) {
+      void analyzeAndLoadFile(files[0]);
+    }
   });
 
   chooseFileButton.addEventListener("click", () => {
     fileInput.click();
   });
 
+  liveInputButton.addEventListener("click", () => {
+    void setLiveInput(!liveInputActive);
+  });
+
+  const syncLiveInputButton = (): void => {
+    liveInputButton.textContent = liveInputActive ? "Stop Live" : "Live Input";
+    liveInputButton.setAttribute("aria-pressed", String(liveInputActive));
+  };
+
+  async function setLiveInput(enabled: boolean): Promise<void> {
+    liveInputButton.disabled = true;
+    if (enabled) {
+      summary.textContent = "Starting live input...";
+    }
+    try {
+      await handlers.onLiveInputToggle(enabled);
+      liveInputActive = enabled;
+      syncLiveInputButton();
+      if (enabled) {
+        // Paused only once live input is up, so a denied permission leaves playback alone.
+        audio.pause();
+        summary.textContent = "Live input: listening for a tempo...";
+        drawPlaceholder(canvas, "Live input: cues stream in as beats are tracked.");
+      } else if (latestAnalysis) {
+        drawCurrentTimeline(latestAnalysis);
+        void startRun("restart");
+      } else {
+        summary.textContent = "Load a track";
+        drawPlaceholder(canvas, placeholderText);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      summary.textContent = `Live input failed: ${message}`;
+    } finally {
+      liveInputButton.disabled = false;
+    }
+  }
+
   async function analyzeAndLoadFile(file: File): Promise<void> {
+    if (liveInputActive) {
+      liveInputActive = false;
+      syncLiveInputButton();
+      await handlers.onLiveInputToggle(false);
+    }
     const currentRequestId = ++requestId;
+    // An import only stands in for the track it was exported from.
+    const discardedImport =
+      pendingImportedAnalysis && pendingImportedAnalysis.fileName !== file.name
+        ? pendingImportedAnalysis
+        : null;
+    const imported = discardedImport ? null : pendingImportedAnalysis;
+    pendingImportedAnalysis = null;
+    runRequestId += 1;
     playbackTimeSeconds = 0;
     lastTimelineDrawPlaybackTime = -1;
     lastSpectrumSampleTimeMs = -Infinity;
@@ -380,11 +551,15 @@ export function createAudioPanel(
     publishSpectrum(null);
     spectrumFrameChanged = false;
     placeholderText = "Analyzing...";
-    summary.textContent = `Analyzing ${file.name}...`;
+    summary.textContent = imported
+      ? `Loading ${file.name} with imported analysis...`
+      : discardedImport
+        ? `Imported analysis is for ${discardedImport.fileName}, not ${file.name}. Analyzing ${file.name}...`
+        : `Analyzing ${file.name}...`;
     drawPlaceholder(canvas, placeholderText);
 
     try {
-      const analysis = await handlers.onAnalyze(file);
+      const analysis = await handlers.onAnalyze(file, imported);
       if (currentRequestId !== requestId) {
         return;
       }
@@ -394,6 +569,7 @@ export function createAudioPanel(
       lastTimelineDrawPlaybackTime = -1;
       runButton.disabled = false;
       restartButton.disabled = false;
+      exportButton.disabled = false;
       if (trackUrl) {
         URL.revokeObjectURL(trackUrl);
       }
@@ -401,9 +577,12 @@ export function createAudioPanel(
       audio.src = trackUrl;
       audio.load();
       setAnalysisSummary(analysis);
+      if (discardedImport) {
+        summary.textContent += ` | Discarded import for ${discardedImport.fileName}`;
+      }
 
-      drawTimeline(canvas, analysis, 0);
-      lastTimelineDrawPlaybackTime = 0;
+      cueEditor.load(analysis);
+      drawCurrentTimeline(analysis);
       void startRun("start");
     } catch (error) {
       if (currentRequestId !== requestId) {
@@ -415,6 +594,29 @@ export function createAudioPanel(
       drawPlaceholder(canvas, placeholderText);
       runButton.disabled = true;
       restartButton.disabled = true;
+      exportButton.disabled = latestAnalysis === null;
+    }
+  }
+
+  async function importAnalysisFile(file: File): Promise<void> {
+    try {
+      const imported = await handlers.onImportAnalysis(file);
+      seedInput.value = String(imported.seed);
+      saveSeedToStorage(seedInput.value);
+      // Re-exporting a cue sheet for the loaded track applies it in place.
+      if (latestAnalysis && trackUrl && latestAnalysis.fileName === imported.analysis.fileName) {
+        latestAnalysis = imported.analysis;
+        cueEditor.load(latestAnalysis);
+        setAnalysisSummary(latestAnalysis);
+        drawCurrentTimeline(latestAnalysis);
+        void startRun("restart");
+        return;
+      }
+      pendingImportedAnalysis = imported.analysis;
+      summary.textContent = `Imported ${file.name}. Open ${imported.analysis.fileName} to play it.`;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      summary.textContent = `Import failed: ${message}`;
     }
   }
 
@@ -440,6 +642,34 @@ export function createAudioPanel(
     saveSeedToStorage(seedInput.value);
   });
 
+  importButton.addEventListener("click", () => {
+    importInput.click();
+  });
+
+  importInput.addEventListener("change", () => {
+    const file = importInput.files?.[0];
+    importInput.value = "";
+    if (!file) {
+      return;
+    }
+    void importAnalysisFile(file);
+  });
+
+  exportButton.addEventListener("click", () => {
+    if (!latestAnalysis) {
+      return;
+    }
+    const editedCues = cueEditor.getEditedCues();
+    const analysis = editedCues
+      ? { ...latestAnalysis, cues: editedCues, cuesEdited: true }
+      : latestAnalysis;
+    handlers.onExportAnalysis(analysis, readRunSeed());
+  });
+
+  cacheButton.addEventListener("click", () => {
+    handlers.onCacheToggle();
+  });
+
   settingsButton.addEventListener("click", () => {
     handlers.onSettingsToggle();
   });
@@ -461,6 +691,10 @@ export function createAudioPanel(
       return;
     }
 
+    if (liveInputActive) {
+      return;
+    }
+
     if (event.code === "Space") {
       event.preventDefault();
       if (audio.paused) {
@@ -481,7 +715,8 @@ export function createAudioPanel(
   });
 
   canvas.addEventListener("pointerdown", (event) => {
-    if (!latestAnalysis) {
+    // While editing, clicks belong to the cue editor instead of seeking.
+    if (!latestAnalysis || cueEditor.isActive() || liveInputActive) {
       return;
     }
     const rect = canvas.getBoundingClientRect();
@@ -493,7 +728,7 @@ export function createAudioPanel(
     audio.currentTime = targetSeconds;
     playbackTimeSeconds = targetSeconds;
     lastTimelineDrawPlaybackTime = -1;
-    drawTimeline(canvas, latestAnalysis, playbackTimeSeconds);
+    drawCurrentTimeline(latestAnalysis);
   });
 
   drawPlaceholder(canvas, placeholderText);
@@ -505,7 +740,7 @@ export function createAudioPanel(
     },
     setPlaybackTime(timeSeconds) {
       playbackTimeSeconds = Math.max(0, timeSeconds);
-      if (latestAnalysis) {
+      if (latestAnalysis && !liveInputActive) {
         playbackTimeSeconds = Math.min(playbackTimeSeconds, latestAnalysis.durationSeconds);
         const shouldRedraw =
           lastTimelineDrawPlaybackTime < 0 ||
@@ -515,8 +750,7 @@ export function createAudioPanel(
         if (!shouldRedraw) {
           return;
         }
-        drawTimeline(canvas, latestAnalysis, playbackTimeSeconds);
-        lastTimelineDrawPlaybackTime = playbackTimeSeconds;
+        drawCurrentTimeline(latestAnalysis);
       }
     },
     getAudioPlaybackTime() {
@@ -536,25 +770,59 @@ export function createAudioPanel(
     },
     async triggerRecompute() {
       await startRun("restart");
+    },
+    getRunSeed() {
+      return readRunSeed();
+    },
+    setLiveTempo(bpm, confidence) {
+      if (liveInputActive) {
+        summary.textContent = `Live input | BPM ${bpm.toFixed(1)} | Lock ${(confidence * 100).toFixed(0)}%`;
+      }
+    },
+    setRunOutcome(outcome) {
+      const nextGameOverTime = outcome.isGameOver ? outcome.gameOverTimeSeconds : null;
+      if (nextGameOverTime === gameOverTimeSeconds) {
+        return;
+      }
+      const wasGameOver = gameOverTimeSeconds !== null;
+      gameOverTimeSeconds = nextGameOverTime;
+      summary.classList.toggle("audio-controls__summary--alert", gameOverTimeSeconds !== null);
+      if (gameOverTimeSeconds !== null && !wasGameOver) {
+        audio.pause();
+        summary.textContent = `Game over at ${gameOverTimeSeconds.toFixed(1)}s. Press R to restart.`;
+      } else if (gameOverTimeSeconds === null && latestAnalysis) {
+        setAnalysisSummary(latestAnalysis);
+      }
+      if (latestAnalysis) {
+        drawCurrentTimeline(latestAnalysis);
+      }
     }
   };
 
+  function readRunSeed(): number {
+    const seed = Number(seedInput.value);
+    return Number.isFinite(seed) ? seed : 7;
+  }
+
   async function startRun(mode: "start" | "restart"): Promise<void> {
-    if (!latestAnalysis || runStarting) {
+    if (!latestAnalysis) {
       return;
     }
 
-    const seed = Number(seedInput.value);
-    runStarting = true;
+    // Restart stays enabled while a run is preparing; a newer request
+    // cancels the pending one and its outcome is ignored.
+    const currentRunRequestId = ++runRequestId;
     runButton.disabled = true;
-    restartButton.disabled = true;
     summary.textContent =
       mode === "start"
         ? `Preparing synced run for ${latestAnalysis.fileName}...`
         : `Preparing restart for ${latestAnalysis.fileName}...`;
 
     try {
-      await handlers.onStartRun(latestAnalysis, Number.isFinite(seed) ? seed : 7);
+      await handlers.onStartRun(latestAnalysis, readRunSeed());
+      if (currentRunRequestId !== runRequestId) {
+        return;
+      }
       playbackTimeSeconds = 0;
       lastTimelineDrawPlaybackTime = -1;
       audio.currentTime = 0;
@@ -570,12 +838,16 @@ export function createAudioPanel(
           ? `Synced run started for ${latestAnalysis.fileName}`
           : `Run restarted for ${latestAnalysis.fileName}`;
     } catch (error) {
+      if (currentRunRequestId !== runRequestId) {
+        return;
+      }
       const message = error instanceof Error ? error.message : String(error);
       summary.textContent = `Run start failed: ${message}`;
     } finally {
-      runStarting = false;
-      runButton.disabled = latestAnalysis === null;
-      restartButton.disabled = latestAnalysis === null;
+      if (currentRunRequestId === runRequestId) {
+        runButton.disabled = latestAnalysis === null;
+        restartButton.disabled = latestAnalysis === null;
+      }
     }
   }
 }
@@ -603,7 +875,10 @@ function saveSeedToStorage(value: string): void {
 function drawTimeline(
   canvas: HTMLCanvasElement,
   analysis: AudioAnalysisResult,
-  playbackTimeSeconds = 0
+  playbackTimeSeconds = 0,
+  gameOverTimeSeconds: number | null = null,
+  view: TimelineView = { startSeconds: 0, endSeconds: analysis.durationSeconds },
+  cueEdit: CueEditOverlay | null = null
 ): void {
   const context = canvas.getContext("2d");
   if (!context) {
@@ -613,8 +888,16 @@ function drawTimeline(
   const { width, height } = prepareCanvasForHiDpi(canvas, context);
   context.clearRect(0, 0, width, height);
 
+  const viewSpanSeconds = Math.max(1e-6, view.endSeconds - view.startSeconds);
+  const timeToX = (timeSeconds: number): number =>
+    ((timeSeconds - view.startSeconds) / viewSpanSeconds) * width;
+  const durationSeconds = Math.max(1e-6, analysis.durationSeconds);
+  const viewStartRatio = view.startSeconds / durationSeconds;
+  const viewEndRatio = view.endSeconds / durationSeconds;
+
   context.fillStyle = "#050d1d";
   context.fillRect(0, 0, width, height);
+  drawSectionBands(context, analysis.sections, timeToX, width, height);
 
   const midY = Math.round(height * 0.5) + 0.5;
   context.strokeStyle = "rgba(95, 132, 196, 0.4)";
@@ -641,6 +924,8 @@ function drawTimeline(
     context,
     analysis.waveformLeft,
     width,
+    viewStartRatio,
+    viewEndRatio,
     topBaseY,
     topMaxHeight,
     "up",
@@ -652,6 +937,8 @@ function drawTimeline(
     context,
     analysis.waveformRight,
     width,
+    viewStartRatio,
+    viewEndRatio,
     bottomBaseY,
     bottomMaxHeight,
     "down",
@@ -659,17 +946,33 @@ function drawTimeline(
     "rgba(244, 114, 182, 0.24)"
   );
 
-  context.strokeStyle = "rgba(244, 114, 182, 0.9)";
-  context.lineWidth = 1;
-  for (const cue of analysis.cues) {
-    const x = (cue.timeSeconds / analysis.durationSeconds) * width;
+  if (cueEdit) {
+    drawCueEditOverlay(context, cueEdit, timeToX, width, height);
+  } else {
+    context.lineWidth = 1;
+    for (const cue of analysis.cues) {
+      const x = timeToX(cue.timeSeconds);
+      context.strokeStyle = getCueColor(cue);
+      context.beginPath();
+      context.moveTo(x, height);
+      context.lineTo(x, 0);
+      context.stroke();
+    }
+  }
+
+  if (gameOverTimeSeconds !== null) {
+    const gameOverX = Math.max(0, Math.min(width, timeToX(gameOverTimeSeconds)));
+    context.fillStyle = "rgba(5, 13, 29, 0.62)";
+    context.fillRect(gameOverX, 0, width - gameOverX, height);
+    context.strokeStyle = "rgba(248, 113, 113, 0.95)";
+    context.lineWidth = 2;
     context.beginPath();
-    context.moveTo(x, height);
-    context.lineTo(x, 0);
+    context.moveTo(gameOverX, 0);
+    context.lineTo(gameOverX, height);
     context.stroke();
   }
 
-  const playheadX = (playbackTimeSeconds / analysis.durationSeconds) * width;
+  const playheadX = timeToX(playbackTimeSeconds);
   const clampedPlayheadX = Math.max(0, Math.min(width, playheadX));
   context.strokeStyle = "rgba(251, 191, 36, 0.95)";
   context.lineWidth = 2;
@@ -679,10 +982,114 @@ function drawTimeline(
   context.stroke();
 }
 
+function getCueColor(cue: CuePoint): string {
+  return cue.band ? CUE_BAND_COLORS[cue.band] : CUE_DEFAULT_COLOR;
+}
+
+/** Beat grid plus cue handles whose height tracks cue strength. */
+function drawCueEditOverlay(
+  context: CanvasRenderingContext2D,
+  cueEdit: CueEditOverlay,
+  timeToX: (timeSeconds: number) => number,
+  width: number,
+  height: number
+): void {
+  const grid = cueEdit.gridTimesSeconds;
+  const gridSpacing = grid.length > 1 ? Math.abs(timeToX(grid[1]) - timeToX(grid[0])) : 0;
+  if (gridSpacing >= 4) {
+    context.strokeStyle = "rgba(148, 163, 184, 0.22)";
+    context.lineWidth = 1;
+    for (const timeSeconds of grid) {
+      const x = Math.round(timeToX(timeSeconds)) + 0.5;
+      if (x < 0 || x > width) {
+        continue;
+      }
+      context.beginPath();
+      context.moveTo(x, 0);
+      context.lineTo(x, height);
+      context.stroke();
+    }
+  }
+
+  const handleInset = 4;
+  cueEdit.cues.forEach((cue, index) => {
+    const x = timeToX(cue.timeSeconds);
+    if (x < -handleInset || x > width + handleInset) {
+      return;
+    }
+    const selected = index === cueEdit.selectedIndex;
+    const handleY = handleInset + (1 - cue.strength) * (height - handleInset * 2);
+    context.strokeStyle = selected
+      ? "rgba(253, 230, 138, 0.95)"
+      : `rgba(244, 114, 182, ${(0.35 + cue.strength * 0.55).toFixed(3)})`;
+    context.lineWidth = selected ? 2 : 1;
+    context.beginPath();
+    context.moveTo(x, height);
+    context.lineTo(x, handleY);
+    context.stroke();
+    context.fillStyle = selected ? "rgba(253, 230, 138, 1)" : getCueColor(cue);
+    context.beginPath();
+    context.arc(x, handleY, selected ? 4 : 3, 0, Math.PI * 2);
+    context.fill();
+  });
+}
+
+function formatMoodRange(analysis: AudioAnalysisResult): string {
+  const labels: string[] = [];
+  for (const point of analysis.mood.timeline) {
+    if (labels[labels.length - 1] !== point.label) {
+      labels.push(point.label);
+    }
+  }
+  if (labels.length <= 1) {
+    return analysis.mood.label;
+  }
+  // Long arcs collapse to their first and last moods to keep the summary short.
+  return labels.length > 3 ? `${labels[0]}\u2192\u2026\u2192${labels[labels.length - 1]}` : labels.join("\u2192");
+}
+
+function drawSectionBands(
+  context: CanvasRenderingContext2D,
+  sections: SongSection[],
+  timeToX: (timeSeconds: number) => number,
+  width: number,
+  height: number
+): void {
+  if (sections.length === 0) {
+    return;
+  }
+
+  context.save();
+  context.font = "10px Consolas, 'Courier New', monospace";
+  context.textBaseline = "top";
+  for (const section of sections) {
+    const startX = Math.max(0, timeToX(section.startSeconds));
+    const endX = Math.min(width, timeToX(section.endSeconds));
+    if (endX <= startX) {
+      continue;
+    }
+    context.fillStyle = SECTION_BAND_COLORS[section.label];
+    context.fillRect(startX, 0, endX - startX, height);
+    context.strokeStyle = "rgba(226, 232, 240, 0.22)";
+    context.lineWidth = 1;
+    context.beginPath();
+    context.moveTo(Math.round(startX) + 0.5, 0);
+    context.lineTo(Math.round(startX) + 0.5, height);
+    context.stroke();
+    if (endX - startX >= 36) {
+      context.fillStyle = "rgba(226, 232, 240, 0.62)";
+      context.fillText(section.label, startX + 4, 3);
+    }
+  }
+  context.restore();
+}
+
 function drawWaveformEnvelope(
   context: CanvasRenderingContext2D,
   envelope: Float32Array,
   width: number,
+  startRatio: number,
+  endRatio: number,
   baseY: number,
   maxHeight: number,
   direction: "up" | "down",
@@ -697,7 +1104,7 @@ function drawWaveformEnvelope(
   context.beginPath();
   context.moveTo(0, baseY);
   for (let x = 0; x < width; x += 1) {
-    const amplitude = sampleWaveform(envelope, x, width);
+    const amplitude = sampleWaveform(envelope, x, width, startRatio, endRatio);
     const y =
       direction === "up" ? baseY - amplitude * maxHeight : baseY + amplitude * maxHeight;
     context.lineTo(x, y);
@@ -710,7 +1117,7 @@ function drawWaveformEnvelope(
   context.lineWidth = 1.2;
   context.beginPath();
   for (let x = 0; x < width; x += 1) {
-    const amplitude = sampleWaveform(envelope, x, width);
+    const amplitude = sampleWaveform(envelope, x, width, startRatio, endRatio);
     const y =
       direction === "up" ? baseY - amplitude * maxHeight : baseY + amplitude * maxHeight;
     if (x === 0) {
@@ -722,11 +1129,17 @@ function drawWaveformEnvelope(
   context.stroke();
 }
 
-function sampleWaveform(envelope: Float32Array, x: number, width: number): number {
+function sampleWaveform(
+  envelope: Float32Array,
+  x: number,
+  width: number,
+  startRatio: number,
+  endRatio: number
+): number {
   if (envelope.length === 0) {
     return 0;
   }
-  const normalized = width <= 1 ? 0 : x / (width - 1);
+  const normalized = startRatio + (width <= 1 ? 0 : x / (width - 1)) * (endRatio - startRatio);
   const index = Math.min(envelope.length - 1, Math.floor(normalized * (envelope.length - 1)));
   return envelope[index] ?? 0;
 }
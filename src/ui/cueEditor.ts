@@ -0,0 +1,411 @@
+import {
+  buildSnapGrid,
+  createCueEditHistory,
+  findCueIndexNear,
+  insertCue,
+  moveCue,
+  removeCue,
+  setCueStrength,
+  snapTimeToGrid,
+  type CueSnapDivision
+} from "../audio/cue-editing";
+import type { AudioAnalysisResult, CuePoint } from "../audio/types";
+
+const CUE_HIT_TOLERANCE_PX = 6;
+const MIN_VIEW_SPAN_SECONDS = 2;
+const WHEEL_ZOOM_FACTOR = 1.25;
+const STRENGTH_KEY_STEP = 0.05;
+
+export type TimelineView = {
+  startSeconds: number;
+  endSeconds: number;
+};
+
+export type CueEditOverlay = {
+  cues: CuePoint[];
+  selectedIndex: number;
+  gridTimesSeconds: number[];
+};
+
+export type CueEditorHandlers = {
+  onRedraw: () => void;
+  onApply: (cues: CuePoint[]) => void;
+};
+
+export type CueEditor = {
+  isActive: () => boolean;
+  load: (analysis: AudioAnalysisResult | null) => void;
+  markApplied: () => void;
+  getView: (durationSeconds: number) => TimelineView;
+  getOverlay: () => CueEditOverlay | null;
+  getEditedCues: () => CuePoint[] | null;
+};
+
+type CueDrag = {
+  pointerId: number;
+  index: number;
+  adjustStrength: boolean;
+};
+
+export function createCueEditor(
+  toolbarHost: HTMLElement,
+  canvas: HTMLCanvasElement,
+  handlers: CueEditorHandlers
+): CueEditor {
+  const toolbar = document.createElement("div");
+  toolbar.className = "waveform-panel__toolbar";
+
+  const toggleButton = document.createElement("button");
+  toggleButton.type = "button";
+  toggleButton.className = "audio-controls__button waveform-panel__edit-toggle";
+  toggleButton.textContent = "Edit Cues";
+  toggleButton.disabled = true;
+
+  const controls = document.createElement("div");
+  controls.className = "waveform-panel__cue-controls waveform-panel__cue-controls--hidden";
+
+  const snapSelect = document.createElement("select");
+  snapSelect.className = "waveform-panel__snap";
+  snapSelect.title = "Snap cues to the beat grid";
+  for (const [label, value] of [
+    ["Snap off", "0"],
+    ["Snap 1/1", "1"],
+    ["Snap 1/2", "2"],
+    ["Snap 1/4", "4"]
+  ]) {
+    const option = document.createElement("option");
+    option.value = value;
+    option.textContent = label;
+    snapSelect.appendChild(option);
+  }
+  snapSelect.value = "1";
+
+  const zoomOutButton = createToolbarButton("−", "Zoom out");
+  const zoomInButton = createToolbarButton("+", "Zoom in");
+  const undoButton = createToolbarButton("Undo", "Undo (Ctrl+Z)");
+  const redoButton = createToolbarButton("Redo", "Redo (Ctrl+Shift+Z)");
+  const applyButton = createToolbarButton("Recompute Run", "Rebuild the run from the edited cues");
+  applyButton.classList.add("audio-controls__button--secondary");
+
+  const hint = document.createElement("span");
+  hint.className = "waveform-panel__hint";
+  hint.textContent =
+    "Click add | Drag move | Shift+drag strength | Right-click/Del remove | Wheel zoom";
+
+  controls.append(snapSelect, zoomOutButton, zoomInButton, undoButton, redoButton, applyButton, hint);
+  toolbar.append(toggleButton, controls);
+  toolbarHost.insertBefore(toolbar, canvas);
+
+  const history = createCueEditHistory([]);
+  let analysis: AudioAnalysisResult | null = null;
+  let active = false;
+  let selectedIndex = -1;
+  let snapDivision: CueSnapDivision = 1;
+  let snapGrid: number[] = [];
+  let beatGrid: number[] = [];
+  let view: TimelineView | null = null;
+  let drag: CueDrag | null = null;
+
+  const rebuildGrids = (): void => {
+    if (!analysis) {
+      snapGrid = [];
+      beatGrid = [];
+      return;
+    }
+    beatGrid = buildSnapGrid(analysis.beat.beatTimesSeconds, 1, analysis.durationSeconds);
+    snapGrid = buildSnapGrid(analysis.beat.beatTimesSeconds, snapDivision, analysis.durationSeconds);
+  };
+
+  const syncControls = (): void => {
+    toggleButton.disabled = analysis === null;
+    toggleButton.textContent = active ? "Done" : "Edit Cues";
+    controls.classList.toggle("waveform-panel__cue-controls--hidden", !active);
+    canvas.classList.toggle("waveform-panel__canvas--editing", active);
+    undoButton.disabled = !history.canUndo();
+    redoButton.disabled = !history.canRedo();
+    applyButton.disabled = !history.isEdited();
+  };
+
+  const refresh = (): void => {
+    syncControls();
+    handlers.onRedraw();
+  };
+
+  const getView = (durationSeconds: number): TimelineView =>
+    active && view ? view : { startSeconds: 0, endSeconds: durationSeconds };
+
+  const timeAtClientX = (clientX: number): number => {
+    const rect = canvas.getBoundingClientRect();
+    const current = getView(analysis?.durationSeconds ?? 0);
+    const ratio = rect.width > 0 ? clamp((clientX - rect.left) / rect.width, 0, 1) : 0;
+    return current.startSeconds + ratio * (current.endSeconds - current.startSeconds);
+  };
+
+  const strengthAtClientY = (clientY: number): number => {
+    const rect = canvas.getBoundingClientRect();
+    return rect.height > 0 ? clamp(1 - (clientY - rect.top) / rect.height, 0, 1) : 1;
+  };
+
+  const hitTolerance = (): number => {
+    const rect = canvas.getBoundingClientRect();
+    const current = getView(analysis?.durationSeconds ?? 0);
+    return rect.width > 0
+      ? (CUE_HIT_TOLERANCE_PX / rect.width) * (current.endSeconds - current.startSeconds)
+      : 0;
+  };
+
+  const zoom = (factor: number, anchorSeconds: number): void => {
+    if (!analysis) {
+      return;
+    }
+    const duration = analysis.durationSeconds;
+    const current = getView(duration);
+    const span = clamp(
+      (current.endSeconds - current.startSeconds) * factor,
+      Math.min(MIN_VIEW_SPAN_SECONDS, duration),
+      duration
+    );
+    const anchorRatio =
+      (anchorSeconds - current.startSeconds) / (current.endSeconds - current.startSeconds || 1);
+    const startSeconds = clamp(anchorSeconds - anchorRatio * span, 0, duration - span);
+    view = span >= duration ? null : { startSeconds, endSeconds: startSeconds + span };
+    handlers.onRedraw();
+  };
+
+  const pan = (fraction: number): void => {
+    if (!analysis || !view) {
+      return;
+    }
+    const span = view.endSeconds - view.startSeconds;
+    const startSeconds = clamp(view.startSeconds + span * fraction, 0, analysis.durationSeconds - span);
+    view = { startSeconds, endSeconds: startSeconds + span };
+    handlers.onRedraw();
+  };
+
+  const removeSelected = (): void => {
+    if (selectedIndex < 0) {
+      return;
+    }
+    history.commit(removeCue(history.getCues(), selectedIndex));
+    selectedIndex = -1;
+    refresh();
+  };
+
+  toggleButton.addEventListener("click", () => {
+    active = !active;
+    drag = null;
+    if (!active) {
+      view = null;
+      selectedIndex = -1;
+    }
+    refresh();
+  });
+
+  snapSelect.addEventListener("change", () => {
+    snapDivision = Number(snapSelect.value) as CueSnapDivision;
+    rebuildGrids();
+    handlers.onRedraw();
+  });
+
+  zoomInButton.addEventListener("click", () => {
+    const current = getView(analysis?.durationSeconds ?? 0);
+    zoom(1 / WHEEL_ZOOM_FACTOR, (current.startSeconds + current.endSeconds) * 0.5);
+  });
+
+  zoomOutButton.addEventListener("click", () => {
+    const current = getView(analysis?.durationSeconds ?? 0);
+    zoom(WHEEL_ZOOM_FACTOR, (current.startSeconds + current.endSeconds) * 0.5);
+  });
+
+  undoButton.addEventListener("click", () => {
+    if (history.undo()) {
+      selectedIndex = -1;
+      refresh();
+    }
+  });
+
+  redoButton.addEventListener("click", () => {
+    if (history.redo()) {
+      selectedIndex = -1;
+      refresh();
+    }
+  });
+
+  applyButton.addEventListener("click", () => {
+    handlers.onApply(history.getCues());
+  });
+
+  canvas.addEventListener("pointerdown", (event) => {
+    if (!active || !analysis || event.button !== 0) {
+      return;
+    }
+    const timeSeconds = timeAtClientX(event.clientX);
+    const cues = history.getCues();
+    const hitIndex = findCueIndexNear(cues, timeSeconds, hitTolerance());
+    if (hitIndex >= 0) {
+      selectedIndex = hitIndex;
+      drag = { pointerId: event.pointerId, index: hitIndex, adjustStrength: event.shiftKey };
+      canvas.setPointerCapture(event.pointerId);
+      refresh();
+      return;
+    }
+
+    const snapped = snapTimeToGrid(timeSeconds, snapGrid);
+    const inserted = insertCue(cues, {
+      timeSeconds: snapped,
+      strength: strengthAtClientY(event.clientY),
+      source: snapGrid.length > 0 ? "beat" : "peak"
+    });
+    history.commit(inserted.cues);
+    selectedIndex = inserted.index;
+    refresh();
+  });
+
+  canvas.addEventListener("pointermove", (event) => {
+    if (!drag || event.pointerId !== drag.pointerId) {
+      return;
+    }
+    const cues = history.getCues();
+    if (drag.adjustStrength) {
+      history.preview(setCueStrength(cues, drag.index, strengthAtClientY(event.clientY)));
+    } else {
+      const moved = moveCue(cues, drag.index, snapTimeToGrid(timeAtClientX(event.clientX), snapGrid));
+      history.preview(moved.cues);
+      drag.index = moved.index;
+      selectedIndex = moved.index;
+    }
+    handlers.onRedraw();
+  });
+
+  const endDrag = (event: PointerEvent): void => {
+    if (!drag || event.pointerId !== drag.pointerId) {
+      return;
+    }
+    drag = null;
+    history.commitPreview();
+    refresh();
+  };
+  canvas.addEventListener("pointerup", endDrag);
+  canvas.addEventListener("pointercancel", endDrag);
+
+  canvas.addEventListener("contextmenu", (event) => {
+    if (!active || !analysis) {
+      return;
+    }
+    event.preventDefault();
+    const hitIndex = findCueIndexNear(history.getCues(), timeAtClientX(event.clientX), hitTolerance());
+    if (hitIndex >= 0) {
+      selectedIndex = hitIndex;
+      removeSelected();
+    }
+  });
+
+  canvas.addEventListener(
+    "wheel",
+    (event) => {
+      if (!active || !analysis) {
+        return;
+      }
+      event.preventDefault();
+      if (event.shiftKey || Math.abs(event.deltaX) > Math.abs(event.deltaY)) {
+        const delta = event.shiftKey ? event.deltaY : event.deltaX;
+        pan(Math.sign(delta) * 0.15);
+        return;
+      }
+      zoom(event.deltaY > 0 ? WHEEL_ZOOM_FACTOR : 1 / WHEEL_ZOOM_FACTOR, timeAtClientX(event.clientX));
+    },
+    { passive: false }
+  );
+
+  window.addEventListener("keydown", (event) => {
+    if (!active) {
+      return;
+    }
+    const tag = (event.target as HTMLElement | null)?.tagName;
+    if (tag === "INPUT" || tag === "TEXTAREA" || tag === "SELECT") {
+      return;
+    }
+
+    const modifier = event.ctrlKey || event.metaKey;
+    if (modifier && event.code === "KeyZ") {
+      event.preventDefault();
+      if (event.shiftKey ? history.redo() : history.undo()) {
+        selectedIndex = -1;
+        refresh();
+      }
+      return;
+    }
+    if (modifier && event.code === "KeyY") {
+      event.preventDefault();
+      if (history.redo()) {
+        selectedIndex = -1;
+        refresh();
+      }
+      return;
+    }
+    if (selectedIndex < 0) {
+      return;
+    }
+    if (event.code === "Delete" || event.code === "Backspace") {
+      event.preventDefault();
+      removeSelected();
+      return;
+    }
+    if (event.code === "ArrowUp" || event.code === "ArrowDown") {
+      event.preventDefault();
+      const cues = history.getCues();
+      const step = event.code === "ArrowUp" ? STRENGTH_KEY_STEP : -STRENGTH_KEY_STEP;
+      history.commit(setCueStrength(cues, selectedIndex, cues[selectedIndex].strength + step));
+      refresh();
+    }
+  });
+
+  syncControls();
+
+  return {
+    isActive() {
+      return active;
+    },
+    load(nextAnalysis) {
+      analysis = nextAnalysis;
+      active = false;
+      view = null;
+      drag = null;
+      selectedIndex = -1;
+      history.reset(nextAnalysis?.cues ?? []);
+      rebuildGrids();
+      syncControls();
+    },
+    markApplied() {
+      history.markApplied();
+      syncControls();
+    },
+    getView,
+    getOverlay() {
+      if (!active) {
+        return null;
+      }
+      return {
+        cues: history.getCues(),
+        selectedIndex,
+        gridTimesSeconds: snapGrid.length > 0 ? snapGrid : beatGrid
+      };
+    },
+    getEditedCues() {
+      return history.isEdited() ? history.getCues() : null;
+    }
+  };
+}
+
+function createToolbarButton(label: string, title: string): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.type = "button";
+  button.className = "audio-controls__button waveform-panel__tool";
+  button.textContent = label;
+  button.title = title;
+  return button;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -1,6 +1,6 @@
 type TimelineCue = {
   timeSeconds: number;
-  source?: "beat" | "peak";
+  source?: "beat" | "peak" | "onset";
 };
 
 type EventTimelineMetrics = {
@@ -8,7 +8,12 @@ type EventTimelineMetrics = {
   audioTimeSeconds: number | null;
   cueResolvedCount: number;
   cueMissedCount: number;
+  perfectCount: number;
+  greatCount: number;
+  goodCount: number;
+  judgementMissCount: number;
   cues: TimelineCue[] | null;
+  bars: number[] | null;
   usingBeatFallback: boolean;
 };
 
@@ -45,7 +50,7 @@ export function createEventTimeline(container: HTMLElement): EventTimeline {
 
   const legend = document.createElement("p");
   legend.className = "event-timeline__legend";
-  legend.textContent = "Beat cue | Peak cue | Audio clock | SIM NOW";
+  legend.textContent = "Beat cue | Peak cue | Bar line | Audio clock | SIM NOW";
   rail.appendChild(legend);
 
   container.appendChild(rail);
@@ -159,6 +164,10 @@ function drawTimeline(
     metrics.simTimeSeconds
   );
 
+  if (metrics.bars) {
+    drawBarLines(context, metrics.bars, cssWidth, top, bottom, nowX, pixelsPerSecond, metrics.simTimeSeconds);
+  }
+
   context.strokeStyle = "rgba(134, 170, 221, 0.55)";
   context.lineWidth = 1;
   context.beginPath();
@@ -243,7 +252,9 @@ function drawTimeline(
   const sourceLabel = metrics.usingBeatFallback ? "Cue fallback" : "Beat events";
   statsNode.textContent =
     `SIM ${metrics.simTimeSeconds.toFixed(2)}s | Visible ${visibleCueCount} | ` +
-    `${sourceLabel} ${resolved}/${cueCount}`;
+    `${sourceLabel} ${resolved}/${cueCount} | ` +
+    `Perfect ${metrics.perfectCount} Great ${metrics.greatCount} ` +
+    `Good ${metrics.goodCount} Miss ${metrics.judgementMissCount}`;
 }
 
 function drawGrid(
@@ -287,3 +298,38 @@ function drawGrid(
   context.fillText("past", 6, top + 8);
   context.fillText("upcoming", nowX + 34, top + 8);
 }
+
+function drawBarLines(
+  context: CanvasRenderingContext2D,
+  bars: number[],
+  width: number,
+  top: number,
+  bottom: number,
+  nowX: number,
+  pixelsPerSecond: number,
+  simTimeSeconds: number
+): void {
+  context.strokeStyle = "rgba(167, 139, 250, 0.62)";
+  context.fillStyle = "rgba(196, 181, 253, 0.82)";
+  context.font = "10px Consolas, 'Courier New', monospace";
+  context.lineWidth = 1.5;
+
+  for (let i = 0; i < bars.length; i += 1) {
+    const delta = bars[i] - simTimeSeconds;
+    if (delta < -WINDOW_PAST_SECONDS) {
+      continue;
+    }
+    if (delta > WINDOW_FUTURE_SECONDS) {
+      break;
+    }
+    const bx = Math.round(nowX + delta * pixelsPerSecond) + 0.5;
+    if (bx < 0 || bx > width) {
+      continue;
+    }
+    context.beginPath();
+    context.moveTo(bx, top + 10);
+    context.lineTo(bx, bottom);
+    context.stroke();
+    context.fillText(`${i + 1}`, bx + 3, bottom + 10);
+  }
+}
@@ -0,0 +1,174 @@
+import type { PlaylistEntry, PlaylistQueue } from "./playlistQueue";
+
+export type PlaylistTrackStatus = "queued" | "preparing" | "ready" | "playing" | "played" | "failed";
+
+type PlaylistPanelHandlers = {
+  onPlay: (entry: PlaylistEntry<File>) => void;
+};
+
+export type PlaylistPanel = {
+  setTrackStatus: (id: number, status: PlaylistTrackStatus) => void;
+  setTrackScore: (id: number, score: number) => void;
+  setSessionScore: (total: number, tracksPlayed: number) => void;
+};
+
+const STATUS_LABELS: Record<PlaylistTrackStatus, string> = {
+  queued: "Queued",
+  preparing: "Preparing",
+  ready: "Ready",
+  playing: "Playing",
+  played: "Played",
+  failed: "Failed"
+};
+
+export function createPlaylistPanel(
+  container: HTMLElement,
+  queue: PlaylistQueue<File>,
+  handlers: PlaylistPanelHandlers
+): PlaylistPanel {
+  const panel = document.createElement("section");
+  panel.className = "playlist-panel playlist-panel--empty";
+
+  const header = document.createElement("div");
+  header.className = "playlist-panel__header";
+  const title = document.createElement("h2");
+  title.className = "playlist-panel__title";
+  const session = document.createElement("span");
+  session.className = "playlist-panel__session";
+
+  const shuffleButton = document.createElement("button");
+  shuffleButton.type = "button";
+  shuffleButton.className = "audio-controls__button audio-controls__button--secondary playlist-panel__action";
+  shuffleButton.textContent = "Shuffle";
+  shuffleButton.title = "Shuffle the tracks after the one playing";
+
+  const clearButton = document.createElement("button");
+  clearButton.type = "button";
+  clearButton.className = "audio-controls__button audio-controls__button--secondary playlist-panel__action";
+  clearButton.textContent = "Clear";
+  clearButton.title = "Empty the queue (the current track keeps playing)";
+
+  header.append(title, session, shuffleButton, clearButton);
+
+  const list = document.createElement("ol");
+  list.className = "playlist-panel__list";
+
+  panel.append(header, list);
+  container.appendChild(panel);
+
+  const statuses = new Map<number, PlaylistTrackStatus>();
+  const scores = new Map<number, number>();
+  let draggedId: number | null = null;
+
+  const render = (): void => {
+    const entries = queue.getEntries();
+    const currentId = queue.getCurrent()?.id ?? null;
+    panel.classList.toggle("playlist-panel--empty", entries.length === 0);
+    title.textContent = `Queue (${entries.length})`;
+    shuffleButton.disabled = entries.length < 2;
+    list.replaceChildren();
+
+    entries.forEach((entry, index) => {
+      const status = statuses.get(entry.id) ?? "queued";
+      const item = document.createElement("li");
+      item.className = "playlist-panel__item";
+      item.classList.toggle("playlist-panel__item--current", entry.id === currentId);
+      item.draggable = true;
+
+      const name = document.createElement("button");
+      name.type = "button";
+      name.className = "playlist-panel__name";
+      name.textContent = entry.item.name;
+      name.title = "Play now";
+      name.addEventListener("click", () => {
+        handlers.onPlay(entry);
+      });
+
+      const meta = document.createElement("span");
+      meta.className = `playlist-panel__status playlist-panel__status--${status}`;
+      const score = scores.get(entry.id);
+      meta.textContent =
+        score === undefined ? STATUS_LABELS[status] : `${STATUS_LABELS[status]} | ${formatScore(score)}`;
+
+      const removeButton = document.createElement("button");
+      removeButton.type = "button";
+      removeButton.className = "audio-controls__button playlist-panel__remove";
+      removeButton.textContent = "✕";
+      removeButton.title = "Remove from queue";
+      removeButton.setAttribute("aria-label", `Remove ${entry.item.name}`);
+      removeButton.addEventListener("click", () => {
+        queue.remove(entry.id);
+      });
+
+      item.addEventListener("dragstart", (event) => {
+        draggedId = entry.id;
+        event.dataTransfer?.setData("text/plain", String(entry.id));
+        item.classList.add("playlist-panel__item--dragging");
+      });
+      item.addEventListener("dragend", () => {
+        draggedId = null;
+        item.classList.remove("playlist-panel__item--dragging");
+      });
+      item.addEventListener("dragover", (event) => {
+        if (draggedId !== null) {
+          event.preventDefault();
+        }
+      });
+      item.addEventListener("drop", (event) => {
+        if (draggedId === null) {
+          return;
+        }
+        event.preventDefault();
+        queue.move(draggedId, index);
+        draggedId = null;
+      });
+
+      item.append(name, meta, removeButton);
+      list.appendChild(item);
+    });
+  };
+
+  shuffleButton.addEventListener("click", () => {
+    queue.shuffle();
+  });
+  clearButton.addEventListener("click", () => {
+    queue.clear();
+  });
+
+  queue.subscribe(() => {
+    const ids = new Set(queue.getEntries().map((entry) => entry.id));
+    for (const id of statuses.keys()) {
+      if (!ids.has(id)) {
+        statuses.delete(id);
+        scores.delete(id);
+      }
+    }
+    render();
+  });
+  render();
+
+  return {
+    setTrackStatus(id, status) {
+      if (statuses.get(id) === status) {
+        return;
+      }
+      statuses.set(id, status);
+      render();
+    },
+    setTrackScore(id, score) {
+      scores.set(id, score);
+      render();
+    },
+    setSessionScore(total, tracksPlayed) {
+      // Called every frame while a queued track plays.
+      const text = `Session ${formatScore(total)} | ${tracksPlayed} played`;
+      if (session.textContent !== text) {
+        session.textContent = text;
+      }
+    }
+  };
+}
+
+function formatScore(score: number): string {
+  return Math.round(score).toLocaleString("en-US");
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { createPlaylistQueue, type PlaylistQueue } from "./playlistQueue";
+
+function names(queue: PlaylistQueue<string>): string[] {
+  return queue.getEntries().map((entry) => entry.item);
+}
+
+describe("createPlaylistQueue", () => {
+  it("advances through tracks in order and peeks the next one", () => {
+    const queue = createPlaylistQueue<string>();
+    queue.add(["a", "b", "c"]);
+
+    expect(queue.getCurrent()).toBeNull();
+    expect(queue.peekNext()?.item).toBe("a");
+    expect(queue.advance()?.item).toBe("a");
+    expect(queue.peekNext()?.item).toBe("b");
+    queue.advance();
+    queue.advance();
+    expect(queue.getCurrent()?.item).toBe("c");
+    expect(queue.advance()).toBeNull();
+    expect(queue.getCurrent()?.item).toBe("c");
+  });
+
+  it("reorders and removes around the playing entry", () => {
+    const queue = createPlaylistQueue<string>();
+    const [a, b, c, d] = queue.add(["a", "b", "c", "d"]);
+    queue.select(b.id);
+
+    queue.move(d.id, 0);
+    expect(names(queue)).toEqual(["d", "a", "b", "c"]);
+    expect(queue.peekNext()?.item).toBe("c");
+
+    queue.remove(b.id);
+    expect(queue.getCurrent()?.item).toBe("a");
+    expect(queue.peekNext()?.item).toBe("c");
+
+    queue.remove(c.id);
+    queue.remove(a.id);
+    expect(queue.getCurrent()?.item).toBe("d");
+  });
+
+  it("shuffles only the upcoming entries and notifies subscribers", () => {
+    const queue = createPlaylistQueue<string>();
+    const [first] = queue.add(["a", "b", "c", "d", "e"]);
+    queue.select(first.id);
+    let notifications = 0;
+    const unsubscribe = queue.subscribe(() => {
+      notifications += 1;
+    });
+
+    queue.shuffle(() => 0);
+    expect(names(queue)[0]).toBe("a");
+    expect([...names(queue)].sort()).toEqual(["a", "b", "c", "d", "e"]);
+    expect(names(queue)).not.toEqual(["a", "b", "c", "d", "e"]);
+    expect(notifications).toBe(1);
+
+    unsubscribe();
+    queue.clear();
+    expect(notifications).toBe(1);
+    expect(queue.getEntries()).toHaveLength(0);
+  });
+});
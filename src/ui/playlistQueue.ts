@@ -0,0 +1,131 @@
+export type PlaylistEntry<T> = {
+  id: number;
+  item: T;
+};
+
+type PlaylistListener = () => void;
+
+/**
+ * Ordered track queue with a play cursor. Reordering and shuffling keep the
+ * current entry playing; shuffle only reorders what is still upcoming.
+ */
+export type PlaylistQueue<T> = {
+  getEntries: () => ReadonlyArray<PlaylistEntry<T>>;
+  getCurrent: () => PlaylistEntry<T> | null;
+  /** Entry that `advance` would move to, if any. */
+  peekNext: () => PlaylistEntry<T> | null;
+  add: (items: T[]) => Array<PlaylistEntry<T>>;
+  remove: (id: number) => void;
+  move: (id: number, toIndex: number) => void;
+  shuffle: (random?: () => number) => void;
+  select: (id: number) => PlaylistEntry<T> | null;
+  advance: () => PlaylistEntry<T> | null;
+  clear: () => void;
+  subscribe: (listener: PlaylistListener) => () => void;
+};
+
+export function createPlaylistQueue<T>(): PlaylistQueue<T> {
+  let entries: Array<PlaylistEntry<T>> = [];
+  let currentId: number | null = null;
+  let nextId = 1;
+  const listeners = new Set<PlaylistListener>();
+
+  const notify = (): void => {
+    for (const listener of listeners) {
+      listener();
+    }
+  };
+
+  const getCurrentIndex = (): number =>
+    currentId === null ? -1 : entries.findIndex((entry) => entry.id === currentId);
+
+  return {
+    getEntries() {
+      return entries;
+    },
+    getCurrent() {
+      const index = getCurrentIndex();
+      return index < 0 ? null : entries[index];
+    },
+    peekNext() {
+      return entries[getCurrentIndex() + 1] ?? null;
+    },
+    add(items) {
+      const added = items.map((item) => ({ id: nextId++, item }));
+      if (added.length === 0) {
+        return added;
+      }
+      entries = [...entries, ...added];
+      notify();
+      return added;
+    },
+    remove(id) {
+      const index = entries.findIndex((entry) => entry.id === id);
+      if (index < 0) {
+        return;
+      }
+      entries = entries.filter((entry) => entry.id !== id);
+      if (currentId === id) {
+        // The removed track keeps playing but the cursor steps back so the
+        // following entry is still next.
+        currentId = entries[index - 1]?.id ?? null;
+      }
+      notify();
+    },
+    move(id, toIndex) {
+      const fromIndex = entries.findIndex((entry) => entry.id === id);
+      if (fromIndex < 0) {
+        return;
+      }
+      const targetIndex = Math.max(0, Math.min(entries.length - 1, Math.round(toIndex)));
+      if (targetIndex === fromIndex) {
+        return;
+      }
+      const reordered = [...entries];
+      const [entry] = reordered.splice(fromIndex, 1);
+      reordered.splice(targetIndex, 0, entry);
+      entries = reordered;
+      notify();
+    },
+    shuffle(random = Math.random) {
+      const start = getCurrentIndex() + 1;
+      const upcoming = entries.slice(start);
+      if (upcoming.length < 2) {
+        return;
+      }
+      for (let i = upcoming.length - 1; i > 0; i -= 1) {
+        const j = Math.floor(random() * (i + 1));
+        [upcoming[i], upcoming[j]] = [upcoming[j], upcoming[i]];
+      }
+      entries = [...entries.slice(0, start), ...upcoming];
+      notify();
+    },
+    select(id) {
+      const entry = entries.find((candidate) => candidate.id === id) ?? null;
+      if (entry) {
+        currentId = entry.id;
+        notify();
+      }
+      return entry;
+    },
+    advance() {
+      const next = entries[getCurrentIndex() + 1] ?? null;
+      if (next) {
+        currentId = next.id;
+        notify();
+      }
+      return next;
+    },
+    clear() {
+      entries = [];
+      currentId = null;
+      notify();
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
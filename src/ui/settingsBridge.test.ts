@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { createSimulation } from "../game/sim";
+import type { ShipControlMode } from "../game/types";
+import { applyRunSettings, createSettingsBridge } from "./settingsBridge";
+
+describe("settings bridge", () => {
+  it("applies a pending control mode to the simulation before recomputing", async () => {
+    const sim = createSimulation();
+    let modeAtRecompute: ShipControlMode | null = null;
+    const bridge = createSettingsBridge(
+      {
+        onCombatConfigChange: (config) => sim.setCombatConfig(config),
+        onControlModeChange: (mode) => sim.setControlMode(mode),
+        onPresetChange: () => {},
+        onAddScene: () => "",
+        onRemoveScene: () => {},
+        onSceneSettingChange: () => {},
+        onEffectSettingChange: () => {}
+      },
+      () => true,
+      async () => {
+        modeAtRecompute = sim.getSnapshot().controlMode;
+      },
+      () => [],
+      () => "space",
+      () => () => {}
+    );
+
+    await applyRunSettings(bridge, "manual", { shipWeapons: { purple: true } });
+
+    expect(modeAtRecompute).toBe("manual");
+    expect(sim.getSnapshot().controlMode).toBe("manual");
+    expect(sim.getSnapshot().purpleMissileEnabled).toBe(true);
+  });
+});
@@ -1,4 +1,5 @@
 import type { CombatConfigPatch } from "../game/combatConfig";
+import type { ShipControlMode } from "../game/types";
 import type { SceneKind } from "../render/scenes/types";
 import type { StagePresetId } from "../render/scenes/sceneManager";
 
@@ -8,6 +9,7 @@ export type SceneListEntry = { id: string; kind: SceneKind };
 
 export type SettingsHandlers = {
 	onCombatConfigChange: (config: CombatConfigPatch) => void;
+	onControlModeChange: (mode: ShipControlMode) => void;
 	onPresetChange: (preset: StagePresetId) => void;
 	onAddScene: (kind: SceneKind) => string;
 	onRemoveScene: (sceneId: string) => void;
@@ -27,6 +29,9 @@ export type SettingsBridge = {
 	setHidden: (hidden: boolean) => void;
 	getHidden: () => boolean;
 	subscribeHidden: (cb: (hidden: boolean) => void) => () => void;
+	/** Pushes an externally loaded config (e.g. an imported file) into the panel. */
+	setCombatConfig: (config: CombatConfigPatch) => void;
+	subscribeCombatConfig: (cb: (config: CombatConfigPatch) => void) => () => void;
 };
 
 export function createSettingsBridge(
@@ -39,6 +44,7 @@ export function createSettingsBridge(
 ): SettingsBridge {
 	const songListeners = new Set<() => void>();
 	const hiddenListeners = new Set<(hidden: boolean) => void>();
+	const combatConfigListeners = new Set<(config: CombatConfigPatch) => void>();
 	let hidden = true;
 
 	return {
@@ -66,5 +72,26 @@ export function createSettingsBridge(
 			hiddenListeners.add(cb);
 			return () => { hiddenListeners.delete(cb); };
 		},
+		setCombatConfig(config) {
+			for (const cb of combatConfigListeners) cb(config);
+		},
+		subscribeCombatConfig(cb) {
+			combatConfigListeners.add(cb);
+			return () => { combatConfigListeners.delete(cb); };
+		},
 	};
 }
+
+/**
+ * Pushes the panel's pending run settings to the host, then recomputes the
+ * run with them. The control mode goes first so the recompute sees it.
+ */
+export async function applyRunSettings(
+	bridge: Pick<SettingsBridge, "handlers" | "requestRecompute">,
+	controlMode: ShipControlMode,
+	combatConfig: CombatConfigPatch,
+): Promise<void> {
+	bridge.handlers.onControlModeChange(controlMode);
+	bridge.handlers.onCombatConfigChange(combatConfig);
+	await bridge.requestRecompute();
+}
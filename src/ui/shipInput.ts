@@ -0,0 +1,129 @@
+import type { ShipControlInput } from "../game/types";
+
+const GAMEPAD_DEADZONE = 0.18;
+const GAMEPAD_DPAD_UP = 12;
+const GAMEPAD_DPAD_DOWN = 13;
+const GAMEPAD_DPAD_LEFT = 14;
+const GAMEPAD_DPAD_RIGHT = 15;
+
+const LEFT_KEYS = new Set(["KeyA", "ArrowLeft"]);
+const RIGHT_KEYS = new Set(["KeyD", "ArrowRight"]);
+const UP_KEYS = new Set(["KeyW", "ArrowUp"]);
+const DOWN_KEYS = new Set(["KeyS", "ArrowDown"]);
+
+export type ShipInputSource = {
+  sample: () => ShipControlInput;
+  dispose: () => void;
+};
+
+export function createShipInput(target: Window = window): ShipInputSource {
+  const pressed = new Set<string>();
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (isEditableTarget(event.target) || !isMovementKey(event.code)) {
+      return;
+    }
+    if (event.code.startsWith("Arrow")) {
+      event.preventDefault();
+    }
+    pressed.add(event.code);
+  };
+
+  const onKeyUp = (event: KeyboardEvent) => {
+    pressed.delete(event.code);
+  };
+
+  const onBlur = () => {
+    pressed.clear();
+  };
+
+  target.addEventListener("keydown", onKeyDown);
+  target.addEventListener("keyup", onKeyUp);
+  target.addEventListener("blur", onBlur);
+
+  return {
+    sample() {
+      let moveX = axisFromKeys(pressed, LEFT_KEYS, RIGHT_KEYS);
+      let moveY = axisFromKeys(pressed, DOWN_KEYS, UP_KEYS);
+      const pad = readGamepad(target.navigator);
+      if (pad) {
+        moveX += pad.moveX;
+        moveY += pad.moveY;
+      }
+      return {
+        moveX: clamp(moveX, -1, 1),
+        moveY: clamp(moveY, -1, 1)
+      };
+    },
+    dispose() {
+      target.removeEventListener("keydown", onKeyDown);
+      target.removeEventListener("keyup", onKeyUp);
+      target.removeEventListener("blur", onBlur);
+      pressed.clear();
+    }
+  };
+}
+
+function readGamepad(nav: Navigator): ShipControlInput | null {
+  if (typeof nav.getGamepads !== "function") {
+    return null;
+  }
+  for (const pad of nav.getGamepads()) {
+    if (!pad || !pad.connected) {
+      continue;
+    }
+    const stickX = applyDeadzone(pad.axes[0] ?? 0);
+    // Gamepad Y axes report +1 for down; the sim uses +y for up.
+    const stickY = -applyDeadzone(pad.axes[1] ?? 0);
+    const dpadX =
+      (isButtonPressed(pad, GAMEPAD_DPAD_RIGHT) ? 1 : 0) -
+      (isButtonPressed(pad, GAMEPAD_DPAD_LEFT) ? 1 : 0);
+    const dpadY =
+      (isButtonPressed(pad, GAMEPAD_DPAD_UP) ? 1 : 0) -
+      (isButtonPressed(pad, GAMEPAD_DPAD_DOWN) ? 1 : 0);
+    return { moveX: stickX + dpadX, moveY: stickY + dpadY };
+  }
+  return null;
+}
+
+function isButtonPressed(pad: Gamepad, index: number): boolean {
+  return pad.buttons[index]?.pressed === true;
+}
+
+function applyDeadzone(value: number): number {
+  const magnitude = Math.abs(value);
+  if (magnitude < GAMEPAD_DEADZONE) {
+    return 0;
+  }
+  const scaled = (magnitude - GAMEPAD_DEADZONE) / (1 - GAMEPAD_DEADZONE);
+  return Math.sign(value) * Math.min(1, scaled);
+}
+
+function axisFromKeys(pressed: Set<string>, negative: Set<string>, positive: Set<string>): number {
+  let value = 0;
+  for (const code of pressed) {
+    if (negative.has(code)) value -= 1;
+    if (positive.has(code)) value += 1;
+  }
+  return clamp(value, -1, 1);
+}
+
+function isMovementKey(code: string): boolean {
+  return LEFT_KEYS.has(code) || RIGHT_KEYS.has(code) || UP_KEYS.has(code) || DOWN_KEYS.has(code);
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  return (
+    target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.tagName === "SELECT" ||
+    target.isContentEditable
+  );
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}